@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { GET as getFavorites } from '../courses/favorites/route'
+import { PUT as saveFavorite, DELETE as removeFavorite } from '../courses/[id]/favorite/route'
+import { mockPrismaCourse, mockPrismaCourseFavorite, mockPrismaRound, resetMocks } from './mocks/prisma'
+import { getCurrentUser } from '@/lib/auth-utils'
+import { NextRequest } from 'next/server'
+
+// Mock auth helpers from auth-utils
+vi.mock('@/lib/auth-utils', () => ({
+  getCurrentUser: vi.fn(),
+  createAuthErrorResponse: vi.fn((error: Error, status: number) => {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  })
+}))
+
+// Mock console methods to avoid cluttering test output
+vi.spyOn(console, 'error').mockImplementation(() => {})
+
+const teeSet = (id: number, name: string, gender: 'MALE' | 'FEMALE' | null) => ({
+  id,
+  courseId: 3,
+  name,
+  gender,
+  courseRating: 72.1,
+  slopeRating: 130,
+  bogeyRating: null,
+  totalYards: 6400,
+  totalMeters: null,
+  numberOfHoles: 18,
+  parTotal: 72,
+  frontCourseRating: null,
+  frontSlopeRating: null,
+  frontBogeyRating: null,
+  backCourseRating: null,
+  backSlopeRating: null,
+  backBogeyRating: null,
+  holes: [],
+})
+
+const course = {
+  id: 3,
+  externalId: 12345,
+  clubName: 'Pebble Beach Golf Links',
+  courseName: 'Pebble Beach',
+  address: null,
+  city: null,
+  state: null,
+  country: null,
+  latitude: null,
+  longitude: null,
+  teeSets: [teeSet(10, 'Blue', 'MALE'), teeSet(11, 'Red', 'FEMALE')],
+}
+
+function favoriteRequest(method: string, body?: unknown) {
+  return new NextRequest('http://localhost:3000/api/courses/3/favorite', {
+    method,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+}
+
+describe('GET /api/courses/favorites', () => {
+  beforeEach(() => {
+    resetMocks()
+    vi.mocked(getCurrentUser).mockResolvedValue({ id: '1', role: 'USER' } as any)
+  })
+
+  it('should return favorites with their preferred tee and recently played tees', async () => {
+    mockPrismaCourseFavorite.findMany.mockResolvedValue([
+      { id: 1, userId: 1, courseId: 3, teeSetId: 11, gender: null, course, teeSet: { gender: 'FEMALE' } },
+    ])
+    mockPrismaRound.findMany.mockResolvedValue([
+      { datePlayed: new Date('2024-06-01'), teeSet: { ...teeSet(10, 'Blue', 'MALE'), course } },
+    ])
+
+    const response = await getFavorites()
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.favorites).toHaveLength(1)
+    expect(data.favorites[0]).toMatchObject({ teeSetId: 11, gender: 'female' })
+    expect(data.favorites[0].course).toMatchObject({ id: 12345, catalog_id: 3, club_name: 'Pebble Beach Golf Links' })
+    expect(data.recent).toEqual([expect.objectContaining({
+      teeSetId: 10,
+      gender: 'male',
+      lastPlayed: '2024-06-01T00:00:00.000Z',
+    })])
+    expect(mockPrismaRound.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { userId: 1, teeSetId: { not: null } },
+      orderBy: { datePlayed: 'desc' },
+      distinct: ['teeSetId'],
+    }))
+  })
+
+  it('should return 401 when not signed in', async () => {
+    vi.mocked(getCurrentUser).mockRejectedValue(new Error('Unauthorized'))
+
+    const response = await getFavorites()
+
+    expect(response.status).toBe(401)
+  })
+})
+
+describe('PUT /api/courses/[id]/favorite', () => {
+  beforeEach(() => {
+    resetMocks()
+    vi.mocked(getCurrentUser).mockResolvedValue({ id: '1', role: 'USER' } as any)
+    mockPrismaCourse.findUnique.mockResolvedValue({ id: 3, teeSets: [{ id: 10 }, { id: 11 }] })
+  })
+
+  it('should save the course with its preferred tee and gender', async () => {
+    mockPrismaCourseFavorite.upsert.mockResolvedValue({ id: 1, userId: 1, courseId: 3, teeSetId: 10, gender: 'MALE' })
+
+    const response = await saveFavorite(
+      favoriteRequest('PUT', { teeSetId: 10, gender: 'MALE' }),
+      { params: Promise.resolve({ id: '3' }) }
+    )
+
+    expect(response.status).toBe(200)
+    expect(mockPrismaCourseFavorite.upsert).toHaveBeenCalledWith({
+      where: { userId_courseId: { userId: 1, courseId: 3 } },
+      create: { userId: 1, courseId: 3, teeSetId: 10, gender: 'MALE' },
+      update: { teeSetId: 10, gender: 'MALE' },
+    })
+  })
+
+  it('should reject a tee from another course', async () => {
+    const response = await saveFavorite(
+      favoriteRequest('PUT', { teeSetId: 99 }),
+      { params: Promise.resolve({ id: '3' }) }
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data.error).toBe('Tee set does not belong to this course')
+    expect(mockPrismaCourseFavorite.upsert).not.toHaveBeenCalled()
+  })
+
+  it('should return 404 for a course the user cannot see', async () => {
+    mockPrismaCourse.findUnique.mockResolvedValue(null)
+
+    const response = await saveFavorite(favoriteRequest('PUT', {}), { params: Promise.resolve({ id: '3' }) })
+
+    expect(response.status).toBe(404)
+  })
+})
+
+describe('DELETE /api/courses/[id]/favorite', () => {
+  beforeEach(() => {
+    resetMocks()
+    vi.mocked(getCurrentUser).mockResolvedValue({ id: '1', role: 'USER' } as any)
+  })
+
+  it('should remove only the current user\'s favorite', async () => {
+    mockPrismaCourseFavorite.deleteMany.mockResolvedValue({ count: 1 })
+
+    const response = await removeFavorite(favoriteRequest('DELETE'), { params: Promise.resolve({ id: '3' }) })
+
+    expect(response.status).toBe(200)
+    expect(mockPrismaCourseFavorite.deleteMany).toHaveBeenCalledWith({ where: { userId: 1, courseId: 3 } })
+  })
+})
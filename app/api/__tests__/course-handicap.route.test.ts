@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { GET } from '../handicap/course-handicap/route'
+import { mockPrismaUser, resetMocks } from './mocks/prisma'
+import { NextRequest } from 'next/server'
+
+// Mock auth helpers from auth-utils
+vi.mock('@/lib/auth-utils', () => ({
+  getCurrentUser: vi.fn().mockResolvedValue({
+    id: '1',
+    email: 'test@example.com',
+    name: 'Test User',
+    role: 'USER'
+  }),
+  requireResourceAccess: vi.fn(async (userId: number) => {
+    if (userId !== 1) {
+      throw new Error("Forbidden: You don't have access to this resource")
+    }
+  }),
+  createAuthErrorResponse: vi.fn((error: Error, status: number) => {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  })
+}))
+
+// Mock console methods to avoid cluttering test output
+vi.spyOn(console, 'error').mockImplementation(() => {})
+
+const buildRequest = (query: string) =>
+  new NextRequest(`http://localhost:3000/api/handicap/course-handicap?${query}`)
+
+describe('GET /api/handicap/course-handicap', () => {
+  beforeEach(() => {
+    resetMocks()
+  })
+
+  it("should calculate course and playing handicap from the user's index", async () => {
+    mockPrismaUser.findUnique.mockResolvedValue({ handicapIndex: 15.2 })
+
+    const response = await GET(buildRequest('courseRating=73.1&slopeRating=135&par=72'))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data).toEqual({
+      handicapIndex: 15.2,
+      courseHandicap: 19,
+      playingHandicap: 18,
+      format: 'stroke-play',
+      allowance: 95,
+    })
+    expect(mockPrismaUser.findUnique).toHaveBeenCalledWith({
+      where: { id: 1 },
+      select: { handicapIndex: true },
+    })
+  })
+
+  it('should apply the allowance for the requested format', async () => {
+    mockPrismaUser.findUnique.mockResolvedValue({ handicapIndex: 15.2 })
+
+    const response = await GET(buildRequest('courseRating=73.1&slopeRating=135&par=72&format=four-ball-stroke-play'))
+    const data = await response.json()
+
+    expect(data.allowance).toBe(85)
+    expect(data.playingHandicap).toBe(16)
+  })
+
+  it('should use an explicit handicap index without looking up the user', async () => {
+    const response = await GET(buildRequest('courseRating=72&slopeRating=113&par=72&handicapIndex=-2.0&allowance=100'))
+    const data = await response.json()
+
+    expect(data.courseHandicap).toBe(-2)
+    expect(data.playingHandicap).toBe(-2)
+    expect(mockPrismaUser.findUnique).not.toHaveBeenCalled()
+  })
+
+  it('should return 400 when the user has no handicap index', async () => {
+    mockPrismaUser.findUnique.mockResolvedValue({ handicapIndex: null })
+
+    const response = await GET(buildRequest('courseRating=72&slopeRating=113&par=72'))
+
+    expect(response.status).toBe(400)
+  })
+
+  it('should return 400 for missing tee ratings', async () => {
+    const response = await GET(buildRequest('par=72'))
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data.error).toBe('Validation error')
+  })
+
+  it("should return 403 for another user's index", async () => {
+    const response = await GET(buildRequest('courseRating=72&slopeRating=113&par=72&userId=2'))
+
+    expect(response.status).toBe(403)
+  })
+})
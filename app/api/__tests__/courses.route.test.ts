@@ -0,0 +1,329 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { GET as listCourses, POST as createCourse } from '../courses/route'
+import { GET as getCourse, PATCH as reviewCourse } from '../courses/[id]/route'
+import { POST as mergeCourse } from '../courses/[id]/merge/route'
+import {
+  mockPrismaCourse,
+  mockPrismaCourseFavorite,
+  mockPrismaRound,
+  mockPrismaTeeSet,
+  resetMocks,
+} from './mocks/prisma'
+import { getCurrentUser, requireAdmin } from '@/lib/auth-utils'
+import { NextRequest } from 'next/server'
+
+// Mock auth helpers from auth-utils
+vi.mock('@/lib/auth-utils', () => ({
+  getCurrentUser: vi.fn(),
+  requireAdmin: vi.fn(),
+  createAuthErrorResponse: vi.fn((error: Error, status: number) => {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  })
+}))
+
+// Mock console methods to avoid cluttering test output
+vi.spyOn(console, 'error').mockImplementation(() => {})
+
+const pebbleBeach = {
+  id: 3,
+  externalId: 12345,
+  clubName: 'Pebble Beach Golf Links',
+  courseName: 'Pebble Beach',
+  address: '1700 17-Mile Drive',
+  city: 'Pebble Beach',
+  state: 'California',
+  country: 'United States',
+  latitude: 36.5674,
+  longitude: -121.95,
+}
+
+describe('GET /api/courses', () => {
+  beforeEach(() => {
+    resetMocks()
+    vi.mocked(getCurrentUser).mockResolvedValue({
+      id: '1',
+      email: 'test@example.com',
+      name: 'Test User',
+      role: 'USER'
+    } as any)
+  })
+
+  it('should list catalog courses with display names and tee counts', async () => {
+    mockPrismaCourse.findMany.mockResolvedValue([{ ...pebbleBeach, _count: { teeSets: 4 } }])
+
+    const response = await listCourses(new NextRequest('http://localhost:3000/api/courses'))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.courses).toEqual([
+      { ...pebbleBeach, name: 'Pebble Beach Golf Links - Pebble Beach', teeSetCount: 4 },
+    ])
+    // Unverified courses entered by other users are hidden
+    expect(mockPrismaCourse.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { AND: [{ OR: [{ verified: true }, { createdById: null }, { createdById: 1 }] }] },
+    }))
+  })
+
+  it('should search club and course names and limit to played courses', async () => {
+    mockPrismaCourse.findMany.mockResolvedValue([])
+
+    const response = await listCourses(
+      new NextRequest('http://localhost:3000/api/courses?query=pebble&played=true')
+    )
+
+    expect(response.status).toBe(200)
+    expect(mockPrismaCourse.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: {
+        AND: [{ OR: [{ verified: true }, { createdById: null }, { createdById: 1 }] }],
+        OR: [
+          { clubName: { contains: 'pebble', mode: 'insensitive' } },
+          { courseName: { contains: 'pebble', mode: 'insensitive' } },
+        ],
+        teeSets: { some: { rounds: { some: { userId: 1 } } } },
+      },
+    }))
+  })
+
+  it('should list pending custom courses for review', async () => {
+    vi.mocked(getCurrentUser).mockResolvedValue({ id: '2', role: 'ADMIN' } as any)
+    mockPrismaCourse.findMany.mockResolvedValue([])
+
+    const response = await listCourses(
+      new NextRequest('http://localhost:3000/api/courses?status=pending&custom=true')
+    )
+
+    expect(response.status).toBe(200)
+    expect(mockPrismaCourse.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { AND: [{}], verified: false, externalId: null },
+    }))
+  })
+
+  it('should reject an invalid played flag', async () => {
+    const response = await listCourses(new NextRequest('http://localhost:3000/api/courses?played=yes'))
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data.error).toBe('Validation error')
+  })
+
+  it('should return 401 when not signed in', async () => {
+    vi.mocked(getCurrentUser).mockRejectedValue(new Error('Unauthorized'))
+
+    const response = await listCourses(new NextRequest('http://localhost:3000/api/courses'))
+
+    expect(response.status).toBe(401)
+  })
+})
+
+describe('GET /api/courses/[id]', () => {
+  beforeEach(() => {
+    resetMocks()
+    vi.mocked(getCurrentUser).mockResolvedValue({
+      id: '1',
+      email: 'test@example.com',
+      name: 'Test User',
+      role: 'USER'
+    } as any)
+  })
+
+  it('should return the course with its tees and holes', async () => {
+    const teeSets = [{
+      id: 10,
+      courseId: 3,
+      name: 'Blue',
+      gender: 'MALE',
+      courseRating: 74.9,
+      slopeRating: 144,
+      holes: [{ id: 1, teeSetId: 10, holeNumber: 1, par: 4, yardage: 380, strokeIndex: 8 }],
+    }]
+    mockPrismaCourse.findUnique.mockResolvedValue({ ...pebbleBeach, teeSets })
+
+    const response = await getCourse(
+      new NextRequest('http://localhost:3000/api/courses/3'),
+      { params: Promise.resolve({ id: '3' }) }
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.name).toBe('Pebble Beach Golf Links - Pebble Beach')
+    expect(data.teeSets).toEqual(teeSets)
+    expect(mockPrismaCourse.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 3, AND: [{ OR: [{ verified: true }, { createdById: null }, { createdById: 1 }] }] },
+    }))
+  })
+
+  it('should return 404 for an unknown course', async () => {
+    mockPrismaCourse.findUnique.mockResolvedValue(null)
+
+    const response = await getCourse(
+      new NextRequest('http://localhost:3000/api/courses/99'),
+      { params: Promise.resolve({ id: '99' }) }
+    )
+
+    expect(response.status).toBe(404)
+  })
+})
+
+describe('POST /api/courses', () => {
+  const customCourse = {
+    clubName: 'Riverside Golf Club',
+    city: 'Springfield',
+    teeSets: [{
+      name: 'White',
+      gender: 'MALE',
+      courseRating: 33.1,
+      slopeRating: 112,
+      holes: Array.from({ length: 9 }, (_, i) => ({ par: 4, yardage: 320, strokeIndex: i * 2 + 1 })),
+    }],
+  }
+
+  beforeEach(() => {
+    resetMocks()
+    vi.mocked(getCurrentUser).mockResolvedValue({ id: '1', role: 'USER' } as any)
+  })
+
+  it('should add an unverified course for the current user', async () => {
+    mockPrismaCourse.create.mockResolvedValue({
+      id: 20,
+      clubName: 'Riverside Golf Club',
+      courseName: 'Riverside Golf Club',
+      verified: false,
+      teeSets: [],
+    })
+
+    const response = await createCourse(new NextRequest('http://localhost:3000/api/courses', {
+      method: 'POST',
+      body: JSON.stringify(customCourse),
+    }))
+    const data = await response.json()
+
+    expect(response.status).toBe(201)
+    expect(data.name).toBe('Riverside Golf Club')
+    expect(mockPrismaCourse.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ clubName: 'Riverside Golf Club', createdById: 1, verified: false }),
+    }))
+  })
+
+  it('should reject tees without 9 or 18 holes', async () => {
+    const response = await createCourse(new NextRequest('http://localhost:3000/api/courses', {
+      method: 'POST',
+      body: JSON.stringify({
+        ...customCourse,
+        teeSets: [{ ...customCourse.teeSets[0], holes: customCourse.teeSets[0].holes.slice(0, 6) }],
+      }),
+    }))
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data.error).toBe('Validation error')
+    expect(mockPrismaCourse.create).not.toHaveBeenCalled()
+  })
+
+  it('should reject repeated stroke indexes', async () => {
+    const response = await createCourse(new NextRequest('http://localhost:3000/api/courses', {
+      method: 'POST',
+      body: JSON.stringify({
+        ...customCourse,
+        teeSets: [{ ...customCourse.teeSets[0], holes: customCourse.teeSets[0].holes.map((hole) => ({ ...hole, strokeIndex: 1 })) }],
+      }),
+    }))
+
+    expect(response.status).toBe(400)
+  })
+})
+
+describe('PATCH /api/courses/[id]', () => {
+  beforeEach(() => {
+    resetMocks()
+  })
+
+  it('should let admins verify a course', async () => {
+    vi.mocked(requireAdmin).mockResolvedValue({ id: '2', role: 'ADMIN' } as any)
+    mockPrismaCourse.findUnique.mockResolvedValue({ id: 20 })
+    mockPrismaCourse.update.mockResolvedValue({
+      id: 20,
+      clubName: 'Riverside Golf Club',
+      courseName: 'Riverside Golf Club',
+      verified: true,
+      teeSets: [],
+    })
+
+    const response = await reviewCourse(
+      new NextRequest('http://localhost:3000/api/courses/20', { method: 'PATCH', body: JSON.stringify({ verified: true }) }),
+      { params: Promise.resolve({ id: '20' }) }
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.verified).toBe(true)
+    expect(mockPrismaCourse.update).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 20 },
+      data: { verified: true },
+    }))
+  })
+
+  it('should return 403 for non-admins', async () => {
+    vi.mocked(requireAdmin).mockRejectedValue(new Error('Forbidden: Admin access required'))
+
+    const response = await reviewCourse(
+      new NextRequest('http://localhost:3000/api/courses/20', { method: 'PATCH', body: JSON.stringify({ verified: true }) }),
+      { params: Promise.resolve({ id: '20' }) }
+    )
+
+    expect(response.status).toBe(403)
+    expect(mockPrismaCourse.update).not.toHaveBeenCalled()
+  })
+})
+
+describe('POST /api/courses/[id]/merge', () => {
+  beforeEach(() => {
+    resetMocks()
+    vi.mocked(requireAdmin).mockResolvedValue({ id: '2', role: 'ADMIN' } as any)
+  })
+
+  it('should merge a duplicate into the target course', async () => {
+    mockPrismaCourse.findUnique
+      .mockResolvedValueOnce({ id: 20, externalId: null, verified: false, teeSets: [{ id: 30, name: 'White', gender: 'MALE' }] })
+      .mockResolvedValueOnce({ id: 3, externalId: 12345, verified: true, teeSets: [{ id: 10, name: 'White', gender: 'MALE' }] })
+    mockPrismaCourse.update.mockResolvedValue({ ...pebbleBeach, verified: true, teeSets: [] })
+    mockPrismaCourseFavorite.findMany.mockResolvedValue([{ id: 1, userId: 7, courseId: 20, teeSetId: 30 }])
+    mockPrismaRound.findMany.mockResolvedValue([])
+
+    const response = await mergeCourse(
+      new NextRequest('http://localhost:3000/api/courses/20/merge', { method: 'POST', body: JSON.stringify({ targetCourseId: 3 }) }),
+      { params: Promise.resolve({ id: '20' }) }
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.id).toBe(3)
+    expect(mockPrismaRound.updateMany).toHaveBeenCalledWith({ where: { teeSetId: 30 }, data: { teeSetId: 10 } })
+    expect(mockPrismaTeeSet.delete).toHaveBeenCalledWith({ where: { id: 30 } })
+    expect(mockPrismaCourseFavorite.update).toHaveBeenCalledWith({ where: { id: 1 }, data: { courseId: 3, teeSetId: 10 } })
+    expect(mockPrismaCourse.delete).toHaveBeenCalledWith({ where: { id: 20 } })
+  })
+
+  it('should not merge a course into itself', async () => {
+    const response = await mergeCourse(
+      new NextRequest('http://localhost:3000/api/courses/3/merge', { method: 'POST', body: JSON.stringify({ targetCourseId: 3 }) }),
+      { params: Promise.resolve({ id: '3' }) }
+    )
+
+    expect(response.status).toBe(400)
+    expect(mockPrismaCourse.delete).not.toHaveBeenCalled()
+  })
+
+  it('should return 404 when a course does not exist', async () => {
+    mockPrismaCourse.findUnique.mockResolvedValue(null)
+
+    const response = await mergeCourse(
+      new NextRequest('http://localhost:3000/api/courses/20/merge', { method: 'POST', body: JSON.stringify({ targetCourseId: 99 }) }),
+      { params: Promise.resolve({ id: '20' }) }
+    )
+
+    expect(response.status).toBe(404)
+  })
+})
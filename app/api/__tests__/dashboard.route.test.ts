@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { GET } from '../dashboard/route'
-import { mockPrismaUser, resetMocks } from './mocks/prisma'
+import { mockPrismaUser, mockPrismaHandicapRevision, resetMocks } from './mocks/prisma'
 
 // Mock getCurrentUser from auth-utils
 vi.mock('@/lib/auth-utils', () => ({
@@ -105,6 +105,8 @@ describe('GET /api/dashboard', () => {
             upAndDowns: true,
             upAndDownAttempts: true,
             handicapDifferential: true,
+            exceptionalScoreAdjustment: true,
+            createdAt: true,
           },
           orderBy: {
             datePlayed: 'desc',
@@ -257,6 +259,44 @@ describe('GET /api/dashboard', () => {
     expect(data.recentRounds[4].courseName).toBe('Course 5')
   })
 
+  it('should cap the index against the Low Handicap Index', async () => {
+    const mockUserFullRecord = {
+      handicapIndex: 10.0,
+      Round: Array.from({ length: 20 }, (_, i) => ({
+        id: i + 1,
+        courseName: `Course ${i + 1}`,
+        datePlayed: new Date(Date.UTC(2024, 5, 20 - i)),
+        score: 90,
+        holes: 18,
+        courseRating: 72.0,
+        slopeRating: 113,
+        greensInRegulation: null,
+        fairwaysInRegulation: null,
+        putts: null,
+        upAndDowns: null,
+        upAndDownAttempts: null,
+        handicapDifferential: 18.0,
+        createdAt: new Date('2024-06-20'),
+      })),
+    }
+
+    mockPrismaUser.findUnique.mockResolvedValue(mockUserFullRecord)
+    mockPrismaHandicapRevision.findMany.mockResolvedValue([
+      { handicapIndex: 10.0, effectiveDate: new Date('2024-02-01') },
+      { handicapIndex: 12.5, effectiveDate: new Date('2024-04-01') },
+    ])
+
+    const response = await GET()
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.uncappedHandicapIndex).toBe(18.0)
+    expect(data.lowHandicapIndex).toBe(10.0)
+    expect(data.calculatedHandicapIndex).toBe(15.0)
+    expect(data.capApplied).toBe('hard')
+    expect(data.countingRoundIds).toHaveLength(8)
+  })
+
   it('should return 404 when user not found', async () => {
     mockPrismaUser.findUnique.mockResolvedValue(null)
 
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest'
+import { GET } from '../users/[id]/handicap-certificate/route'
+import { GET as VERIFY } from '../certificates/[token]/route'
+import { mockPrismaUser, mockPrismaRound, mockPrismaHandicapRevision, resetMocks } from './mocks/prisma'
+import { NextRequest } from 'next/server'
+
+// Mock auth helpers from auth-utils
+vi.mock('@/lib/auth-utils', () => ({
+  getCurrentUser: vi.fn().mockResolvedValue({
+    id: '1',
+    email: 'test@example.com',
+    name: 'Test User',
+    role: 'USER'
+  }),
+  requireResourceAccess: vi.fn(async (userId: number) => {
+    if (userId !== 1) {
+      throw new Error("Forbidden: You don't have access to this resource")
+    }
+  }),
+  createAuthErrorResponse: vi.fn((error: Error, status: number) => {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  })
+}))
+
+// Mock console methods to avoid cluttering test output
+vi.spyOn(console, 'log').mockImplementation(() => {})
+vi.spyOn(console, 'error').mockImplementation(() => {})
+vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+const rounds = [12.0, 14.0, 10.0].map((handicapDifferential, i) => ({
+  id: i + 1,
+  courseName: `Course ${i + 1}`,
+  score: 85,
+  courseRating: 72.0,
+  slopeRating: 113,
+  handicapDifferential,
+  datePlayed: new Date(Date.UTC(2024, 0, 1 + i)),
+  createdAt: new Date(Date.UTC(2024, 0, 1 + i)),
+  exceptionalScoreAdjustment: null,
+  ineligibleReasons: [],
+}))
+
+const buildRequest = (userId: number, query = '') =>
+  new NextRequest(`http://localhost:3000/api/users/${userId}/handicap-certificate${query}`)
+
+describe('GET /api/users/[id]/handicap-certificate', () => {
+  beforeAll(() => {
+    process.env.AUTH_SECRET = 'test-secret'
+  })
+
+  beforeEach(() => {
+    resetMocks()
+    mockPrismaUser.findUnique.mockResolvedValue({
+      id: 1,
+      name: 'Test User',
+      handicapIndex: 8.0,
+      handicapIndexOverride: false,
+    })
+    mockPrismaRound.findMany.mockResolvedValue(rounds)
+    mockPrismaHandicapRevision.findMany.mockResolvedValue([])
+    mockPrismaHandicapRevision.findFirst.mockResolvedValue({ effectiveDate: new Date('2024-01-03') })
+  })
+
+  it('should return the certificate as a PDF with a verification link', async () => {
+    const response = await GET(buildRequest(1), { params: Promise.resolve({ id: '1' }) })
+    const body = Buffer.from(await response.arrayBuffer()).toString('latin1')
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Type')).toBe('application/pdf')
+    expect(response.headers.get('X-Verification-Url')).toMatch(/^http:\/\/localhost:3000\/certificates\/[\w-]+\.[\w-]+$/)
+    expect(body.startsWith('%PDF')).toBe(true)
+    // The calculated index is certified, not the stale 8.0 on the user record
+    expect(body).toContain('(12.0)')
+    expect(body).not.toContain('(8.0)')
+  })
+
+  it('should return the certificate figures as JSON', async () => {
+    const response = await GET(buildRequest(1, '?format=json'), { params: Promise.resolve({ id: '1' }) })
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    // Fewer than ten scores: every differential counts
+    expect(data.certificate.handicapIndex).toBe(12.0)
+    expect(data.certificate.revisionDate).toBe('2024-01-03T00:00:00.000Z')
+    expect(data.certificate.scores.map((s: any) => [s.id, s.counting])).toEqual([
+      [3, true],
+      [2, true],
+      [1, true],
+    ])
+  })
+
+  it("should return 403 for another user's certificate", async () => {
+    const response = await GET(buildRequest(2), { params: Promise.resolve({ id: '2' }) })
+
+    expect(response.status).toBe(403)
+  })
+
+  it('should return 404 when the user does not exist', async () => {
+    mockPrismaUser.findUnique.mockResolvedValue(null)
+
+    const response = await GET(buildRequest(1), { params: Promise.resolve({ id: '1' }) })
+
+    expect(response.status).toBe(404)
+  })
+
+  it('should verify the link without a session', async () => {
+    const certificateResponse = await GET(buildRequest(1, '?format=json'), { params: Promise.resolve({ id: '1' }) })
+    const { verificationUrl } = await certificateResponse.json()
+    const token = verificationUrl.split('/').pop()
+
+    const response = await VERIFY(
+      new NextRequest(`http://localhost:3000/api/certificates/${token}`),
+      { params: Promise.resolve({ token }) }
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.certificate.player).toEqual({ id: 1, name: 'Test User' })
+    expect(data.certified).toEqual({ handicapIndex: 12.0, revisionDate: '2024-01-03T00:00:00.000Z' })
+    expect(data.current).toBe(true)
+  })
+
+  it('should verify the certified figures after the index is revised', async () => {
+    const certificateResponse = await GET(buildRequest(1, '?format=json'), { params: Promise.resolve({ id: '1' }) })
+    const { verificationUrl } = await certificateResponse.json()
+    const token = verificationUrl.split('/').pop()
+
+    mockPrismaRound.findMany.mockResolvedValue([...rounds, { ...rounds[0], id: 4, handicapDifferential: 4.0 }])
+    mockPrismaHandicapRevision.findFirst.mockResolvedValue({ effectiveDate: new Date('2024-02-01') })
+
+    const response = await VERIFY(
+      new NextRequest(`http://localhost:3000/api/certificates/${token}`),
+      { params: Promise.resolve({ token }) }
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.certified).toEqual({ handicapIndex: 12.0, revisionDate: '2024-01-03T00:00:00.000Z' })
+    expect(data.current).toBe(false)
+  })
+
+  it('should reject a tampered link', async () => {
+    const response = await VERIFY(
+      new NextRequest('http://localhost:3000/api/certificates/2.9999999999.forged'),
+      { params: Promise.resolve({ token: '2.9999999999.forged' }) }
+    )
+
+    expect(response.status).toBe(404)
+  })
+})
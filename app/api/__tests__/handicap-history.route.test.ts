@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { GET } from '../users/[id]/handicap-history/route'
+import { mockPrismaHandicapRevision, resetMocks } from './mocks/prisma'
+import { NextRequest } from 'next/server'
+
+// Mock auth helpers from auth-utils
+vi.mock('@/lib/auth-utils', () => ({
+  getCurrentUser: vi.fn().mockResolvedValue({
+    id: '1',
+    email: 'test@example.com',
+    name: 'Test User',
+    role: 'USER'
+  }),
+  requireResourceAccess: vi.fn(async (userId: number) => {
+    if (userId !== 1) {
+      throw new Error("Forbidden: You don't have access to this resource")
+    }
+  }),
+  createAuthErrorResponse: vi.fn((error: Error, status: number) => {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  })
+}))
+
+// Mock console methods to avoid cluttering test output
+vi.spyOn(console, 'log').mockImplementation(() => {})
+vi.spyOn(console, 'error').mockImplementation(() => {})
+vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+const revision = (id: number, handicapIndex: number, effectiveDate: string, createdAt: string) => ({
+  id,
+  handicapIndex,
+  uncappedHandicapIndex: handicapIndex,
+  lowHandicapIndex: null,
+  capApplied: null,
+  scoringRecordSize: 5,
+  countingRoundIds: [1],
+  differentialsUsed: [handicapIndex],
+  effectiveDate: new Date(effectiveDate),
+  createdAt: new Date(createdAt),
+})
+
+const buildRequest = (userId: number, query = '') =>
+  new NextRequest(`http://localhost:3000/api/users/${userId}/handicap-history${query}`)
+
+describe('GET /api/users/[id]/handicap-history', () => {
+  beforeEach(() => {
+    resetMocks()
+  })
+
+  it('should return the revision timeline', async () => {
+    mockPrismaHandicapRevision.findMany.mockResolvedValue([
+      revision(1, 14.0, '2024-01-01', '2024-01-01T18:00:00Z'),
+      revision(2, 12.5, '2024-03-01', '2024-03-01T18:00:00Z'),
+      revision(3, 12.0, '2024-03-01', '2024-03-02T09:00:00Z'),
+    ])
+
+    const response = await GET(buildRequest(1), { params: Promise.resolve({ id: '1' }) })
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.revisions.map((r: { id: number }) => r.id)).toEqual([1, 3])
+    expect(data.asOf).toBeNull()
+    expect(mockPrismaHandicapRevision.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { userId: 1 } })
+    )
+  })
+
+  it('should return the index in effect on a past date', async () => {
+    mockPrismaHandicapRevision.findMany.mockResolvedValue([
+      revision(1, 14.0, '2024-01-01', '2024-01-01T18:00:00Z'),
+      revision(2, 12.0, '2024-03-01', '2024-03-01T18:00:00Z'),
+    ])
+
+    const response = await GET(buildRequest(1, '?asOf=2024-02-15'), { params: Promise.resolve({ id: '1' }) })
+    const data = await response.json()
+
+    expect(data.asOf.revision.handicapIndex).toBe(14.0)
+  })
+
+  it('should return 400 for an invalid date', async () => {
+    const response = await GET(buildRequest(1, '?asOf=not-a-date'), { params: Promise.resolve({ id: '1' }) })
+
+    expect(response.status).toBe(400)
+  })
+
+  it("should return 403 for another user's history", async () => {
+    const response = await GET(buildRequest(2), { params: Promise.resolve({ id: '2' }) })
+
+    expect(response.status).toBe(403)
+    expect(mockPrismaHandicapRevision.findMany).not.toHaveBeenCalled()
+  })
+})
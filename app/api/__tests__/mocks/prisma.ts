@@ -13,15 +13,61 @@ export const mockPrismaRound = {
   findUnique: vi.fn(),
   create: vi.fn(),
   update: vi.fn(),
+  updateMany: vi.fn(),
   delete: vi.fn(),
 }
 
+export const mockPrismaHandicapRevision = {
+  findMany: vi.fn(),
+  findFirst: vi.fn(),
+  create: vi.fn(),
+  deleteMany: vi.fn(),
+}
+
+export const mockPrismaCourse = {
+  findMany: vi.fn(),
+  findUnique: vi.fn(),
+  create: vi.fn(),
+  update: vi.fn(),
+  upsert: vi.fn(),
+  delete: vi.fn(),
+}
+
+export const mockPrismaTeeSet = {
+  findUnique: vi.fn(),
+  update: vi.fn(),
+  upsert: vi.fn(),
+  delete: vi.fn(),
+}
+
+export const mockPrismaCourseFavorite = {
+  findMany: vi.fn(),
+  update: vi.fn(),
+  upsert: vi.fn(),
+  deleteMany: vi.fn(),
+}
+
+export const mockPrismaGolfCourseApiCache = {
+  findUnique: vi.fn(),
+  upsert: vi.fn(),
+  deleteMany: vi.fn(),
+}
+
 export const mockPrisma = {
   user: mockPrismaUser,
   round: mockPrismaRound,
+  handicapRevision: mockPrismaHandicapRevision,
+  course: mockPrismaCourse,
+  teeSet: mockPrismaTeeSet,
+  courseFavorite: mockPrismaCourseFavorite,
+  golfCourseApiCache: mockPrismaGolfCourseApiCache,
   $disconnect: vi.fn(),
+  $transaction: vi.fn(),
 }
 
+// Interactive transactions run against the same mock client
+mockPrisma.$transaction.mockImplementation((fn: (tx: typeof mockPrisma) => unknown) => fn(mockPrisma))
+
 export const resetMocks = () => {
   mockPrismaUser.findMany.mockReset()
   mockPrismaUser.findUnique.mockReset()
@@ -33,5 +79,32 @@ export const resetMocks = () => {
   mockPrismaRound.findUnique.mockReset()
   mockPrismaRound.create.mockReset()
   mockPrismaRound.update.mockReset()
+  mockPrismaRound.updateMany.mockReset()
   mockPrismaRound.delete.mockReset()
+
+  mockPrismaHandicapRevision.findMany.mockReset()
+  mockPrismaHandicapRevision.findFirst.mockReset()
+  mockPrismaHandicapRevision.create.mockReset()
+  mockPrismaHandicapRevision.deleteMany.mockReset()
+
+  mockPrismaCourse.findMany.mockReset()
+  mockPrismaCourse.findUnique.mockReset()
+  mockPrismaCourse.create.mockReset()
+  mockPrismaCourse.update.mockReset()
+  mockPrismaCourse.upsert.mockReset()
+  mockPrismaCourse.delete.mockReset()
+
+  mockPrismaTeeSet.findUnique.mockReset()
+  mockPrismaTeeSet.update.mockReset()
+  mockPrismaTeeSet.upsert.mockReset()
+  mockPrismaTeeSet.delete.mockReset()
+
+  mockPrismaCourseFavorite.findMany.mockReset()
+  mockPrismaCourseFavorite.update.mockReset()
+  mockPrismaCourseFavorite.upsert.mockReset()
+  mockPrismaCourseFavorite.deleteMany.mockReset()
+
+  mockPrismaGolfCourseApiCache.findUnique.mockReset()
+  mockPrismaGolfCourseApiCache.upsert.mockReset()
+  mockPrismaGolfCourseApiCache.deleteMany.mockReset()
 }
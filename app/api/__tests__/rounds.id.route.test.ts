@@ -1,11 +1,48 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { GET, PUT, DELETE } from '../rounds/[id]/route'
-import { mockPrismaRound, mockPrismaUser, resetMocks } from './mocks/prisma'
+import { mockPrisma, mockPrismaRound, mockPrismaUser, resetMocks } from './mocks/prisma'
 import { createMockRequest } from './mocks/nextRequest'
+import { RECALCULATION_TRANSACTION_OPTIONS } from '@/lib/handicap-history'
+
+// Mock auth helpers from auth-utils; the current user is an admin unless a test says otherwise
+vi.mock('@/lib/auth-utils', () => ({
+  getCurrentUser: vi.fn().mockResolvedValue({
+    id: '1',
+    email: 'admin@example.com',
+    name: 'Admin User',
+    role: 'ADMIN'
+  }),
+  isAdmin: vi.fn().mockResolvedValue(true),
+  requireAdmin: vi.fn().mockResolvedValue({ id: '1', role: 'ADMIN' }),
+  requireResourceAccess: vi.fn().mockResolvedValue({ id: '1', role: 'ADMIN' }),
+  createAuthErrorResponse: vi.fn((error: Error, status: number) => {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  })
+}))
 
 // Mock console methods to avoid cluttering test output
 vi.spyOn(console, 'error').mockImplementation(() => {})
 
+const existingRound = {
+  id: 1,
+  userId: 1,
+  courseName: 'Pebble Beach',
+  teeSetId: null,
+  datePlayed: new Date('2024-01-15'),
+  score: 85,
+  holes: 18,
+  courseRating: 72.5,
+  slopeRating: 135,
+  notes: 'Great round',
+  pairedRoundId: null,
+  holeScores: [],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+}
+
 describe('GET /api/rounds/[id]', () => {
   beforeEach(() => {
     resetMocks()
@@ -34,7 +71,7 @@ describe('GET /api/rounds/[id]', () => {
     mockPrismaRound.findUnique.mockResolvedValue(mockRound)
 
     const request = createMockRequest('GET')
-    const response = await GET(request, { params: { id: '1' } })
+    const response = await GET(request, { params: Promise.resolve({ id: '1' }) })
     const data = await response.json()
 
     expect(response.status).toBe(200)
@@ -52,6 +89,10 @@ describe('GET /api/rounds/[id]', () => {
             email: true,
           },
         },
+        holeScores: {
+          orderBy: { holeNumber: 'asc' },
+          include: { shots: { orderBy: { shotNumber: 'asc' } } },
+        },
       },
     })
   })
@@ -60,7 +101,7 @@ describe('GET /api/rounds/[id]', () => {
     mockPrismaRound.findUnique.mockResolvedValue(null)
 
     const request = createMockRequest('GET')
-    const response = await GET(request, { params: { id: '999' } })
+    const response = await GET(request, { params: Promise.resolve({ id: '999' }) })
     const data = await response.json()
 
     expect(response.status).toBe(404)
@@ -71,7 +112,7 @@ describe('GET /api/rounds/[id]', () => {
     mockPrismaRound.findUnique.mockRejectedValue(new Error('Database error'))
 
     const request = createMockRequest('GET')
-    const response = await GET(request, { params: { id: '1' } })
+    const response = await GET(request, { params: Promise.resolve({ id: '1' }) })
     const data = await response.json()
 
     expect(response.status).toBe(500)
@@ -82,6 +123,10 @@ describe('GET /api/rounds/[id]', () => {
 describe('PUT /api/rounds/[id]', () => {
   beforeEach(() => {
     resetMocks()
+    // Ownership is checked against the stored round before the edit
+    mockPrismaRound.findUnique.mockResolvedValueOnce(existingRound)
+    // Handicap revision recalculation after the mutation
+    mockPrismaRound.findMany.mockResolvedValue([])
   })
 
   it('should update a round with valid data', async () => {
@@ -111,9 +156,11 @@ describe('PUT /api/rounds/[id]', () => {
     }
 
     mockPrismaRound.update.mockResolvedValue(updatedRound)
+    // Round is re-read after PCC and handicap recalculation
+    mockPrismaRound.findUnique.mockResolvedValueOnce(updatedRound)
 
     const request = createMockRequest('PUT', updateData)
-    const response = await PUT(request, { params: { id: '1' } })
+    const response = await PUT(request, { params: Promise.resolve({ id: '1' }) })
     const data = await response.json()
 
     expect(response.status).toBe(200)
@@ -122,6 +169,15 @@ describe('PUT /api/rounds/[id]', () => {
     expect(data.score).toBe(78)
     expect(data.notes).toBe('Updated notes')
     expect(mockPrismaRound.update).toHaveBeenCalled()
+    expect(mockPrisma.$transaction).toHaveBeenCalledWith(expect.any(Function), RECALCULATION_TRANSACTION_OPTIONS)
+    // Moving the round to another course re-runs PCC for both the new and the old field
+    expect(mockPrismaRound.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ teeSetId: null, courseName: 'Updated Course' }),
+    }))
+    expect(mockPrismaRound.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ teeSetId: null, courseName: 'Pebble Beach' }),
+    }))
+    expect(mockPrismaUser.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 1 } }))
   })
 
   it('should update only score', async () => {
@@ -149,9 +205,10 @@ describe('PUT /api/rounds/[id]', () => {
     }
 
     mockPrismaRound.update.mockResolvedValue(updatedRound)
+    mockPrismaRound.findUnique.mockResolvedValueOnce(updatedRound)
 
     const request = createMockRequest('PUT', updateData)
-    const response = await PUT(request, { params: { id: '1' } })
+    const response = await PUT(request, { params: Promise.resolve({ id: '1' }) })
     const data = await response.json()
 
     expect(response.status).toBe(200)
@@ -192,9 +249,10 @@ describe('PUT /api/rounds/[id]', () => {
       updatedAt: new Date(),
     })
     mockPrismaRound.update.mockResolvedValue(updatedRound)
+    mockPrismaRound.findUnique.mockResolvedValueOnce(updatedRound)
 
     const request = createMockRequest('PUT', updateData)
-    const response = await PUT(request, { params: { id: '1' } })
+    const response = await PUT(request, { params: Promise.resolve({ id: '1' }) })
     const data = await response.json()
 
     expect(response.status).toBe(200)
@@ -202,6 +260,9 @@ describe('PUT /api/rounds/[id]', () => {
     expect(mockPrismaUser.findUnique).toHaveBeenCalledWith({
       where: { id: 2 },
     })
+    // Both the new and the previous owner's handicaps are recalculated
+    expect(mockPrismaUser.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 2 } }))
+    expect(mockPrismaUser.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 1 } }))
   })
 
   it('should return 404 when updating with non-existent userId', async () => {
@@ -212,7 +273,7 @@ describe('PUT /api/rounds/[id]', () => {
     mockPrismaUser.findUnique.mockResolvedValue(null)
 
     const request = createMockRequest('PUT', updateData)
-    const response = await PUT(request, { params: { id: '1' } })
+    const response = await PUT(request, { params: Promise.resolve({ id: '1' }) })
     const data = await response.json()
 
     expect(response.status).toBe(404)
@@ -226,7 +287,7 @@ describe('PUT /api/rounds/[id]', () => {
     }
 
     const request = createMockRequest('PUT', updateData)
-    const response = await PUT(request, { params: { id: '1' } })
+    const response = await PUT(request, { params: Promise.resolve({ id: '1' }) })
     const data = await response.json()
 
     expect(response.status).toBe(400)
@@ -239,7 +300,7 @@ describe('PUT /api/rounds/[id]', () => {
     }
 
     const request = createMockRequest('PUT', updateData)
-    const response = await PUT(request, { params: { id: '1' } })
+    const response = await PUT(request, { params: Promise.resolve({ id: '1' }) })
     const data = await response.json()
 
     expect(response.status).toBe(400)
@@ -252,7 +313,7 @@ describe('PUT /api/rounds/[id]', () => {
     }
 
     const request = createMockRequest('PUT', updateData)
-    const response = await PUT(request, { params: { id: '1' } })
+    const response = await PUT(request, { params: Promise.resolve({ id: '1' }) })
     const data = await response.json()
 
     expect(response.status).toBe(400)
@@ -267,7 +328,7 @@ describe('PUT /api/rounds/[id]', () => {
     mockPrismaRound.update.mockRejectedValue(new Error('Database error'))
 
     const request = createMockRequest('PUT', updateData)
-    const response = await PUT(request, { params: { id: '1' } })
+    const response = await PUT(request, { params: Promise.resolve({ id: '1' }) })
     const data = await response.json()
 
     expect(response.status).toBe(500)
@@ -278,6 +339,9 @@ describe('PUT /api/rounds/[id]', () => {
 describe('DELETE /api/rounds/[id]', () => {
   beforeEach(() => {
     resetMocks()
+    mockPrismaRound.findUnique.mockResolvedValue(existingRound)
+    // Handicap revision recalculation after the mutation
+    mockPrismaRound.findMany.mockResolvedValue([])
   })
 
   it('should delete a round', async () => {
@@ -296,7 +360,7 @@ describe('DELETE /api/rounds/[id]', () => {
     })
 
     const request = createMockRequest('DELETE')
-    const response = await DELETE(request, { params: { id: '1' } })
+    const response = await DELETE(request, { params: Promise.resolve({ id: '1' }) })
     const data = await response.json()
 
     expect(response.status).toBe(200)
@@ -304,24 +368,34 @@ describe('DELETE /api/rounds/[id]', () => {
     expect(mockPrismaRound.delete).toHaveBeenCalledWith({
       where: { id: 1 },
     })
+    expect(mockPrisma.$transaction).toHaveBeenCalledWith(expect.any(Function), RECALCULATION_TRANSACTION_OPTIONS)
+    // The rest of the field's PCC and the owner's handicap are recalculated without the round
+    expect(mockPrismaRound.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ teeSetId: null, courseName: 'Pebble Beach' }),
+    }))
+    expect(mockPrismaUser.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: { rounds: 0, handicapIndex: null },
+    })
   })
 
-  it('should handle non-existent round deletion', async () => {
-    mockPrismaRound.delete.mockRejectedValue(new Error('Record not found'))
+  it('should return 404 when round not found', async () => {
+    mockPrismaRound.findUnique.mockResolvedValue(null)
 
     const request = createMockRequest('DELETE')
-    const response = await DELETE(request, { params: { id: '999' } })
+    const response = await DELETE(request, { params: Promise.resolve({ id: '999' }) })
     const data = await response.json()
 
-    expect(response.status).toBe(500)
-    expect(data).toEqual({ error: 'Failed to delete round' })
+    expect(response.status).toBe(404)
+    expect(data).toEqual({ error: 'Round not found' })
+    expect(mockPrismaRound.delete).not.toHaveBeenCalled()
   })
 
   it('should handle database errors', async () => {
     mockPrismaRound.delete.mockRejectedValue(new Error('Database error'))
 
     const request = createMockRequest('DELETE')
-    const response = await DELETE(request, { params: { id: '1' } })
+    const response = await DELETE(request, { params: Promise.resolve({ id: '1' }) })
     const data = await response.json()
 
     expect(response.status).toBe(500)
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { GET } from '../handicap/simulate/route'
+import { mockPrismaUser, mockPrismaRound, mockPrismaHandicapRevision, resetMocks } from './mocks/prisma'
+import { NextRequest } from 'next/server'
+
+// Mock auth helpers from auth-utils
+vi.mock('@/lib/auth-utils', () => ({
+  getCurrentUser: vi.fn().mockResolvedValue({
+    id: '1',
+    email: 'test@example.com',
+    name: 'Test User',
+    role: 'USER'
+  }),
+  requireResourceAccess: vi.fn(async (userId: number) => {
+    if (userId !== 1) {
+      throw new Error("Forbidden: You don't have access to this resource")
+    }
+  }),
+  createAuthErrorResponse: vi.fn((error: Error, status: number) => {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  })
+}))
+
+// Mock console methods to avoid cluttering test output
+vi.spyOn(console, 'error').mockImplementation(() => {})
+
+const buildRequest = (query: string) =>
+  new NextRequest(`http://localhost:3000/api/handicap/simulate?${query}`)
+
+// Twelve old 20.0s and eight recent 10.0s: index 10.0
+const rounds = [...Array(12).fill(20.0), ...Array(8).fill(10.0)].map((handicapDifferential, i) => ({
+  id: i + 1,
+  courseName: `Course ${i + 1}`,
+  score: 85,
+  courseRating: 72.0,
+  slopeRating: 113,
+  handicapDifferential,
+  datePlayed: new Date(Date.UTC(2024, 0, 1 + i)),
+  createdAt: new Date(Date.UTC(2024, 0, 1 + i)),
+  exceptionalScoreAdjustment: null,
+  ineligibleReasons: [],
+}))
+
+describe('GET /api/handicap/simulate', () => {
+  beforeEach(() => {
+    resetMocks()
+    mockPrismaUser.findUnique.mockResolvedValue({ id: 1 })
+    mockPrismaRound.findMany.mockResolvedValue(rounds)
+    mockPrismaHandicapRevision.findMany.mockResolvedValue([])
+  })
+
+  it('should simulate a hypothetical score against the real record', async () => {
+    const response = await GET(buildRequest('courseRating=72&slopeRating=113&score=80&datePlayed=2024-02-01'))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.currentHandicapIndex).toBe(10.0)
+    expect(data.targetIndex).toBeNull()
+    expect(data.simulation).toMatchObject({
+      score: 80,
+      handicapDifferential: 8.0,
+      handicapIndex: 9.8,
+      countsTowardIndex: true,
+    })
+    expect(data.simulation.replacedRounds).toEqual([
+      expect.objectContaining({ id: 13, courseName: 'Course 13', handicapDifferential: 10.0 }),
+    ])
+    expect(data.simulation.droppedRounds).toEqual([
+      expect.objectContaining({ id: 1, courseName: 'Course 1' }),
+    ])
+  })
+
+  it('should find the score needed for a target index', async () => {
+    const response = await GET(buildRequest('courseRating=72&slopeRating=113&targetIndex=9.5&datePlayed=2024-02-01'))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.targetIndex).toBe(9.5)
+    expect(data.simulation.score).toBe(78)
+  })
+
+  it('should return a null simulation when the target cannot be reached', async () => {
+    const response = await GET(buildRequest('courseRating=72&slopeRating=113&targetIndex=3&datePlayed=2024-02-01'))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.simulation).toBeNull()
+    expect(data.currentHandicapIndex).toBe(10.0)
+  })
+
+  it('should require exactly one of score and target index', async () => {
+    const response = await GET(buildRequest('courseRating=72&slopeRating=113&score=80&targetIndex=9.5'))
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data.error).toBe('Validation error')
+  })
+
+  it("should return 403 when simulating another user's record", async () => {
+    const response = await GET(buildRequest('courseRating=72&slopeRating=113&score=80&userId=2'))
+
+    expect(response.status).toBe(403)
+    expect(mockPrismaRound.findMany).not.toHaveBeenCalled()
+  })
+
+  it('should return 404 when the user does not exist', async () => {
+    mockPrismaUser.findUnique.mockResolvedValue(null)
+
+    const response = await GET(buildRequest('courseRating=72&slopeRating=113&score=80'))
+
+    expect(response.status).toBe(404)
+  })
+})
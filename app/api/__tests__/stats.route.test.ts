@@ -21,14 +21,6 @@ vi.mock('@/lib/prisma', () => ({
   }
 }))
 
-// Mock golf calculator
-vi.mock('@/lib/golf-calculator', () => ({
-  calculateGIR: vi.fn((par: number, score: number, putts: number) => {
-    // Simple GIR calculation for testing: hit GIR if (score - putts) <= par - 2
-    return (score - putts) <= (par - 2)
-  })
-}))
-
 // Import after mocks
 import { prisma } from '@/lib/prisma'
 import { getCurrentUser, isAdmin } from '@/lib/auth-utils'
@@ -70,25 +62,25 @@ describe('GET /api/stats', () => {
       nonGirPutts: 14,
       underGIR: 2,
       handicapDifferential: 10.4,
-      holeByHoleData: [
-        { holeNumber: 1, par: 4, score: 5, putts: 2, fairwayHit: true, yardage: 380, handicap: 5 },
-        { holeNumber: 2, par: 3, score: 3, putts: 2, fairwayHit: null, yardage: 150, handicap: 17 },
-        { holeNumber: 3, par: 5, score: 6, putts: 2, fairwayHit: true, yardage: 520, handicap: 3 },
-        { holeNumber: 4, par: 4, score: 4, putts: 2, fairwayHit: false, yardage: 400, handicap: 9 },
-        { holeNumber: 5, par: 4, score: 5, putts: 2, fairwayHit: true, yardage: 390, handicap: 7 },
-        { holeNumber: 6, par: 3, score: 4, putts: 3, fairwayHit: null, yardage: 180, handicap: 15 },
-        { holeNumber: 7, par: 5, score: 5, putts: 2, fairwayHit: true, yardage: 540, handicap: 1 },
-        { holeNumber: 8, par: 4, score: 5, putts: 2, fairwayHit: false, yardage: 410, handicap: 11 },
-        { holeNumber: 9, par: 4, score: 4, putts: 2, fairwayHit: true, yardage: 380, handicap: 13 },
-        { holeNumber: 10, par: 4, score: 5, putts: 2, fairwayHit: true, yardage: 395, handicap: 6 },
-        { holeNumber: 11, par: 3, score: 3, putts: 2, fairwayHit: null, yardage: 165, handicap: 16 },
-        { holeNumber: 12, par: 5, score: 6, putts: 2, fairwayHit: false, yardage: 530, handicap: 2 },
-        { holeNumber: 13, par: 4, score: 5, putts: 2, fairwayHit: true, yardage: 405, handicap: 8 },
-        { holeNumber: 14, par: 4, score: 4, putts: 2, fairwayHit: true, yardage: 385, handicap: 12 },
-        { holeNumber: 15, par: 3, score: 3, putts: 1, fairwayHit: null, yardage: 140, handicap: 18 },
-        { holeNumber: 16, par: 5, score: 5, putts: 2, fairwayHit: true, yardage: 550, handicap: 4 },
-        { holeNumber: 17, par: 4, score: 5, putts: 2, fairwayHit: false, yardage: 420, handicap: 10 },
-        { holeNumber: 18, par: 4, score: 4, putts: 2, fairwayHit: true, yardage: 375, handicap: 14 },
+      holeScores: [
+        { holeNumber: 1, par: 4, score: 5, putts: 2, fairwayHit: true, yardage: 380, strokeIndex: 5, greenInRegulation: false, penalties: 0 },
+        { holeNumber: 2, par: 3, score: 3, putts: 2, fairwayHit: null, yardage: 150, strokeIndex: 17, greenInRegulation: true, penalties: 0 },
+        { holeNumber: 3, par: 5, score: 6, putts: 2, fairwayHit: true, yardage: 520, strokeIndex: 3, greenInRegulation: false, penalties: 0 },
+        { holeNumber: 4, par: 4, score: 4, putts: 2, fairwayHit: false, yardage: 400, strokeIndex: 9, greenInRegulation: true, penalties: 0 },
+        { holeNumber: 5, par: 4, score: 5, putts: 2, fairwayHit: true, yardage: 390, strokeIndex: 7, greenInRegulation: false, penalties: 0 },
+        { holeNumber: 6, par: 3, score: 4, putts: 3, fairwayHit: null, yardage: 180, strokeIndex: 15, greenInRegulation: true, penalties: 0 },
+        { holeNumber: 7, par: 5, score: 5, putts: 2, fairwayHit: true, yardage: 540, strokeIndex: 1, greenInRegulation: true, penalties: 0 },
+        { holeNumber: 8, par: 4, score: 5, putts: 2, fairwayHit: false, yardage: 410, strokeIndex: 11, greenInRegulation: false, penalties: 0 },
+        { holeNumber: 9, par: 4, score: 4, putts: 2, fairwayHit: true, yardage: 380, strokeIndex: 13, greenInRegulation: true, penalties: 0 },
+        { holeNumber: 10, par: 4, score: 5, putts: 2, fairwayHit: true, yardage: 395, strokeIndex: 6, greenInRegulation: false, penalties: 0 },
+        { holeNumber: 11, par: 3, score: 3, putts: 2, fairwayHit: null, yardage: 165, strokeIndex: 16, greenInRegulation: true, penalties: 0 },
+        { holeNumber: 12, par: 5, score: 6, putts: 2, fairwayHit: false, yardage: 530, strokeIndex: 2, greenInRegulation: false, penalties: 0 },
+        { holeNumber: 13, par: 4, score: 5, putts: 2, fairwayHit: true, yardage: 405, strokeIndex: 8, greenInRegulation: false, penalties: 0 },
+        { holeNumber: 14, par: 4, score: 4, putts: 2, fairwayHit: true, yardage: 385, strokeIndex: 12, greenInRegulation: true, penalties: 0 },
+        { holeNumber: 15, par: 3, score: 3, putts: 1, fairwayHit: null, yardage: 140, strokeIndex: 18, greenInRegulation: false, penalties: 0 },
+        { holeNumber: 16, par: 5, score: 5, putts: 2, fairwayHit: true, yardage: 550, strokeIndex: 4, greenInRegulation: true, penalties: 0 },
+        { holeNumber: 17, par: 4, score: 5, putts: 2, fairwayHit: false, yardage: 420, strokeIndex: 10, greenInRegulation: false, penalties: 0 },
+        { holeNumber: 18, par: 4, score: 4, putts: 2, fairwayHit: true, yardage: 375, strokeIndex: 14, greenInRegulation: true, penalties: 0 },
       ],
       createdAt: new Date('2024-01-15'),
       updatedAt: new Date('2024-01-15'),
@@ -116,25 +108,25 @@ describe('GET /api/stats', () => {
       nonGirPutts: 22,
       underGIR: 1,
       handicapDifferential: 12.9,
-      holeByHoleData: [
-        { holeNumber: 1, par: 4, score: 6, putts: 3, fairwayHit: false, yardage: 445, handicap: 5 },
-        { holeNumber: 2, par: 5, score: 7, putts: 3, fairwayHit: false, yardage: 575, handicap: 3 },
-        { holeNumber: 3, par: 4, score: 5, putts: 2, fairwayHit: true, yardage: 350, handicap: 9 },
-        { holeNumber: 4, par: 3, score: 4, putts: 2, fairwayHit: null, yardage: 240, handicap: 17 },
-        { holeNumber: 5, par: 4, score: 5, putts: 2, fairwayHit: true, yardage: 495, handicap: 7 },
-        { holeNumber: 6, par: 3, score: 3, putts: 2, fairwayHit: null, yardage: 180, handicap: 15 },
-        { holeNumber: 7, par: 4, score: 5, putts: 2, fairwayHit: false, yardage: 450, handicap: 1 },
-        { holeNumber: 8, par: 5, score: 6, putts: 2, fairwayHit: true, yardage: 570, handicap: 11 },
-        { holeNumber: 9, par: 4, score: 5, putts: 2, fairwayHit: true, yardage: 460, handicap: 13 },
-        { holeNumber: 10, par: 4, score: 5, putts: 2, fairwayHit: true, yardage: 495, handicap: 6 },
-        { holeNumber: 11, par: 4, score: 6, putts: 3, fairwayHit: false, yardage: 505, handicap: 16 },
-        { holeNumber: 12, par: 3, score: 4, putts: 2, fairwayHit: null, yardage: 155, handicap: 2 },
-        { holeNumber: 13, par: 5, score: 6, putts: 2, fairwayHit: true, yardage: 510, handicap: 8 },
-        { holeNumber: 14, par: 4, score: 5, putts: 2, fairwayHit: false, yardage: 440, handicap: 12 },
-        { holeNumber: 15, par: 5, score: 6, putts: 2, fairwayHit: true, yardage: 530, handicap: 18 },
-        { holeNumber: 16, par: 3, score: 3, putts: 2, fairwayHit: null, yardage: 170, handicap: 4 },
-        { holeNumber: 17, par: 4, score: 5, putts: 2, fairwayHit: false, yardage: 440, handicap: 10 },
-        { holeNumber: 18, par: 4, score: 4, putts: 2, fairwayHit: true, yardage: 465, handicap: 14 },
+      holeScores: [
+        { holeNumber: 1, par: 4, score: 6, putts: 3, fairwayHit: false, yardage: 445, strokeIndex: 5, greenInRegulation: false, penalties: 0 },
+        { holeNumber: 2, par: 5, score: 7, putts: 3, fairwayHit: false, yardage: 575, strokeIndex: 3, greenInRegulation: false, penalties: 0 },
+        { holeNumber: 3, par: 4, score: 5, putts: 2, fairwayHit: true, yardage: 350, strokeIndex: 9, greenInRegulation: false, penalties: 0 },
+        { holeNumber: 4, par: 3, score: 4, putts: 2, fairwayHit: null, yardage: 240, strokeIndex: 17, greenInRegulation: false, penalties: 0 },
+        { holeNumber: 5, par: 4, score: 5, putts: 2, fairwayHit: true, yardage: 495, strokeIndex: 7, greenInRegulation: false, penalties: 0 },
+        { holeNumber: 6, par: 3, score: 3, putts: 2, fairwayHit: null, yardage: 180, strokeIndex: 15, greenInRegulation: true, penalties: 0 },
+        { holeNumber: 7, par: 4, score: 5, putts: 2, fairwayHit: false, yardage: 450, strokeIndex: 1, greenInRegulation: false, penalties: 0 },
+        { holeNumber: 8, par: 5, score: 6, putts: 2, fairwayHit: true, yardage: 570, strokeIndex: 11, greenInRegulation: false, penalties: 0 },
+        { holeNumber: 9, par: 4, score: 5, putts: 2, fairwayHit: true, yardage: 460, strokeIndex: 13, greenInRegulation: false, penalties: 0 },
+        { holeNumber: 10, par: 4, score: 5, putts: 2, fairwayHit: true, yardage: 495, strokeIndex: 6, greenInRegulation: false, penalties: 0 },
+        { holeNumber: 11, par: 4, score: 6, putts: 3, fairwayHit: false, yardage: 505, strokeIndex: 16, greenInRegulation: false, penalties: 0 },
+        { holeNumber: 12, par: 3, score: 4, putts: 2, fairwayHit: null, yardage: 155, strokeIndex: 2, greenInRegulation: false, penalties: 0 },
+        { holeNumber: 13, par: 5, score: 6, putts: 2, fairwayHit: true, yardage: 510, strokeIndex: 8, greenInRegulation: false, penalties: 0 },
+        { holeNumber: 14, par: 4, score: 5, putts: 2, fairwayHit: false, yardage: 440, strokeIndex: 12, greenInRegulation: false, penalties: 0 },
+        { holeNumber: 15, par: 5, score: 6, putts: 2, fairwayHit: true, yardage: 530, strokeIndex: 18, greenInRegulation: false, penalties: 0 },
+        { holeNumber: 16, par: 3, score: 3, putts: 2, fairwayHit: null, yardage: 170, strokeIndex: 4, greenInRegulation: true, penalties: 0 },
+        { holeNumber: 17, par: 4, score: 5, putts: 2, fairwayHit: false, yardage: 440, strokeIndex: 10, greenInRegulation: false, penalties: 0 },
+        { holeNumber: 18, par: 4, score: 4, putts: 2, fairwayHit: true, yardage: 465, strokeIndex: 14, greenInRegulation: true, penalties: 0 },
       ],
       createdAt: new Date('2024-01-10'),
       updatedAt: new Date('2024-01-10'),
@@ -194,6 +186,168 @@ describe('GET /api/stats', () => {
     expect(data.stats.totalGIR).toBeGreaterThan(0)
   })
 
+  it('should report how many GIR figures were recorded rather than estimated', async () => {
+    const [round] = mockRounds
+    const holeScores = round.holeScores.map((hole, index) => ({
+      ...hole,
+      greenResult: index < 9 ? (hole.greenInRegulation ? 'HIT' : 'MISSED_SHORT') : null,
+    }))
+    vi.mocked(prisma.round.findMany).mockResolvedValue([{ ...round, holeScores }] as any)
+
+    const request = new NextRequest('http://localhost:3000/api/stats?filter=alltime')
+    const response = await GET(request)
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.stats.totalGIRRecorded).toBe(9)
+    expect(data.stats.girRecordedPercentage).toBe(50)
+  })
+
+  it('should calculate tee-shot misses from recorded fairway results', async () => {
+    const [round] = mockRounds
+    const fairwayResults = ['HIT', 'LEFT', 'RIGHT', 'PENALTY', 'LEFT']
+    let drive = 0
+    const holeScores = round.holeScores.map((hole) => ({
+      ...hole,
+      fairwayResult: hole.par > 3 && drive < fairwayResults.length ? fairwayResults[drive++] : null,
+    }))
+    vi.mocked(prisma.round.findMany).mockResolvedValue([{ ...round, holeScores }] as any)
+
+    const request = new NextRequest('http://localhost:3000/api/stats?filter=alltime')
+    const response = await GET(request)
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.stats.totalTeeShotsRecorded).toBe(5)
+    expect(data.stats.missLeftPercentage).toBe(40)
+    expect(data.stats.missRightPercentage).toBe(20)
+    expect(data.stats.teePenaltyPercentage).toBe(20)
+  })
+
+  it('should calculate penalty strokes and sand saves', async () => {
+    const [round] = mockRounds
+    const holeScores = round.holeScores.map((hole) => {
+      if (hole.holeNumber === 1) return { ...hole, penalties: 1, penaltyType: 'WATER', score: hole.par + 2 }
+      if (hole.holeNumber === 3) return { ...hole, penalties: 2, penaltyType: 'OUT_OF_BOUNDS', score: hole.par + 3 }
+      if (hole.holeNumber === 2) return { ...hole, greensideBunker: true, sandSave: true }
+      if (hole.holeNumber === 6) return { ...hole, greensideBunker: true, sandSave: false }
+      return hole
+    })
+    vi.mocked(prisma.round.findMany).mockResolvedValue([{ ...round, holeScores }] as any)
+
+    const request = new NextRequest('http://localhost:3000/api/stats?filter=alltime')
+    const response = await GET(request)
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.stats.avgPenaltyStrokes).toBe(3)
+    expect(data.stats.penaltyStrokesByType).toEqual({ WATER: 1, OUT_OF_BOUNDS: 2, UNPLAYABLE: 0 })
+    expect(data.stats.avgScoreToParAfterPenalty).toBe(2.5)
+    expect(data.stats.sandSavePercentage).toBe(50)
+    expect(data.stats.totalSandSaveAttempts).toBe(2)
+  })
+
+  it('should calculate strokes gained putting from first putt distances', async () => {
+    const [round] = mockRounds
+    const holeScores = round.holeScores.map((hole) => {
+      if (hole.holeNumber === 1) return { ...hole, putts: 1, firstPuttDistance: 8 } // Expected 1.5
+      if (hole.holeNumber === 2) return { ...hole, putts: 2, firstPuttDistance: 20 } // Expected 1.87
+      return { ...hole, firstPuttDistance: null }
+    })
+    vi.mocked(prisma.round.findMany).mockResolvedValue([{ ...round, holeScores }, mockRounds[1]] as any)
+
+    const request = new NextRequest('http://localhost:3000/api/stats?filter=alltime')
+    const response = await GET(request)
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.stats.putting.holes).toBe(2)
+    expect(data.stats.sgPuttingPerRound).toBe(0.37)
+    expect(data.stats.putting.buckets[2]).toMatchObject({ label: '6-10 ft', attempts: 1, made: 1 })
+  })
+
+  it('should report scoring averages by par, stroke index and yardage band', async () => {
+    vi.mocked(prisma.round.findMany).mockResolvedValue([mockRounds[0]] as any)
+
+    const request = new NextRequest('http://localhost:3000/api/stats?filter=alltime')
+    const response = await GET(request)
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.stats.scoringAverages.byPar).toEqual([
+      { par: 3, label: 'Par 3', holes: 4, averageScore: 3.25, averageToPar: 0.25 },
+      { par: 4, label: 'Par 4', holes: 10, averageScore: 4.6, averageToPar: 0.6 },
+      { par: 5, label: 'Par 5', holes: 4, averageScore: 5.5, averageToPar: 0.5 },
+    ])
+    expect(data.stats.scoringAverages.byStrokeIndex[0]).toMatchObject({ holes: 6, averageToPar: 0.67 })
+    expect(data.stats.scoringAverages.byYardage.filter((row: { par: number }) => row.par === 4)).toEqual([
+      { par: 4, label: 'Under 350', holes: 0, averageScore: 0, averageToPar: 0 },
+      { par: 4, label: '350-400', holes: 6, averageScore: 4.5, averageToPar: 0.5 },
+      { par: 4, label: '400+', holes: 4, averageScore: 4.75, averageToPar: 0.75 },
+    ])
+  })
+
+  it('should report the score distribution overall and per round', async () => {
+    const [round] = mockRounds
+    const holeScores = round.holeScores.map((hole) => (
+      hole.holeNumber === 4 ? { ...hole, score: 3 } : hole // Birdie on a green in regulation
+    ))
+    vi.mocked(prisma.round.findMany).mockResolvedValue([{ ...round, holeScores }] as any)
+
+    const request = new NextRequest('http://localhost:3000/api/stats?filter=alltime')
+    const response = await GET(request)
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.stats.scoreDistribution.rounds).toBe(1)
+    expect(data.stats.scoreDistribution.counts).toEqual({
+      EAGLE: 0,
+      BIRDIE: 1,
+      PAR: 8,
+      BOGEY: 9,
+      DOUBLE_BOGEY: 0,
+      OTHER: 0,
+    })
+    expect(data.stats.scoreDistribution.bogeyAvoidance).toBe(50)
+    expect(data.stats.scoreDistribution.birdieConversion).toBe(11.1)
+    expect(data.stats.scoreDistribution.roundBreakdowns).toHaveLength(1)
+    expect(data.stats.scoreDistribution.roundBreakdowns[0]).toMatchObject({ roundId: round.id, holes: 18 })
+  })
+
+  it('should report strokes gained by category for rounds with shot records', async () => {
+    const [round] = mockRounds
+    const holeScores = round.holeScores.map((hole) => hole.holeNumber === 2
+      ? {
+          ...hole,
+          shots: [
+            { shotNumber: 1, lie: 'TEE', distance: 150, result: 'IN_PLAY' },
+            { shotNumber: 2, lie: 'GREEN', distance: 20, result: 'IN_PLAY' },
+            { shotNumber: 3, lie: 'GREEN', distance: 2, result: 'HOLED' },
+          ],
+        }
+      : { ...hole, shots: [] })
+    vi.mocked(prisma.round.findMany).mockResolvedValue([{ ...round, holeScores }, mockRounds[1]] as any)
+
+    const request = new NextRequest('http://localhost:3000/api/stats?filter=alltime')
+    const response = await GET(request)
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.stats.strokesGained.rounds).toBe(1)
+    expect(data.stats.strokesGained.holes).toBe(1)
+    // Tee 2.98 (interpolated) -> 20 ft 1.87 -> 2 ft 1.01 -> holed in 3
+    expect(data.stats.strokesGained.total).toBe(-0.02)
+    expect(data.stats.strokesGained.byCategory).toEqual({
+      OFF_THE_TEE: 0,
+      APPROACH: 0.11,
+      AROUND_THE_GREEN: 0,
+      PUTTING: -0.13,
+    })
+    expect(data.stats.strokesGained.roundBreakdowns).toEqual([
+      expect.objectContaining({ roundId: round.id, courseName: round.courseName, holes: 1, total: -0.02 }),
+    ])
+  })
+
   it('should calculate FIR percentage correctly', async () => {
     vi.mocked(prisma.round.findMany).mockResolvedValue(mockRounds as any)
 
@@ -291,6 +445,56 @@ describe('GET /api/stats', () => {
     )
   })
 
+  it('should filter by catalog course across all its tees', async () => {
+    vi.mocked(prisma.round.findMany).mockResolvedValue([mockRounds[0]] as any)
+
+    const request = new NextRequest(
+      'http://localhost:3000/api/stats?filter=course&courseId=3'
+    )
+    const response = await GET(request)
+
+    expect(response.status).toBe(200)
+    const { where } = vi.mocked(prisma.round.findMany).mock.calls[0][0] as any
+    expect(where.teeSet).toEqual({ courseId: 3 })
+    expect(where.courseName).toBeUndefined()
+  })
+
+  it('should filter by score type', async () => {
+    vi.mocked(prisma.round.findMany).mockResolvedValue([mockRounds[0]] as any)
+
+    const request = new NextRequest(
+      'http://localhost:3000/api/stats?filter=alltime&scoreType=HOME,COMPETITION,BOGUS'
+    )
+    const response = await GET(request)
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.scoreTypes).toEqual(['HOME', 'COMPETITION'])
+    expect(vi.mocked(prisma.round.findMany)).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          scoreType: { in: ['HOME', 'COMPETITION'] },
+        }),
+      })
+    )
+  })
+
+  it('should filter to handicap-eligible rounds', async () => {
+    vi.mocked(prisma.round.findMany).mockResolvedValue([mockRounds[0]] as any)
+
+    const request = new NextRequest('http://localhost:3000/api/stats?filter=alltime&eligibility=eligible')
+    const response = await GET(request)
+
+    expect(response.status).toBe(200)
+    expect(vi.mocked(prisma.round.findMany)).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          ineligibleReasons: { isEmpty: true },
+        }),
+      })
+    )
+  })
+
   it('should return zero stats when no rounds exist', async () => {
     vi.mocked(prisma.round.findMany).mockResolvedValue([])
 
@@ -1,7 +1,27 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { GET, PUT, DELETE } from '../users/[id]/route'
-import { mockPrismaUser, resetMocks } from './mocks/prisma'
+import { mockPrisma, mockPrismaRound, mockPrismaUser, resetMocks } from './mocks/prisma'
 import { createMockRequest } from './mocks/nextRequest'
+import { isAdmin } from '@/lib/auth-utils'
+
+// Mock auth helpers from auth-utils; the current user is an admin unless a test says otherwise
+vi.mock('@/lib/auth-utils', () => ({
+  getCurrentUser: vi.fn().mockResolvedValue({
+    id: '1',
+    email: 'admin@example.com',
+    name: 'Admin User',
+    role: 'ADMIN'
+  }),
+  isAdmin: vi.fn().mockResolvedValue(true),
+  requireAdmin: vi.fn().mockResolvedValue({ id: '1', role: 'ADMIN' }),
+  requireResourceAccess: vi.fn().mockResolvedValue({ id: '1', role: 'ADMIN' }),
+  createAuthErrorResponse: vi.fn((error: Error, status: number) => {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  })
+}))
 
 // Mock console methods to avoid cluttering test output
 vi.spyOn(console, 'error').mockImplementation(() => {})
@@ -100,7 +120,7 @@ describe('PUT /api/users/[id]', () => {
     expect(data.updatedAt).toBeDefined()
     expect(mockPrismaUser.update).toHaveBeenCalledWith({
       where: { id: 1 },
-      data: updateData,
+      data: { ...updateData, handicapIndexOverride: true },
     })
   })
 
@@ -181,17 +201,55 @@ describe('PUT /api/users/[id]', () => {
     expect(data.error).toBe('Validation error')
   })
 
-  it('should reject negative rounds', async () => {
-    const updateData = {
-      rounds: -5,
-    }
+  it('should not write the round count, which is derived from rounds', async () => {
+    mockPrismaUser.update.mockResolvedValue({ id: 1, email: 'user@example.com', name: 'Test User', rounds: 10 })
 
-    const request = createMockRequest('PUT', updateData)
-    const response = await PUT(request, { params: { id: '1' } })
-    const data = await response.json()
+    const request = createMockRequest('PUT', { name: 'Test User', rounds: 99 })
+    const response = await PUT(request, { params: Promise.resolve({ id: '1' }) })
 
-    expect(response.status).toBe(400)
-    expect(data.error).toBe('Validation error')
+    expect(response.status).toBe(200)
+    expect(mockPrismaUser.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: { name: 'Test User' },
+    })
+  })
+
+  it('should forbid players from setting their own handicap index', async () => {
+    vi.mocked(isAdmin).mockResolvedValueOnce(false)
+
+    const request = createMockRequest('PUT', { handicapIndex: 2.0 })
+    const response = await PUT(request, { params: Promise.resolve({ id: '1' }) })
+
+    expect(response.status).toBe(403)
+    expect(mockPrismaUser.update).not.toHaveBeenCalled()
+  })
+
+  it('should forbid players from changing the override flag', async () => {
+    vi.mocked(isAdmin).mockResolvedValueOnce(false)
+
+    const request = createMockRequest('PUT', { name: 'Test User', handicapIndexOverride: false })
+    const response = await PUT(request, { params: Promise.resolve({ id: '1' }) })
+
+    expect(response.status).toBe(403)
+    expect(mockPrismaUser.update).not.toHaveBeenCalled()
+  })
+
+  it('should recalculate the index in the same transaction when the override is cleared', async () => {
+    const user = { id: 1, email: 'user@example.com', name: 'Test User', handicapIndex: 14.2, handicapIndexOverride: false, rounds: 0 }
+    mockPrismaUser.update.mockResolvedValue(user)
+    mockPrismaUser.findUnique.mockResolvedValue(user)
+    mockPrismaRound.findMany.mockResolvedValue([])
+
+    const request = createMockRequest('PUT', { handicapIndexOverride: false })
+    const response = await PUT(request, { params: Promise.resolve({ id: '1' }) })
+
+    expect(response.status).toBe(200)
+    expect(mockPrisma.$transaction).toHaveBeenCalled()
+    expect(mockPrismaRound.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { userId: 1 } }))
+    expect(mockPrismaUser.update).toHaveBeenLastCalledWith({
+      where: { id: 1 },
+      data: { rounds: 0, handicapIndex: null },
+    })
   })
 
   it('should handle database errors', async () => {
@@ -81,12 +81,12 @@ describe('POST /api/users', () => {
       email: 'newuser@example.com',
       name: 'New User',
       handicapIndex: 15.0,
-      rounds: 5,
     }
 
     const createdUser = {
       id: 1,
       ...newUser,
+      rounds: 0,
       createdAt: new Date(),
       updatedAt: new Date(),
     }
@@ -102,11 +102,11 @@ describe('POST /api/users', () => {
     expect(data.email).toBe(newUser.email)
     expect(data.name).toBe(newUser.name)
     expect(data.handicapIndex).toBe(newUser.handicapIndex)
-    expect(data.rounds).toBe(newUser.rounds)
+    expect(data.rounds).toBe(0)
     expect(data.createdAt).toBeDefined()
     expect(data.updatedAt).toBeDefined()
     expect(mockPrismaUser.create).toHaveBeenCalledWith({
-      data: newUser,
+      data: { ...newUser, handicapIndexOverride: true },
     })
   })
 
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { logger } from '@/lib/logger'
+import { getHandicapCertificate, verifyCertificateToken } from '@/lib/handicap-certificate'
+
+// GET /api/certificates/[token] - Public verification of a handicap certificate
+// No session is required; the signed, expiring token is the authorization
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const startTime = logger.startTimer()
+  const { token } = await params
+
+  try {
+    logger.apiRequest('GET', '/api/certificates/[token]')
+
+    const verified = verifyCertificateToken(token)
+
+    if (!verified) {
+      logger.warn('Invalid or expired certificate verification link')
+      return NextResponse.json(
+        { error: 'This verification link is invalid or has expired' },
+        { status: 404 }
+      )
+    }
+
+    const certificate = await getHandicapCertificate(verified.userId)
+
+    if (!certificate) {
+      return NextResponse.json(
+        { error: 'This verification link is invalid or has expired' },
+        { status: 404 }
+      )
+    }
+
+    const duration = logger.endTimer(startTime)
+    logger.apiResponse('GET', '/api/certificates/[token]', 200, duration)
+
+    // The signed figures are what the PDF shows; the live record only says whether they still stand
+    return NextResponse.json({
+      certificate,
+      certified: {
+        handicapIndex: verified.handicapIndex,
+        revisionDate: verified.revisionDate,
+      },
+      current: certificate.handicapIndex === verified.handicapIndex &&
+        certificate.revisionDate === verified.revisionDate,
+      expiresAt: verified.expiresAt,
+    })
+  } catch (error) {
+    logger.apiError('GET', '/api/certificates/[token]', error as Error, 500)
+    return NextResponse.json(
+      { error: 'Failed to verify handicap certificate' },
+      { status: 500 }
+    )
+  }
+}
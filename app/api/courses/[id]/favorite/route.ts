@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { z } from 'zod'
+import { getCurrentUser, createAuthErrorResponse } from '@/lib/auth-utils'
+import { visibleCourseWhere } from '@/lib/course-catalog'
+import { courseFavoriteSchema } from '@/lib/validation'
+
+// PUT /api/courses/[id]/favorite - Add a course to the current user's favorites, or change its preferred tee
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Require authentication
+    const currentUser = await getCurrentUser()
+    const userId = parseInt(currentUser.id)
+    const { id } = await params
+    const body = await request.json()
+
+    // Validate input
+    const { teeSetId, gender } = courseFavoriteSchema.parse(body)
+
+    const course = await prisma.course.findUnique({
+      where: { id: parseInt(id), AND: [visibleCourseWhere(currentUser)] },
+      include: { teeSets: { select: { id: true } } },
+    })
+
+    if (!course) {
+      return NextResponse.json(
+        { error: 'Course not found' },
+        { status: 404 }
+      )
+    }
+
+    if (teeSetId !== null && !course.teeSets.some((teeSet) => teeSet.id === teeSetId)) {
+      return NextResponse.json(
+        { error: 'Tee set does not belong to this course' },
+        { status: 400 }
+      )
+    }
+
+    const favorite = await prisma.courseFavorite.upsert({
+      where: { userId_courseId: { userId, courseId: course.id } },
+      create: { userId, courseId: course.id, teeSetId, gender },
+      update: { teeSetId, gender },
+    })
+
+    return NextResponse.json(favorite)
+  } catch (error) {
+    // Handle auth errors
+    if (error instanceof Error && (error.message.includes('Unauthorized') || error.message.includes('Forbidden'))) {
+      return createAuthErrorResponse(error, error.message.includes('Forbidden') ? 403 : 401)
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error saving favorite course:', error)
+    return NextResponse.json(
+      { error: 'Failed to save favorite course' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/courses/[id]/favorite - Remove a course from the current user's favorites
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Require authentication
+    const currentUser = await getCurrentUser()
+    const { id } = await params
+
+    // Removing a course that isn't a favorite is not an error
+    await prisma.courseFavorite.deleteMany({
+      where: { userId: parseInt(currentUser.id), courseId: parseInt(id) },
+    })
+
+    return NextResponse.json({ message: 'Favorite removed successfully' })
+  } catch (error) {
+    // Handle auth errors
+    if (error instanceof Error && (error.message.includes('Unauthorized') || error.message.includes('Forbidden'))) {
+      return createAuthErrorResponse(error, error.message.includes('Forbidden') ? 403 : 401)
+    }
+
+    console.error('Error removing favorite course:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove favorite course' },
+      { status: 500 }
+    )
+  }
+}
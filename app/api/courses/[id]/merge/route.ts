@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { z } from 'zod'
+import { requireAdmin, createAuthErrorResponse } from '@/lib/auth-utils'
+import { formatCourseName, mergeCourses } from '@/lib/course-catalog'
+import { RECALCULATION_TRANSACTION_OPTIONS } from '@/lib/handicap-history'
+import { courseMergeSchema } from '@/lib/validation'
+
+// POST /api/courses/[id]/merge - Merge a duplicate course into another (Admin only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Require admin access
+    await requireAdmin()
+    const { id } = await params
+    const body = await request.json()
+
+    // Validate input
+    const { targetCourseId } = courseMergeSchema.parse(body)
+    const sourceCourseId = parseInt(id)
+
+    if (sourceCourseId === targetCourseId) {
+      return NextResponse.json(
+        { error: 'A course cannot be merged into itself' },
+        { status: 400 }
+      )
+    }
+
+    // Rounds, tees, the duplicate and the recalculated handicaps change together or not at all
+    const course = await prisma.$transaction(
+      (tx) => mergeCourses(sourceCourseId, targetCourseId, tx),
+      RECALCULATION_TRANSACTION_OPTIONS
+    )
+
+    if (!course) {
+      return NextResponse.json(
+        { error: 'Course not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ ...course, name: formatCourseName(course) })
+  } catch (error) {
+    // Handle auth errors
+    if (error instanceof Error && (error.message.includes('Unauthorized') || error.message.includes('Forbidden'))) {
+      return createAuthErrorResponse(error, error.message.includes('Forbidden') ? 403 : 401)
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error merging courses:', error)
+    return NextResponse.json(
+      { error: 'Failed to merge courses' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { z } from 'zod'
+import { getCurrentUser, requireAdmin, createAuthErrorResponse } from '@/lib/auth-utils'
+import { COURSE_DETAIL_INCLUDE, formatCourseName, visibleCourseWhere } from '@/lib/course-catalog'
+import { courseReviewSchema } from '@/lib/validation'
+
+// GET /api/courses/[id] - Get a catalog course with its tees and holes
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Require authentication
+    const currentUser = await getCurrentUser()
+    const { id } = await params
+
+    // Unverified courses entered by other users are reported as not found
+    const course = await prisma.course.findUnique({
+      where: { id: parseInt(id), AND: [visibleCourseWhere(currentUser)] },
+      include: COURSE_DETAIL_INCLUDE,
+    })
+
+    if (!course) {
+      return NextResponse.json(
+        { error: 'Course not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ ...course, name: formatCourseName(course) })
+  } catch (error) {
+    // Handle auth errors
+    if (error instanceof Error && (error.message.includes('Unauthorized') || error.message.includes('Forbidden'))) {
+      return createAuthErrorResponse(error, error.message.includes('Forbidden') ? 403 : 401)
+    }
+
+    console.error('Error fetching course:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch course' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/courses/[id] - Verify a user-entered course, or return it to review (Admin only)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Require admin access
+    await requireAdmin()
+    const { id } = await params
+    const body = await request.json()
+
+    // Validate input
+    const { verified } = courseReviewSchema.parse(body)
+
+    const existingCourse = await prisma.course.findUnique({
+      where: { id: parseInt(id) },
+    })
+
+    if (!existingCourse) {
+      return NextResponse.json(
+        { error: 'Course not found' },
+        { status: 404 }
+      )
+    }
+
+    const course = await prisma.course.update({
+      where: { id: existingCourse.id },
+      data: { verified },
+      include: COURSE_DETAIL_INCLUDE,
+    })
+
+    return NextResponse.json({ ...course, name: formatCourseName(course) })
+  } catch (error) {
+    // Handle auth errors
+    if (error instanceof Error && (error.message.includes('Unauthorized') || error.message.includes('Forbidden'))) {
+      return createAuthErrorResponse(error, error.message.includes('Forbidden') ? 403 : 401)
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating course:', error)
+    return NextResponse.json(
+      { error: 'Failed to update course' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUser, createAuthErrorResponse } from '@/lib/auth-utils'
+import { getCourseQuickPicks } from '@/lib/course-favorites'
+
+// GET /api/courses/favorites - Get the current user's favorite courses and recently played tees
+export async function GET() {
+  try {
+    // Require authentication
+    const currentUser = await getCurrentUser()
+
+    const quickPicks = await getCourseQuickPicks(parseInt(currentUser.id))
+
+    return NextResponse.json(quickPicks)
+  } catch (error) {
+    // Handle auth errors
+    if (error instanceof Error && (error.message.includes('Unauthorized') || error.message.includes('Forbidden'))) {
+      return createAuthErrorResponse(error, error.message.includes('Forbidden') ? 403 : 401)
+    }
+
+    console.error('Error fetching favorite courses:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch favorite courses' },
+      { status: 500 }
+    )
+  }
+}
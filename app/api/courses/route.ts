@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { courseListQuerySchema, customCourseSchema } from '@/lib/validation'
+import { z } from 'zod'
+import { Prisma } from '@prisma/client'
+import { getCurrentUser, createAuthErrorResponse } from '@/lib/auth-utils'
+import { createCustomCourse, formatCourseName, visibleCourseWhere } from '@/lib/course-catalog'
+
+// GET /api/courses - List courses in the local catalog
+export async function GET(request: NextRequest) {
+  try {
+    // Require authentication
+    const currentUser = await getCurrentUser()
+    const { searchParams } = new URL(request.url)
+
+    // Validate input
+    const query = courseListQuerySchema.parse(Object.fromEntries(searchParams))
+
+    const where: Prisma.CourseWhereInput = { AND: [visibleCourseWhere(currentUser)] }
+
+    if (query.query) {
+      where.OR = [
+        { clubName: { contains: query.query, mode: 'insensitive' } },
+        { courseName: { contains: query.query, mode: 'insensitive' } },
+      ]
+    }
+
+    if (query.status) {
+      where.verified = query.status === 'verified'
+    }
+
+    if (query.custom) {
+      where.externalId = null
+    }
+
+    if (query.played) {
+      where.teeSets = { some: { rounds: { some: { userId: parseInt(currentUser.id) } } } }
+    }
+
+    const courses = await prisma.course.findMany({
+      where,
+      orderBy: [{ clubName: 'asc' }, { courseName: 'asc' }],
+      include: {
+        createdBy: {
+          select: { id: true, name: true },
+        },
+        _count: {
+          select: { teeSets: true },
+        },
+      },
+    })
+
+    return NextResponse.json({
+      courses: courses.map(({ _count, ...course }) => ({
+        ...course,
+        name: formatCourseName(course),
+        teeSetCount: _count.teeSets,
+      })),
+    })
+  } catch (error) {
+    // Handle auth errors
+    if (error instanceof Error && (error.message.includes('Unauthorized') || error.message.includes('Forbidden'))) {
+      return createAuthErrorResponse(error, error.message.includes('Forbidden') ? 403 : 401)
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error fetching courses:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch courses' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/courses - Add a course that isn't in the Golf Course API
+export async function POST(request: NextRequest) {
+  try {
+    // Require authentication
+    const currentUser = await getCurrentUser()
+    const body = await request.json()
+
+    // Validate input
+    const validatedData = customCourseSchema.parse(body)
+
+    const course = await createCustomCourse(validatedData, parseInt(currentUser.id))
+
+    return NextResponse.json({ ...course, name: formatCourseName(course) }, { status: 201 })
+  } catch (error) {
+    // Handle auth errors
+    if (error instanceof Error && (error.message.includes('Unauthorized') || error.message.includes('Forbidden'))) {
+      return createAuthErrorResponse(error, error.message.includes('Forbidden') ? 403 : 401)
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating course:', error)
+    return NextResponse.json(
+      { error: 'Failed to create course' },
+      { status: 500 }
+    )
+  }
+}
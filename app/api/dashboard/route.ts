@@ -2,14 +2,11 @@ import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getCurrentUser, createAuthErrorResponse } from '@/lib/auth-utils'
 import { logger } from '@/lib/logger'
-import { calculateHandicapIndexFromRounds, getNumberOfDifferentialsUsed } from '@/lib/handicap-calculator'
+import { summarizeHandicap, HandicapSummary } from '@/lib/handicap-history'
 
-export interface DashboardStats {
+export interface DashboardStats extends HandicapSummary {
   handicapIndex: number | null
-  calculatedHandicapIndex: number | null
-  numberOfDifferentialsUsed: number
   totalRounds: number
-  roundsWithDifferential: number
   averageScore: number | null
   greensInRegulationPct: number | null
   fairwaysInRegulationPct: number | null
@@ -22,6 +19,8 @@ export interface DashboardStats {
     score: number
     holes: number
     handicapDifferential: number | null
+    countsTowardIndex: boolean
+    exceptionalScoreAdjustment: number // ESR applied to this round's differential
   }>
 }
 
@@ -53,6 +52,8 @@ export async function GET() {
             upAndDowns: true,
             upAndDownAttempts: true,
             handicapDifferential: true,
+            exceptionalScoreAdjustment: true,
+            createdAt: true,
           },
           orderBy: {
             datePlayed: 'desc',
@@ -107,19 +108,9 @@ export async function GET() {
     const totalUpDownAttempts = roundsWithUpDown.reduce((sum, r) => sum + (r.upAndDownAttempts || 0), 0)
     const upAndDownPct = totalUpDownAttempts > 0 ? (totalUpDowns / totalUpDownAttempts) * 100 : null
 
-    // Calculate handicap index from rounds
-    const calculatedHandicapIndex = calculateHandicapIndexFromRounds(rounds.map(r => ({
-      id: r.id,
-      score: r.score,
-      courseRating: r.courseRating,
-      slopeRating: r.slopeRating,
-      handicapDifferential: r.handicapDifferential,
-      datePlayed: r.datePlayed,
-    })))
-
-    // Count rounds with valid differential
-    const roundsWithDifferential = rounds.filter(r => r.handicapDifferential !== null).length
-    const numberOfDifferentialsUsed = getNumberOfDifferentialsUsed(roundsWithDifferential)
+    // Handicap figures shared with the handicap certificate
+    const { summary, calculation } = await summarizeHandicap(parseInt(currentUser.id), rounds)
+    const { countingRoundIds, exceptionalScoreAdjustments } = calculation
 
     // Get recent 5 rounds
     const recentRounds = rounds.slice(0, 5).map(r => ({
@@ -129,14 +120,14 @@ export async function GET() {
       score: r.score,
       holes: r.holes,
       handicapDifferential: r.handicapDifferential,
+      countsTowardIndex: countingRoundIds.includes(r.id),
+      exceptionalScoreAdjustment: exceptionalScoreAdjustments[r.id] ?? 0,
     }))
 
     const stats: DashboardStats = {
+      ...summary,
       handicapIndex: user.handicapIndex,
-      calculatedHandicapIndex,
-      numberOfDifferentialsUsed,
       totalRounds,
-      roundsWithDifferential,
       averageScore: averageScore ? Math.round(averageScore * 10) / 10 : null,
       greensInRegulationPct: greensInRegulationPct ? Math.round(greensInRegulationPct * 10) / 10 : null,
       fairwaysInRegulationPct: fairwaysInRegulationPct ? Math.round(fairwaysInRegulationPct * 10) / 10 : null,
@@ -1,62 +1,58 @@
 import { NextRequest, NextResponse } from 'next/server'
-
-const GOLF_COURSE_API_BASE = 'https://api.golfcourseapi.com/v1'
+import { CACHE_STATUS_HEADER, getGolfCourseDetails, toCacheStatus } from '@/lib/golf-course-cache'
+import { GolfCourseProviderError } from '@/lib/golf-course-provider'
 
 /**
  * Get golf course details by ID
  * GET /api/golf-courses/[id]
+ *
+ * Fetched courses are saved to the catalog, and each tee includes its
+ * tee_set_id. Details are cached and answered from the catalog when
+ * golfcourseapi.com can't be reached or no API key is configured.
  */
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    // Get API key from environment
-    const API_KEY = process.env.GOLF_COURSE_API_KEY
+    const { id } = await params
 
-    // Check if API key is configured
-    if (!API_KEY) {
+    if (!id) {
       return NextResponse.json(
-        { error: 'Golf Course API key not configured. Please add GOLF_COURSE_API_KEY to your .env file.' },
-        { status: 500 }
+        { error: 'Missing course ID' },
+        { status: 400 }
       )
     }
 
-    const { id } = await params
+    const courseId = Number(id)
 
-    if (!id) {
+    if (!Number.isInteger(courseId)) {
       return NextResponse.json(
-        { error: 'Missing course ID' },
+        { error: 'Invalid course ID' },
         { status: 400 }
       )
     }
 
-    // Call Golf Course API
-    const response = await fetch(
-      `${GOLF_COURSE_API_BASE}/courses/${id}`,
-      {
-        headers: {
-          'Authorization': `Key ${API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-      }
-    )
+    const result = await getGolfCourseDetails(courseId)
 
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error('Golf Course API error:', response.status, errorText)
+    if (!result) {
       return NextResponse.json(
-        { error: 'Failed to fetch course details', details: errorText },
-        { status: response.status }
+        { error: 'Course not found' },
+        { status: 404 }
       )
     }
 
-    const data = await response.json()
-
-    // The API returns { course: {...} }, so unwrap it
-    const courseData = data.course || data
-    return NextResponse.json(courseData)
+    return NextResponse.json(result.data, {
+      headers: { [CACHE_STATUS_HEADER]: toCacheStatus(result.source) },
+    })
   } catch (error) {
+    if (error instanceof GolfCourseProviderError) {
+      return NextResponse.json(
+        { error: 'Failed to fetch course details', details: error.details },
+        { status: error.status }
+      )
+    }
+
     console.error('Error fetching course details:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
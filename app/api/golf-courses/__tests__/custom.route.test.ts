@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { GET } from '../custom/[id]/route'
+import { NextRequest } from 'next/server'
+import { mockPrismaCourse, resetMocks } from '../../__tests__/mocks/prisma'
+import { getCurrentUser } from '@/lib/auth-utils'
+
+// Mock auth helpers from auth-utils
+vi.mock('@/lib/auth-utils', () => ({
+  getCurrentUser: vi.fn(),
+  createAuthErrorResponse: vi.fn((error: Error, status: number) => {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  })
+}))
+
+describe('GET /api/golf-courses/custom/[id]', () => {
+  beforeEach(() => {
+    resetMocks()
+    vi.mocked(getCurrentUser).mockResolvedValue({ id: '7', role: 'USER' } as any)
+  })
+
+  it('should return a custom course in the Golf Course API shape', async () => {
+    mockPrismaCourse.findUnique.mockResolvedValue({
+      id: 20,
+      externalId: null,
+      clubName: 'Riverside Golf Club',
+      courseName: 'Riverside Golf Club',
+      address: null,
+      city: 'Springfield',
+      state: null,
+      country: null,
+      latitude: null,
+      longitude: null,
+      teeSets: [{
+        id: 40,
+        name: 'White',
+        gender: null,
+        courseRating: 33.1,
+        slopeRating: 112,
+        bogeyRating: null,
+        totalYards: 2880,
+        totalMeters: null,
+        numberOfHoles: 9,
+        parTotal: 36,
+        frontCourseRating: null,
+        frontSlopeRating: null,
+        frontBogeyRating: null,
+        backCourseRating: null,
+        backSlopeRating: null,
+        backBogeyRating: null,
+        holes: [{ id: 1, teeSetId: 40, holeNumber: 1, par: 4, yardage: 320, strokeIndex: 1 }],
+      }],
+    })
+
+    const request = new NextRequest('http://localhost:3000/api/golf-courses/custom/20')
+
+    const response = await GET(request, { params: Promise.resolve({ id: '20' }) })
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.id).toBe(20)
+    expect(data.location.city).toBe('Springfield')
+    expect(data.tees.male[0]).toMatchObject({ tee_name: 'White', course_rating: 33.1, slope_rating: 112, tee_set_id: 40 })
+    expect(data.tees.male[0].holes).toEqual([{ par: 4, yardage: 320, handicap: 1 }])
+  })
+
+  it('should return 404 for courses the user cannot see', async () => {
+    mockPrismaCourse.findUnique.mockResolvedValue(null)
+
+    const request = new NextRequest('http://localhost:3000/api/golf-courses/custom/21')
+
+    const response = await GET(request, { params: Promise.resolve({ id: '21' }) })
+
+    expect(response.status).toBe(404)
+    expect(mockPrismaCourse.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 21, AND: [{ OR: [{ verified: true }, { createdById: null }, { createdById: 7 }] }] },
+    }))
+  })
+})
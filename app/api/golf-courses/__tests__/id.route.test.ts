@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { GET } from '../[id]/route'
 import { NextRequest } from 'next/server'
+import { mockPrismaCourse, mockPrismaGolfCourseApiCache, mockPrismaTeeSet, resetMocks } from '../../__tests__/mocks/prisma'
 
 // Mock fetch globally
 global.fetch = vi.fn()
@@ -11,6 +12,7 @@ process.env.GOLF_COURSE_API_KEY = 'test-api-key-123'
 describe('GET /api/golf-courses/[id]', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    resetMocks()
   })
 
   it('should successfully fetch course details', async () => {
@@ -87,6 +89,7 @@ describe('GET /api/golf-courses/[id]', () => {
           'Authorization': 'Key test-api-key-123',
           'Content-Type': 'application/json',
         },
+        signal: expect.any(AbortSignal),
       }
     )
   })
@@ -312,4 +315,105 @@ describe('GET /api/golf-courses/[id]', () => {
     expect(tee.holes[0]).toHaveProperty('yardage')
     expect(tee.holes[0]).toHaveProperty('handicap')
   })
+
+  it('should store the course in the catalog and return the catalog IDs', async () => {
+    const tee = (tee_name: string) => ({
+      tee_name,
+      course_rating: 72.0,
+      slope_rating: 130,
+      number_of_holes: 18,
+      par_total: 72,
+      holes: [{ par: 4, yardage: 400, handicap: 1 }],
+    })
+    const mockCourse = {
+      id: 321,
+      club_name: 'Test Club',
+      course_name: 'Test Course',
+      location: { address: 'Test Address', city: 'Test', state: 'Test', country: 'Test', latitude: 0, longitude: 0 },
+      tees: { male: [tee('Blue')], female: [tee('Red')] },
+    }
+
+    ;(global.fetch as any).mockResolvedValueOnce({
+      ok: true,
+      json: async () => mockCourse
+    })
+    mockPrismaCourse.upsert.mockResolvedValue({ id: 7 })
+    mockPrismaTeeSet.upsert
+      .mockResolvedValueOnce({ id: 70 })
+      .mockResolvedValueOnce({ id: 71 })
+
+    const request = new NextRequest('http://localhost:3000/api/golf-courses/321')
+
+    const response = await GET(request, { params: Promise.resolve({ id: '321' }) })
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(mockPrismaCourse.upsert).toHaveBeenCalledWith(expect.objectContaining({ where: { externalId: 321 } }))
+    expect(data.catalog_id).toBe(7)
+    expect(data.tees.male[0].tee_set_id).toBe(70)
+    expect(data.tees.female[0].tee_set_id).toBe(71)
+  })
+
+  it('should still return course details when the catalog cannot be updated', async () => {
+    ;(global.fetch as any).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ id: 654, club_name: 'Test Club', course_name: 'Test', tees: { male: [{ tee_name: 'Blue', holes: [] }], female: [] } })
+    })
+    mockPrismaCourse.upsert.mockRejectedValue(new Error('Database unavailable'))
+
+    const request = new NextRequest('http://localhost:3000/api/golf-courses/654')
+
+    const response = await GET(request, { params: Promise.resolve({ id: '654' }) })
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.club_name).toBe('Test Club')
+    expect(data.tees.male[0].tee_set_id).toBeUndefined()
+  })
+  it('should answer from the catalog when the API is unreachable', async () => {
+    ;(global.fetch as any).mockRejectedValueOnce(new TypeError('fetch failed'))
+    mockPrismaCourse.findUnique.mockResolvedValue({
+      id: 3,
+      externalId: 987,
+      clubName: 'Test Club',
+      courseName: 'Test',
+      address: null,
+      city: null,
+      state: null,
+      country: null,
+      latitude: null,
+      longitude: null,
+      teeSets: [],
+    })
+
+    const request = new NextRequest('http://localhost:3000/api/golf-courses/987')
+
+    const response = await GET(request, { params: Promise.resolve({ id: '987' }) })
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('X-Cache')).toBe('OFFLINE')
+    expect(data.id).toBe(987)
+    expect(data.club_name).toBe('Test Club')
+    expect(mockPrismaGolfCourseApiCache.upsert).not.toHaveBeenCalled()
+  })
+
+  it('should return 404 without an API key when the course is not in the catalog', async () => {
+    const apiKey = process.env.GOLF_COURSE_API_KEY
+    delete process.env.GOLF_COURSE_API_KEY
+    mockPrismaCourse.findUnique.mockResolvedValue(null)
+
+    try {
+      const request = new NextRequest('http://localhost:3000/api/golf-courses/987')
+
+      const response = await GET(request, { params: Promise.resolve({ id: '987' }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(404)
+      expect(data.error).toBe('Course not found')
+      expect(global.fetch).not.toHaveBeenCalled()
+    } finally {
+      process.env.GOLF_COURSE_API_KEY = apiKey
+    }
+  })
 })
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { GET } from '../search/route'
 import { NextRequest } from 'next/server'
+import { mockPrismaCourse, mockPrismaGolfCourseApiCache } from '../../__tests__/mocks/prisma'
 
 // Mock fetch globally
 global.fetch = vi.fn()
@@ -11,6 +12,7 @@ process.env.GOLF_COURSE_API_KEY = 'test-api-key-123'
 describe('GET /api/golf-courses/search', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    mockPrismaCourse.findMany.mockResolvedValue([])
   })
 
   it('should successfully search for golf courses', async () => {
@@ -54,6 +56,7 @@ describe('GET /api/golf-courses/search', () => {
           'Authorization': 'Key test-api-key-123',
           'Content-Type': 'application/json',
         },
+        signal: expect.any(AbortSignal),
       }
     )
   })
@@ -163,4 +166,49 @@ describe('GET /api/golf-courses/search', () => {
     expect(data.courses).toHaveLength(3)
     expect(data.courses[0].club_name).toBe('Augusta National')
   })
+  it('should return cached results without calling the API', async () => {
+    const cachedCourses = [
+      { id: 12345, club_name: 'Pebble Beach Golf Links', course_name: 'Pebble Beach', location: { address: '' } }
+    ]
+    mockPrismaGolfCourseApiCache.findUnique.mockResolvedValueOnce({
+      key: 'search:pebble',
+      data: cachedCourses,
+      fetchedAt: new Date(),
+    })
+
+    const request = new NextRequest('http://localhost:3000/api/golf-courses/search?query=Pebble')
+
+    const response = await GET(request)
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('X-Cache')).toBe('HIT')
+    expect(data.courses).toEqual(cachedCourses)
+    expect(global.fetch).not.toHaveBeenCalled()
+  })
+
+  it('should list catalog matches before the API results for other courses', async () => {
+    mockPrismaCourse.findMany.mockResolvedValueOnce([
+      { id: 3, externalId: 12345, clubName: 'Pebble Beach Golf Links', courseName: 'Pebble Beach', address: null }
+    ])
+    ;(global.fetch as any).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        courses: [
+          { id: 12345, club_name: 'Pebble Beach Golf Links', course_name: 'Pebble Beach', location: { address: '1700 17-Mile Drive' } },
+          { id: 67890, club_name: 'Pebble Beach Resorts', course_name: 'Spyglass Hill', location: { address: '' } }
+        ]
+      })
+    })
+
+    const request = new NextRequest('http://localhost:3000/api/golf-courses/search?query=Pebble')
+
+    const response = await GET(request)
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('X-Cache')).toBe('MISS')
+    expect(data.courses.map((course: { id: number }) => course.id)).toEqual([12345, 67890])
+    expect(data.courses[0].location.address).toBe('')
+  })
 })
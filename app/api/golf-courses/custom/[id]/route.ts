@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser, createAuthErrorResponse } from '@/lib/auth-utils'
+import { COURSE_DETAIL_INCLUDE, toGolfCourseDetails, visibleCourseWhere } from '@/lib/course-catalog'
+
+/**
+ * Get a user-entered catalog course in the Golf Course API shape
+ * GET /api/golf-courses/custom/[id]
+ *
+ * Lets GolfCourseSearch select courses that aren't in golfcourseapi.com the same
+ * way as API courses. The ID is the catalog course ID.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Require authentication
+    const currentUser = await getCurrentUser()
+    const { id } = await params
+
+    const course = await prisma.course.findUnique({
+      where: { id: parseInt(id), AND: [visibleCourseWhere(currentUser)] },
+      include: COURSE_DETAIL_INCLUDE,
+    })
+
+    if (!course) {
+      return NextResponse.json(
+        { error: 'Course not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(toGolfCourseDetails(course))
+  } catch (error) {
+    // Handle auth errors
+    if (error instanceof Error && (error.message.includes('Unauthorized') || error.message.includes('Forbidden'))) {
+      return createAuthErrorResponse(error, error.message.includes('Forbidden') ? 403 : 401)
+    }
+
+    console.error('Error fetching custom course:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
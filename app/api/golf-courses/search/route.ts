@@ -1,24 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
-
-const GOLF_COURSE_API_BASE = 'https://api.golfcourseapi.com/v1'
+import { CACHE_STATUS_HEADER, searchGolfCourses, toCacheStatus } from '@/lib/golf-course-cache'
+import { GolfCourseProviderError } from '@/lib/golf-course-provider'
 
 /**
  * Search for golf courses
  * GET /api/golf-courses/search?query=pinehurst
+ *
+ * Matching courses already in the catalog come first, followed by cached
+ * golfcourseapi.com results for other courses. Only the catalog is searched
+ * when golfcourseapi.com can't be reached or no API key is configured.
  */
 export async function GET(request: NextRequest) {
   try {
-    // Get API key from environment
-    const API_KEY = process.env.GOLF_COURSE_API_KEY
-
-    // Check if API key is configured
-    if (!API_KEY) {
-      return NextResponse.json(
-        { error: 'Golf Course API key not configured. Please add GOLF_COURSE_API_KEY to your .env file.' },
-        { status: 500 }
-      )
-    }
-
     const searchParams = request.nextUrl.searchParams
     const query = searchParams.get('query')
 
@@ -29,29 +22,20 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Call Golf Course API
-    const response = await fetch(
-      `${GOLF_COURSE_API_BASE}/search?search_query=${encodeURIComponent(query)}`,
-      {
-        headers: {
-          'Authorization': `Key ${API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-      }
-    )
+    const { data, source } = await searchGolfCourses(query)
 
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error('Golf Course API error:', response.status, errorText)
+    return NextResponse.json(
+      { courses: data },
+      { headers: { [CACHE_STATUS_HEADER]: toCacheStatus(source) } }
+    )
+  } catch (error) {
+    if (error instanceof GolfCourseProviderError) {
       return NextResponse.json(
-        { error: 'Failed to search golf courses', details: errorText },
-        { status: response.status }
+        { error: 'Failed to search golf courses', details: error.details },
+        { status: error.status }
       )
     }
 
-    const data = await response.json()
-    return NextResponse.json(data)
-  } catch (error) {
     console.error('Error searching golf courses:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { courseHandicapQuerySchema } from '@/lib/validation'
+import { z } from 'zod'
+import { getCurrentUser, requireResourceAccess, createAuthErrorResponse } from '@/lib/auth-utils'
+import {
+  calculateCourseHandicap,
+  calculatePlayingHandicap,
+  HANDICAP_ALLOWANCES,
+} from '@/lib/handicap-calculator'
+
+// GET /api/handicap/course-handicap - Course and playing handicap for a set of tees
+export async function GET(request: NextRequest) {
+  try {
+    // Require authentication
+    const currentUser = await getCurrentUser()
+    const { searchParams } = new URL(request.url)
+
+    // Validate input
+    const query = courseHandicapQuerySchema.parse(Object.fromEntries(searchParams))
+
+    let handicapIndex = query.handicapIndex ?? null
+
+    if (handicapIndex === null) {
+      const userId = query.userId ?? parseInt(currentUser.id)
+
+      // Check access: users can look up their own index, admins can look up any
+      await requireResourceAccess(userId)
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { handicapIndex: true },
+      })
+
+      if (!user) {
+        return NextResponse.json(
+          { error: 'User not found' },
+          { status: 404 }
+        )
+      }
+
+      if (user.handicapIndex === null) {
+        return NextResponse.json(
+          { error: 'User does not have a handicap index' },
+          { status: 400 }
+        )
+      }
+
+      handicapIndex = user.handicapIndex
+    }
+
+    const format = query.format ?? 'stroke-play'
+    const allowance = query.allowance ?? HANDICAP_ALLOWANCES[format]
+
+    const courseHandicap = calculateCourseHandicap(
+      handicapIndex,
+      query.slopeRating,
+      query.courseRating,
+      query.par
+    )
+
+    return NextResponse.json({
+      handicapIndex,
+      courseHandicap,
+      playingHandicap: calculatePlayingHandicap(courseHandicap, allowance),
+      format,
+      allowance,
+    })
+  } catch (error) {
+    // Handle auth errors
+    if (error instanceof Error && (error.message.includes('Unauthorized') || error.message.includes('Forbidden'))) {
+      return createAuthErrorResponse(error, error.message.includes('Forbidden') ? 403 : 401)
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error calculating course handicap:', error)
+    return NextResponse.json(
+      { error: 'Failed to calculate course handicap' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { handicapSimulationQuerySchema } from '@/lib/validation'
+import { z } from 'zod'
+import { getCurrentUser, requireResourceAccess, createAuthErrorResponse } from '@/lib/auth-utils'
+import {
+  calculateHandicapIndexDetails,
+  findScoreForTargetIndex,
+  simulateHandicapIndex,
+  HandicapSimulation,
+} from '@/lib/handicap-calculator'
+import { getLowHandicapIndex, HANDICAP_ROUND_SELECT } from '@/lib/handicap-history'
+
+// GET /api/handicap/simulate - What-if index for a hypothetical score or target index
+export async function GET(request: NextRequest) {
+  try {
+    // Require authentication
+    const currentUser = await getCurrentUser()
+    const { searchParams } = new URL(request.url)
+
+    // Validate input
+    const query = handicapSimulationQuerySchema.parse(Object.fromEntries(searchParams))
+    const userId = query.userId ?? parseInt(currentUser.id)
+
+    // Check access: users can simulate their own record, admins can simulate any
+    await requireResourceAccess(userId)
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true },
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const rounds = await prisma.round.findMany({
+      where: { userId },
+      select: { ...HANDICAP_ROUND_SELECT, courseName: true },
+    })
+
+    const hypothetical = {
+      courseRating: query.courseRating,
+      slopeRating: query.slopeRating,
+      datePlayed: query.datePlayed ?? new Date(),
+    }
+
+    // Caps are measured against the Low Handicap Index as of the simulated round
+    const lowHandicapIndex = await getLowHandicapIndex(userId, hypothetical.datePlayed)
+
+    const simulation: HandicapSimulation | null = query.score !== undefined
+      ? simulateHandicapIndex(rounds, { ...hypothetical, score: query.score }, lowHandicapIndex)
+      : findScoreForTargetIndex(rounds, query.targetIndex as number, hypothetical, lowHandicapIndex)
+
+    const summarize = (ids: number[]) =>
+      rounds
+        .filter(r => ids.includes(r.id))
+        .map(r => ({
+          id: r.id,
+          courseName: r.courseName,
+          datePlayed: r.datePlayed,
+          handicapDifferential: r.handicapDifferential,
+        }))
+
+    return NextResponse.json({
+      currentHandicapIndex: simulation?.currentHandicapIndex
+        ?? calculateHandicapIndexDetails(rounds, lowHandicapIndex).handicapIndex,
+      targetIndex: query.targetIndex ?? null,
+      // Null when no realistic score reaches the target index
+      simulation: simulation && {
+        ...simulation,
+        replacedRounds: summarize(simulation.replacedRoundIds),
+        droppedRounds: summarize(simulation.droppedRoundIds),
+      },
+    })
+  } catch (error) {
+    // Handle auth errors
+    if (error instanceof Error && (error.message.includes('Unauthorized') || error.message.includes('Forbidden'))) {
+      return createAuthErrorResponse(error, error.message.includes('Forbidden') ? 403 : 401)
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error simulating handicap index:', error)
+    return NextResponse.json(
+      { error: 'Failed to simulate handicap index' },
+      { status: 500 }
+    )
+  }
+}
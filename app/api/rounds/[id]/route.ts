@@ -4,7 +4,21 @@ import { updateRoundSchema } from '@/lib/validation'
 import { z } from 'zod'
 import { getCurrentUser, requireResourceAccess, createAuthErrorResponse } from '@/lib/auth-utils'
 import { Role } from '@prisma/client'
-import { calculateHandicapDifferential } from '@/lib/handicap-calculator'
+import {
+  calculateHandicapDifferential,
+  calculateRoundAdjustedGrossScore,
+  calculateExceptionalScoreReduction,
+  getHandicapIneligibilityReasons,
+} from '@/lib/handicap-calculator'
+import { toHoleData, toHoleScoreCreateInput } from '@/lib/golf-calculator'
+import { getRoundValuesFromTeeSet } from '@/lib/course-catalog'
+import {
+  recalculatePlayerHandicaps,
+  getHandicapIndexBefore,
+  RECALCULATION_TRANSACTION_OPTIONS,
+} from '@/lib/handicap-history'
+import { recalculatePlayingConditions } from '@/lib/playing-conditions'
+import { recalculateNineHolePairs } from '@/lib/nine-hole-rounds'
 
 // GET /api/rounds/[id] - Get a single round (own round or admin)
 export async function GET(
@@ -26,6 +40,10 @@ export async function GET(
             email: true,
           },
         },
+        holeScores: {
+          orderBy: { holeNumber: 'asc' },
+          include: { shots: { orderBy: { shotNumber: 'asc' } } },
+        },
       },
     })
 
@@ -67,6 +85,11 @@ export async function PUT(
     // First, get the existing round to check ownership
     const existingRound = await prisma.round.findUnique({
       where: { id: parseInt(id) },
+      include: {
+        holeScores: {
+          orderBy: { holeNumber: 'asc' },
+        },
+      },
     })
 
     if (!existingRound) {
@@ -86,8 +109,27 @@ export async function PUT(
       body.datePlayed = new Date(body.datePlayed)
     }
 
-    // Validate input
-    const validatedData = updateRoundSchema.parse(body)
+    // Validate input; hole-by-hole data is stored as HoleScore rows
+    const { holeByHoleData, nineHoleSide, ...roundInput } = updateRoundSchema.parse(body)
+
+    // Linking the round to a catalog tee takes the course name and ratings from it
+    const teeSet = roundInput.teeSetId
+      ? await prisma.teeSet.findUnique({
+          where: { id: roundInput.teeSetId },
+          include: { course: true },
+        })
+      : null
+
+    if (roundInput.teeSetId && !teeSet) {
+      return NextResponse.json(
+        { error: 'Tee set not found' },
+        { status: 404 }
+      )
+    }
+
+    const validatedData = teeSet
+      ? { ...roundInput, ...getRoundValuesFromTeeSet(teeSet, roundInput.holes ?? existingRound.holes, nineHoleSide) }
+      : roundInput
 
     // If userId is being updated, check authorization and user existence
     if (validatedData.userId && validatedData.userId !== existingRound.userId) {
@@ -115,37 +157,130 @@ export async function PUT(
     const finalScore = validatedData.score ?? existingRound.score
     const finalCourseRating = validatedData.courseRating ?? existingRound.courseRating
     const finalSlopeRating = validatedData.slopeRating ?? existingRound.slopeRating
+    const finalHoleByHoleData = holeByHoleData !== undefined
+      ? holeByHoleData
+      : existingRound.holeScores.map(toHoleData)
+
+    // Net double bogey is based on the round owner's handicap index
+    const owner = await prisma.user.findUnique({
+      where: { id: validatedData.userId ?? existingRound.userId },
+      select: { handicapIndex: true },
+    })
 
-    const handicapDifferential = calculateHandicapDifferential(
-      finalScore,
-      finalCourseRating,
-      finalSlopeRating
+    const adjustedGrossScore = calculateRoundAdjustedGrossScore(
+      {
+        score: finalScore,
+        holeByHoleData: finalHoleByHoleData,
+        courseRating: finalCourseRating,
+        slopeRating: finalSlopeRating,
+      },
+      owner?.handicapIndex ?? null
     )
 
-    // Update round
-    const round = await prisma.round.update({
-      where: { id: parseInt(id) },
-      data: {
-        ...validatedData,
-        datePlayed: validatedData.datePlayed
-          ? validatedData.datePlayed instanceof Date
-            ? validatedData.datePlayed
-            : new Date(validatedData.datePlayed)
-          : undefined,
+    // Re-check acceptability against the round as it will be saved
+    const finalHoles = validatedData.holes ?? existingRound.holes
+    const ineligibleReasons = getHandicapIneligibilityReasons({
+      scoreType: validatedData.scoreType ?? existingRound.scoreType,
+      playFormat: validatedData.playFormat ?? existingRound.playFormat,
+      holes: finalHoles,
+      holesPlayed: validatedData.holesPlayed !== undefined
+        ? validatedData.holesPlayed
+        : existingRound.holesPlayed,
+      courseRating: finalCourseRating,
+      slopeRating: finalSlopeRating,
+    })
+
+    // 9-hole scores are held pending until paired into an 18-hole differential
+    const handicapDifferential = finalHoles === 9 || ineligibleReasons.length > 0
+      ? null
+      : calculateHandicapDifferential(
+          adjustedGrossScore,
+          finalCourseRating,
+          finalSlopeRating
+        )
+
+    const finalDatePlayed = validatedData.datePlayed
+      ? validatedData.datePlayed instanceof Date
+        ? validatedData.datePlayed
+        : new Date(validatedData.datePlayed)
+      : existingRound.datePlayed
+
+    // Save the edit and recalculate everything derived from it in one transaction
+    // so stored handicaps never reflect a partial update
+    const savedRound = await prisma.$transaction(async (tx) => {
+      // Re-evaluate the Exceptional Score Reduction so an edit can undo it
+      const exceptionalScoreAdjustment = calculateExceptionalScoreReduction(
         handicapDifferential,
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
+        await getHandicapIndexBefore(validatedData.userId ?? existingRound.userId, finalDatePlayed, tx)
+      ) || null
+
+      // Update round
+      const round = await tx.round.update({
+        where: { id: parseInt(id) },
+        data: {
+          ...validatedData,
+          datePlayed: finalDatePlayed,
+          adjustedGrossScore,
+          handicapDifferential,
+          exceptionalScoreAdjustment,
+          ineligibleReasons,
+          // An 18-hole round is never part of a 9-hole pair
+          pairedRoundId: finalHoles === 9 ? existingRound.pairedRoundId : null,
+          // Replace the holes when new ones are sent; null clears them
+          holeScores: holeByHoleData !== undefined
+            ? { deleteMany: {}, create: (holeByHoleData ?? []).map(toHoleScoreCreateInput) }
+            : undefined,
+        },
+      })
+
+      // Re-run the Playing Conditions Calculation for the round's day, and for its
+      // previous course and day if the edit moved it
+      const { updatedRounds } = await recalculatePlayingConditions(round, tx)
+      const previousDayUpdates = (
+        round.courseName !== existingRound.courseName ||
+        round.teeSetId !== existingRound.teeSetId ||
+        round.datePlayed.toISOString().slice(0, 10) !== existingRound.datePlayed.toISOString().slice(0, 10)
+      )
+        ? (await recalculatePlayingConditions(existingRound, tx)).updatedRounds
+        : []
+
+      // Re-pair 9-hole rounds if this round was or now is one of them
+      if (round.holes === 9 || existingRound.holes === 9) {
+        await recalculateNineHolePairs(round.userId, tx)
+        if (round.userId !== existingRound.userId) {
+          await recalculateNineHolePairs(existingRound.userId, tx)
+        }
+      }
+
+      // Update stored indexes, round counts and history for the owner, the previous
+      // owner if it changed, and anyone whose differential moved with the PCC
+      await recalculatePlayerHandicaps([
+        round.userId,
+        existingRound.userId,
+        ...updatedRounds.map(r => r.userId),
+        ...previousDayUpdates.map(r => r.userId),
+      ], tx)
+
+      // Return the round as stored after PCC and pairing updates
+      return tx.round.findUnique({
+        where: { id: round.id },
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+          holeScores: {
+            orderBy: { holeNumber: 'asc' },
+            include: { shots: { orderBy: { shotNumber: 'asc' } } },
           },
         },
-      },
-    })
+      })
+    }, RECALCULATION_TRANSACTION_OPTIONS)
 
-    return NextResponse.json(round)
+    return NextResponse.json(savedRound)
   } catch (error) {
     // Handle auth errors
     if (error instanceof Error && (error.message.includes('Unauthorized') || error.message.includes('Forbidden'))) {
@@ -192,9 +327,23 @@ export async function DELETE(
     // Check access: user can delete own rounds, admins can delete any
     await requireResourceAccess(existingRound.userId)
 
-    await prisma.round.delete({
-      where: { id: parseInt(id) },
-    })
+    // Delete the round and recalculate everything derived from it in one transaction
+    await prisma.$transaction(async (tx) => {
+      await tx.round.delete({
+        where: { id: parseInt(id) },
+      })
+
+      // Removing a score can move the Playing Conditions Calculation for the rest of the field
+      const { updatedRounds } = await recalculatePlayingConditions(existingRound, tx)
+
+      // Removing a 9-hole score re-pairs the player's remaining nines
+      if (existingRound.holes === 9) {
+        await recalculateNineHolePairs(existingRound.userId, tx)
+      }
+
+      // Recalculating without the round undoes any Exceptional Score Reduction it triggered
+      await recalculatePlayerHandicaps([existingRound.userId, ...updatedRounds.map(r => r.userId)], tx)
+    }, RECALCULATION_TRANSACTION_OPTIONS)
 
     return NextResponse.json({ message: 'Round deleted successfully' })
   } catch (error) {
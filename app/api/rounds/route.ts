@@ -4,7 +4,21 @@ import { roundSchema } from '@/lib/validation'
 import { z } from 'zod'
 import { getCurrentUser, isAdmin, createAuthErrorResponse } from '@/lib/auth-utils'
 import { Role } from '@prisma/client'
-import { calculateHandicapDifferential } from '@/lib/handicap-calculator'
+import {
+  calculateHandicapDifferential,
+  calculateRoundAdjustedGrossScore,
+  calculateExceptionalScoreReduction,
+  getHandicapIneligibilityReasons,
+} from '@/lib/handicap-calculator'
+import { toHoleScoreCreateInput } from '@/lib/golf-calculator'
+import { getRoundValuesFromTeeSet } from '@/lib/course-catalog'
+import {
+  recalculatePlayerHandicaps,
+  getHandicapIndexBefore,
+  RECALCULATION_TRANSACTION_OPTIONS,
+} from '@/lib/handicap-history'
+import { recalculatePlayingConditions } from '@/lib/playing-conditions'
+import { recalculateNineHolePairs } from '@/lib/nine-hole-rounds'
 
 // GET /api/rounds - Get rounds (own rounds or all if admin in admin mode)
 export async function GET(request: NextRequest) {
@@ -68,11 +82,11 @@ export async function POST(request: NextRequest) {
       body.datePlayed = new Date(body.datePlayed)
     }
 
-    // Validate input
-    const validatedData = roundSchema.parse(body)
+    // Validate input; hole-by-hole data is stored as HoleScore rows
+    const { holeByHoleData, nineHoleSide, ...roundInput } = roundSchema.parse(body)
 
     // Check authorization: users can only create rounds for themselves, admins can create for anyone
-    if (currentUser.role !== Role.ADMIN && validatedData.userId !== parseInt(currentUser.id)) {
+    if (currentUser.role !== Role.ADMIN && roundInput.userId !== parseInt(currentUser.id)) {
       return createAuthErrorResponse(
         new Error('Forbidden: You can only create rounds for yourself'),
         403
@@ -81,7 +95,7 @@ export async function POST(request: NextRequest) {
 
     // Check if user exists
     const userExists = await prisma.user.findUnique({
-      where: { id: validatedData.userId },
+      where: { id: roundInput.userId },
     })
 
     if (!userExists) {
@@ -91,34 +105,114 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Calculate handicap differential
-    const handicapDifferential = calculateHandicapDifferential(
-      validatedData.score,
-      validatedData.courseRating ?? null,
-      validatedData.slopeRating ?? null
+    // Rounds played from a catalog tee take the course name and ratings from it
+    const teeSet = roundInput.teeSetId
+      ? await prisma.teeSet.findUnique({
+          where: { id: roundInput.teeSetId },
+          include: { course: true },
+        })
+      : null
+
+    if (roundInput.teeSetId && !teeSet) {
+      return NextResponse.json(
+        { error: 'Tee set not found' },
+        { status: 404 }
+      )
+    }
+
+    const validatedData = teeSet
+      ? { ...roundInput, ...getRoundValuesFromTeeSet(teeSet, roundInput.holes ?? 18, nineHoleSide) }
+      : roundInput
+
+    // Cap blow-up holes at net double bogey before computing the differential
+    const adjustedGrossScore = calculateRoundAdjustedGrossScore(
+      {
+        score: validatedData.score,
+        holeByHoleData,
+        courseRating: validatedData.courseRating ?? null,
+        slopeRating: validatedData.slopeRating ?? null,
+      },
+      userExists.handicapIndex ?? null
     )
 
-    // Create round
-    const round = await prisma.round.create({
-      data: {
-        ...validatedData,
-        datePlayed: validatedData.datePlayed instanceof Date
-          ? validatedData.datePlayed
-          : new Date(validatedData.datePlayed),
+    // Only acceptable scores produce a differential
+    const ineligibleReasons = getHandicapIneligibilityReasons({
+      scoreType: validatedData.scoreType,
+      playFormat: validatedData.playFormat,
+      holes: validatedData.holes,
+      holesPlayed: validatedData.holesPlayed,
+      courseRating: validatedData.courseRating ?? null,
+      slopeRating: validatedData.slopeRating ?? null,
+    })
+
+    // Calculate handicap differential; 9-hole scores are held pending until
+    // paired into a combined 18-hole differential
+    const handicapDifferential = validatedData.holes === 9 || ineligibleReasons.length > 0
+      ? null
+      : calculateHandicapDifferential(
+          adjustedGrossScore,
+          validatedData.courseRating ?? null,
+          validatedData.slopeRating ?? null
+        )
+
+    const datePlayed = validatedData.datePlayed instanceof Date
+      ? validatedData.datePlayed
+      : new Date(validatedData.datePlayed)
+
+    // Save the round and recalculate everything derived from it in one transaction
+    // so stored handicaps never reflect a partial update
+    const savedRound = await prisma.$transaction(async (tx) => {
+      // Exceptional Score Reduction compares against the index held before this round
+      const exceptionalScoreAdjustment = calculateExceptionalScoreReduction(
         handicapDifferential,
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
+        await getHandicapIndexBefore(validatedData.userId, datePlayed, tx)
+      ) || null
+
+      // Create round
+      const round = await tx.round.create({
+        data: {
+          ...validatedData,
+          datePlayed,
+          adjustedGrossScore,
+          handicapDifferential,
+          exceptionalScoreAdjustment,
+          ineligibleReasons,
+          holeScores: holeByHoleData
+            ? { create: holeByHoleData.map(toHoleScoreCreateInput) }
+            : undefined,
+        },
+      })
+
+      // A new score can move the Playing Conditions Calculation for everyone at the course that day
+      const { updatedRounds } = await recalculatePlayingConditions(round, tx)
+
+      if (round.holes === 9) {
+        await recalculateNineHolePairs(round.userId, tx)
+      }
+
+      // Update stored indexes, round counts and history for everyone affected
+      await recalculatePlayerHandicaps([round.userId, ...updatedRounds.map(r => r.userId)], tx)
+
+      // Return the round as stored after PCC and pairing updates
+      return tx.round.findUnique({
+        where: { id: round.id },
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+          holeScores: {
+            orderBy: { holeNumber: 'asc' },
+            include: { shots: { orderBy: { shotNumber: 'asc' } } },
           },
         },
-      },
-    })
+      })
+    }, RECALCULATION_TRANSACTION_OPTIONS)
 
-    return NextResponse.json(round, { status: 201 })
+    return NextResponse.json(savedRound, { status: 201 })
   } catch (error) {
     // Handle auth errors
     if (error instanceof Error && (error.message.includes('Unauthorized') || error.message.includes('Forbidden'))) {
@@ -1,8 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getCurrentUser, isAdmin } from '@/lib/auth-utils'
-import { calculateGIR } from '@/lib/golf-calculator'
-import { Role } from '@prisma/client'
+import { SCORE_TYPES, ScoreType } from '@/lib/handicap-calculator'
+import { calculateScoringAverages, PENALTY_TYPES, PenaltyType } from '@/lib/golf-calculator'
+import {
+  calculatePuttingStats,
+  calculateStrokesGained,
+  STROKES_GAINED_CATEGORIES,
+  StrokesGainedCategory,
+} from '@/lib/strokes-gained'
+import { calculateScoreDistribution } from '@/lib/scorecard-utils'
+import { Role, Round, HoleScore, Shot } from '@prisma/client'
 
 export async function GET(request: NextRequest) {
   try {
@@ -14,7 +22,12 @@ export async function GET(request: NextRequest) {
     const startDate = searchParams.get('startDate')
     const endDate = searchParams.get('endDate')
     const courseName = searchParams.get('courseName')
+    const courseId = searchParams.get('courseId') // Catalog course; matches rounds from any of its tees
     const adminMode = searchParams.get('adminMode') === 'true' // Admin viewing all users
+    const scoreTypes = (searchParams.get('scoreType') ?? '') // Comma-separated, e.g. 'HOME,AWAY'
+      .split(',')
+      .filter((type): type is ScoreType => SCORE_TYPES.includes(type as ScoreType))
+    const eligibility = searchParams.get('eligibility') // 'eligible', 'ineligible'
 
     // Check if user is admin
     const userIsAdmin = await isAdmin()
@@ -33,10 +46,23 @@ export async function GET(request: NextRequest) {
         gte: new Date(startDate),
         lte: new Date(endDate),
       }
+    } else if (filter === 'course' && courseId) {
+      where.teeSet = { courseId: parseInt(courseId) }
     } else if (filter === 'course' && courseName) {
       where.courseName = courseName
     }
 
+    // Score type and handicap eligibility combine with the filters above
+    if (scoreTypes.length > 0) {
+      where.scoreType = { in: scoreTypes }
+    }
+
+    if (eligibility === 'eligible') {
+      where.ineligibleReasons = { isEmpty: true }
+    } else if (eligibility === 'ineligible') {
+      where.ineligibleReasons = { isEmpty: false }
+    }
+
     // Fetch rounds
     let rounds = await prisma.round.findMany({
       where,
@@ -48,6 +74,10 @@ export async function GET(request: NextRequest) {
             email: true,
           },
         },
+        holeScores: {
+          orderBy: { holeNumber: 'asc' },
+          include: { shots: { orderBy: { shotNumber: 'asc' } } },
+        },
       },
     })
 
@@ -69,6 +99,8 @@ export async function GET(request: NextRequest) {
       rounds,
       stats,
       filter,
+      scoreTypes,
+      eligibility,
       adminMode: adminMode && userIsAdmin,
       isAdmin: userIsAdmin,
     })
@@ -90,7 +122,68 @@ export async function GET(request: NextRequest) {
   }
 }
 
-function calculateStats(rounds: any[]) {
+/**
+ * Strokes gained totals over rounds with shot-by-shot records, with each round's breakdown
+ */
+function calculateStrokesGainedStats(rounds: Array<Round & { holeScores: Array<HoleScore & { shots: Shot[] }> }>) {
+  const roundBreakdowns = rounds
+    .map(round => ({
+      roundId: round.id,
+      courseName: round.courseName,
+      datePlayed: round.datePlayed,
+      ...calculateStrokesGained(round.holeScores),
+    }))
+    .filter(round => round.holes > 0)
+
+  const total = roundBreakdowns.reduce((sum, round) => sum + round.total, 0)
+  const byCategory = Object.fromEntries(
+    STROKES_GAINED_CATEGORIES.map(category => [
+      category,
+      roundBreakdowns.reduce((sum, round) => sum + round.byCategory[category], 0),
+    ])
+  ) as Record<StrokesGainedCategory, number>
+  const perRound = (value: number) => roundBreakdowns.length > 0
+    ? parseFloat((value / roundBreakdowns.length).toFixed(2))
+    : 0
+
+  return {
+    rounds: roundBreakdowns.length,
+    holes: roundBreakdowns.reduce((sum, round) => sum + round.holes, 0),
+    total: parseFloat(total.toFixed(2)),
+    byCategory: Object.fromEntries(
+      STROKES_GAINED_CATEGORIES.map(category => [category, parseFloat(byCategory[category].toFixed(2))])
+    ) as Record<StrokesGainedCategory, number>,
+    perRound: {
+      total: perRound(total),
+      byCategory: Object.fromEntries(
+        STROKES_GAINED_CATEGORIES.map(category => [category, perRound(byCategory[category])])
+      ) as Record<StrokesGainedCategory, number>,
+    },
+    roundBreakdowns,
+  }
+}
+
+/**
+ * Score distribution over rounds with hole-by-hole scores, with each round's distribution
+ */
+function calculateScoreDistributionStats(rounds: Array<Round & { holeScores: HoleScore[] }>) {
+  const roundBreakdowns = rounds
+    .map(round => ({
+      roundId: round.id,
+      courseName: round.courseName,
+      datePlayed: round.datePlayed,
+      ...calculateScoreDistribution(round.holeScores ?? []),
+    }))
+    .filter(round => round.holes > 0)
+
+  return {
+    rounds: roundBreakdowns.length,
+    ...calculateScoreDistribution(rounds.flatMap(round => round.holeScores ?? [])),
+    roundBreakdowns,
+  }
+}
+
+function calculateStats(rounds: Array<Round & { holeScores: Array<HoleScore & { shots: Shot[] }> }>) {
   if (rounds.length === 0) {
     return {
       totalRounds: 0,
@@ -99,6 +192,18 @@ function calculateStats(rounds: any[]) {
       avgPutts: 0,
       avgPuttsPerGIR: 0,
       avgScore: 0,
+      girRecordedPercentage: 0,
+      missLeftPercentage: 0,
+      missRightPercentage: 0,
+      teePenaltyPercentage: 0,
+      avgPenaltyStrokes: 0,
+      avgScoreToParAfterPenalty: 0,
+      sandSavePercentage: 0,
+      sgPuttingPerRound: 0,
+      putting: calculatePuttingStats([]),
+      strokesGained: calculateStrokesGainedStats([]),
+      scoringAverages: calculateScoringAverages([]),
+      scoreDistribution: calculateScoreDistributionStats([]),
       firStreak: 0,
       no3PuttStreak: 0,
       noDoubleBogeyStreak: 0,
@@ -110,8 +215,24 @@ function calculateStats(rounds: any[]) {
 
   let totalGIR = 0
   let totalGIROpportunities = 0
+  let totalGIRRecorded = 0
   let totalFIR = 0
   let totalFIROpportunities = 0
+  let totalTeeShotsRecorded = 0
+  let totalMissLeft = 0
+  let totalMissRight = 0
+  let totalTeePenalties = 0
+  let totalPenaltyStrokes = 0
+  let totalPenaltyHoles = 0
+  let totalPenaltyHoleScoreToPar = 0
+  const penaltyStrokesByType = Object.fromEntries(
+    PENALTY_TYPES.map((type) => [type, 0])
+  ) as Record<PenaltyType, number>
+  let totalSandSaves = 0
+  let totalSandSaveAttempts = 0
+  let roundsWithHoleScores = 0
+  let roundsWithPuttDistances = 0
+  const puttingHoles: HoleScore[] = []
   let totalPutts = 0
   let totalPuttsOnGIR = 0
   let totalGIRHit = 0
@@ -138,22 +259,27 @@ function calculateStats(rounds: any[]) {
       totalPuttsOnGIR += round.girPutts
     }
 
-    // Parse hole-by-hole data for detailed stats
-    if (round.holeByHoleData) {
-      // Prisma's Json type automatically deserializes, so holeByHoleData is already an object/array
-      const holeData = Array.isArray(round.holeByHoleData)
-        ? round.holeByHoleData
-        : (round.holeByHoleData as any)
+    // Hole-by-hole data for detailed stats
+    if (round.holeScores) {
+      if (round.holeScores.length > 0) {
+        roundsWithHoleScores++
+      }
+
+      // Strokes gained putting, from holes where the first putt distance was recorded
+      if (round.holeScores.some(hole => hole.firstPuttDistance != null)) {
+        roundsWithPuttDistances++
+        puttingHoles.push(...round.holeScores)
+      }
 
-      holeData.forEach((hole: any) => {
-        // GIR calculation
+      round.holeScores.forEach(hole => {
+        // GIR as stored when the round was saved, from the green result where one was recorded
         totalGIROpportunities++
-        if (hole.score > 0 && hole.putts >= 0) {
-          const hitGIR = calculateGIR(hole.par, hole.score, hole.putts)
-          if (hitGIR) {
-            totalGIR++
-            totalGIRHit++
-          }
+        if (hole.greenResult) {
+          totalGIRRecorded++
+        }
+        if (hole.greenInRegulation) {
+          totalGIR++
+          totalGIRHit++
         }
 
         // FIR calculation (par 4 and 5 only)
@@ -166,28 +292,54 @@ function calculateStats(rounds: any[]) {
           } else if (hole.fairwayHit === false) {
             currentFIRStreak = 0
           }
+
+          // Tee-shot dispersion, from holes where the fairway result was recorded
+          if (hole.fairwayResult) {
+            totalTeeShotsRecorded++
+            if (hole.fairwayResult === 'LEFT') {
+              totalMissLeft++
+            } else if (hole.fairwayResult === 'RIGHT') {
+              totalMissRight++
+            } else if (hole.fairwayResult === 'PENALTY') {
+              totalTeePenalties++
+            }
+          }
         }
 
-        // No 3-putt streak
-        if (hole.putts !== undefined && hole.putts !== null) {
-          if (hole.putts < 3) {
-            currentNo3PuttStreak++
-            longestNo3PuttStreak = Math.max(longestNo3PuttStreak, currentNo3PuttStreak)
-          } else if (hole.putts >= 3) {
-            currentNo3PuttStreak = 0
+        // Penalties, and how the hole finished after one
+        if (hole.penalties > 0) {
+          totalPenaltyStrokes += hole.penalties
+          totalPenaltyHoles++
+          totalPenaltyHoleScoreToPar += hole.score - hole.par
+          if (hole.penaltyType) {
+            penaltyStrokesByType[hole.penaltyType] += hole.penalties
           }
         }
 
-        // No double bogey streak
-        if (hole.score > 0 && hole.par > 0) {
-          const scoreToPar = hole.score - hole.par
-          if (scoreToPar < 2) {
-            currentNoDoubleBogeyStreak++
-            longestNoDoubleBogeyStreak = Math.max(longestNoDoubleBogeyStreak, currentNoDoubleBogeyStreak)
-          } else {
-            currentNoDoubleBogeyStreak = 0
+        // Sand saves from greenside bunkers
+        if (hole.greensideBunker) {
+          totalSandSaveAttempts++
+          if (hole.sandSave) {
+            totalSandSaves++
           }
         }
+
+        // No 3-putt streak
+        if (hole.putts < 3) {
+          currentNo3PuttStreak++
+          longestNo3PuttStreak = Math.max(longestNo3PuttStreak, currentNo3PuttStreak)
+        } else {
+          currentNo3PuttStreak = 0
+        }
+
+        // No double bogey streak
+        const scoreToPar = hole.score - hole.par
+        if (scoreToPar < 2) {
+          currentNoDoubleBogeyStreak++
+          longestNoDoubleBogeyStreak = Math.max(longestNoDoubleBogeyStreak, currentNoDoubleBogeyStreak)
+        } else {
+          currentNoDoubleBogeyStreak = 0
+        }
       })
     }
   })
@@ -196,10 +348,29 @@ function calculateStats(rounds: any[]) {
     ? (totalGIR / totalGIROpportunities) * 100
     : 0
 
+  // Share of GIR figures from recorded green results; the rest are estimated from score and putts
+  const girRecordedPercentage = totalGIROpportunities > 0
+    ? (totalGIRRecorded / totalGIROpportunities) * 100
+    : 0
+
   const firPercentage = totalFIROpportunities > 0
     ? (totalFIR / totalFIROpportunities) * 100
     : 0
 
+  const teeShotPercentage = (count: number) => totalTeeShotsRecorded > 0
+    ? parseFloat(((count / totalTeeShotsRecorded) * 100).toFixed(1))
+    : 0
+
+  // Per round with hole-by-hole data, as penalties aren't recorded otherwise
+  const avgPenaltyStrokes = roundsWithHoleScores > 0 ? totalPenaltyStrokes / roundsWithHoleScores : 0
+  const avgScoreToParAfterPenalty = totalPenaltyHoles > 0 ? totalPenaltyHoleScoreToPar / totalPenaltyHoles : 0
+  const sandSavePercentage = totalSandSaveAttempts > 0
+    ? (totalSandSaves / totalSandSaveAttempts) * 100
+    : 0
+
+  const putting = calculatePuttingStats(puttingHoles)
+  const sgPuttingPerRound = roundsWithPuttDistances > 0 ? putting.strokesGained / roundsWithPuttDistances : 0
+
   const avgPutts = puttsCount > 0 ? totalPutts / puttsCount : 0
   const avgPuttsPerGIR = totalGIRHit > 0 ? totalPuttsOnGIR / totalGIRHit : 0
   const avgScore = rounds.length > 0 ? totalScore / rounds.length : 0
@@ -211,6 +382,18 @@ function calculateStats(rounds: any[]) {
     avgPutts: parseFloat(avgPutts.toFixed(1)),
     avgPuttsPerGIR: parseFloat(avgPuttsPerGIR.toFixed(1)),
     avgScore: parseFloat(avgScore.toFixed(1)),
+    girRecordedPercentage: parseFloat(girRecordedPercentage.toFixed(1)),
+    missLeftPercentage: teeShotPercentage(totalMissLeft),
+    missRightPercentage: teeShotPercentage(totalMissRight),
+    teePenaltyPercentage: teeShotPercentage(totalTeePenalties),
+    avgPenaltyStrokes: parseFloat(avgPenaltyStrokes.toFixed(1)),
+    avgScoreToParAfterPenalty: parseFloat(avgScoreToParAfterPenalty.toFixed(2)),
+    sandSavePercentage: parseFloat(sandSavePercentage.toFixed(1)),
+    sgPuttingPerRound: parseFloat(sgPuttingPerRound.toFixed(2)),
+    putting,
+    strokesGained: calculateStrokesGainedStats(rounds),
+    scoringAverages: calculateScoringAverages(rounds.flatMap(round => round.holeScores ?? [])),
+    scoreDistribution: calculateScoreDistributionStats(rounds),
     firStreak: longestFIRStreak,
     no3PuttStreak: longestNo3PuttStreak,
     noDoubleBogeyStreak: longestNoDoubleBogeyStreak,
@@ -219,7 +402,14 @@ function calculateStats(rounds: any[]) {
     currentNoDoubleBogeyStreak,
     totalGIR,
     totalGIROpportunities,
+    totalGIRRecorded,
     totalFIR,
     totalFIROpportunities,
+    totalTeeShotsRecorded,
+    totalPenaltyStrokes,
+    totalPenaltyHoles,
+    penaltyStrokesByType,
+    totalSandSaves,
+    totalSandSaveAttempts,
   }
 }
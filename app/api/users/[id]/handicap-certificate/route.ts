@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireResourceAccess, createAuthErrorResponse, getCurrentUser } from '@/lib/auth-utils'
+import { logger } from '@/lib/logger'
+import {
+  getHandicapCertificate,
+  createCertificateToken,
+  renderHandicapCertificatePdf,
+  CERTIFICATE_LINK_TTL_DAYS,
+} from '@/lib/handicap-certificate'
+
+// GET /api/users/[id]/handicap-certificate - Handicap certificate PDF with a verification link (own or admin)
+// Pass ?format=json for the certificate figures and link without the PDF
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const startTime = logger.startTimer()
+  const { id } = await params
+  const userId = parseInt(id)
+
+  try {
+    const currentUser = await getCurrentUser()
+    logger.apiRequest('GET', `/api/users/${userId}/handicap-certificate`, currentUser.id, currentUser.role)
+
+    // Check access: user can export own certificate, admins can export any
+    await requireResourceAccess(userId)
+
+    const certificate = await getHandicapCertificate(userId)
+
+    if (!certificate) {
+      logger.warn('User not found for handicap certificate', {
+        request: { userId }
+      })
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const expiresAt = new Date(Date.now() + CERTIFICATE_LINK_TTL_DAYS * 24 * 60 * 60 * 1000)
+    const { origin, searchParams } = new URL(request.url)
+    const verificationUrl = `${origin}/certificates/${createCertificateToken(certificate, expiresAt)}`
+
+    const duration = logger.endTimer(startTime)
+    logger.apiResponse('GET', `/api/users/${userId}/handicap-certificate`, 200, duration, currentUser.id)
+
+    if (searchParams.get('format') === 'json') {
+      return NextResponse.json({ certificate, verificationUrl, expiresAt })
+    }
+
+    const pdf = renderHandicapCertificatePdf(certificate, verificationUrl, expiresAt)
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="handicap-certificate-${userId}.pdf"`,
+        'X-Verification-Url': verificationUrl,
+      },
+    })
+  } catch (error) {
+    // Handle auth errors
+    if (error instanceof Error && (error.message.includes('Unauthorized') || error.message.includes('Forbidden'))) {
+      const statusCode = error.message.includes('Forbidden') ? 403 : 401
+      logger.apiError('GET', `/api/users/${userId}/handicap-certificate`, error, statusCode)
+      return createAuthErrorResponse(error, statusCode)
+    }
+
+    logger.apiError('GET', `/api/users/${userId}/handicap-certificate`, error as Error, 500)
+    return NextResponse.json(
+      { error: 'Failed to generate handicap certificate' },
+      { status: 500 }
+    )
+  }
+}
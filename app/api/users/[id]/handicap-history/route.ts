@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { handicapHistoryQuerySchema } from '@/lib/validation'
+import { z } from 'zod'
+import { requireResourceAccess, createAuthErrorResponse, getCurrentUser } from '@/lib/auth-utils'
+import { logger } from '@/lib/logger'
+import { buildHandicapTimeline, findRevisionOnDate } from '@/lib/handicap-calculator'
+
+// GET /api/users/[id]/handicap-history - Handicap index revision timeline (own history or admin)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const startTime = logger.startTimer()
+  const { id } = await params
+  const userId = parseInt(id)
+
+  try {
+    const currentUser = await getCurrentUser()
+    logger.apiRequest('GET', `/api/users/${userId}/handicap-history`, currentUser.id, currentUser.role)
+
+    // Check access: user can view own history, admins can view any
+    await requireResourceAccess(userId)
+
+    const { searchParams } = new URL(request.url)
+    const query = handicapHistoryQuerySchema.parse(Object.fromEntries(searchParams))
+
+    const revisions = await prisma.handicapRevision.findMany({
+      where: { userId },
+      orderBy: [{ effectiveDate: 'asc' }, { createdAt: 'asc' }],
+      select: {
+        id: true,
+        handicapIndex: true,
+        uncappedHandicapIndex: true,
+        lowHandicapIndex: true,
+        capApplied: true,
+        scoringRecordSize: true,
+        countingRoundIds: true,
+        differentialsUsed: true,
+        effectiveDate: true,
+        createdAt: true,
+      },
+    })
+
+    const duration = logger.endTimer(startTime)
+    logger.dbQuery('findMany', 'HandicapRevision', duration, revisions.length)
+
+    // Edits record a new revision for the same day; the timeline keeps the latest
+    const timeline = buildHandicapTimeline(revisions)
+
+    logger.apiResponse('GET', `/api/users/${userId}/handicap-history`, 200, duration, currentUser.id)
+
+    return NextResponse.json({
+      revisions: timeline,
+      asOf: query.asOf
+        ? { date: query.asOf, revision: findRevisionOnDate(timeline, query.asOf) }
+        : null,
+    })
+  } catch (error) {
+    // Handle auth errors
+    if (error instanceof Error && (error.message.includes('Unauthorized') || error.message.includes('Forbidden'))) {
+      const statusCode = error.message.includes('Forbidden') ? 403 : 401
+      logger.apiError('GET', `/api/users/${userId}/handicap-history`, error, statusCode)
+      return createAuthErrorResponse(error, statusCode)
+    }
+
+    if (error instanceof z.ZodError) {
+      logger.warn('Handicap history query validation failed', {
+        validation: { errors: error.errors },
+        request: { userId }
+      })
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    logger.apiError('GET', `/api/users/${userId}/handicap-history`, error as Error, 500)
+    return NextResponse.json(
+      { error: 'Failed to fetch handicap history' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,8 +2,9 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { updateUserSchema } from '@/lib/validation'
 import { z } from 'zod'
-import { requireResourceAccess, requireAdmin, createAuthErrorResponse, getCurrentUser } from '@/lib/auth-utils'
+import { requireResourceAccess, requireAdmin, createAuthErrorResponse, getCurrentUser, isAdmin } from '@/lib/auth-utils'
 import { logger } from '@/lib/logger'
+import { recalculatePlayerHandicap } from '@/lib/handicap-history'
 
 // GET /api/users/[id] - Get a single user (own profile or admin)
 export async function GET(
@@ -82,10 +83,31 @@ export async function PUT(
     // Validate input
     const validatedData = updateUserSchema.parse(body)
 
-    // Update user
-    const user = await prisma.user.update({
-      where: { id: userId },
-      data: validatedData,
+    // Only admins can set an index by hand; a player's own index always comes from their rounds
+    if ((validatedData.handicapIndex !== undefined || validatedData.handicapIndexOverride !== undefined) && !(await isAdmin())) {
+      throw new Error('Forbidden: Only admins can set the handicap index')
+    }
+
+    // An index entered by hand is marked as a manual override; clearing it
+    // returns the user to the index calculated from their rounds
+    if (validatedData.handicapIndex !== undefined && validatedData.handicapIndexOverride === undefined) {
+      validatedData.handicapIndexOverride = validatedData.handicapIndex !== null
+    }
+
+    // Update user, recalculating in the same transaction when the override is cleared
+    // so the stored index is never left as the old manual value
+    const user = await prisma.$transaction(async (tx) => {
+      const updatedUser = await tx.user.update({
+        where: { id: userId },
+        data: validatedData,
+      })
+
+      if (validatedData.handicapIndexOverride !== false) {
+        return updatedUser
+      }
+
+      await recalculatePlayerHandicap(userId, tx)
+      return await tx.user.findUnique({ where: { id: userId } }) ?? updatedUser
     })
 
     const duration = logger.endTimer(startTime)
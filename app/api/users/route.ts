@@ -60,6 +60,11 @@ export async function POST(request: NextRequest) {
     // Validate input
     const validatedData = userSchema.parse(body)
 
+    // An index entered by hand is kept as a manual override until it is cleared
+    if (validatedData.handicapIndex != null && validatedData.handicapIndexOverride === undefined) {
+      validatedData.handicapIndexOverride = true
+    }
+
     // Create user
     const user = await prisma.user.create({
       data: validatedData,
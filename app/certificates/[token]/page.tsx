@@ -0,0 +1,156 @@
+'use client'
+
+import { use, useEffect, useState } from 'react'
+import { Container, Card, Alert, Spinner, Table, Badge, Row, Col } from 'react-bootstrap'
+import { formatHandicapIndex } from '@/lib/handicap-calculator'
+import type { HandicapCertificate } from '@/lib/handicap-certificate'
+
+interface VerifiedCertificate {
+  certificate: HandicapCertificate // Live record
+  certified: Pick<HandicapCertificate, 'handicapIndex' | 'revisionDate'> // As printed on the certificate
+  current: boolean // The record has not been revised since the certificate was issued
+  expiresAt: string
+}
+
+export default function VerifyCertificatePage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = use(params)
+  const [data, setData] = useState<VerifiedCertificate | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchCertificate = async () => {
+      try {
+        const response = await fetch(`/api/certificates/${token}`)
+        const body = await response.json()
+        if (!response.ok) throw new Error(body.error || 'Failed to verify certificate')
+        setData(body)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchCertificate()
+  }, [token])
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      timeZone: 'UTC',
+    })
+
+  if (loading) {
+    return (
+      <Container className="py-5 text-center">
+        <Spinner animation="border" role="status">
+          <span className="visually-hidden">Loading...</span>
+        </Spinner>
+      </Container>
+    )
+  }
+
+  if (error || !data) {
+    return (
+      <Container className="py-5">
+        <Alert variant="danger">{error}</Alert>
+      </Container>
+    )
+  }
+
+  const { certificate, certified, current, expiresAt } = data
+
+  return (
+    <Container className="py-4">
+      <Alert variant="success">
+        Verified handicap certificate for <strong>{certificate.player.name}</strong>. This link is valid until{' '}
+        {formatDate(expiresAt)}.
+      </Alert>
+
+      {!current && (
+        <Alert variant="warning">
+          The index has been revised since this certificate was issued. The current index is{' '}
+          <strong>{formatHandicapIndex(certificate.handicapIndex)}</strong>
+          {certificate.revisionDate && <> as of {formatDate(certificate.revisionDate)}</>}.
+        </Alert>
+      )}
+
+      <Row className="g-4 mb-4">
+        <Col md={4}>
+          <Card className="h-100 text-center">
+            <Card.Body>
+              <small className="text-muted">Handicap Index</small>
+              <div className="display-5 fw-bold">{formatHandicapIndex(certified.handicapIndex)}</div>
+              {current && certificate.capApplied && (
+                <Badge bg="warning" text="dark" className="ms-1">{certificate.capApplied} cap</Badge>
+              )}
+            </Card.Body>
+          </Card>
+        </Col>
+        <Col md={4}>
+          <Card className="h-100 text-center">
+            <Card.Body>
+              <small className="text-muted">Low Handicap Index</small>
+              <div className="display-5 fw-bold">{formatHandicapIndex(certificate.lowHandicapIndex)}</div>
+            </Card.Body>
+          </Card>
+        </Col>
+        <Col md={4}>
+          <Card className="h-100 text-center">
+            <Card.Body>
+              <small className="text-muted">Revision Date</small>
+              <div className="h3 fw-bold mt-2">
+                {certified.revisionDate ? formatDate(certified.revisionDate) : 'N/A'}
+              </div>
+            </Card.Body>
+          </Card>
+        </Col>
+      </Row>
+
+      <Card>
+        <Card.Header>
+          <h5 className="mb-0">Current Scoring Record</h5>
+        </Card.Header>
+        <Card.Body>
+          {certificate.scores.length === 0 ? (
+            <p className="text-muted mb-0">No scores posted.</p>
+          ) : (
+            <Table responsive size="sm" className="mb-0">
+              <thead>
+                <tr>
+                  <th>Date</th>
+                  <th>Course</th>
+                  <th>Score</th>
+                  <th>Rating/Slope</th>
+                  <th>Differential</th>
+                </tr>
+              </thead>
+              <tbody>
+                {certificate.scores.map((score) => (
+                  <tr key={score.id} className={score.counting ? 'table-success' : undefined}>
+                    <td>{formatDate(score.datePlayed)}</td>
+                    <td>{score.courseName}</td>
+                    <td>{score.score}</td>
+                    <td>
+                      {score.courseRating ?? '—'} / {score.slopeRating ?? '—'}
+                    </td>
+                    <td>
+                      {(score.handicapDifferential + score.exceptionalScoreAdjustment).toFixed(1)}
+                      {score.exceptionalScoreAdjustment !== 0 && (
+                        <small className="text-muted ms-1">(ESR {score.exceptionalScoreAdjustment})</small>
+                      )}
+                      {score.counting && <Badge bg="success" className="ms-2">Counting</Badge>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          )}
+        </Card.Body>
+      </Card>
+    </Container>
+  )
+}
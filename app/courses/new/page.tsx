@@ -0,0 +1,402 @@
+'use client'
+
+import { useState } from 'react'
+import { Container, Form, Button, Alert, Card, Row, Col, Table } from 'react-bootstrap'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+
+interface HoleForm {
+  par: string
+  yardage: string
+  strokeIndex: string
+}
+
+interface TeeForm {
+  name: string
+  gender: '' | 'MALE' | 'FEMALE'
+  courseRating: string
+  slopeRating: string
+  frontCourseRating: string
+  frontSlopeRating: string
+  backCourseRating: string
+  backSlopeRating: string
+  holes: HoleForm[]
+}
+
+const createHoles = (count: number): HoleForm[] =>
+  Array.from({ length: count }, () => ({ par: '4', yardage: '', strokeIndex: '' }))
+
+const createTee = (holeCount = 18): TeeForm => ({
+  name: '',
+  gender: '',
+  courseRating: '',
+  slopeRating: '',
+  frontCourseRating: '',
+  frontSlopeRating: '',
+  backCourseRating: '',
+  backSlopeRating: '',
+  holes: createHoles(holeCount),
+})
+
+const toNumber = (value: string) => (value === '' ? null : Number(value))
+
+export default function NewCoursePage() {
+  const router = useRouter()
+  const [formData, setFormData] = useState({
+    clubName: '',
+    courseName: '',
+    city: '',
+    state: '',
+    country: '',
+  })
+  const [tees, setTees] = useState<TeeForm[]>([createTee()])
+  const [errors, setErrors] = useState<string[]>([])
+  const [loading, setLoading] = useState(false)
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target
+    setFormData((prev) => ({
+      ...prev,
+      [name]: value,
+    }))
+  }
+
+  const updateTee = (teeIndex: number, changes: Partial<TeeForm>) => {
+    setTees((prev) => prev.map((tee, index) => (index === teeIndex ? { ...tee, ...changes } : tee)))
+  }
+
+  const updateHole = (teeIndex: number, holeIndex: number, field: keyof HoleForm, value: string) => {
+    setTees((prev) => prev.map((tee, index) => (
+      index === teeIndex
+        ? { ...tee, holes: tee.holes.map((hole, i) => (i === holeIndex ? { ...hole, [field]: value } : hole)) }
+        : tee
+    )))
+  }
+
+  // Additional tees start from the first tee's pars and stroke indexes, which rarely differ between tees
+  const addTee = () => {
+    setTees((prev) => [
+      ...prev,
+      { ...createTee(), holes: prev[0].holes.map((hole) => ({ ...hole, yardage: '' })) },
+    ])
+  }
+
+  const removeTee = (teeIndex: number) => {
+    setTees((prev) => prev.filter((_, index) => index !== teeIndex))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setErrors([])
+    setLoading(true)
+
+    try {
+      const payload = {
+        ...formData,
+        teeSets: tees.map((tee) => ({
+          name: tee.name,
+          gender: tee.gender || null,
+          courseRating: toNumber(tee.courseRating),
+          slopeRating: toNumber(tee.slopeRating),
+          frontCourseRating: toNumber(tee.frontCourseRating),
+          frontSlopeRating: toNumber(tee.frontSlopeRating),
+          backCourseRating: toNumber(tee.backCourseRating),
+          backSlopeRating: toNumber(tee.backSlopeRating),
+          holes: tee.holes.map((hole) => ({
+            par: Number(hole.par),
+            yardage: toNumber(hole.yardage),
+            strokeIndex: toNumber(hole.strokeIndex),
+          })),
+        })),
+      }
+
+      const response = await fetch('/api/courses', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        if (data.details) {
+          setErrors(data.details.map((err: any) => `${err.path.join(' ')}: ${err.message}`))
+        } else {
+          setErrors([data.error || 'Failed to create course'])
+        }
+        return
+      }
+
+      router.push('/rounds/new')
+    } catch (err) {
+      setErrors(['An unexpected error occurred'])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Container className="py-5">
+      <Card>
+        <Card.Header>
+          <h2>Add a Course</h2>
+        </Card.Header>
+        <Card.Body>
+          <p className="text-muted">
+            Add a course that isn&apos;t found by the course search. You can use it for your rounds right away;
+            it is listed to other golfers once an admin has reviewed it.
+          </p>
+
+          {errors.length > 0 && (
+            <Alert variant="danger">
+              <ul className="mb-0">
+                {errors.map((error, index) => (
+                  <li key={index}>{error}</li>
+                ))}
+              </ul>
+            </Alert>
+          )}
+
+          <Form onSubmit={handleSubmit}>
+            <Row>
+              <Col md={6}>
+                <Form.Group className="mb-3">
+                  <Form.Label>Club Name *</Form.Label>
+                  <Form.Control
+                    type="text"
+                    name="clubName"
+                    value={formData.clubName}
+                    onChange={handleChange}
+                    required
+                    placeholder="e.g. Riverside Golf Club"
+                  />
+                </Form.Group>
+              </Col>
+              <Col md={6}>
+                <Form.Group className="mb-3">
+                  <Form.Label>Course Name</Form.Label>
+                  <Form.Control
+                    type="text"
+                    name="courseName"
+                    value={formData.courseName}
+                    onChange={handleChange}
+                    placeholder="Leave blank if the club has one course"
+                  />
+                </Form.Group>
+              </Col>
+            </Row>
+
+            <Row>
+              <Col md={4}>
+                <Form.Group className="mb-3">
+                  <Form.Label>City</Form.Label>
+                  <Form.Control type="text" name="city" value={formData.city} onChange={handleChange} />
+                </Form.Group>
+              </Col>
+              <Col md={4}>
+                <Form.Group className="mb-3">
+                  <Form.Label>State</Form.Label>
+                  <Form.Control type="text" name="state" value={formData.state} onChange={handleChange} />
+                </Form.Group>
+              </Col>
+              <Col md={4}>
+                <Form.Group className="mb-3">
+                  <Form.Label>Country</Form.Label>
+                  <Form.Control type="text" name="country" value={formData.country} onChange={handleChange} />
+                </Form.Group>
+              </Col>
+            </Row>
+
+            {tees.map((tee, teeIndex) => (
+              <Card key={teeIndex} className="mb-3">
+                <Card.Header className="d-flex justify-content-between align-items-center">
+                  <span>Tee {teeIndex + 1}</span>
+                  {tees.length > 1 && (
+                    <Button variant="outline-danger" size="sm" onClick={() => removeTee(teeIndex)}>
+                      Remove
+                    </Button>
+                  )}
+                </Card.Header>
+                <Card.Body>
+                  <Row>
+                    <Col md={3}>
+                      <Form.Group className="mb-3">
+                        <Form.Label>Tee Name *</Form.Label>
+                        <Form.Control
+                          type="text"
+                          value={tee.name}
+                          onChange={(e) => updateTee(teeIndex, { name: e.target.value })}
+                          required
+                          placeholder="e.g. White"
+                        />
+                      </Form.Group>
+                    </Col>
+                    <Col md={3}>
+                      <Form.Group className="mb-3">
+                        <Form.Label>Rated For</Form.Label>
+                        <Form.Select
+                          value={tee.gender}
+                          onChange={(e) => updateTee(teeIndex, { gender: e.target.value as TeeForm['gender'] })}
+                        >
+                          <option value="">Any</option>
+                          <option value="MALE">Men</option>
+                          <option value="FEMALE">Women</option>
+                        </Form.Select>
+                      </Form.Group>
+                    </Col>
+                    <Col md={2}>
+                      <Form.Group className="mb-3">
+                        <Form.Label>Course Rating *</Form.Label>
+                        <Form.Control
+                          type="number"
+                          step="0.1"
+                          value={tee.courseRating}
+                          onChange={(e) => updateTee(teeIndex, { courseRating: e.target.value })}
+                          required
+                        />
+                      </Form.Group>
+                    </Col>
+                    <Col md={2}>
+                      <Form.Group className="mb-3">
+                        <Form.Label>Slope *</Form.Label>
+                        <Form.Control
+                          type="number"
+                          min="55"
+                          max="155"
+                          value={tee.slopeRating}
+                          onChange={(e) => updateTee(teeIndex, { slopeRating: e.target.value })}
+                          required
+                        />
+                      </Form.Group>
+                    </Col>
+                    <Col md={2}>
+                      <Form.Group className="mb-3">
+                        <Form.Label>Holes</Form.Label>
+                        <Form.Select
+                          value={tee.holes.length}
+                          onChange={(e) => updateTee(teeIndex, { holes: createHoles(Number(e.target.value)) })}
+                        >
+                          <option value={18}>18</option>
+                          <option value={9}>9</option>
+                        </Form.Select>
+                      </Form.Group>
+                    </Col>
+                  </Row>
+
+                  {tee.holes.length === 18 && (
+                    <Row>
+                      <Col md={3}>
+                        <Form.Group className="mb-3">
+                          <Form.Label>Front 9 Rating</Form.Label>
+                          <Form.Control
+                            type="number"
+                            step="0.1"
+                            value={tee.frontCourseRating}
+                            onChange={(e) => updateTee(teeIndex, { frontCourseRating: e.target.value })}
+                          />
+                        </Form.Group>
+                      </Col>
+                      <Col md={3}>
+                        <Form.Group className="mb-3">
+                          <Form.Label>Front 9 Slope</Form.Label>
+                          <Form.Control
+                            type="number"
+                            value={tee.frontSlopeRating}
+                            onChange={(e) => updateTee(teeIndex, { frontSlopeRating: e.target.value })}
+                          />
+                        </Form.Group>
+                      </Col>
+                      <Col md={3}>
+                        <Form.Group className="mb-3">
+                          <Form.Label>Back 9 Rating</Form.Label>
+                          <Form.Control
+                            type="number"
+                            step="0.1"
+                            value={tee.backCourseRating}
+                            onChange={(e) => updateTee(teeIndex, { backCourseRating: e.target.value })}
+                          />
+                        </Form.Group>
+                      </Col>
+                      <Col md={3}>
+                        <Form.Group className="mb-3">
+                          <Form.Label>Back 9 Slope</Form.Label>
+                          <Form.Control
+                            type="number"
+                            value={tee.backSlopeRating}
+                            onChange={(e) => updateTee(teeIndex, { backSlopeRating: e.target.value })}
+                          />
+                        </Form.Group>
+                      </Col>
+                    </Row>
+                  )}
+
+                  <Table size="sm" responsive className="mb-0">
+                    <thead>
+                      <tr>
+                        <th>Hole</th>
+                        <th>Par</th>
+                        <th>Yardage</th>
+                        <th>Stroke Index</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {tee.holes.map((hole, holeIndex) => (
+                        <tr key={holeIndex}>
+                          <td>{holeIndex + 1}</td>
+                          <td>
+                            <Form.Select
+                              size="sm"
+                              value={hole.par}
+                              onChange={(e) => updateHole(teeIndex, holeIndex, 'par', e.target.value)}
+                            >
+                              {[3, 4, 5, 6].map((par) => (
+                                <option key={par} value={par}>{par}</option>
+                              ))}
+                            </Form.Select>
+                          </td>
+                          <td>
+                            <Form.Control
+                              size="sm"
+                              type="number"
+                              min="1"
+                              value={hole.yardage}
+                              onChange={(e) => updateHole(teeIndex, holeIndex, 'yardage', e.target.value)}
+                            />
+                          </td>
+                          <td>
+                            <Form.Control
+                              size="sm"
+                              type="number"
+                              min="1"
+                              max="18"
+                              value={hole.strokeIndex}
+                              onChange={(e) => updateHole(teeIndex, holeIndex, 'strokeIndex', e.target.value)}
+                            />
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </Table>
+                </Card.Body>
+              </Card>
+            ))}
+
+            <Button variant="outline-primary" className="mb-3" onClick={addTee}>
+              Add Another Tee
+            </Button>
+
+            <div className="d-flex gap-2">
+              <Button variant="primary" type="submit" disabled={loading}>
+                {loading ? 'Saving...' : 'Save Course'}
+              </Button>
+              <Link href="/rounds/new" passHref legacyBehavior>
+                <Button variant="secondary">Cancel</Button>
+              </Link>
+            </div>
+          </Form>
+        </Card.Body>
+      </Card>
+    </Container>
+  )
+}
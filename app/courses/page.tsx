@@ -0,0 +1,215 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Container, Table, Button, Alert, Spinner, Form, Badge } from 'react-bootstrap'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useSession } from 'next-auth/react'
+
+interface Course {
+  id: number
+  externalId: number | null
+  name: string
+  city: string | null
+  state: string | null
+  country: string | null
+  verified: boolean
+  createdBy: { id: number; name: string } | null
+  teeSetCount: number
+  createdAt: string
+}
+
+export default function CourseReviewPage() {
+  const [pendingCourses, setPendingCourses] = useState<Course[]>([])
+  const [allCourses, setAllCourses] = useState<Course[]>([])
+  const [mergeTargets, setMergeTargets] = useState<Record<number, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const router = useRouter()
+  const { data: session, status } = useSession()
+
+  // Redirect non-admins
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session) {
+      router.push('/auth/signin')
+      return
+    }
+
+    if (session.user?.role !== 'ADMIN') {
+      router.push('/rounds')
+      return
+    }
+  }, [session, status, router])
+
+  useEffect(() => {
+    if (session?.user?.role === 'ADMIN') {
+      fetchCourses()
+    }
+  }, [session])
+
+  const fetchCourses = async () => {
+    try {
+      setLoading(true)
+      const [pendingResponse, allResponse] = await Promise.all([
+        fetch('/api/courses?status=pending&custom=true'),
+        fetch('/api/courses'),
+      ])
+      if (!pendingResponse.ok || !allResponse.ok) throw new Error('Failed to fetch courses')
+      const [pendingData, allData] = await Promise.all([pendingResponse.json(), allResponse.json()])
+      setPendingCourses(pendingData.courses)
+      setAllCourses(allData.courses)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleVerify = async (id: number) => {
+    try {
+      const response = await fetch(`/api/courses/${id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ verified: true }),
+      })
+
+      if (!response.ok) throw new Error('Failed to verify course')
+
+      // Refresh the list
+      fetchCourses()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to verify course')
+    }
+  }
+
+  const handleMerge = async (course: Course) => {
+    const targetCourseId = parseInt(mergeTargets[course.id])
+    const target = allCourses.find((c) => c.id === targetCourseId)
+    if (!target) return
+
+    if (!confirm(`Merge "${course.name}" into "${target.name}"? Rounds played at ${course.name} will be moved and the duplicate deleted.`)) return
+
+    try {
+      const response = await fetch(`/api/courses/${course.id}/merge`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ targetCourseId }),
+      })
+
+      if (!response.ok) throw new Error('Failed to merge courses')
+
+      // Refresh the list
+      fetchCourses()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge courses')
+    }
+  }
+
+  // Show loading while checking auth or fetching data
+  if (status === 'loading' || loading || !session || session.user?.role !== 'ADMIN') {
+    return (
+      <Container className="py-5 text-center">
+        <Spinner animation="border" role="status">
+          <span className="visually-hidden">Loading...</span>
+        </Spinner>
+      </Container>
+    )
+  }
+
+  return (
+    <Container className="py-5">
+      <div className="d-flex justify-content-between align-items-center mb-4">
+        <h1>Course Review</h1>
+        <Link href="/courses/new" passHref legacyBehavior>
+          <Button variant="primary">Add Course</Button>
+        </Link>
+      </div>
+
+      <p className="text-muted">
+        Courses entered by users are only listed to the user who added them until they are verified.
+        Merge a course into an existing one when it is a duplicate.
+      </p>
+
+      {error && <Alert variant="danger">{error}</Alert>}
+
+      {pendingCourses.length === 0 ? (
+        <Alert variant="info">
+          No courses are waiting for review.
+        </Alert>
+      ) : (
+        <Table striped bordered hover responsive>
+          <thead>
+            <tr>
+              <th>Course</th>
+              <th>Location</th>
+              <th>Tees</th>
+              <th>Added By</th>
+              <th>Added</th>
+              <th>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {pendingCourses.map((course) => (
+              <tr key={course.id}>
+                <td>
+                  {course.name}
+                  <Badge bg="warning" text="dark" className="ms-2">Pending</Badge>
+                </td>
+                <td>{[course.city, course.state, course.country].filter(Boolean).join(', ')}</td>
+                <td>{course.teeSetCount}</td>
+                <td>{course.createdBy?.name ?? '-'}</td>
+                <td>{new Date(course.createdAt).toLocaleDateString()}</td>
+                <td>
+                  <Button
+                    variant="outline-success"
+                    size="sm"
+                    className="mb-2"
+                    onClick={() => handleVerify(course.id)}
+                  >
+                    Verify
+                  </Button>
+                  <div className="d-flex gap-2">
+                    <Form.Select
+                      size="sm"
+                      value={mergeTargets[course.id] ?? ''}
+                      onChange={(e) => setMergeTargets((prev) => ({ ...prev, [course.id]: e.target.value }))}
+                    >
+                      <option value="">Merge into...</option>
+                      {allCourses
+                        .filter((c) => c.id !== course.id)
+                        .map((c) => (
+                          <option key={c.id} value={c.id}>
+                            {c.name}{c.verified ? '' : ' (unverified)'}
+                          </option>
+                        ))}
+                    </Form.Select>
+                    <Button
+                      variant="outline-danger"
+                      size="sm"
+                      disabled={!mergeTargets[course.id]}
+                      onClick={() => handleMerge(course)}
+                    >
+                      Merge
+                    </Button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+      )}
+
+      <Link href="/" passHref legacyBehavior>
+        <Button variant="secondary" className="mt-3">
+          Back to Home
+        </Button>
+      </Link>
+    </Container>
+  )
+}
@@ -1,17 +1,31 @@
 'use client'
 
-import { useEffect, useState } from 'react'
-import { Container, Row, Col, Card, Alert, Spinner, Table, Badge } from 'react-bootstrap'
+import { useCallback, useEffect, useState } from 'react'
+import { Container, Row, Col, Card, Alert, Spinner, Table, Badge, Form, Button } from 'react-bootstrap'
 import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
+import { formatHandicapIndex } from '@/lib/handicap-calculator'
+import HandicapHistoryChart, { HandicapHistoryPoint } from '@/components/HandicapHistoryChart'
 
 interface DashboardStats {
   handicapIndex: number | null
   calculatedHandicapIndex: number | null
+  uncappedHandicapIndex: number | null
+  lowHandicapIndex: number | null
+  capApplied: 'soft' | 'hard' | null
   numberOfDifferentialsUsed: number
   totalRounds: number
   roundsWithDifferential: number
+  scoringRecordSize: number
+  countingRoundIds: number[]
+  exceptionalScores: Array<{
+    id: number
+    courseName: string
+    datePlayed: string
+    handicapDifferential: number
+    reduction: number
+  }>
   averageScore: number | null
   greensInRegulationPct: number | null
   fairwaysInRegulationPct: number | null
@@ -24,16 +38,42 @@ interface DashboardStats {
     score: number
     holes: number
     handicapDifferential: number | null
+    countsTowardIndex: boolean
+    exceptionalScoreAdjustment: number
   }>
 }
 
+interface IndexOnDate {
+  date: string
+  revision: HandicapHistoryPoint | null
+}
+
 export default function DashboardPage() {
   const [stats, setStats] = useState<DashboardStats | null>(null)
+  const [history, setHistory] = useState<HandicapHistoryPoint[]>([])
+  const [lookupDate, setLookupDate] = useState('')
+  const [indexOnDate, setIndexOnDate] = useState<IndexOnDate | null>(null)
+  const [verificationUrl, setVerificationUrl] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const { data: session, status } = useSession()
   const router = useRouter()
 
+  const userId = session?.user?.id
+
+  const fetchHistory = useCallback(async (asOf?: string) => {
+    try {
+      const query = asOf ? `?asOf=${asOf}` : ''
+      const response = await fetch(`/api/users/${userId}/handicap-history${query}`)
+      if (!response.ok) throw new Error('Failed to fetch handicap history')
+      const data = await response.json()
+      setHistory(data.revisions)
+      setIndexOnDate(data.asOf)
+    } catch (err) {
+      console.error('Error fetching handicap history:', err)
+    }
+  }, [userId])
+
   // Redirect if not authenticated
   useEffect(() => {
     if (status === 'loading') return
@@ -47,8 +87,18 @@ export default function DashboardPage() {
   useEffect(() => {
     if (session) {
       fetchStats()
+      fetchHistory()
+    }
+  }, [session, fetchHistory])
+
+  // Look up the index in effect on the chosen date (e.g. a competition cutoff)
+  useEffect(() => {
+    if (userId && lookupDate) {
+      fetchHistory(lookupDate)
+    } else {
+      setIndexOnDate(null)
     }
-  }, [session])
+  }, [userId, lookupDate, fetchHistory])
 
   const fetchStats = async () => {
     try {
@@ -64,6 +114,19 @@ export default function DashboardPage() {
     }
   }
 
+  // Create a fresh signed link a tournament committee can open without logging in
+  const copyVerificationLink = async () => {
+    try {
+      const response = await fetch(`/api/users/${session?.user?.id}/handicap-certificate?format=json`)
+      if (!response.ok) throw new Error('Failed to create verification link')
+      const data = await response.json()
+      setVerificationUrl(data.verificationUrl)
+      await navigator.clipboard?.writeText(data.verificationUrl)
+    } catch (err) {
+      console.error('Error creating verification link:', err)
+    }
+  }
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString)
     return date.toLocaleDateString('en-US', {
@@ -111,18 +174,46 @@ export default function DashboardPage() {
             <Card.Body className="text-center">
               <Card.Title className="text-muted small mb-2">Handicap Index</Card.Title>
               <div className="display-4 fw-bold text-primary">
-                {stats.calculatedHandicapIndex !== null ? stats.calculatedHandicapIndex.toFixed(1) : 'N/A'}
+                {formatHandicapIndex(stats.calculatedHandicapIndex)}
               </div>
               {stats.calculatedHandicapIndex !== null && (
                 <small className="text-muted">
-                  Based on {stats.numberOfDifferentialsUsed} best of {stats.roundsWithDifferential}
+                  Based on {stats.numberOfDifferentialsUsed} best of last {stats.scoringRecordSize}
                 </small>
               )}
+              {stats.lowHandicapIndex !== null && (
+                <div className="small text-muted">
+                  Low Index: {formatHandicapIndex(stats.lowHandicapIndex)}
+                </div>
+              )}
+              {stats.capApplied && stats.uncappedHandicapIndex !== null && (
+                <Badge
+                  bg={stats.capApplied === 'hard' ? 'danger' : 'warning'}
+                  text={stats.capApplied === 'hard' ? undefined : 'dark'}
+                  className="mt-1"
+                  title={`Uncapped index: ${formatHandicapIndex(stats.uncappedHandicapIndex)}`}
+                >
+                  {stats.capApplied === 'hard' ? 'Hard cap' : 'Soft cap'} applied
+                </Badge>
+              )}
               {stats.calculatedHandicapIndex === null && stats.totalRounds > 0 && (
                 <small className="text-muted">
                   Add course rating & slope to rounds
                 </small>
               )}
+              {stats.calculatedHandicapIndex !== null && (
+                <div className="d-flex justify-content-center gap-2 mt-2">
+                  <a
+                    href={`/api/users/${session.user?.id}/handicap-certificate`}
+                    className="btn btn-sm btn-outline-primary"
+                  >
+                    Certificate (PDF)
+                  </a>
+                  <Button size="sm" variant="outline-secondary" onClick={copyVerificationLink}>
+                    {verificationUrl ? 'Link copied' : 'Copy verify link'}
+                  </Button>
+                </div>
+              )}
             </Card.Body>
           </Card>
         </Col>
@@ -162,6 +253,52 @@ export default function DashboardPage() {
         </Col>
       </Row>
 
+      {/* Handicap Index History */}
+      <Card className="mb-4 shadow-sm">
+        <Card.Header className="bg-white d-flex justify-content-between align-items-center">
+          <h5 className="mb-0">Handicap Index History</h5>
+          <Form.Group className="d-flex align-items-center gap-2 mb-0" controlId="indexLookupDate">
+            <Form.Label className="small text-muted mb-0 text-nowrap">Index on</Form.Label>
+            <Form.Control
+              type="date"
+              size="sm"
+              value={lookupDate}
+              onChange={(e) => setLookupDate(e.target.value)}
+            />
+          </Form.Group>
+        </Card.Header>
+        <Card.Body>
+          {indexOnDate && (
+            <Alert variant="secondary" className="py-2">
+              {indexOnDate.revision ? (
+                <>
+                  Your index on {formatDate(lookupDate)} was{' '}
+                  <strong>{formatHandicapIndex(indexOnDate.revision.handicapIndex)}</strong>
+                  <span className="text-muted"> (revised {formatDate(indexOnDate.revision.effectiveDate)})</span>
+                </>
+              ) : (
+                <>You did not have a handicap index on {formatDate(lookupDate)}.</>
+              )}
+            </Alert>
+          )}
+          <HandicapHistoryChart revisions={history} />
+        </Card.Body>
+      </Card>
+
+      {/* Exceptional Score Reduction explanation */}
+      {stats.exceptionalScores.length > 0 && (
+        <Alert variant="info" className="mb-4">
+          <Alert.Heading as="h6">Exceptional Score Reduction</Alert.Heading>
+          {stats.exceptionalScores.map((esr) => (
+            <div key={esr.id} className="small">
+              Your {esr.handicapDifferential.toFixed(1)} differential at {esr.courseName} on{' '}
+              {formatDate(esr.datePlayed)} was 7 or more strokes better than your index, so{' '}
+              <strong>{esr.reduction}</strong> was applied to it and the 19 scores before it.
+            </div>
+          ))}
+        </Alert>
+      )}
+
       {/* Performance Stats */}
       <Row className="mb-4 g-3">
         <Col lg={3} md={6}>
@@ -227,6 +364,9 @@ export default function DashboardPage() {
               <Link href="/rounds/new" className="btn btn-primary btn-lg w-100">
                 Add New Round
               </Link>
+              <Link href="/dashboard/what-if" className="btn btn-outline-primary w-100 mt-2">
+                What-If Simulator
+              </Link>
             </Card.Body>
           </Card>
         </Col>
@@ -266,7 +406,7 @@ export default function DashboardPage() {
                   </thead>
                   <tbody>
                     {stats.recentRounds.map((round) => (
-                      <tr key={round.id}>
+                      <tr key={round.id} className={round.countsTowardIndex ? 'table-success' : undefined}>
                         <td>{formatDate(round.datePlayed)}</td>
                         <td>{round.courseName}</td>
                         <td>
@@ -279,7 +419,19 @@ export default function DashboardPage() {
                         </td>
                         <td>
                           {round.handicapDifferential !== null ? (
-                            <Badge bg="info">{round.handicapDifferential.toFixed(1)}</Badge>
+                            <>
+                              <Badge bg="info">{round.handicapDifferential.toFixed(1)}</Badge>
+                              {round.exceptionalScoreAdjustment !== 0 && (
+                                <small className="text-muted ms-1" title="Exceptional Score Reduction">
+                                  ({round.exceptionalScoreAdjustment} ESR)
+                                </small>
+                              )}
+                              {round.countsTowardIndex && (
+                                <Badge bg="success" className="ms-1" title="Counts toward your handicap index">
+                                  ✓ Counts
+                                </Badge>
+                              )}
+                            </>
                           ) : (
                             <span className="text-muted small">N/A</span>
                           )}
@@ -0,0 +1,300 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Container, Row, Col, Card, Form, Button, Alert, Spinner, Badge, ButtonGroup } from 'react-bootstrap'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { formatHandicapIndex } from '@/lib/handicap-calculator'
+
+const MAX_SCENARIOS = 4
+
+interface Scenario {
+  courseName: string
+  courseRating: number | ''
+  slopeRating: number | ''
+  mode: 'score' | 'target'
+  value: number | ''
+}
+
+interface SimulatedRound {
+  id: number
+  courseName: string
+  datePlayed: string
+  handicapDifferential: number | null
+}
+
+interface SimulationResult {
+  currentHandicapIndex: number | null
+  targetIndex: number | null
+  simulation: {
+    score: number
+    handicapDifferential: number
+    exceptionalScoreAdjustment: number
+    handicapIndex: number | null
+    capApplied: 'soft' | 'hard' | null
+    countsTowardIndex: boolean
+    replacedRounds: SimulatedRound[]
+    droppedRounds: SimulatedRound[]
+  } | null
+}
+
+const emptyScenario = (): Scenario => ({
+  courseName: '',
+  courseRating: '',
+  slopeRating: '',
+  mode: 'score',
+  value: '',
+})
+
+export default function WhatIfPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [scenarios, setScenarios] = useState<Scenario[]>([emptyScenario(), emptyScenario()])
+  const [results, setResults] = useState<Record<number, SimulationResult | string>>({})
+  const [running, setRunning] = useState(false)
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/signin')
+    }
+  }, [status, router])
+
+  const updateScenario = (index: number, changes: Partial<Scenario>) => {
+    setScenarios((prev) => prev.map((s, i) => (i === index ? { ...s, ...changes } : s)))
+    setResults((prev) => {
+      const next = { ...prev }
+      delete next[index]
+      return next
+    })
+  }
+
+  const removeScenario = (index: number) => {
+    setScenarios((prev) => prev.filter((_, i) => i !== index))
+    setResults({})
+  }
+
+  const runScenario = async (scenario: Scenario): Promise<SimulationResult | string> => {
+    const params = new URLSearchParams({
+      courseRating: String(scenario.courseRating),
+      slopeRating: String(scenario.slopeRating),
+      [scenario.mode === 'score' ? 'score' : 'targetIndex']: String(scenario.value),
+    })
+
+    const response = await fetch(`/api/handicap/simulate?${params}`)
+    const data = await response.json()
+
+    if (!response.ok) {
+      return data.details?.map((err: any) => err.message).join(', ') || data.error || 'Simulation failed'
+    }
+
+    return data
+  }
+
+  const handleRun = async () => {
+    setRunning(true)
+
+    try {
+      const entries = await Promise.all(
+        scenarios.map(async (scenario, index) => {
+          if (scenario.courseRating === '' || scenario.slopeRating === '' || scenario.value === '') {
+            return [index, 'Enter the ratings and a score or target index'] as const
+          }
+          return [index, await runScenario(scenario)] as const
+        })
+      )
+      setResults(Object.fromEntries(entries))
+    } catch (err) {
+      console.error('Error running scenarios:', err)
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+
+  const renderResult = (result: SimulationResult | string | undefined) => {
+    if (result === undefined) {
+      return <p className="text-muted small mb-0">Run the scenarios to see the result.</p>
+    }
+
+    if (typeof result === 'string') {
+      return <Alert variant="danger" className="py-2 mb-0">{result}</Alert>
+    }
+
+    const { simulation } = result
+
+    if (!simulation) {
+      return (
+        <Alert variant="warning" className="py-2 mb-0">
+          No realistic score at these tees reaches {formatHandicapIndex(result.targetIndex)} from your current record.
+        </Alert>
+      )
+    }
+
+    const change = simulation.handicapIndex !== null && result.currentHandicapIndex !== null
+      ? Math.round((simulation.handicapIndex - result.currentHandicapIndex) * 10) / 10
+      : null
+
+    return (
+      <>
+        {result.targetIndex !== null && (
+          <p className="mb-2">
+            Shoot <strong className="fs-4">{simulation.score}</strong> or better to reach{' '}
+            {formatHandicapIndex(result.targetIndex)}
+          </p>
+        )}
+        <div className="d-flex align-items-baseline gap-2 mb-2">
+          <span className="text-muted">{formatHandicapIndex(result.currentHandicapIndex)} →</span>
+          <span className="fs-3 fw-bold text-primary">{formatHandicapIndex(simulation.handicapIndex)}</span>
+          {change !== null && change !== 0 && (
+            <Badge bg={change < 0 ? 'success' : 'danger'}>
+              {change > 0 ? '+' : ''}{change.toFixed(1)}
+            </Badge>
+          )}
+          {simulation.capApplied && (
+            <Badge bg="warning" text="dark">{simulation.capApplied} cap</Badge>
+          )}
+        </div>
+        <div className="small mb-2">
+          Differential {simulation.handicapDifferential.toFixed(1)}
+          {simulation.exceptionalScoreAdjustment !== 0 && (
+            <> with an exceptional score reduction of {simulation.exceptionalScoreAdjustment}</>
+          )}
+          {simulation.countsTowardIndex ? ' — counts toward the index' : ' — would not count toward the index'}
+        </div>
+        {simulation.replacedRounds.length > 0 && (
+          <div className="small mb-1">
+            <strong>Replaces:</strong>{' '}
+            {simulation.replacedRounds
+              .map((r) => `${r.handicapDifferential?.toFixed(1)} (${r.courseName}, ${formatDate(r.datePlayed)})`)
+              .join('; ')}
+          </div>
+        )}
+        {simulation.droppedRounds.length > 0 && (
+          <div className="small text-muted">
+            <strong>Drops out of the last 20:</strong>{' '}
+            {simulation.droppedRounds
+              .map((r) => `${r.courseName}, ${formatDate(r.datePlayed)}`)
+              .join('; ')}
+          </div>
+        )}
+      </>
+    )
+  }
+
+  if (status === 'loading' || !session) {
+    return (
+      <Container className="py-5 text-center">
+        <Spinner animation="border" role="status">
+          <span className="visually-hidden">Loading...</span>
+        </Spinner>
+      </Container>
+    )
+  }
+
+  return (
+    <Container className="py-4">
+      <div className="d-flex justify-content-between align-items-center mb-4">
+        <div>
+          <h1 className="mb-1">What-If Simulator</h1>
+          <p className="text-muted mb-0">
+            See how a score would move your index, or what you need to shoot to reach a target.
+          </p>
+        </div>
+        <Link href="/dashboard" className="btn btn-secondary">
+          Back to Dashboard
+        </Link>
+      </div>
+
+      <Row className="g-4 mb-4">
+        {scenarios.map((scenario, index) => (
+          <Col key={index} lg={12 / Math.min(scenarios.length, 3)} md={6}>
+            <Card className="h-100 shadow-sm">
+              <Card.Header className="d-flex justify-content-between align-items-center">
+                <strong>Scenario {index + 1}</strong>
+                {scenarios.length > 1 && (
+                  <Button variant="link" size="sm" className="text-danger p-0" onClick={() => removeScenario(index)}>
+                    Remove
+                  </Button>
+                )}
+              </Card.Header>
+              <Card.Body>
+                <Form.Group className="mb-2">
+                  <Form.Label className="small">Course (optional)</Form.Label>
+                  <Form.Control
+                    size="sm"
+                    value={scenario.courseName}
+                    onChange={(e) => updateScenario(index, { courseName: e.target.value })}
+                    placeholder="e.g., Pebble Beach - Blue"
+                  />
+                </Form.Group>
+                <Row className="g-2 mb-2">
+                  <Col>
+                    <Form.Label className="small">Course Rating</Form.Label>
+                    <Form.Control
+                      size="sm"
+                      type="number"
+                      step="0.1"
+                      value={scenario.courseRating}
+                      onChange={(e) => updateScenario(index, { courseRating: e.target.value ? Number(e.target.value) : '' })}
+                      placeholder="72.3"
+                    />
+                  </Col>
+                  <Col>
+                    <Form.Label className="small">Slope Rating</Form.Label>
+                    <Form.Control
+                      size="sm"
+                      type="number"
+                      value={scenario.slopeRating}
+                      onChange={(e) => updateScenario(index, { slopeRating: e.target.value ? Number(e.target.value) : '' })}
+                      placeholder="135"
+                    />
+                  </Col>
+                </Row>
+                <ButtonGroup size="sm" className="mb-2 w-100">
+                  <Button
+                    variant={scenario.mode === 'score' ? 'primary' : 'outline-primary'}
+                    onClick={() => updateScenario(index, { mode: 'score', value: '' })}
+                  >
+                    If I shoot…
+                  </Button>
+                  <Button
+                    variant={scenario.mode === 'target' ? 'primary' : 'outline-primary'}
+                    onClick={() => updateScenario(index, { mode: 'target', value: '' })}
+                  >
+                    To reach index…
+                  </Button>
+                </ButtonGroup>
+                <Form.Control
+                  size="sm"
+                  type="number"
+                  step={scenario.mode === 'score' ? '1' : '0.1'}
+                  value={scenario.value}
+                  onChange={(e) => updateScenario(index, { value: e.target.value ? Number(e.target.value) : '' })}
+                  placeholder={scenario.mode === 'score' ? 'Adjusted gross score, e.g. 84' : 'Target index, e.g. 9.9'}
+                  className="mb-3"
+                />
+                {renderResult(results[index])}
+              </Card.Body>
+            </Card>
+          </Col>
+        ))}
+      </Row>
+
+      <div className="d-flex gap-2">
+        <Button onClick={handleRun} disabled={running}>
+          {running ? 'Running...' : 'Run Scenarios'}
+        </Button>
+        <Button
+          variant="outline-secondary"
+          onClick={() => setScenarios((prev) => [...prev, emptyScenario()])}
+          disabled={scenarios.length >= MAX_SCENARIOS}
+        >
+          Add Scenario
+        </Button>
+      </div>
+    </Container>
+  )
+}
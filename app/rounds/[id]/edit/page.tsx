@@ -10,13 +10,18 @@ import {
   generateDefaultHoles,
   calculateRoundStats,
   validateHoleData,
-  calculateGIR,
+  getGIR,
   calculateUnderGIR,
   calculateUpAndDown,
+  toHoleData,
 } from '@/lib/golf-calculator'
+import { PuttUnit } from '@/lib/strokes-gained'
 import { calculateHandicapDifferential } from '@/lib/handicap-calculator'
-import { getScoreClass } from '@/lib/scorecard-utils'
+import { calculateScoreDistribution, getScoreClass } from '@/lib/scorecard-utils'
 import GolfCourseSearch from '@/components/GolfCourseSearch'
+import ScoreTypeFields, { ScoreTypeValues } from '@/components/ScoreTypeFields'
+import HoleResultRows from '@/components/HoleResultRows'
+import ScoreDistributionTable from '@/components/ScoreDistributionTable'
 import type { GolfCourseDetails, GolfCourseTee } from '@/types/golf-course'
 
 // Helper function to determine score shape CSS class
@@ -51,10 +56,21 @@ export default function EditRoundPage() {
   const [totalPutts, setTotalPutts] = useState<number | ''>('')
   const [courseRating, setCourseRating] = useState<number | ''>('')
   const [slopeRating, setSlopeRating] = useState<number | ''>('')
+  // Catalog tee the round is linked to, and the one it was saved with
+  const [teeSetId, setTeeSetId] = useState<number | null>(null)
+  const [savedTeeSetId, setSavedTeeSetId] = useState<number | null>(null)
   const [notes, setNotes] = useState('')
+  const [scoreTypeValues, setScoreTypeValues] = useState<ScoreTypeValues>({
+    scoreType: 'HOME',
+    playFormat: 'INDIVIDUAL',
+    holesPlayed: '',
+  })
+  const [savedAdjustedGrossScore, setSavedAdjustedGrossScore] = useState<number | null>(null)
+  const [playingConditions, setPlayingConditions] = useState<number | null>(null)
 
   // Detailed mode
   const [holeData, setHoleData] = useState<HoleData[]>(generateDefaultHoles(18))
+  const [puttUnit, setPuttUnit] = useState<PuttUnit>('ft')
   const [hasDetailedData, setHasDetailedData] = useState(false)
 
   // Calculated stats preview
@@ -92,11 +108,20 @@ export default function EditRoundPage() {
       setTotalPutts(round.putts || '')
       setCourseRating(round.courseRating || '')
       setSlopeRating(round.slopeRating || '')
+      setTeeSetId(round.teeSetId ?? null)
+      setSavedTeeSetId(round.teeSetId ?? null)
       setNotes(round.notes || '')
+      setScoreTypeValues({
+        scoreType: round.scoreType,
+        playFormat: round.playFormat,
+        holesPlayed: round.holesPlayed ?? '',
+      })
+      setSavedAdjustedGrossScore(round.adjustedGrossScore ?? null)
+      setPlayingConditions(round.playingConditionsCalculation ?? null)
 
       // Check if we have detailed hole-by-hole data
-      if (round.holeByHoleData && Array.isArray(round.holeByHoleData) && round.holeByHoleData.length > 0) {
-        setHoleData(round.holeByHoleData)
+      if (round.holeScores?.length > 0) {
+        setHoleData(round.holeScores.map(toHoleData))
         setHasDetailedData(true)
         setEntryMode('detailed')
       } else {
@@ -142,6 +167,7 @@ export default function EditRoundPage() {
 
     // Set number of holes
     setHoles(tee.number_of_holes)
+    setTeeSetId(tee.tee_set_id ?? null)
 
     // Auto-populate hole data with par, yardage, and handicap (only if no detailed data exists)
     // Always update hole data when course is selected, unless there's existing detailed data
@@ -168,7 +194,18 @@ export default function EditRoundPage() {
 
   const handleHoleChange = (index: number, field: keyof HoleData, value: any) => {
     const newHoleData = [...holeData]
-    newHoleData[index] = { ...newHoleData[index], [field]: value }
+    // An edited hole's GIR is recalculated rather than read from the saved round
+    newHoleData[index] = { ...newHoleData[index], [field]: value, greenInRegulation: undefined }
+    // Recorded shots no longer add up once the score changes
+    if (field === 'score') {
+      newHoleData[index].shots = undefined
+    }
+    setHoleData(newHoleData)
+  }
+
+  const handleHoleResultsChange = (index: number, changes: Partial<HoleData>) => {
+    const newHoleData = [...holeData]
+    newHoleData[index] = { ...newHoleData[index], ...changes }
     setHoleData(newHoleData)
   }
 
@@ -185,6 +222,14 @@ export default function EditRoundPage() {
         courseRating: courseRating || null,
         slopeRating: slopeRating || null,
         notes: notes || null,
+        scoreType: scoreTypeValues.scoreType,
+        playFormat: scoreTypeValues.playFormat,
+        holesPlayed: scoreTypeValues.holesPlayed || null,
+      }
+
+      // Only send a changed tee; the server then takes the course name and ratings from it
+      if (teeSetId !== savedTeeSetId) {
+        roundData.teeSetId = teeSetId
       }
 
       if (entryMode === 'simple') {
@@ -321,7 +366,22 @@ export default function EditRoundPage() {
             </div>
 
             <div className="text-center text-muted mb-3">
-              <small>— OR enter manually —</small>
+              {teeSetId !== null ? (
+                <small>
+                  Course name and ratings come from the selected tee.{' '}
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="p-0 align-baseline"
+                    onClick={() => setTeeSetId(null)}
+                    disabled={roundInfoSubmitted}
+                  >
+                    Enter manually instead
+                  </Button>
+                </small>
+              ) : (
+                <small>— OR enter manually —</small>
+              )}
             </div>
 
             <Row>
@@ -334,7 +394,7 @@ export default function EditRoundPage() {
                     value={courseName}
                     onChange={(e) => setCourseName(e.target.value)}
                     placeholder="e.g., Pebble Beach Golf Links"
-                    disabled={roundInfoSubmitted}
+                    disabled={roundInfoSubmitted || teeSetId !== null}
                   />
                 </Form.Group>
               </Col>
@@ -380,7 +440,7 @@ export default function EditRoundPage() {
                     value={courseRating}
                     onChange={(e) => setCourseRating(e.target.value ? Number(e.target.value) : '')}
                     placeholder="e.g., 72.3"
-                    disabled={roundInfoSubmitted}
+                    disabled={roundInfoSubmitted || teeSetId !== null}
                   />
                 </Form.Group>
               </Col>
@@ -392,19 +452,29 @@ export default function EditRoundPage() {
                     value={slopeRating}
                     onChange={(e) => setSlopeRating(e.target.value ? Number(e.target.value) : '')}
                     placeholder="e.g., 135"
-                    disabled={roundInfoSubmitted}
+                    disabled={roundInfoSubmitted || teeSetId !== null}
                   />
                 </Form.Group>
               </Col>
             </Row>
 
+            <ScoreTypeFields
+              values={scoreTypeValues}
+              onChange={setScoreTypeValues}
+              holes={holes}
+              courseRating={courseRating || null}
+              slopeRating={slopeRating || null}
+              disabled={roundInfoSubmitted}
+            />
+
             {/* Handicap Differential Display */}
             {(() => {
               const score = entryMode === 'simple' ? (typeof totalScore === 'number' ? totalScore : 0) : calculatedStats?.totalScore || 0
               const differential = calculateHandicapDifferential(
                 score,
                 typeof courseRating === 'number' ? courseRating : null,
-                typeof slopeRating === 'number' ? slopeRating : null
+                typeof slopeRating === 'number' ? slopeRating : null,
+                playingConditions ?? 0
               )
 
               if (differential !== null && score > 0) {
@@ -417,6 +487,16 @@ export default function EditRoundPage() {
                         <small className="text-muted ms-2">
                           (Score: {score}, Rating: {courseRating}, Slope: {slopeRating})
                         </small>
+                        {savedAdjustedGrossScore !== null && savedAdjustedGrossScore !== totalScore && (
+                          <div className="small text-muted">
+                            Saved Adjusted Gross Score: {savedAdjustedGrossScore} (holes capped at net double bogey)
+                          </div>
+                        )}
+                        {playingConditions !== null && playingConditions !== 0 && (
+                          <div className="small text-muted">
+                            PCC: {playingConditions > 0 ? '+' : ''}{playingConditions} (playing conditions adjustment for this course and day)
+                          </div>
+                        )}
                       </Col>
                     </Row>
                   </Alert>
@@ -513,6 +593,19 @@ export default function EditRoundPage() {
                     GIR, up & down stats will be calculated automatically!
                   </small>
                 </Alert>
+                <Form.Group className="mb-3 d-flex align-items-center gap-2">
+                  <Form.Label htmlFor="puttUnit" className="mb-0 small text-muted">First putt distance in</Form.Label>
+                  <Form.Select
+                    id="puttUnit"
+                    size="sm"
+                    style={{ width: 'auto' }}
+                    value={puttUnit}
+                    onChange={(e) => setPuttUnit(e.target.value as PuttUnit)}
+                  >
+                    <option value="ft">feet</option>
+                    <option value="m">meters</option>
+                  </Form.Select>
+                </Form.Group>
                 {/* Front 9 Scorecard */}
                 <div className="mb-4">
                   <h6 className="text-muted mb-2">Front 9</h6>
@@ -627,69 +720,11 @@ export default function EditRoundPage() {
                           </td>
                         </tr>
 
-                        {/* Fairway Row */}
-                        <tr>
-                          <td className="fw-bold bg-light">Fairway</td>
-                          {holeData.slice(0, Math.min(9, holes)).map((hole, index) => (
-                            <td key={`fw-${hole.holeNumber}`}>
-                              {hole.par > 3 ? (
-                                <Form.Select
-                                  size="sm"
-                                  value={hole.fairwayHit === undefined ? '' : hole.fairwayHit ? 'true' : 'false'}
-                                  onChange={(e) => handleHoleChange(index, 'fairwayHit', e.target.value === '' ? undefined : e.target.value === 'true')}
-                                  className="text-center"
-                                  tabIndex={(index * 3) + 3}
-                                >
-                                  <option value="">-</option>
-                                  <option value="true">✓</option>
-                                  <option value="false">✗</option>
-                                </Form.Select>
-                              ) : (
-                                <span className="text-muted">-</span>
-                              )}
-                            </td>
-                          ))}
-                          <td className="fw-bold bg-warning">
-                            {(() => {
-                              const front9 = holeData.slice(0, Math.min(9, holes))
-                              const firHit = front9.filter(h => h.par > 3 && h.fairwayHit === true).length
-                              const firTotal = front9.filter(h => h.par > 3).length
-                              if (firTotal === 0) return '-'
-                              const firPct = ((firHit / firTotal) * 100).toFixed(0)
-                              return `${firHit}/${firTotal} (${firPct}%)`
-                            })()}
-                          </td>
-                        </tr>
-
-                        {/* GIR Row */}
-                        <tr>
-                          <td className="fw-bold bg-light">GIR</td>
-                          {holeData.slice(0, Math.min(9, holes)).map((hole) => {
-                            const hasValidData = hole.score > 0 && hole.putts >= 0
-                            const hitGIR = hasValidData ? calculateGIR(hole.par, hole.score, hole.putts) : false
-                            return (
-                              <td key={`gir-${hole.holeNumber}`}>
-                                {hasValidData && (
-                                  <span className={hitGIR ? 'text-success fw-bold' : 'text-muted'}>
-                                    {hitGIR ? '✓' : '✗'}
-                                  </span>
-                                )}
-                              </td>
-                            )
-                          })}
-                          <td className="fw-bold bg-warning">
-                            {(() => {
-                              const front9 = holeData.slice(0, Math.min(9, holes))
-                              const girHit = front9.filter(h => {
-                                const hasValidData = h.score > 0 && h.putts >= 0
-                                return hasValidData && calculateGIR(h.par, h.score, h.putts)
-                              }).length
-                              const girTotal = front9.length
-                              const girPct = ((girHit / girTotal) * 100).toFixed(0)
-                              return `${girHit}/${girTotal} (${girPct}%)`
-                            })()}
-                          </td>
-                        </tr>
+                        <HoleResultRows
+                          holes={holeData.slice(0, Math.min(9, holes))}
+                          puttUnit={puttUnit}
+                          onChange={handleHoleResultsChange}
+                        />
 
                         {/* Under GIR Row */}
                         <tr>
@@ -724,7 +759,7 @@ export default function EditRoundPage() {
                           <td className="fw-bold bg-light">Par Save</td>
                           {holeData.slice(0, Math.min(9, holes)).map((hole) => {
                             const hasValidData = hole.score > 0 && hole.putts >= 0
-                            const hitGIR = hasValidData ? calculateGIR(hole.par, hole.score, hole.putts) : false
+                            const hitGIR = hasValidData ? getGIR(hole) : false
                             const upDownResult = hasValidData ? calculateUpAndDown(hole.par, hole.score, hole.putts, hitGIR) : { isAttempt: false, isSuccess: false }
                             return (
                               <td key={`ud-${hole.holeNumber}`}>
@@ -745,14 +780,14 @@ export default function EditRoundPage() {
                               const parSaves = front9.filter(h => {
                                 const hasValidData = h.score > 0 && h.putts >= 0
                                 if (!hasValidData) return false
-                                const hitGIR = calculateGIR(h.par, h.score, h.putts)
+                                const hitGIR = getGIR(h)
                                 const upDownResult = calculateUpAndDown(h.par, h.score, h.putts, hitGIR)
                                 return upDownResult.isAttempt && upDownResult.isSuccess
                               }).length
                               const parSaveAttempts = front9.filter(h => {
                                 const hasValidData = h.score > 0 && h.putts >= 0
                                 if (!hasValidData) return false
-                                const hitGIR = calculateGIR(h.par, h.score, h.putts)
+                                const hitGIR = getGIR(h)
                                 const upDownResult = calculateUpAndDown(h.par, h.score, h.putts, hitGIR)
                                 return upDownResult.isAttempt
                               }).length
@@ -902,94 +937,13 @@ export default function EditRoundPage() {
                             </td>
                           </tr>
 
-                          {/* Fairway Row */}
-                          <tr>
-                            <td className="fw-bold bg-light">Fairway</td>
-                            {holeData.slice(9, 18).map((hole, index) => {
-                              const actualIndex = index + 9
-                              return (
-                                <td key={`fw-${hole.holeNumber}`}>
-                                  {hole.par > 3 ? (
-                                    <Form.Select
-                                      size="sm"
-                                      value={hole.fairwayHit === undefined ? '' : hole.fairwayHit ? 'true' : 'false'}
-                                      onChange={(e) => handleHoleChange(actualIndex, 'fairwayHit', e.target.value === '' ? undefined : e.target.value === 'true')}
-                                      className="text-center"
-                                      tabIndex={(actualIndex * 3) + 3}
-                                    >
-                                      <option value="">-</option>
-                                      <option value="true">✓</option>
-                                      <option value="false">✗</option>
-                                    </Form.Select>
-                                  ) : (
-                                    <span className="text-muted">-</span>
-                                  )}
-                                </td>
-                              )
-                            })}
-                            <td className="fw-bold bg-warning">
-                              {(() => {
-                                const back9 = holeData.slice(9, 18)
-                                const firHit = back9.filter(h => h.par > 3 && h.fairwayHit === true).length
-                                const firTotal = back9.filter(h => h.par > 3).length
-                                if (firTotal === 0) return '-'
-                                const firPct = ((firHit / firTotal) * 100).toFixed(0)
-                                return `${firHit}/${firTotal} (${firPct}%)`
-                              })()}
-                            </td>
-                            <td className="fw-bold bg-success">
-                              {(() => {
-                                const allHoles = holeData.slice(0, 18)
-                                const firHit = allHoles.filter(h => h.par > 3 && h.fairwayHit === true).length
-                                const firTotal = allHoles.filter(h => h.par > 3).length
-                                if (firTotal === 0) return '-'
-                                const firPct = ((firHit / firTotal) * 100).toFixed(0)
-                                return `${firHit}/${firTotal} (${firPct}%)`
-                              })()}
-                            </td>
-                          </tr>
-
-                          {/* GIR Row */}
-                          <tr>
-                            <td className="fw-bold bg-light">GIR</td>
-                            {holeData.slice(9, 18).map((hole) => {
-                              const hasValidData = hole.score > 0 && hole.putts >= 0
-                              const hitGIR = hasValidData ? calculateGIR(hole.par, hole.score, hole.putts) : false
-                              return (
-                                <td key={`gir-${hole.holeNumber}`}>
-                                  {hasValidData && (
-                                    <span className={hitGIR ? 'text-success fw-bold' : 'text-muted'}>
-                                      {hitGIR ? '✓' : '✗'}
-                                    </span>
-                                  )}
-                                </td>
-                              )
-                            })}
-                            <td className="fw-bold bg-warning">
-                              {(() => {
-                                const back9 = holeData.slice(9, 18)
-                                const girHit = back9.filter(h => {
-                                  const hasValidData = h.score > 0 && h.putts >= 0
-                                  return hasValidData && calculateGIR(h.par, h.score, h.putts)
-                                }).length
-                                const girTotal = back9.length
-                                const girPct = ((girHit / girTotal) * 100).toFixed(0)
-                                return `${girHit}/${girTotal} (${girPct}%)`
-                              })()}
-                            </td>
-                            <td className="fw-bold bg-success">
-                              {(() => {
-                                const allHoles = holeData.slice(0, 18)
-                                const girHit = allHoles.filter(h => {
-                                  const hasValidData = h.score > 0 && h.putts >= 0
-                                  return hasValidData && calculateGIR(h.par, h.score, h.putts)
-                                }).length
-                                const girTotal = allHoles.length
-                                const girPct = ((girHit / girTotal) * 100).toFixed(0)
-                                return `${girHit}/${girTotal} (${girPct}%)`
-                              })()}
-                            </td>
-                          </tr>
+                          <HoleResultRows
+                            holes={holeData.slice(9, 18)}
+                            startIndex={9}
+                            roundHoles={holeData.slice(0, 18)}
+                            puttUnit={puttUnit}
+                            onChange={handleHoleResultsChange}
+                          />
 
                           {/* Under GIR Row */}
                           <tr>
@@ -1034,7 +988,7 @@ export default function EditRoundPage() {
                             <td className="fw-bold bg-light">Par Save</td>
                             {holeData.slice(9, 18).map((hole) => {
                               const hasValidData = hole.score > 0 && hole.putts >= 0
-                              const hitGIR = hasValidData ? calculateGIR(hole.par, hole.score, hole.putts) : false
+                              const hitGIR = hasValidData ? getGIR(hole) : false
                               const upDownResult = hasValidData ? calculateUpAndDown(hole.par, hole.score, hole.putts, hitGIR) : { isAttempt: false, isSuccess: false }
                               return (
                                 <td key={`ud-${hole.holeNumber}`}>
@@ -1055,14 +1009,14 @@ export default function EditRoundPage() {
                                 const parSaves = back9.filter(h => {
                                   const hasValidData = h.score > 0 && h.putts >= 0
                                   if (!hasValidData) return false
-                                  const hitGIR = calculateGIR(h.par, h.score, h.putts)
+                                  const hitGIR = getGIR(h)
                                   const upDownResult = calculateUpAndDown(h.par, h.score, h.putts, hitGIR)
                                   return upDownResult.isAttempt && upDownResult.isSuccess
                                 }).length
                                 const parSaveAttempts = back9.filter(h => {
                                   const hasValidData = h.score > 0 && h.putts >= 0
                                   if (!hasValidData) return false
-                                  const hitGIR = calculateGIR(h.par, h.score, h.putts)
+                                  const hitGIR = getGIR(h)
                                   const upDownResult = calculateUpAndDown(h.par, h.score, h.putts, hitGIR)
                                   return upDownResult.isAttempt
                                 }).length
@@ -1077,14 +1031,14 @@ export default function EditRoundPage() {
                                 const parSaves = allHoles.filter(h => {
                                   const hasValidData = h.score > 0 && h.putts >= 0
                                   if (!hasValidData) return false
-                                  const hitGIR = calculateGIR(h.par, h.score, h.putts)
+                                  const hitGIR = getGIR(h)
                                   const upDownResult = calculateUpAndDown(h.par, h.score, h.putts, hitGIR)
                                   return upDownResult.isAttempt && upDownResult.isSuccess
                                 }).length
                                 const parSaveAttempts = allHoles.filter(h => {
                                   const hasValidData = h.score > 0 && h.putts >= 0
                                   if (!hasValidData) return false
-                                  const hitGIR = calculateGIR(h.par, h.score, h.putts)
+                                  const hitGIR = getGIR(h)
                                   const upDownResult = calculateUpAndDown(h.par, h.score, h.putts, hitGIR)
                                   return upDownResult.isAttempt
                                 }).length
@@ -1104,6 +1058,20 @@ export default function EditRoundPage() {
           </Card.Body>
         </Card>
 
+        {/* Score Distribution */}
+        {entryMode === 'detailed' && holeData.some((hole) => hole.score > 0) && (
+          <Card className="mb-4">
+            <Card.Body>
+              <h6 className="text-muted mb-2">Score Distribution</h6>
+              <ScoreDistributionTable
+                distribution={calculateScoreDistribution(
+                  holeData.map((hole) => ({ par: hole.par, score: hole.score, greenInRegulation: getGIR(hole) }))
+                )}
+              />
+            </Card.Body>
+          </Card>
+        )}
+
         {/* Notes */}
         <Card className="mb-4">
           <Card.Body>
@@ -10,13 +10,18 @@ import {
   generateDefaultHoles,
   calculateRoundStats,
   validateHoleData,
-  calculateGIR,
+  getGIR,
   calculateUnderGIR,
   calculateUpAndDown,
   STANDARD_PARS
 } from '@/lib/golf-calculator'
+import { PuttUnit } from '@/lib/strokes-gained'
 import GolfCourseSearch from '@/components/GolfCourseSearch'
+import ScoreTypeFields, { ScoreTypeValues } from '@/components/ScoreTypeFields'
+import HoleResultRows from '@/components/HoleResultRows'
+import ShotEntry from '@/components/ShotEntry'
 import type { GolfCourseDetails, GolfCourseTee } from '@/types/golf-course'
+import { getNineHoleRatings, NineHoleSide } from '@/lib/handicap-calculator'
 
 // Helper function to determine score shape CSS class
 function getScoreShapeClass(par: number, score: number): string {
@@ -49,9 +54,20 @@ export default function NewRoundPage() {
   const [courseRating, setCourseRating] = useState<number | ''>('')
   const [slopeRating, setSlopeRating] = useState<number | ''>('')
   const [notes, setNotes] = useState('')
+  const [scoreTypeValues, setScoreTypeValues] = useState<ScoreTypeValues>({
+    scoreType: 'HOME',
+    playFormat: 'INDIVIDUAL',
+    holesPlayed: '',
+  })
+
+  // Tee chosen from the course search, and which nine was played on an 18-hole tee
+  const [selectedTee, setSelectedTee] = useState<GolfCourseTee | null>(null)
+  const [nineHoleSide, setNineHoleSide] = useState<NineHoleSide>('front')
+  const linkedToCatalog = selectedTee?.tee_set_id !== undefined
 
   // Detailed mode
   const [holeData, setHoleData] = useState<HoleData[]>(generateDefaultHoles(18))
+  const [puttUnit, setPuttUnit] = useState<PuttUnit>('ft')
 
   // Calculated stats preview
   const [calculatedStats, setCalculatedStats] = useState<any>(null)
@@ -77,17 +93,62 @@ export default function NewRoundPage() {
 
   const handleHolesChange = (numHoles: number) => {
     setHoles(numHoles)
-    if (entryMode === 'detailed') {
+    if (selectedTee) {
+      applyTee(selectedTee, numHoles, nineHoleSide)
+    } else if (entryMode === 'detailed') {
       setHoleData(generateDefaultHoles(numHoles))
     }
   }
 
+  const handleNineHoleSideChange = (side: NineHoleSide) => {
+    setNineHoleSide(side)
+    if (selectedTee) {
+      applyTee(selectedTee, holes, side)
+    }
+  }
+
+  // Fill ratings and hole data from a tee, using the 9-hole ratings when
+  // only one nine of an 18-hole tee was played
+  const applyTee = (tee: GolfCourseTee, numHoles: number, side: NineHoleSide) => {
+    const playedNine = numHoles === 9 && tee.number_of_holes === 18
+    const ratings = playedNine
+      ? getNineHoleRatings(tee, side)
+      : { courseRating: tee.course_rating, slopeRating: tee.slope_rating }
+
+    setCourseRating(ratings.courseRating)
+    setSlopeRating(ratings.slopeRating)
+
+    const offset = playedNine && side === 'back' ? 9 : 0
+    const teeHoles = playedNine ? tee.holes.slice(offset, offset + 9) : tee.holes
+
+    // Auto-populate hole data with par, yardage, and handicap
+    // Always update hole data when course is selected, regardless of mode
+    const newHoleData = teeHoles.map((hole, index) => ({
+      holeNumber: index + 1 + offset,
+      par: hole.par,
+      score: 0,
+      putts: 0,
+      fairwayHit: undefined,
+      yardage: hole.yardage,
+      handicap: hole.handicap
+    }))
+
+    console.log('Setting hole data:', newHoleData)
+    setHoleData(newHoleData)
+  }
+
   const handleHoleChange = (index: number, field: keyof HoleData, value: any) => {
     const newHoleData = [...holeData]
     newHoleData[index] = { ...newHoleData[index], [field]: value }
     setHoleData(newHoleData)
   }
 
+  const handleHoleResultsChange = (index: number, changes: Partial<HoleData>) => {
+    const newHoleData = [...holeData]
+    newHoleData[index] = { ...newHoleData[index], ...changes }
+    setHoleData(newHoleData)
+  }
+
   const handleRoundInfoSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     // Validate round information
@@ -122,27 +183,12 @@ export default function NewRoundPage() {
     // Set course name
     setCourseName(`${course.club_name} - ${course.course_name}`)
 
-    // Set course and slope ratings
-    setCourseRating(tee.course_rating)
-    setSlopeRating(tee.slope_rating)
-
     // Set number of holes FIRST
     setHoles(tee.number_of_holes)
 
-    // Auto-populate hole data with par, yardage, and handicap
-    // Always update hole data when course is selected, regardless of mode
-    const newHoleData = tee.holes.map((hole, index) => ({
-      holeNumber: index + 1,
-      par: hole.par,
-      score: 0,
-      putts: 0,
-      fairwayHit: undefined,
-      yardage: hole.yardage,
-      handicap: hole.handicap
-    }))
-
-    console.log('Setting hole data:', newHoleData)
-    setHoleData(newHoleData)
+    // Set course and slope ratings and hole data
+    setSelectedTee(tee)
+    applyTee(tee, tee.number_of_holes, nineHoleSide)
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -159,6 +205,12 @@ export default function NewRoundPage() {
         courseRating: courseRating || null,
         slopeRating: slopeRating || null,
         notes: notes || null,
+        scoreType: scoreTypeValues.scoreType,
+        playFormat: scoreTypeValues.playFormat,
+        holesPlayed: scoreTypeValues.holesPlayed || null,
+        // The server takes the course name and ratings from the linked catalog tee
+        teeSetId: selectedTee?.tee_set_id ?? null,
+        nineHoleSide: holes === 9 && selectedTee?.number_of_holes === 18 ? nineHoleSide : undefined,
       }
 
       if (entryMode === 'simple') {
@@ -275,7 +327,22 @@ export default function NewRoundPage() {
             </div>
 
             <div className="text-center text-muted mb-3">
-              <small>— OR enter manually —</small>
+              {linkedToCatalog ? (
+                <small>
+                  Course name and ratings come from the selected tee.{' '}
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="p-0 align-baseline"
+                    onClick={() => setSelectedTee(null)}
+                    disabled={roundInfoSubmitted}
+                  >
+                    Enter manually instead
+                  </Button>
+                </small>
+              ) : (
+                <small>— OR enter manually —</small>
+              )}
             </div>
 
             <Row>
@@ -288,7 +355,7 @@ export default function NewRoundPage() {
                     value={courseName}
                     onChange={(e) => setCourseName(e.target.value)}
                     placeholder="e.g., Pebble Beach Golf Links"
-                    disabled={roundInfoSubmitted}
+                    disabled={roundInfoSubmitted || linkedToCatalog}
                   />
                 </Form.Group>
               </Col>
@@ -329,7 +396,7 @@ export default function NewRoundPage() {
                     value={courseRating}
                     onChange={(e) => setCourseRating(e.target.value ? Number(e.target.value) : '')}
                     placeholder="e.g., 72.3"
-                    disabled={roundInfoSubmitted}
+                    disabled={roundInfoSubmitted || linkedToCatalog}
                   />
                 </Form.Group>
               </Col>
@@ -341,12 +408,52 @@ export default function NewRoundPage() {
                     value={slopeRating}
                     onChange={(e) => setSlopeRating(e.target.value ? Number(e.target.value) : '')}
                     placeholder="e.g., 135"
-                    disabled={roundInfoSubmitted}
+                    disabled={roundInfoSubmitted || linkedToCatalog}
                   />
                 </Form.Group>
               </Col>
             </Row>
 
+            {holes === 9 && selectedTee?.number_of_holes === 18 && (
+              <Form.Group className="mb-3">
+                <Form.Label>Nine Played</Form.Label>
+                <div>
+                  <Form.Check
+                    inline
+                    type="radio"
+                    label="Front 9"
+                    name="nineHoleSide"
+                    id="nine-front"
+                    checked={nineHoleSide === 'front'}
+                    onChange={() => handleNineHoleSideChange('front')}
+                    disabled={roundInfoSubmitted}
+                  />
+                  <Form.Check
+                    inline
+                    type="radio"
+                    label="Back 9"
+                    name="nineHoleSide"
+                    id="nine-back"
+                    checked={nineHoleSide === 'back'}
+                    onChange={() => handleNineHoleSideChange('back')}
+                    disabled={roundInfoSubmitted}
+                  />
+                </div>
+                <Form.Text className="text-muted">
+                  Uses the 9-hole ratings. The score is held pending until combined with another 9-hole round.
+                </Form.Text>
+              </Form.Group>
+            )}
+
+            <ScoreTypeFields
+              values={scoreTypeValues}
+              onChange={setScoreTypeValues}
+              holes={holes}
+              courseRating={courseRating || null}
+              slopeRating={slopeRating || null}
+              disabled={roundInfoSubmitted}
+            />
+
             {!roundInfoSubmitted && (
               <div className="d-flex justify-content-end mt-3">
                 <Button variant="primary" type="submit" size="lg">
@@ -424,6 +531,19 @@ export default function NewRoundPage() {
                     GIR, up & down stats will be calculated automatically!
                   </small>
                 </Alert>
+                <Form.Group className="mb-3 d-flex align-items-center gap-2">
+                  <Form.Label htmlFor="puttUnit" className="mb-0 small text-muted">First putt distance in</Form.Label>
+                  <Form.Select
+                    id="puttUnit"
+                    size="sm"
+                    style={{ width: 'auto' }}
+                    value={puttUnit}
+                    onChange={(e) => setPuttUnit(e.target.value as PuttUnit)}
+                  >
+                    <option value="ft">feet</option>
+                    <option value="m">meters</option>
+                  </Form.Select>
+                </Form.Group>
                 {/* Front 9 Scorecard */}
                 <div className="mb-4">
                   <h6 className="text-muted mb-2">Front 9</h6>
@@ -538,69 +658,11 @@ export default function NewRoundPage() {
                           </td>
                         </tr>
 
-                        {/* Fairway Row */}
-                        <tr>
-                          <td className="fw-bold bg-light">Fairway</td>
-                          {holeData.slice(0, Math.min(9, holes)).map((hole, index) => (
-                            <td key={`fw-${hole.holeNumber}`}>
-                              {hole.par > 3 ? (
-                                <Form.Select
-                                  size="sm"
-                                  value={hole.fairwayHit === undefined ? '' : hole.fairwayHit ? 'true' : 'false'}
-                                  onChange={(e) => handleHoleChange(index, 'fairwayHit', e.target.value === '' ? undefined : e.target.value === 'true')}
-                                  className="text-center"
-                                  tabIndex={(index * 3) + 3}
-                                >
-                                  <option value="">-</option>
-                                  <option value="true">✓</option>
-                                  <option value="false">✗</option>
-                                </Form.Select>
-                              ) : (
-                                <span className="text-muted">-</span>
-                              )}
-                            </td>
-                          ))}
-                          <td className="fw-bold bg-warning">
-                            {(() => {
-                              const front9 = holeData.slice(0, Math.min(9, holes))
-                              const firHit = front9.filter(h => h.par > 3 && h.fairwayHit === true).length
-                              const firTotal = front9.filter(h => h.par > 3).length
-                              if (firTotal === 0) return '-'
-                              const firPct = ((firHit / firTotal) * 100).toFixed(0)
-                              return `${firHit}/${firTotal} (${firPct}%)`
-                            })()}
-                          </td>
-                        </tr>
-
-                        {/* GIR Row */}
-                        <tr>
-                          <td className="fw-bold bg-light">GIR</td>
-                          {holeData.slice(0, Math.min(9, holes)).map((hole) => {
-                            const hasValidData = hole.score > 0 && hole.putts >= 0
-                            const hitGIR = hasValidData ? calculateGIR(hole.par, hole.score, hole.putts) : false
-                            return (
-                              <td key={`gir-${hole.holeNumber}`}>
-                                {hasValidData && (
-                                  <span className={hitGIR ? 'text-success fw-bold' : 'text-muted'}>
-                                    {hitGIR ? '✓' : '✗'}
-                                  </span>
-                                )}
-                              </td>
-                            )
-                          })}
-                          <td className="fw-bold bg-warning">
-                            {(() => {
-                              const front9 = holeData.slice(0, Math.min(9, holes))
-                              const girHit = front9.filter(h => {
-                                const hasValidData = h.score > 0 && h.putts >= 0
-                                return hasValidData && calculateGIR(h.par, h.score, h.putts)
-                              }).length
-                              const girTotal = front9.length
-                              const girPct = ((girHit / girTotal) * 100).toFixed(0)
-                              return `${girHit}/${girTotal} (${girPct}%)`
-                            })()}
-                          </td>
-                        </tr>
+                        <HoleResultRows
+                          holes={holeData.slice(0, Math.min(9, holes))}
+                          puttUnit={puttUnit}
+                          onChange={handleHoleResultsChange}
+                        />
 
                         {/* Under GIR Row */}
                         <tr>
@@ -635,7 +697,7 @@ export default function NewRoundPage() {
                           <td className="fw-bold bg-light">Par Save</td>
                           {holeData.slice(0, Math.min(9, holes)).map((hole) => {
                             const hasValidData = hole.score > 0 && hole.putts >= 0
-                            const hitGIR = hasValidData ? calculateGIR(hole.par, hole.score, hole.putts) : false
+                            const hitGIR = hasValidData ? getGIR(hole) : false
                             const upDownResult = hasValidData ? calculateUpAndDown(hole.par, hole.score, hole.putts, hitGIR) : { isAttempt: false, isSuccess: false }
                             return (
                               <td key={`ud-${hole.holeNumber}`}>
@@ -656,14 +718,14 @@ export default function NewRoundPage() {
                               const parSaves = front9.filter(h => {
                                 const hasValidData = h.score > 0 && h.putts >= 0
                                 if (!hasValidData) return false
-                                const hitGIR = calculateGIR(h.par, h.score, h.putts)
+                                const hitGIR = getGIR(h)
                                 const upDownResult = calculateUpAndDown(h.par, h.score, h.putts, hitGIR)
                                 return upDownResult.isAttempt && upDownResult.isSuccess
                               }).length
                               const parSaveAttempts = front9.filter(h => {
                                 const hasValidData = h.score > 0 && h.putts >= 0
                                 if (!hasValidData) return false
-                                const hitGIR = calculateGIR(h.par, h.score, h.putts)
+                                const hitGIR = getGIR(h)
                                 const upDownResult = calculateUpAndDown(h.par, h.score, h.putts, hitGIR)
                                 return upDownResult.isAttempt
                               }).length
@@ -813,94 +875,13 @@ export default function NewRoundPage() {
                             </td>
                           </tr>
 
-                          {/* Fairway Row */}
-                          <tr>
-                            <td className="fw-bold bg-light">Fairway</td>
-                            {holeData.slice(9, 18).map((hole, index) => {
-                              const actualIndex = index + 9
-                              return (
-                                <td key={`fw-${hole.holeNumber}`}>
-                                  {hole.par > 3 ? (
-                                    <Form.Select
-                                      size="sm"
-                                      value={hole.fairwayHit === undefined ? '' : hole.fairwayHit ? 'true' : 'false'}
-                                      onChange={(e) => handleHoleChange(actualIndex, 'fairwayHit', e.target.value === '' ? undefined : e.target.value === 'true')}
-                                      className="text-center"
-                                      tabIndex={(actualIndex * 3) + 3}
-                                    >
-                                      <option value="">-</option>
-                                      <option value="true">✓</option>
-                                      <option value="false">✗</option>
-                                    </Form.Select>
-                                  ) : (
-                                    <span className="text-muted">-</span>
-                                  )}
-                                </td>
-                              )
-                            })}
-                            <td className="fw-bold bg-warning">
-                              {(() => {
-                                const back9 = holeData.slice(9, 18)
-                                const firHit = back9.filter(h => h.par > 3 && h.fairwayHit === true).length
-                                const firTotal = back9.filter(h => h.par > 3).length
-                                if (firTotal === 0) return '-'
-                                const firPct = ((firHit / firTotal) * 100).toFixed(0)
-                                return `${firHit}/${firTotal} (${firPct}%)`
-                              })()}
-                            </td>
-                            <td className="fw-bold bg-success">
-                              {(() => {
-                                const allHoles = holeData.slice(0, 18)
-                                const firHit = allHoles.filter(h => h.par > 3 && h.fairwayHit === true).length
-                                const firTotal = allHoles.filter(h => h.par > 3).length
-                                if (firTotal === 0) return '-'
-                                const firPct = ((firHit / firTotal) * 100).toFixed(0)
-                                return `${firHit}/${firTotal} (${firPct}%)`
-                              })()}
-                            </td>
-                          </tr>
-
-                          {/* GIR Row */}
-                          <tr>
-                            <td className="fw-bold bg-light">GIR</td>
-                            {holeData.slice(9, 18).map((hole) => {
-                              const hasValidData = hole.score > 0 && hole.putts >= 0
-                              const hitGIR = hasValidData ? calculateGIR(hole.par, hole.score, hole.putts) : false
-                              return (
-                                <td key={`gir-${hole.holeNumber}`}>
-                                  {hasValidData && (
-                                    <span className={hitGIR ? 'text-success fw-bold' : 'text-muted'}>
-                                      {hitGIR ? '✓' : '✗'}
-                                    </span>
-                                  )}
-                                </td>
-                              )
-                            })}
-                            <td className="fw-bold bg-warning">
-                              {(() => {
-                                const back9 = holeData.slice(9, 18)
-                                const girHit = back9.filter(h => {
-                                  const hasValidData = h.score > 0 && h.putts >= 0
-                                  return hasValidData && calculateGIR(h.par, h.score, h.putts)
-                                }).length
-                                const girTotal = back9.length
-                                const girPct = ((girHit / girTotal) * 100).toFixed(0)
-                                return `${girHit}/${girTotal} (${girPct}%)`
-                              })()}
-                            </td>
-                            <td className="fw-bold bg-success">
-                              {(() => {
-                                const allHoles = holeData.slice(0, 18)
-                                const girHit = allHoles.filter(h => {
-                                  const hasValidData = h.score > 0 && h.putts >= 0
-                                  return hasValidData && calculateGIR(h.par, h.score, h.putts)
-                                }).length
-                                const girTotal = allHoles.length
-                                const girPct = ((girHit / girTotal) * 100).toFixed(0)
-                                return `${girHit}/${girTotal} (${girPct}%)`
-                              })()}
-                            </td>
-                          </tr>
+                          <HoleResultRows
+                            holes={holeData.slice(9, 18)}
+                            startIndex={9}
+                            roundHoles={holeData.slice(0, 18)}
+                            puttUnit={puttUnit}
+                            onChange={handleHoleResultsChange}
+                          />
 
                           {/* Under GIR Row */}
                           <tr>
@@ -945,7 +926,7 @@ export default function NewRoundPage() {
                             <td className="fw-bold bg-light">Par Save</td>
                             {holeData.slice(9, 18).map((hole) => {
                               const hasValidData = hole.score > 0 && hole.putts >= 0
-                              const hitGIR = hasValidData ? calculateGIR(hole.par, hole.score, hole.putts) : false
+                              const hitGIR = hasValidData ? getGIR(hole) : false
                               const upDownResult = hasValidData ? calculateUpAndDown(hole.par, hole.score, hole.putts, hitGIR) : { isAttempt: false, isSuccess: false }
                               return (
                                 <td key={`ud-${hole.holeNumber}`}>
@@ -966,14 +947,14 @@ export default function NewRoundPage() {
                                 const parSaves = back9.filter(h => {
                                   const hasValidData = h.score > 0 && h.putts >= 0
                                   if (!hasValidData) return false
-                                  const hitGIR = calculateGIR(h.par, h.score, h.putts)
+                                  const hitGIR = getGIR(h)
                                   const upDownResult = calculateUpAndDown(h.par, h.score, h.putts, hitGIR)
                                   return upDownResult.isAttempt && upDownResult.isSuccess
                                 }).length
                                 const parSaveAttempts = back9.filter(h => {
                                   const hasValidData = h.score > 0 && h.putts >= 0
                                   if (!hasValidData) return false
-                                  const hitGIR = calculateGIR(h.par, h.score, h.putts)
+                                  const hitGIR = getGIR(h)
                                   const upDownResult = calculateUpAndDown(h.par, h.score, h.putts, hitGIR)
                                   return upDownResult.isAttempt
                                 }).length
@@ -988,14 +969,14 @@ export default function NewRoundPage() {
                                 const parSaves = allHoles.filter(h => {
                                   const hasValidData = h.score > 0 && h.putts >= 0
                                   if (!hasValidData) return false
-                                  const hitGIR = calculateGIR(h.par, h.score, h.putts)
+                                  const hitGIR = getGIR(h)
                                   const upDownResult = calculateUpAndDown(h.par, h.score, h.putts, hitGIR)
                                   return upDownResult.isAttempt && upDownResult.isSuccess
                                 }).length
                                 const parSaveAttempts = allHoles.filter(h => {
                                   const hasValidData = h.score > 0 && h.putts >= 0
                                   if (!hasValidData) return false
-                                  const hitGIR = calculateGIR(h.par, h.score, h.putts)
+                                  const hitGIR = getGIR(h)
                                   const upDownResult = calculateUpAndDown(h.par, h.score, h.putts, hitGIR)
                                   return upDownResult.isAttempt
                                 }).length
@@ -1010,6 +991,9 @@ export default function NewRoundPage() {
                     </div>
                   </div>
                 )}
+
+                {/* Shot-by-Shot */}
+                <ShotEntry holes={holeData} onChange={(index, shots) => handleHoleChange(index, 'shots', shots)} />
               </div>
             )}
           </Card.Body>
@@ -4,8 +4,13 @@ import { useEffect, useState } from 'react'
 import { Container, Table, Button, Alert, Spinner, Badge } from 'react-bootstrap'
 import Link from 'next/link'
 import { useSession } from 'next-auth/react'
-import { calculateHandicapDifferential } from '@/lib/handicap-calculator'
 import { useAdminMode } from '@/contexts/AdminModeContext'
+import {
+  SCORE_TYPE_LABELS,
+  INELIGIBILITY_REASON_LABELS,
+  ScoreType,
+  HandicapIneligibilityReason,
+} from '@/lib/handicap-calculator'
 
 interface Round {
   id: number
@@ -16,6 +21,11 @@ interface Round {
   holes: number
   courseRating: number | null
   slopeRating: number | null
+  adjustedGrossScore: number | null
+  handicapDifferential: number | null
+  pairedRoundId: number | null
+  scoreType: ScoreType
+  ineligibleReasons: HandicapIneligibilityReason[]
   notes: string | null
   createdAt: string
   updatedAt: string
@@ -113,6 +123,7 @@ export default function RoundsPage() {
               <th>Date</th>
               <th>Player</th>
               <th>Course</th>
+              <th>Type</th>
               <th>Score</th>
               <th>Holes</th>
               <th>Rating/Slope</th>
@@ -135,13 +146,43 @@ export default function RoundsPage() {
                   )}
                 </td>
                 <td>{round.courseName}</td>
+                <td>
+                  <Badge bg={round.scoreType === 'COMPETITION' ? 'dark' : 'light'} text={round.scoreType === 'COMPETITION' ? undefined : 'dark'} className="border">
+                    {SCORE_TYPE_LABELS[round.scoreType]}
+                  </Badge>
+                  {round.ineligibleReasons.length > 0 && (
+                    <Badge
+                      bg="danger"
+                      className="ms-1"
+                      title={round.ineligibleReasons.map(reason => INELIGIBILITY_REASON_LABELS[reason]).join('; ')}
+                    >
+                      Not posted
+                    </Badge>
+                  )}
+                </td>
                 <td>
                   <strong>{round.score}</strong>
+                  {round.adjustedGrossScore !== null && round.adjustedGrossScore !== round.score && (
+                    <small className="text-muted ms-1" title="Adjusted Gross Score (net double bogey)">
+                      (AGS {round.adjustedGrossScore})
+                    </small>
+                  )}
                 </td>
                 <td>
                   <Badge bg={round.holes === 18 ? 'primary' : 'secondary'}>
                     {round.holes}
                   </Badge>
+                  {round.holes === 9 && round.ineligibleReasons.length === 0 && (
+                    round.pairedRoundId !== null ? (
+                      <Badge bg="success" className="ms-1" title="Combined with another 9-hole score into an 18-hole differential">
+                        Paired
+                      </Badge>
+                    ) : (
+                      <Badge bg="warning" text="dark" className="ms-1" title="Waiting for another 9-hole score to combine with">
+                        Pending
+                      </Badge>
+                    )
+                  )}
                 </td>
                 <td>
                   {round.courseRating && round.slopeRating
@@ -149,21 +190,23 @@ export default function RoundsPage() {
                     : 'N/A'}
                 </td>
                 <td>
-                  {(() => {
-                    const differential = calculateHandicapDifferential(
-                      round.score,
-                      round.courseRating,
-                      round.slopeRating
-                    )
-                    if (differential !== null) {
-                      return (
-                        <Badge bg="info" className="fs-6">
-                          {differential.toFixed(1)}
-                        </Badge>
-                      )
-                    }
-                    return <span className="text-muted">—</span>
-                  })()}
+                  {round.handicapDifferential !== null ? (
+                    <Badge bg="info" className="fs-6" title={round.holes === 9 ? 'Combined 18-hole differential' : undefined}>
+                      {round.handicapDifferential.toFixed(1)}
+                    </Badge>
+                  ) : round.pairedRoundId !== null ? (
+                    <small className="text-muted">
+                      Combined with{' '}
+                      {(() => {
+                        const pairedRound = rounds.find(r => r.id === round.pairedRoundId)
+                        return pairedRound
+                          ? new Date(pairedRound.datePlayed).toLocaleDateString()
+                          : 'a later round'
+                      })()}
+                    </small>
+                  ) : (
+                    <span className="text-muted">—</span>
+                  )}
                 </td>
                 <td>
                   {round.notes ? (
@@ -1,11 +1,22 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { Container, Card, Row, Col, Form, Button, Spinner, Alert, Badge } from 'react-bootstrap'
+import { Container, Card, Row, Col, Form, Button, Spinner, Alert, Badge, Table } from 'react-bootstrap'
 import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { useAdminMode } from '@/contexts/AdminModeContext'
+import { SCORE_TYPES, SCORE_TYPE_LABELS } from '@/lib/handicap-calculator'
+import { PENALTY_TYPES, PENALTY_TYPE_LABELS, PenaltyType, ScoringAverage, ScoringAverages } from '@/lib/golf-calculator'
+import {
+  STROKES_GAINED_CATEGORIES,
+  STROKES_GAINED_CATEGORY_LABELS,
+  StrokesGainedCategory,
+} from '@/lib/strokes-gained'
+import type { PuttingStats } from '@/lib/strokes-gained'
+import { SCORE_DISTRIBUTION_CATEGORIES, SCORE_DISTRIBUTION_LABELS } from '@/lib/scorecard-utils'
+import type { ScoreDistribution } from '@/lib/scorecard-utils'
+import ScoreDistributionTable from '@/components/ScoreDistributionTable'
 
 interface Stats {
   totalRounds: number
@@ -14,6 +25,42 @@ interface Stats {
   avgPutts: number
   avgPuttsPerGIR: number
   avgScore: number
+  girRecordedPercentage: number
+  missLeftPercentage: number
+  missRightPercentage: number
+  teePenaltyPercentage: number
+  avgPenaltyStrokes: number
+  avgScoreToParAfterPenalty: number
+  sandSavePercentage: number
+  sgPuttingPerRound: number
+  putting: PuttingStats
+  scoringAverages: ScoringAverages
+  scoreDistribution: ScoreDistribution & {
+    rounds: number
+    roundBreakdowns: Array<ScoreDistribution & {
+      roundId: number
+      courseName: string
+      datePlayed: string
+    }>
+  }
+  strokesGained: {
+    rounds: number
+    holes: number
+    total: number
+    byCategory: Record<StrokesGainedCategory, number>
+    perRound: {
+      total: number
+      byCategory: Record<StrokesGainedCategory, number>
+    }
+    roundBreakdowns: Array<{
+      roundId: number
+      courseName: string
+      datePlayed: string
+      holes: number
+      total: number
+      byCategory: Record<StrokesGainedCategory, number>
+    }>
+  }
   firStreak: number
   no3PuttStreak: number
   noDoubleBogeyStreak: number
@@ -22,8 +69,55 @@ interface Stats {
   currentNoDoubleBogeyStreak: number
   totalGIR: number
   totalGIROpportunities: number
+  totalGIRRecorded: number
   totalFIR: number
   totalFIROpportunities: number
+  totalTeeShotsRecorded: number
+  totalPenaltyStrokes: number
+  totalPenaltyHoles: number
+  penaltyStrokesByType: Record<PenaltyType, number>
+  totalSandSaves: number
+  totalSandSaveAttempts: number
+}
+
+const formatStrokesGained = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}`
+
+/**
+ * Scoring averages with the costliest row highlighted
+ */
+function ScoringAverageTable({ title, rows }: { title: string; rows: ScoringAverage[] }) {
+  const played = rows.filter((row) => row.holes > 0)
+  const costliest = played.length > 1
+    ? played.reduce((worst, row) => (row.averageToPar > worst.averageToPar ? row : worst))
+    : null
+
+  return (
+    <Card className="h-100">
+      <Card.Body>
+        <h6 className="text-muted mb-2">{title}</h6>
+        <Table size="sm" className="mb-0">
+          <thead>
+            <tr>
+              <th></th>
+              <th>Holes</th>
+              <th>Avg Score</th>
+              <th>To Par</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.label} className={row === costliest ? 'table-danger' : undefined}>
+                <td>{row.label}</td>
+                <td>{row.holes}</td>
+                <td>{row.holes > 0 ? row.averageScore.toFixed(2) : '-'}</td>
+                <td>{row.holes > 0 ? `${row.averageToPar > 0 ? '+' : ''}${row.averageToPar.toFixed(2)}` : '-'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+      </Card.Body>
+    </Card>
+  )
 }
 
 export default function StatsPage() {
@@ -33,13 +127,15 @@ export default function StatsPage() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [stats, setStats] = useState<Stats | null>(null)
-  const [courses, setCourses] = useState<string[]>([])
+  const [courses, setCourses] = useState<Array<{ value: string; label: string }>>([])
 
   // Filter state
   const [filter, setFilter] = useState('alltime')
   const [startDate, setStartDate] = useState('')
   const [endDate, setEndDate] = useState('')
   const [selectedCourse, setSelectedCourse] = useState('')
+  const [scoreType, setScoreType] = useState('')
+  const [eligibility, setEligibility] = useState('')
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -54,13 +150,25 @@ export default function StatsPage() {
     }
   }, [status])
 
+  // Catalog courses group every spelling and tee of a course; rounds entered
+  // without a catalog tee can still be picked by name
   const fetchCourses = async () => {
     try {
-      const response = await fetch('/api/rounds')
-      if (response.ok) {
-        const rounds = await response.json()
-        const uniqueCourses = [...new Set(rounds.map((r: any) => r.courseName))].sort()
-        setCourses(uniqueCourses as string[])
+      const [coursesResponse, roundsResponse] = await Promise.all([
+        fetch('/api/courses?played=true'),
+        fetch('/api/rounds'),
+      ])
+      if (coursesResponse.ok && roundsResponse.ok) {
+        const { courses: catalogCourses } = await coursesResponse.json()
+        const rounds = await roundsResponse.json()
+        const unlinkedNames = [...new Set<string>(
+          rounds.filter((r: any) => r.teeSetId === null).map((r: any) => r.courseName)
+        )]
+
+        setCourses([
+          ...catalogCourses.map((c: any) => ({ value: `id:${c.id}`, label: c.name })),
+          ...unlinkedNames.map((name) => ({ value: `name:${name}`, label: name })),
+        ].sort((a, b) => a.label.localeCompare(b.label)))
       }
     } catch (err) {
       console.error('Error fetching courses:', err)
@@ -77,7 +185,16 @@ export default function StatsPage() {
       if (filter === 'daterange' && startDate && endDate) {
         url += `&startDate=${startDate}&endDate=${endDate}`
       } else if (filter === 'course' && selectedCourse) {
-        url += `&courseName=${encodeURIComponent(selectedCourse)}`
+        url += selectedCourse.startsWith('id:')
+          ? `&courseId=${selectedCourse.slice(3)}`
+          : `&courseName=${encodeURIComponent(selectedCourse.slice(5))}`
+      }
+
+      if (scoreType) {
+        url += `&scoreType=${scoreType}`
+      }
+      if (eligibility) {
+        url += `&eligibility=${eligibility}`
       }
 
       // Add admin mode parameter
@@ -218,14 +335,34 @@ export default function StatsPage() {
                 >
                   <option value="">Choose a course...</option>
                   {courses.map((course) => (
-                    <option key={course} value={course}>
-                      {course}
+                    <option key={course.value} value={course.value}>
+                      {course.label}
                     </option>
                   ))}
                 </Form.Select>
               </Col>
             )}
 
+            <Col md={4}>
+              <Form.Label>Score Type</Form.Label>
+              <Form.Select value={scoreType} onChange={(e) => setScoreType(e.target.value)}>
+                <option value="">All score types</option>
+                {SCORE_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {SCORE_TYPE_LABELS[type]}
+                  </option>
+                ))}
+              </Form.Select>
+            </Col>
+            <Col md={4}>
+              <Form.Label>Handicap Eligibility</Form.Label>
+              <Form.Select value={eligibility} onChange={(e) => setEligibility(e.target.value)}>
+                <option value="">All rounds</option>
+                <option value="eligible">Posted for handicap</option>
+                <option value="ineligible">Not posted</option>
+              </Form.Select>
+            </Col>
+
             {(filter === 'daterange' || filter === 'course') && (
               <Col md={12}>
                 <Button onClick={handleApplyFilter}>Apply Filter</Button>
@@ -276,6 +413,13 @@ export default function StatsPage() {
                   <small className="text-muted">
                     {stats.totalGIR} / {stats.totalGIROpportunities}
                   </small>
+                  {stats.totalGIROpportunities > 0 && (
+                    <div>
+                      <small className="text-muted" title="Holes without a recorded green result are estimated from score and putts">
+                        {stats.girRecordedPercentage}% recorded, {parseFloat((100 - stats.girRecordedPercentage).toFixed(1))}% estimated
+                      </small>
+                    </div>
+                  )}
                 </Card.Body>
               </Card>
             </Col>
@@ -293,6 +437,71 @@ export default function StatsPage() {
               </Card>
             </Col>
 
+            {/* Tee Shots */}
+            <Col md={6} lg={4}>
+              <Card className="h-100">
+                <Card.Body>
+                  <h6 className="text-muted mb-2">Tee Shots</h6>
+                  {stats.totalTeeShotsRecorded > 0 ? (
+                    <>
+                      <div className="d-flex justify-content-between">
+                        <span>Missed left</span>
+                        <strong>{stats.missLeftPercentage}%</strong>
+                      </div>
+                      <div className="d-flex justify-content-between">
+                        <span>Missed right</span>
+                        <strong>{stats.missRightPercentage}%</strong>
+                      </div>
+                      <div className="d-flex justify-content-between mb-1">
+                        <span>Penalty</span>
+                        <strong>{stats.teePenaltyPercentage}%</strong>
+                      </div>
+                      <small className="text-muted">
+                        From {stats.totalTeeShotsRecorded} tee shots with a recorded fairway result
+                      </small>
+                    </>
+                  ) : (
+                    <small className="text-muted">Record where tee shots finish to see your misses</small>
+                  )}
+                </Card.Body>
+              </Card>
+            </Col>
+
+            {/* Penalties */}
+            <Col md={6} lg={4}>
+              <Card className="h-100">
+                <Card.Body>
+                  <h6 className="text-muted mb-2">Penalty Strokes per Round</h6>
+                  <h2 className="mb-1">{stats.avgPenaltyStrokes}</h2>
+                  {stats.totalPenaltyStrokes > 0 && (
+                    <>
+                      <small className="text-muted d-block">
+                        {PENALTY_TYPES.filter((type) => stats.penaltyStrokesByType[type] > 0)
+                          .map((type) => `${PENALTY_TYPE_LABELS[type]} ${stats.penaltyStrokesByType[type]}`)
+                          .join(', ')}
+                      </small>
+                      <small className="text-muted d-block" title="Average score to par on holes with a penalty">
+                        {stats.avgScoreToParAfterPenalty > 0 ? '+' : ''}{stats.avgScoreToParAfterPenalty} on {stats.totalPenaltyHoles} holes with a penalty
+                      </small>
+                    </>
+                  )}
+                </Card.Body>
+              </Card>
+            </Col>
+
+            {/* Sand Saves */}
+            <Col md={6} lg={4}>
+              <Card className="h-100">
+                <Card.Body>
+                  <h6 className="text-muted mb-2">Sand Saves</h6>
+                  <h2 className="mb-1">{stats.sandSavePercentage}%</h2>
+                  <small className="text-muted">
+                    {stats.totalSandSaves} / {stats.totalSandSaveAttempts}
+                  </small>
+                </Card.Body>
+              </Card>
+            </Col>
+
             {/* Average Putts */}
             <Col md={6} lg={4}>
               <Card className="h-100">
@@ -352,6 +561,204 @@ export default function StatsPage() {
               </Card>
             </Col>
           </Row>
+
+          {/* Score Distribution */}
+          <h4 className="mt-5 mb-3">Score Distribution</h4>
+          {stats.scoreDistribution.rounds === 0 ? (
+            <Alert variant="info">
+              Enter hole-by-hole scores to see how your scores break down.
+            </Alert>
+          ) : (
+            <>
+              <Card className="mb-4">
+                <Card.Body>
+                  <h6 className="text-muted mb-2">
+                    All Rounds ({stats.scoreDistribution.holes} holes over {stats.scoreDistribution.rounds} rounds)
+                  </h6>
+                  <ScoreDistributionTable distribution={stats.scoreDistribution} />
+                </Card.Body>
+              </Card>
+
+              <Card>
+                <Card.Body>
+                  <h6 className="text-muted mb-2">By Round</h6>
+                  <Table size="sm" responsive className="mb-0">
+                    <thead>
+                      <tr>
+                        <th>Date</th>
+                        <th>Course</th>
+                        {SCORE_DISTRIBUTION_CATEGORIES.map((category) => (
+                          <th key={category}>{SCORE_DISTRIBUTION_LABELS[category]}</th>
+                        ))}
+                        <th>Bogey Avoidance</th>
+                        <th>Birdie Conversion</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {stats.scoreDistribution.roundBreakdowns.map((round) => (
+                        <tr key={round.roundId}>
+                          <td>{new Date(round.datePlayed).toLocaleDateString()}</td>
+                          <td>
+                            <Link href={`/rounds/${round.roundId}/edit`}>{round.courseName}</Link>
+                          </td>
+                          {SCORE_DISTRIBUTION_CATEGORIES.map((category) => (
+                            <td key={category}>{round.counts[category]}</td>
+                          ))}
+                          <td>{round.bogeyAvoidance}%</td>
+                          <td>{round.girHoles > 0 ? `${round.birdieConversion}%` : '-'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </Table>
+                </Card.Body>
+              </Card>
+            </>
+          )}
+
+          {/* Scoring by Hole Type */}
+          <h4 className="mt-5 mb-3">Scoring by Hole Type</h4>
+          {stats.scoringAverages.byPar.every((row) => row.holes === 0) ? (
+            <Alert variant="info">
+              Enter hole-by-hole scores to see which holes cost you the most.
+            </Alert>
+          ) : (
+            <Row className="g-4">
+              <Col md={6}>
+                <ScoringAverageTable title="By Par" rows={stats.scoringAverages.byPar} />
+              </Col>
+              <Col md={6}>
+                <ScoringAverageTable title="By Stroke Index" rows={stats.scoringAverages.byStrokeIndex} />
+              </Col>
+              {[3, 4, 5].map((par) => (
+                <Col key={par} md={4}>
+                  <ScoringAverageTable
+                    title={`Par ${par}s by Yardage`}
+                    rows={stats.scoringAverages.byYardage.filter((row) => row.par === par)}
+                  />
+                </Col>
+              ))}
+            </Row>
+          )}
+
+          {/* Putting */}
+          <h4 className="mt-5 mb-3">Putting</h4>
+          {stats.putting.holes === 0 ? (
+            <Alert variant="info">
+              Record first putt distances when entering hole-by-hole scores to see strokes gained putting.
+            </Alert>
+          ) : (
+            <Row className="g-4">
+              <Col md={6} lg={4}>
+                <Card className="h-100">
+                  <Card.Body>
+                    <h6 className="text-muted mb-2">Strokes Gained Putting per Round</h6>
+                    <h2 className={`mb-1 ${stats.sgPuttingPerRound >= 0 ? 'text-success' : 'text-danger'}`}>
+                      {formatStrokesGained(stats.sgPuttingPerRound)}
+                    </h2>
+                    <small className="text-muted">
+                      Against a tour baseline, from {stats.putting.holes} holes with a first putt distance
+                    </small>
+                  </Card.Body>
+                </Card>
+              </Col>
+
+              <Col md={6} lg={8}>
+                <Card className="h-100">
+                  <Card.Body>
+                    <h6 className="text-muted mb-2">First Putts by Distance</h6>
+                    <Table size="sm" className="mb-0">
+                      <thead>
+                        <tr>
+                          <th>Distance</th>
+                          <th>Putts</th>
+                          <th>Made</th>
+                          <th>Strokes Gained</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {stats.putting.buckets.map((bucket) => (
+                          <tr key={bucket.label}>
+                            <td>{bucket.label}</td>
+                            <td>{bucket.attempts}</td>
+                            <td>{bucket.attempts > 0 ? `${bucket.makePercentage}%` : '-'}</td>
+                            <td>
+                              {bucket.attempts > 0
+                                ? formatStrokesGained(bucket.strokesGained)
+                                : '-'}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </Table>
+                  </Card.Body>
+                </Card>
+              </Col>
+            </Row>
+          )}
+
+          {/* Strokes Gained */}
+          <h4 className="mt-5 mb-3">Strokes Gained</h4>
+          {stats.strokesGained.rounds === 0 ? (
+            <Alert variant="info">
+              Record shot-by-shot when entering hole-by-hole scores to see strokes gained by category.
+            </Alert>
+          ) : (
+            <>
+              <Row className="g-4 mb-4">
+                {STROKES_GAINED_CATEGORIES.map((category) => (
+                  <Col key={category} md={6} lg={3}>
+                    <Card className="h-100">
+                      <Card.Body>
+                        <h6 className="text-muted mb-2">{STROKES_GAINED_CATEGORY_LABELS[category]}</h6>
+                        <h2 className={`mb-1 ${stats.strokesGained.perRound.byCategory[category] >= 0 ? 'text-success' : 'text-danger'}`}>
+                          {formatStrokesGained(stats.strokesGained.perRound.byCategory[category])}
+                        </h2>
+                        <small className="text-muted">
+                          Per round, {formatStrokesGained(stats.strokesGained.byCategory[category])} in total
+                        </small>
+                      </Card.Body>
+                    </Card>
+                  </Col>
+                ))}
+              </Row>
+
+              <Card>
+                <Card.Body>
+                  <h6 className="text-muted mb-2">
+                    By Round ({stats.strokesGained.holes} holes tracked, {formatStrokesGained(stats.strokesGained.perRound.total)} per round)
+                  </h6>
+                  <Table size="sm" responsive className="mb-0">
+                    <thead>
+                      <tr>
+                        <th>Date</th>
+                        <th>Course</th>
+                        <th>Holes</th>
+                        {STROKES_GAINED_CATEGORIES.map((category) => (
+                          <th key={category}>{STROKES_GAINED_CATEGORY_LABELS[category]}</th>
+                        ))}
+                        <th>Total</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {stats.strokesGained.roundBreakdowns.map((round) => (
+                        <tr key={round.roundId}>
+                          <td>{new Date(round.datePlayed).toLocaleDateString()}</td>
+                          <td>
+                            <Link href={`/rounds/${round.roundId}/edit`}>{round.courseName}</Link>
+                          </td>
+                          <td>{round.holes}</td>
+                          {STROKES_GAINED_CATEGORIES.map((category) => (
+                            <td key={category}>{formatStrokesGained(round.byCategory[category])}</td>
+                          ))}
+                          <td className="fw-bold">{formatStrokesGained(round.total)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </Table>
+                </Card.Body>
+              </Card>
+            </>
+          )}
         </>
       )}
     </Container>
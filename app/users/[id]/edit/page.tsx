@@ -1,8 +1,9 @@
 'use client'
 
 import { use, useEffect, useState } from 'react'
-import { Container, Form, Button, Alert, Card, Spinner } from 'react-bootstrap'
+import { Container, Form, Button, Alert, Card, Spinner, Badge } from 'react-bootstrap'
 import { useRouter } from 'next/navigation'
+import { useSession } from 'next-auth/react'
 import Link from 'next/link'
 
 interface User {
@@ -10,16 +11,20 @@ interface User {
   email: string
   name: string
   handicapIndex: number | null
+  handicapIndexOverride: boolean
   rounds: number
 }
 
 export default function EditUserPage({ params }: { params: Promise<{ id: string }> }) {
   const { id } = use(params)
   const router = useRouter()
+  const { data: session } = useSession()
+  const isAdmin = session?.user?.role === 'ADMIN'
   const [formData, setFormData] = useState({
     name: '',
     email: '',
     handicapIndex: '',
+    handicapIndexOverride: false,
     rounds: '0',
   })
   const [errors, setErrors] = useState<string[]>([])
@@ -40,6 +45,7 @@ export default function EditUserPage({ params }: { params: Promise<{ id: string
         name: user.name,
         email: user.email,
         handicapIndex: user.handicapIndex?.toString() || '',
+        handicapIndexOverride: user.handicapIndexOverride,
         rounds: user.rounds.toString(),
       })
     } catch (err) {
@@ -63,13 +69,17 @@ export default function EditUserPage({ params }: { params: Promise<{ id: string
     setLoading(true)
 
     try {
+      // Only admins can override the index, which is only sent when overriding;
+      // round count is always calculated
       const payload = {
         name: formData.name,
         email: formData.email,
-        handicapIndex: formData.handicapIndex
-          ? parseFloat(formData.handicapIndex)
-          : null,
-        rounds: parseInt(formData.rounds) || 0,
+        ...(isAdmin && { handicapIndexOverride: formData.handicapIndexOverride }),
+        ...(isAdmin && formData.handicapIndexOverride && {
+          handicapIndex: formData.handicapIndex
+            ? parseFloat(formData.handicapIndex)
+            : null,
+        }),
       }
 
       const response = await fetch(`/api/users/${id}`, {
@@ -151,17 +161,39 @@ export default function EditUserPage({ params }: { params: Promise<{ id: string
             </Form.Group>
 
             <Form.Group className="mb-3">
-              <Form.Label>Handicap Index</Form.Label>
+              <Form.Label>
+                Handicap Index{' '}
+                {formData.handicapIndexOverride && (
+                  <Badge bg="warning" text="dark">Manual override</Badge>
+                )}
+              </Form.Label>
               <Form.Control
                 type="number"
                 step="0.1"
                 name="handicapIndex"
                 value={formData.handicapIndex}
                 onChange={handleChange}
-                placeholder="Enter handicap index (optional)"
+                max="54"
+                placeholder="Calculated from rounds"
+                disabled={!isAdmin || !formData.handicapIndexOverride}
               />
+              {isAdmin && (
+                <Form.Check
+                  type="checkbox"
+                  id="handicapIndexOverride"
+                  className="mt-2"
+                  label="Override the index calculated from rounds"
+                  checked={formData.handicapIndexOverride}
+                  onChange={(e) => setFormData((prev) => ({
+                    ...prev,
+                    handicapIndexOverride: e.target.checked,
+                  }))}
+                />
+              )}
               <Form.Text className="text-muted">
-                Optional - Leave blank if not applicable
+                {isAdmin
+                  ? 'The index is recalculated whenever rounds change unless overridden. Enter plus handicaps as negative numbers (e.g. -1.4 for +1.4)'
+                  : 'Calculated from your rounds; only an admin can override it'}
               </Form.Text>
             </Form.Group>
 
@@ -171,10 +203,12 @@ export default function EditUserPage({ params }: { params: Promise<{ id: string
                 type="number"
                 name="rounds"
                 value={formData.rounds}
-                onChange={handleChange}
-                min="0"
-                placeholder="Number of rounds played"
+                readOnly
+                disabled
               />
+              <Form.Text className="text-muted">
+                Counted automatically from the user&apos;s rounds
+              </Form.Text>
             </Form.Group>
 
             <div className="d-flex gap-2">
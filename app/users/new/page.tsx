@@ -11,7 +11,6 @@ export default function NewUserPage() {
     name: '',
     email: '',
     handicapIndex: '',
-    rounds: '0',
   })
   const [errors, setErrors] = useState<string[]>([])
   const [loading, setLoading] = useState(false)
@@ -36,7 +35,6 @@ export default function NewUserPage() {
         handicapIndex: formData.handicapIndex
           ? parseFloat(formData.handicapIndex)
           : null,
-        rounds: parseInt(formData.rounds) || 0,
       }
 
       const response = await fetch('/api/users', {
@@ -115,25 +113,14 @@ export default function NewUserPage() {
                 name="handicapIndex"
                 value={formData.handicapIndex}
                 onChange={handleChange}
+                max="54"
                 placeholder="Enter handicap index (optional)"
               />
               <Form.Text className="text-muted">
-                Optional - Leave blank if not applicable
+                Optional - Leave blank if not applicable. Enter plus handicaps as negative numbers (e.g. -1.4 for +1.4)
               </Form.Text>
             </Form.Group>
 
-            <Form.Group className="mb-3">
-              <Form.Label>Number of Rounds</Form.Label>
-              <Form.Control
-                type="number"
-                name="rounds"
-                value={formData.rounds}
-                onChange={handleChange}
-                min="0"
-                placeholder="Number of rounds played"
-              />
-            </Form.Group>
-
             <div className="d-flex gap-2">
               <Button variant="primary" type="submit" disabled={loading}>
                 {loading ? 'Creating...' : 'Create User'}
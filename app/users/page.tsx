@@ -1,16 +1,18 @@
 'use client'
 
 import { useEffect, useState } from 'react'
-import { Container, Table, Button, Alert, Spinner } from 'react-bootstrap'
+import { Container, Table, Button, Alert, Spinner, Badge } from 'react-bootstrap'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { useSession } from 'next-auth/react'
+import { formatHandicapIndex } from '@/lib/handicap-calculator'
 
 interface User {
   id: number
   email: string
   name: string
   handicapIndex: number | null
+  handicapIndexOverride: boolean
   rounds: number
   createdAt: string
   updatedAt: string
@@ -119,9 +121,12 @@ export default function UsersPage() {
                 <td>{user.name}</td>
                 <td>{user.email}</td>
                 <td>
-                  {user.handicapIndex !== null
-                    ? user.handicapIndex.toFixed(1)
-                    : 'N/A'}
+                  {formatHandicapIndex(user.handicapIndex)}
+                  {user.handicapIndexOverride && (
+                    <Badge bg="warning" text="dark" className="ms-2" title="Entered by hand; not recalculated from rounds">
+                      Manual
+                    </Badge>
+                  )}
                 </td>
                 <td>{user.rounds}</td>
                 <td>{new Date(user.createdAt).toLocaleDateString()}</td>
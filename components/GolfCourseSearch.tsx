@@ -1,8 +1,22 @@
 'use client'
 
 import { useState, useEffect, useRef } from 'react'
-import { Form, ListGroup, Spinner, Alert } from 'react-bootstrap'
-import type { GolfCourseSearchResult, GolfCourseDetails, GolfCourseTee } from '@/types/golf-course'
+import { Form, ListGroup, Spinner, Alert, Badge, Button } from 'react-bootstrap'
+import Link from 'next/link'
+import type {
+  CourseQuickPick,
+  CourseQuickPicksResponse,
+  GolfCourseSearchResult,
+  GolfCourseDetails,
+  GolfCourseTee,
+} from '@/types/golf-course'
+import { allocateHandicapStrokes } from '@/lib/handicap-calculator'
+
+interface TeeHandicapInfo {
+  courseHandicap: number
+  playingHandicap: number
+  allowance: number
+}
 
 interface GolfCourseSearchProps {
   onCourseSelect: (course: GolfCourseDetails, tee: GolfCourseTee) => void
@@ -10,6 +24,36 @@ interface GolfCourseSearchProps {
   initialValue?: string
 }
 
+interface CatalogCourseResult {
+  id: number
+  clubName: string
+  courseName: string
+  address: string | null
+  city: string | null
+  state: string | null
+  verified: boolean
+}
+
+// User-entered courses from the local catalog, in the search result shape
+async function searchCustomCourses(query: string): Promise<GolfCourseSearchResult[]> {
+  try {
+    const response = await fetch(`/api/courses?custom=true&query=${encodeURIComponent(query)}`)
+    if (!response.ok) return []
+
+    const data: { courses: CatalogCourseResult[] } = await response.json()
+    return data.courses.map((course) => ({
+      id: course.id,
+      club_name: course.clubName,
+      course_name: course.courseName === course.clubName ? '' : course.courseName,
+      location: { address: course.address || [course.city, course.state].filter(Boolean).join(', ') },
+      custom: true,
+      verified: course.verified,
+    }))
+  } catch {
+    return []
+  }
+}
+
 export default function GolfCourseSearch({ onCourseSelect, disabled = false, initialValue = '' }: GolfCourseSearchProps) {
   const [searchQuery, setSearchQuery] = useState(initialValue)
   const [searchResults, setSearchResults] = useState<GolfCourseSearchResult[]>([])
@@ -19,8 +63,27 @@ export default function GolfCourseSearch({ onCourseSelect, disabled = false, ini
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [showResults, setShowResults] = useState(false)
+  const [offline, setOffline] = useState(false)
+  const [teeHandicaps, setTeeHandicaps] = useState<Record<string, TeeHandicapInfo>>({})
+  const [quickPicks, setQuickPicks] = useState<CourseQuickPicksResponse>({ favorites: [], recent: [] })
   const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null)
 
+  const fetchQuickPicks = async () => {
+    try {
+      const response = await fetch('/api/courses/favorites')
+      // Favorites are a shortcut; searching still works without them
+      if (response.ok) {
+        setQuickPicks(await response.json())
+      }
+    } catch (err) {
+      console.error('Error fetching favorite courses:', err)
+    }
+  }
+
+  useEffect(() => {
+    fetchQuickPicks()
+  }, [])
+
   // Debounced search
   useEffect(() => {
     if (searchQuery.length < 3) {
@@ -40,15 +103,20 @@ export default function GolfCourseSearch({ onCourseSelect, disabled = false, ini
       setError(null)
 
       try {
-        const response = await fetch(`/api/golf-courses/search?query=${encodeURIComponent(searchQuery)}`)
+        const [response, customCourses] = await Promise.all([
+          fetch(`/api/golf-courses/search?query=${encodeURIComponent(searchQuery)}`),
+          searchCustomCourses(searchQuery),
+        ])
 
-        if (!response.ok) {
+        if (!response.ok && customCourses.length === 0) {
           const errorData = await response.json()
           throw new Error(errorData.error || 'Failed to search courses')
         }
 
-        const data = await response.json()
-        setSearchResults(data.courses || [])
+        const data = response.ok ? await response.json() : { courses: [] }
+        // The server answers from previously saved courses only when the course API is unavailable
+        setOffline(!response.ok || response.headers.get('X-Cache') === 'OFFLINE')
+        setSearchResults([...customCourses, ...(data.courses || [])])
         setShowResults(true)
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to search courses')
@@ -72,7 +140,7 @@ export default function GolfCourseSearch({ onCourseSelect, disabled = false, ini
 
     try {
       // Fetch full course details
-      const response = await fetch(`/api/golf-courses/${course.id}`)
+      const response = await fetch(course.custom ? `/api/golf-courses/custom/${course.id}` : `/api/golf-courses/${course.id}`)
 
       if (!response.ok) {
         const errorData = await response.json()
@@ -104,6 +172,51 @@ export default function GolfCourseSearch({ onCourseSelect, disabled = false, ini
     }
   }
 
+  // Favorites and recent tees are already in the catalog, so they select without fetching
+  const handleQuickPick = (pick: CourseQuickPick) => {
+    const tees = pick.course.tees?.[pick.gender] ?? []
+    const tee = tees.find((t) => t.tee_set_id === pick.teeSetId) ?? tees[0]
+
+    setError(null)
+    setShowResults(false)
+    setSelectedCourse(pick.course)
+    setSelectedGender(pick.gender)
+    setSelectedTee(tee ?? null)
+    setSearchQuery(`${pick.course.club_name} - ${pick.course.course_name}`)
+  }
+
+  const favorite = selectedCourse?.catalog_id
+    ? quickPicks.favorites.find((pick) => pick.course.catalog_id === selectedCourse.catalog_id)
+    : undefined
+
+  // Favoriting remembers the selected tee and gender as the course's preferred tee
+  const handleFavoriteToggle = async (remove: boolean) => {
+    if (!selectedCourse?.catalog_id) return
+
+    try {
+      const response = await fetch(`/api/courses/${selectedCourse.catalog_id}/favorite`, remove
+        ? { method: 'DELETE' }
+        : {
+            method: 'PUT',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              teeSetId: selectedTee?.tee_set_id ?? null,
+              gender: selectedGender === 'female' ? 'FEMALE' : 'MALE',
+            }),
+          })
+
+      if (!response.ok) {
+        throw new Error(remove ? 'Failed to remove favorite' : 'Failed to save favorite')
+      }
+
+      fetchQuickPicks()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update favorites')
+    }
+  }
+
   const handleTeeSelect = (tee: GolfCourseTee) => {
     setSelectedTee(tee)
   }
@@ -121,6 +234,61 @@ export default function GolfCourseSearch({ onCourseSelect, disabled = false, ini
     }
   }
 
+  // Look up the user's course handicap for each tee so they can pick tees knowing their strokes
+  useEffect(() => {
+    const tees = selectedCourse?.tees?.[selectedGender]
+    if (!tees || tees.length === 0) {
+      setTeeHandicaps({})
+      return
+    }
+
+    let cancelled = false
+
+    Promise.all(tees.map(async (tee) => {
+      const params = new URLSearchParams({
+        courseRating: tee.course_rating.toString(),
+        slopeRating: tee.slope_rating.toString(),
+        par: tee.par_total.toString(),
+      })
+      const response = await fetch(`/api/handicap/course-handicap?${params}`)
+
+      // Users without a handicap index simply don't see course handicaps
+      if (!response.ok) {
+        return null
+      }
+
+      const data: TeeHandicapInfo = await response.json()
+      return [tee.tee_name, data] as const
+    }))
+      .then((results) => {
+        if (!cancelled) {
+          setTeeHandicaps(Object.fromEntries(results.filter((r) => r !== null)))
+        }
+      })
+      .catch((err) => {
+        console.error('Error fetching course handicaps:', err)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [selectedCourse, selectedGender])
+
+  const selectedTeeHandicap = selectedTee ? teeHandicaps[selectedTee.tee_name] : undefined
+
+  // Strokes received on each hole, ranked by the tee's hole handicap values
+  const strokesPerHole = selectedTee && selectedTeeHandicap && selectedTee.holes?.length
+    ? allocateHandicapStrokes(
+        selectedTee.holes.map((hole, i) => ({
+          holeNumber: i + 1,
+          par: hole.par,
+          score: 0,
+          handicap: hole.handicap,
+        })),
+        selectedTeeHandicap.playingHandicap
+      )
+    : null
+
   // Trigger callback when tee is selected
   useEffect(() => {
     if (selectedCourse && selectedTee) {
@@ -151,20 +319,32 @@ export default function GolfCourseSearch({ onCourseSelect, disabled = false, ini
           )}
         </div>
         <Form.Text className="text-muted">
-          Type at least 3 characters to search
+          Type at least 3 characters to search. Can&apos;t find your course? <Link href="/courses/new">Add it</Link>
         </Form.Text>
+        {offline && showResults && (
+          <Form.Text className="d-block text-warning">
+            Course search is unavailable, showing courses saved from earlier searches
+          </Form.Text>
+        )}
 
         {/* Search Results Dropdown */}
         {showResults && searchResults.length > 0 && (
           <ListGroup className="position-absolute w-100 mt-1" style={{ zIndex: 1000, maxHeight: '300px', overflowY: 'auto' }}>
             {searchResults.map((course) => (
               <ListGroup.Item
-                key={course.id}
+                key={`${course.custom ? 'custom' : 'api'}-${course.id}`}
                 action
                 onClick={() => handleCourseSelect(course)}
                 className="cursor-pointer"
               >
-                <div className="fw-bold">{course.club_name}</div>
+                <div className="fw-bold">
+                  {course.club_name}
+                  {course.custom && (
+                    <Badge bg={course.verified ? 'secondary' : 'warning'} text={course.verified ? undefined : 'dark'} className="ms-2">
+                      {course.verified ? 'Custom' : 'Custom - pending review'}
+                    </Badge>
+                  )}
+                </div>
                 {course.course_name && <div className="small">{course.course_name}</div>}
                 <div className="small text-muted">{course.location.address}</div>
               </ListGroup.Item>
@@ -172,9 +352,51 @@ export default function GolfCourseSearch({ onCourseSelect, disabled = false, ini
           </ListGroup>
         )}
 
+        {/* Favorites and recently played tees, until the user starts typing */}
+        {!searchQuery && !selectedCourse && (quickPicks.favorites.length > 0 || quickPicks.recent.length > 0) && (
+          <div className="mt-2">
+            {[
+              { title: 'Favorites', picks: quickPicks.favorites },
+              { title: 'Recently Played', picks: quickPicks.recent },
+            ].filter(({ picks }) => picks.length > 0).map(({ title, picks }) => (
+              <div key={title} className="mb-2">
+                <div className="small fw-bold text-muted mb-1">{title}</div>
+                <ListGroup>
+                  {picks.map((pick) => {
+                    const tee = pick.course.tees?.[pick.gender]?.find((t) => t.tee_set_id === pick.teeSetId)
+                    return (
+                      <ListGroup.Item
+                        key={`${pick.course.catalog_id}-${pick.teeSetId}`}
+                        action
+                        onClick={() => handleQuickPick(pick)}
+                        disabled={disabled}
+                      >
+                        <span className="fw-bold">{pick.course.club_name}</span>
+                        {pick.course.course_name && pick.course.course_name !== pick.course.club_name && (
+                          <span> - {pick.course.course_name}</span>
+                        )}
+                        {tee && (
+                          <span className="small text-muted ms-2">
+                            {tee.tee_name} ({pick.gender}) - Rating {tee.course_rating}, Slope {tee.slope_rating}
+                          </span>
+                        )}
+                        {pick.lastPlayed && (
+                          <span className="small text-muted ms-2">
+                            Last played {new Date(pick.lastPlayed).toLocaleDateString()}
+                          </span>
+                        )}
+                      </ListGroup.Item>
+                    )
+                  })}
+                </ListGroup>
+              </div>
+            ))}
+          </div>
+        )}
+
         {showResults && searchResults.length === 0 && !loading && (
           <Alert variant="info" className="mt-2 mb-0">
-            No courses found. Try a different search term.
+            No courses found. Try a different search term, or <Link href="/courses/new">add the course</Link>.
           </Alert>
         )}
       </Form.Group>
@@ -233,6 +455,7 @@ export default function GolfCourseSearch({ onCourseSelect, disabled = false, ini
             {selectedCourse.tees[selectedGender]?.map((tee) => (
               <option key={tee.tee_name} value={tee.tee_name}>
                 {tee.tee_name} - {tee.total_yards} yards (Rating: {tee.course_rating}, Slope: {tee.slope_rating})
+                {teeHandicaps[tee.tee_name] && ` - Course Handicap: ${formatCourseHandicap(teeHandicaps[tee.tee_name].courseHandicap)}`}
               </option>
             ))}
           </Form.Select>
@@ -246,8 +469,44 @@ export default function GolfCourseSearch({ onCourseSelect, disabled = false, ini
           <strong>Tee:</strong> {selectedTee.tee_name} ({selectedGender})<br />
           <strong>Rating:</strong> {selectedTee.course_rating} | <strong>Slope:</strong> {selectedTee.slope_rating}<br />
           <strong>Par:</strong> {selectedTee.par_total} | <strong>Yardage:</strong> {selectedTee.total_yards} yards
+          {selectedCourse.catalog_id && (
+            <div className="mt-2">
+              {favorite && favorite.teeSetId === (selectedTee.tee_set_id ?? null) && favorite.gender === selectedGender ? (
+                <Button variant="outline-secondary" size="sm" onClick={() => handleFavoriteToggle(true)} disabled={disabled}>
+                  ★ Remove from favorites
+                </Button>
+              ) : (
+                <Button variant="outline-primary" size="sm" onClick={() => handleFavoriteToggle(false)} disabled={disabled}>
+                  {favorite ? '★ Make this my preferred tee' : '☆ Add to favorites'}
+                </Button>
+              )}
+            </div>
+          )}
+          {selectedTeeHandicap && (
+            <>
+              <br />
+              <strong>Course Handicap:</strong> {formatCourseHandicap(selectedTeeHandicap.courseHandicap)} |{' '}
+              <strong>Playing Handicap ({selectedTeeHandicap.allowance}%):</strong> {formatCourseHandicap(selectedTeeHandicap.playingHandicap)}
+            </>
+          )}
+          {strokesPerHole && strokesPerHole.some((strokes) => strokes !== 0) && (
+            <>
+              <br />
+              <strong>{strokesPerHole.some((strokes) => strokes < 0) ? 'Strokes given back on' : 'Strokes received on'}:</strong>{' '}
+              {strokesPerHole
+                .map((strokes, i) => ({ hole: i + 1, strokes }))
+                .filter(({ strokes }) => strokes !== 0)
+                .map(({ hole, strokes }) => (Math.abs(strokes) > 1 ? `${hole} (×${Math.abs(strokes)})` : `${hole}`))
+                .join(', ')}
+            </>
+          )}
         </Alert>
       )}
     </div>
   )
 }
+
+// Plus course handicaps are shown with a leading "+"
+function formatCourseHandicap(courseHandicap: number): string {
+  return courseHandicap < 0 ? `+${Math.abs(courseHandicap)}` : courseHandicap.toString()
+}
@@ -0,0 +1,107 @@
+'use client'
+
+import { formatHandicapIndex } from '@/lib/handicap-calculator'
+
+export interface HandicapHistoryPoint {
+  handicapIndex: number
+  effectiveDate: string
+  capApplied: string | null
+}
+
+interface HandicapHistoryChartProps {
+  revisions: HandicapHistoryPoint[]
+  height?: number
+}
+
+const WIDTH = 600
+const PADDING = { top: 16, right: 16, bottom: 28, left: 44 }
+
+/**
+ * Line chart of the handicap index over time
+ * Plus handicaps are plotted below zero; capped revisions are highlighted.
+ */
+export default function HandicapHistoryChart({ revisions, height = 220 }: HandicapHistoryChartProps) {
+  if (revisions.length === 0) {
+    return <p className="text-muted mb-0">No handicap history yet. Post a score to start your timeline.</p>
+  }
+
+  const times = revisions.map((r) => new Date(r.effectiveDate).getTime())
+  const indexes = revisions.map((r) => r.handicapIndex)
+
+  const minTime = Math.min(...times)
+  const maxTime = Math.max(...times)
+  const minIndex = Math.floor(Math.min(...indexes)) - 1
+  const maxIndex = Math.ceil(Math.max(...indexes)) + 1
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+  const plotHeight = height - PADDING.top - PADDING.bottom
+
+  const x = (time: number) =>
+    PADDING.left + (maxTime === minTime ? plotWidth / 2 : ((time - minTime) / (maxTime - minTime)) * plotWidth)
+  // Higher indexes plot higher, so improvement trends down
+  const y = (index: number) =>
+    PADDING.top + ((maxIndex - index) / (maxIndex - minIndex)) * plotHeight
+
+  const points = revisions.map((r, i) => ({ x: x(times[i]), y: y(r.handicapIndex), revision: r }))
+  const ticks = [maxIndex, (maxIndex + minIndex) / 2, minIndex]
+
+  const formatDate = (time: number) =>
+    new Date(time).toLocaleDateString('en-US', { month: 'short', year: 'numeric' })
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${height}`}
+      width="100%"
+      role="img"
+      aria-label="Handicap index over time"
+    >
+      {/* Y axis gridlines */}
+      {ticks.map((tick) => (
+        <g key={tick}>
+          <line
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={y(tick)}
+            y2={y(tick)}
+            stroke="#dee2e6"
+          />
+          <text x={PADDING.left - 6} y={y(tick) + 4} fontSize="11" textAnchor="end" fill="#6c757d">
+            {formatHandicapIndex(tick)}
+          </text>
+        </g>
+      ))}
+
+      {/* X axis labels */}
+      <text x={x(minTime)} y={height - 8} fontSize="11" textAnchor="start" fill="#6c757d">
+        {formatDate(minTime)}
+      </text>
+      {maxTime !== minTime && (
+        <text x={x(maxTime)} y={height - 8} fontSize="11" textAnchor="end" fill="#6c757d">
+          {formatDate(maxTime)}
+        </text>
+      )}
+
+      <polyline
+        points={points.map((p) => `${p.x},${p.y}`).join(' ')}
+        fill="none"
+        stroke="#0d6efd"
+        strokeWidth="2"
+      />
+
+      {points.map((p, i) => (
+        <circle
+          key={i}
+          cx={p.x}
+          cy={p.y}
+          r={3.5}
+          fill={p.revision.capApplied ? '#ffc107' : '#0d6efd'}
+        >
+          <title>
+            {new Date(p.revision.effectiveDate).toLocaleDateString()}: {formatHandicapIndex(p.revision.handicapIndex)}
+            {p.revision.capApplied ? ` (${p.revision.capApplied} cap)` : ''}
+          </title>
+        </circle>
+      ))}
+    </svg>
+  )
+}
@@ -0,0 +1,236 @@
+'use client'
+
+import type { ReactNode } from 'react'
+import { Form } from 'react-bootstrap'
+import {
+  HoleData,
+  FairwayResult,
+  FAIRWAY_RESULTS,
+  FAIRWAY_RESULT_LABELS,
+  PENALTY_TYPES,
+  PENALTY_TYPE_LABELS,
+  GREEN_RESULTS,
+  GREEN_RESULT_LABELS,
+  PenaltyType,
+  GreenResult,
+  getFairwayHit,
+  getGIR,
+} from '@/lib/golf-calculator'
+import { calculatePuttingStats, feetToMeters, metersToFeet, PuttUnit } from '@/lib/strokes-gained'
+
+interface HoleResultRowsProps {
+  holes: HoleData[]
+  // Index of the nine's first hole in the round's holes
+  startIndex?: number
+  // Adds a column of totals for the whole round, after the nine's totals
+  roundHoles?: HoleData[]
+  puttUnit: PuttUnit
+  onChange: (index: number, changes: Partial<HoleData>) => void
+}
+
+const hasScore = (hole: HoleData) => hole.score > 0 && hole.putts >= 0
+
+const formatPutting = (holes: HoleData[]) => {
+  const putting = calculatePuttingStats(holes)
+  if (putting.holes === 0) return '-'
+  return `SG ${putting.strokesGained > 0 ? '+' : ''}${putting.strokesGained.toFixed(2)}`
+}
+
+const formatFairways = (holes: HoleData[]) => {
+  const firHit = holes.filter(h => getFairwayHit(h)).length
+  const firTotal = holes.filter(h => h.par > 3).length
+  if (firTotal === 0) return '-'
+  return `${firHit}/${firTotal} (${((firHit / firTotal) * 100).toFixed(0)}%)`
+}
+
+const formatPenalties = (holes: HoleData[]) =>
+  holes.reduce((sum, h) => sum + (h.penalties || 0), 0) || '-'
+
+const formatSandSaves = (holes: HoleData[]) => {
+  const bunkerHoles = holes.filter(h => h.greensideBunker)
+  if (bunkerHoles.length === 0) return '-'
+  return `${bunkerHoles.filter(h => h.sandSave).length}/${bunkerHoles.length}`
+}
+
+const formatGreens = (holes: HoleData[]) => {
+  const girHit = holes.filter(h => hasScore(h) && getGIR(h)).length
+  return `${girHit}/${holes.length} (${((girHit / holes.length) * 100).toFixed(0)}%)`
+}
+
+/**
+ * Scorecard rows for the per-hole results of one nine: first putt distance,
+ * fairway, penalties, sand saves and green in regulation
+ */
+export default function HoleResultRows({ holes, startIndex = 0, roundHoles, puttUnit, onChange }: HoleResultRowsProps) {
+  const totals = (format: (holes: HoleData[]) => ReactNode, title?: string) => (
+    <>
+      <td className="fw-bold bg-warning" title={title}>{format(holes)}</td>
+      {roundHoles && <td className="fw-bold bg-success" title={title}>{format(roundHoles)}</td>}
+    </>
+  )
+
+  // First putt distances are stored in feet and entered in the chosen unit
+  const displayPuttDistance = (feet: number | undefined) => {
+    if (feet === undefined) return ''
+    return Math.round((puttUnit === 'm' ? feetToMeters(feet) : feet) * 100) / 100
+  }
+
+  const handlePuttDistanceChange = (index: number, value: string) => {
+    const distance = value === '' ? undefined : Number(value)
+    onChange(index, {
+      firstPuttDistance: puttUnit === 'm' && distance !== undefined ? metersToFeet(distance) : distance,
+    })
+  }
+
+  // A fairway result also sets whether the fairway was hit
+  const handleFairwayChange = (index: number, value: string) => {
+    const fairwayResult = (value || undefined) as FairwayResult | undefined
+    onChange(index, {
+      fairwayResult,
+      fairwayHit: fairwayResult ? fairwayResult === 'HIT' : undefined,
+    })
+  }
+
+  // A sand save can only be recorded with a greenside bunker
+  const handleSandChange = (index: number, value: string) => {
+    onChange(index, {
+      greensideBunker: value !== '',
+      sandSave: value === 'saved',
+    })
+  }
+
+  return (
+    <>
+      {/* First Putt Distance Row */}
+      <tr>
+        <td className="fw-bold bg-light">1st Putt ({puttUnit})</td>
+        {holes.map((hole, index) => (
+          <td key={`putt-dist-${hole.holeNumber}`}>
+            <Form.Control
+              type="number"
+              size="sm"
+              min={0}
+              step="any"
+              value={displayPuttDistance(hole.firstPuttDistance)}
+              onChange={(e) => handlePuttDistanceChange(startIndex + index, e.target.value)}
+              placeholder="-"
+              className="text-center"
+            />
+          </td>
+        ))}
+        {totals(formatPutting, 'Strokes gained putting')}
+      </tr>
+
+      {/* Fairway Row */}
+      <tr>
+        <td className="fw-bold bg-light">Fairway</td>
+        {holes.map((hole, index) => (
+          <td key={`fw-${hole.holeNumber}`}>
+            {hole.par > 3 ? (
+              <Form.Select
+                size="sm"
+                value={hole.fairwayResult ?? ''}
+                onChange={(e) => handleFairwayChange(startIndex + index, e.target.value)}
+                className="text-center"
+                tabIndex={((startIndex + index) * 3) + 3}
+              >
+                {/* Rounds entered before fairway results were recorded only have hit or missed */}
+                <option value="">{hole.fairwayHit === undefined ? '-' : hole.fairwayHit ? '✓' : '✗'}</option>
+                {FAIRWAY_RESULTS.map((result) => (
+                  <option key={result} value={result}>{FAIRWAY_RESULT_LABELS[result]}</option>
+                ))}
+              </Form.Select>
+            ) : (
+              <span className="text-muted">-</span>
+            )}
+          </td>
+        ))}
+        {totals(formatFairways)}
+      </tr>
+
+      {/* Penalties Row */}
+      <tr>
+        <td className="fw-bold bg-light">Penalties</td>
+        {holes.map((hole, index) => (
+          <td key={`pen-${hole.holeNumber}`}>
+            <Form.Control
+              type="number"
+              size="sm"
+              min={0}
+              value={hole.penalties || ''}
+              onChange={(e) => onChange(startIndex + index, { penalties: Number(e.target.value) })}
+              placeholder="-"
+              className="text-center"
+            />
+            {(hole.penalties ?? 0) > 0 && (
+              <Form.Select
+                size="sm"
+                value={hole.penaltyType ?? ''}
+                onChange={(e) => onChange(startIndex + index, {
+                  penaltyType: (e.target.value || undefined) as PenaltyType | undefined,
+                })}
+                className="text-center mt-1"
+                title="What the penalty was for"
+              >
+                <option value="">Type</option>
+                {PENALTY_TYPES.map((type) => (
+                  <option key={type} value={type}>{PENALTY_TYPE_LABELS[type]}</option>
+                ))}
+              </Form.Select>
+            )}
+          </td>
+        ))}
+        {totals(formatPenalties)}
+      </tr>
+
+      {/* Sand Save Row */}
+      <tr>
+        <td className="fw-bold bg-light">Sand Save</td>
+        {holes.map((hole, index) => (
+          <td key={`sand-${hole.holeNumber}`}>
+            <Form.Select
+              size="sm"
+              value={hole.greensideBunker ? (hole.sandSave ? 'saved' : 'missed') : ''}
+              onChange={(e) => handleSandChange(startIndex + index, e.target.value)}
+              className="text-center"
+              title="Up and down from a greenside bunker"
+            >
+              <option value="">-</option>
+              <option value="saved">✓</option>
+              <option value="missed">✗</option>
+            </Form.Select>
+          </td>
+        ))}
+        {totals(formatSandSaves)}
+      </tr>
+
+      {/* GIR Row */}
+      <tr>
+        <td className="fw-bold bg-light">GIR</td>
+        {holes.map((hole, index) => {
+          const hitGIR = hasScore(hole) && getGIR(hole)
+          return (
+            <td key={`gir-${hole.holeNumber}`}>
+              {/* Without a recorded result, GIR is estimated from score and putts */}
+              <Form.Select
+                size="sm"
+                value={hole.greenResult ?? ''}
+                onChange={(e) => onChange(startIndex + index, {
+                  greenResult: (e.target.value || undefined) as GreenResult | undefined,
+                })}
+                className={`text-center ${hitGIR ? 'text-success fw-bold' : ''}`}
+                title="Where the approach in regulation finished"
+              >
+                <option value="">{hasScore(hole) ? (hitGIR ? 'Est. ✓' : 'Est. ✗') : '-'}</option>
+                {GREEN_RESULTS.map((result) => (
+                  <option key={result} value={result}>{GREEN_RESULT_LABELS[result]}</option>
+                ))}
+              </Form.Select>
+            </td>
+          )
+        })}
+        {totals(formatGreens)}
+      </tr>
+    </>
+  )
+}
@@ -42,9 +42,14 @@ export default function Navigation() {
                   <Nav.Link>Dashboard</Nav.Link>
                 </Link>
                 {session.user?.role === 'ADMIN' && adminMode && (
-                  <Link href="/users" passHref legacyBehavior>
-                    <Nav.Link>Users</Nav.Link>
-                  </Link>
+                  <>
+                    <Link href="/users" passHref legacyBehavior>
+                      <Nav.Link>Users</Nav.Link>
+                    </Link>
+                    <Link href="/courses" passHref legacyBehavior>
+                      <Nav.Link>Courses</Nav.Link>
+                    </Link>
+                  </>
                 )}
                 <Link href="/rounds" passHref legacyBehavior>
                   <Nav.Link>Rounds</Nav.Link>
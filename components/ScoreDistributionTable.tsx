@@ -0,0 +1,55 @@
+'use client'
+
+import { Table } from 'react-bootstrap'
+import {
+  SCORE_DISTRIBUTION_CATEGORIES,
+  SCORE_DISTRIBUTION_LABELS,
+  ScoreDistribution,
+} from '@/lib/scorecard-utils'
+
+interface ScoreDistributionTableProps {
+  distribution: ScoreDistribution
+}
+
+/**
+ * Score counts and percentages by category, with bogey avoidance and birdie conversion
+ */
+export default function ScoreDistributionTable({ distribution }: ScoreDistributionTableProps) {
+  return (
+    <Table bordered size="sm" responsive className="text-center mb-0">
+      <thead className="table-light">
+        <tr>
+          <th></th>
+          {SCORE_DISTRIBUTION_CATEGORIES.map((category) => (
+            <th key={category}>{SCORE_DISTRIBUTION_LABELS[category]}</th>
+          ))}
+          <th>Bogey Avoidance</th>
+          <th>Birdie Conversion</th>
+        </tr>
+      </thead>
+      <tbody>
+        <tr>
+          <td className="fw-bold">Holes</td>
+          {SCORE_DISTRIBUTION_CATEGORIES.map((category) => (
+            <td key={category}>{distribution.counts[category]}</td>
+          ))}
+          <td rowSpan={2} className="align-middle">
+            {distribution.holes > 0 ? `${distribution.bogeyAvoidance}%` : '-'}
+          </td>
+          <td rowSpan={2} className="align-middle">
+            {distribution.girHoles > 0 ? `${distribution.birdieConversion}%` : '-'}
+            {distribution.girHoles > 0 && (
+              <div><small className="text-muted">of {distribution.girHoles} GIR</small></div>
+            )}
+          </td>
+        </tr>
+        <tr>
+          <td className="fw-bold">%</td>
+          {SCORE_DISTRIBUTION_CATEGORIES.map((category) => (
+            <td key={category}>{distribution.holes > 0 ? `${distribution.percentages[category]}%` : '-'}</td>
+          ))}
+        </tr>
+      </tbody>
+    </Table>
+  )
+}
@@ -0,0 +1,114 @@
+'use client'
+
+import { Form, Row, Col, Alert } from 'react-bootstrap'
+import {
+  SCORE_TYPES,
+  SCORE_TYPE_LABELS,
+  PLAY_FORMATS,
+  PLAY_FORMAT_LABELS,
+  INELIGIBILITY_REASON_LABELS,
+  getHandicapIneligibilityReasons,
+  ScoreType,
+  PlayFormat,
+} from '@/lib/handicap-calculator'
+
+export interface ScoreTypeValues {
+  scoreType: ScoreType
+  playFormat: PlayFormat
+  holesPlayed: number | ''
+}
+
+interface ScoreTypeFieldsProps {
+  values: ScoreTypeValues
+  onChange: (values: ScoreTypeValues) => void
+  holes: number
+  courseRating: number | null
+  slopeRating: number | null
+  disabled?: boolean
+}
+
+/**
+ * Score type, format and holes played inputs for a round
+ * Warns when the round as entered will not be posted for handicap.
+ */
+export default function ScoreTypeFields({
+  values,
+  onChange,
+  holes,
+  courseRating,
+  slopeRating,
+  disabled = false,
+}: ScoreTypeFieldsProps) {
+  const ineligibleReasons = getHandicapIneligibilityReasons({
+    scoreType: values.scoreType,
+    playFormat: values.playFormat,
+    holes,
+    holesPlayed: values.holesPlayed === '' ? null : values.holesPlayed,
+    courseRating,
+    slopeRating,
+  })
+
+  return (
+    <>
+      <Row>
+        <Col md={4}>
+          <Form.Group className="mb-3">
+            <Form.Label>Score Type</Form.Label>
+            <Form.Select
+              value={values.scoreType}
+              onChange={(e) => onChange({ ...values, scoreType: e.target.value as ScoreType })}
+              disabled={disabled}
+            >
+              {SCORE_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {SCORE_TYPE_LABELS[type]}
+                </option>
+              ))}
+            </Form.Select>
+          </Form.Group>
+        </Col>
+        <Col md={4}>
+          <Form.Group className="mb-3">
+            <Form.Label>Format</Form.Label>
+            <Form.Select
+              value={values.playFormat}
+              onChange={(e) => onChange({ ...values, playFormat: e.target.value as PlayFormat })}
+              disabled={disabled}
+            >
+              {PLAY_FORMATS.map((format) => (
+                <option key={format} value={format}>
+                  {PLAY_FORMAT_LABELS[format]}
+                </option>
+              ))}
+            </Form.Select>
+          </Form.Group>
+        </Col>
+        <Col md={4}>
+          <Form.Group className="mb-3">
+            <Form.Label>Holes Completed</Form.Label>
+            <Form.Control
+              type="number"
+              min="1"
+              max={holes}
+              value={values.holesPlayed}
+              onChange={(e) => onChange({
+                ...values,
+                holesPlayed: e.target.value ? Number(e.target.value) : '',
+              })}
+              placeholder={`All ${holes}`}
+              disabled={disabled}
+            />
+          </Form.Group>
+        </Col>
+      </Row>
+
+      {/* Unrated courses are only flagged once a rating could have been entered */}
+      {ineligibleReasons.some((reason) => reason !== 'unrated-course') && (
+        <Alert variant="warning" className="py-2">
+          This score will not count toward your handicap:{' '}
+          {ineligibleReasons.map((reason) => INELIGIBILITY_REASON_LABELS[reason]).join('; ')}
+        </Alert>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,183 @@
+'use client'
+
+import { useState } from 'react'
+import { Form, Table, Button, Alert, Badge } from 'react-bootstrap'
+import type { HoleData } from '@/lib/golf-calculator'
+import {
+  SHOT_LIES,
+  SHOT_LIE_LABELS,
+  SHOT_RESULTS,
+  SHOT_RESULT_LABELS,
+  STROKES_GAINED_CATEGORIES,
+  STROKES_GAINED_CATEGORY_LABELS,
+  calculateHoleStrokesGained,
+  ShotData,
+  ShotLie,
+  ShotResult,
+} from '@/lib/strokes-gained'
+
+interface ShotEntryProps {
+  holes: HoleData[]
+  onChange: (index: number, shots: ShotData[] | undefined) => void
+}
+
+const formatStrokesGained = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}`
+
+/**
+ * Optional shot-by-shot entry for the holes of a round
+ * Each shot records where it was played from; where it finished is the next shot's lie.
+ */
+export default function ShotEntry({ holes, onChange }: ShotEntryProps) {
+  const [enabled, setEnabled] = useState(() => holes.some((hole) => hole.shots?.length))
+  const [holeIndex, setHoleIndex] = useState(0)
+
+  const hole = holes[holeIndex]
+  const shots = hole?.shots ?? []
+
+  const updateShot = (shotIndex: number, changes: Partial<ShotData>) => {
+    onChange(holeIndex, shots.map((shot, i) => (i === shotIndex ? { ...shot, ...changes } : shot)))
+  }
+
+  // The first shot is from the tee at the hole's yardage; later shots start from the fairway
+  const addShot = () => {
+    const shot: ShotData = shots.length === 0
+      ? { lie: 'TEE', distance: hole.yardage ?? 0, result: 'IN_PLAY' }
+      : { lie: 'FAIRWAY', distance: 0, result: 'IN_PLAY' }
+    onChange(holeIndex, [...shots, shot])
+  }
+
+  const removeShot = (shotIndex: number) => {
+    const remaining = shots.filter((_, i) => i !== shotIndex)
+    onChange(holeIndex, remaining.length > 0 ? remaining : undefined)
+  }
+
+  if (!enabled) {
+    return (
+      <Form.Check
+        type="switch"
+        id="shotTracking"
+        label="Record shot-by-shot for strokes gained (optional)"
+        checked={false}
+        onChange={() => setEnabled(true)}
+        className="mb-4"
+      />
+    )
+  }
+
+  if (!hole) return null
+
+  const strokesGained = calculateHoleStrokesGained(hole.par, shots)
+  const strokes = shots.length + shots.filter((shot) => shot.result === 'PENALTY').length
+  const holed = shots.length > 0 && shots[shots.length - 1].result === 'HOLED'
+
+  return (
+    <div className="mb-4">
+      <div className="d-flex align-items-center gap-3 mb-2">
+        <h6 className="text-muted mb-0">Shot-by-Shot</h6>
+        <Form.Select
+          size="sm"
+          style={{ width: 'auto' }}
+          value={holeIndex}
+          onChange={(e) => setHoleIndex(Number(e.target.value))}
+        >
+          {holes.map((h, index) => (
+            <option key={h.holeNumber} value={index}>
+              Hole {h.holeNumber} (par {h.par}){h.shots?.length ? ` - ${h.shots.length} shots` : ''}
+            </option>
+          ))}
+        </Form.Select>
+      </div>
+
+      <Table bordered size="sm" className="text-center">
+        <thead className="table-light">
+          <tr>
+            <th>Shot</th>
+            <th>Lie</th>
+            <th>Distance</th>
+            <th>Result</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {shots.map((shot, shotIndex) => (
+            <tr key={shotIndex}>
+              <td>{shotIndex + 1}</td>
+              <td>
+                <Form.Select
+                  size="sm"
+                  value={shot.lie}
+                  onChange={(e) => updateShot(shotIndex, { lie: e.target.value as ShotLie })}
+                >
+                  {SHOT_LIES.map((lie) => (
+                    <option key={lie} value={lie}>{SHOT_LIE_LABELS[lie]}</option>
+                  ))}
+                </Form.Select>
+              </td>
+              <td>
+                <div className="d-flex align-items-center gap-1">
+                  <Form.Control
+                    type="number"
+                    size="sm"
+                    min={0}
+                    step="any"
+                    value={shot.distance || ''}
+                    onChange={(e) => updateShot(shotIndex, { distance: Number(e.target.value) })}
+                    placeholder="-"
+                    className="text-center"
+                  />
+                  <small className="text-muted">{shot.lie === 'GREEN' ? 'ft' : 'yd'}</small>
+                </div>
+              </td>
+              <td>
+                <Form.Select
+                  size="sm"
+                  value={shot.result}
+                  onChange={(e) => updateShot(shotIndex, { result: e.target.value as ShotResult })}
+                >
+                  {SHOT_RESULTS.map((result) => (
+                    <option key={result} value={result}>{SHOT_RESULT_LABELS[result]}</option>
+                  ))}
+                </Form.Select>
+              </td>
+              <td>
+                <Button variant="outline-danger" size="sm" onClick={() => removeShot(shotIndex)}>
+                  Remove
+                </Button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </Table>
+
+      {!holed && (
+        <Button variant="outline-primary" size="sm" className="mb-2" onClick={addShot}>
+          Add Shot
+        </Button>
+      )}
+
+      {shots.length > 0 && hole.score > 0 && strokes !== hole.score && (
+        <Alert variant="warning" className="py-2 mb-2">
+          <small>
+            {strokes} strokes recorded, including penalties, but the hole score is {hole.score}.
+          </small>
+        </Alert>
+      )}
+
+      {strokesGained ? (
+        <div>
+          <small className="text-muted me-2">Strokes gained:</small>
+          {STROKES_GAINED_CATEGORIES.map((category) => (
+            <Badge key={category} bg="light" text="dark" className="me-1">
+              {STROKES_GAINED_CATEGORY_LABELS[category]} {formatStrokesGained(strokesGained.byCategory[category])}
+            </Badge>
+          ))}
+          <Badge bg={strokesGained.total >= 0 ? 'success' : 'danger'}>
+            Total {formatStrokesGained(strokesGained.total)}
+          </Badge>
+        </div>
+      ) : shots.length > 0 && (
+        <small className="text-muted">Mark the last shot holed to see strokes gained.</small>
+      )}
+    </div>
+  )
+}
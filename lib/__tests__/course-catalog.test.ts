@@ -0,0 +1,359 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import {
+  createCustomCourse,
+  formatCourseName,
+  getRoundValuesFromTeeSet,
+  mergeCourses,
+  saveGolfCourse,
+  TeeSetForRound,
+  visibleCourseWhere,
+} from '../course-catalog'
+import {
+  mockPrismaCourse,
+  mockPrismaCourseFavorite,
+  mockPrismaGolfCourseApiCache,
+  mockPrismaRound,
+  mockPrismaTeeSet,
+  resetMocks,
+} from '../../app/api/__tests__/mocks/prisma'
+import type { GolfCourseDetails, GolfCourseTee } from '@/types/golf-course'
+import { recalculatePlayerHandicaps } from '@/lib/handicap-history'
+import { recalculatePlayingConditions } from '@/lib/playing-conditions'
+
+vi.mock('@/lib/handicap-history', () => ({
+  recalculatePlayerHandicaps: vi.fn(),
+}))
+
+vi.mock('@/lib/playing-conditions', () => ({
+  recalculatePlayingConditions: vi.fn(),
+}))
+
+const course = {
+  id: 3,
+  externalId: 12345,
+  clubName: 'Pebble Beach Golf Links',
+  courseName: 'Pebble Beach',
+  address: null,
+  city: null,
+  state: null,
+  country: null,
+  latitude: null,
+  longitude: null,
+  createdById: null,
+  verified: true,
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+}
+
+const teeSet: TeeSetForRound = {
+  id: 10,
+  courseId: 3,
+  course,
+  name: 'Blue',
+  gender: 'MALE',
+  courseRating: 74.9,
+  slopeRating: 144,
+  bogeyRating: 101.2,
+  totalYards: 6828,
+  totalMeters: 6243,
+  numberOfHoles: 18,
+  parTotal: 72,
+  frontCourseRating: 37.2,
+  frontSlopeRating: 141,
+  frontBogeyRating: 50.1,
+  backCourseRating: 37.7,
+  backSlopeRating: 147,
+  backBogeyRating: 51.1,
+}
+
+describe('Course Catalog', () => {
+  describe('formatCourseName', () => {
+    it('should join club and course names', () => {
+      expect(formatCourseName(course)).toBe('Pebble Beach Golf Links - Pebble Beach')
+    })
+
+    it('should not repeat the club name when it is also the course name', () => {
+      expect(formatCourseName({ clubName: 'Augusta National', courseName: 'Augusta National' }))
+        .toBe('Augusta National')
+    })
+  })
+
+  describe('getRoundValuesFromTeeSet', () => {
+    it('should use the 18-hole ratings for an 18-hole round', () => {
+      expect(getRoundValuesFromTeeSet(teeSet, 18)).toEqual({
+        courseName: 'Pebble Beach Golf Links - Pebble Beach',
+        courseRating: 74.9,
+        slopeRating: 144,
+      })
+    })
+
+    it('should use the ratings for the nine played on an 18-hole tee', () => {
+      expect(getRoundValuesFromTeeSet(teeSet, 9)).toMatchObject({ courseRating: 37.2, slopeRating: 141 })
+      expect(getRoundValuesFromTeeSet(teeSet, 9, 'back')).toMatchObject({ courseRating: 37.7, slopeRating: 147 })
+    })
+
+    it('should leave ratings alone when the tee has none', () => {
+      const unrated = { ...teeSet, name: 'Unrated', courseRating: null, slopeRating: null }
+
+      expect(getRoundValuesFromTeeSet(unrated, 18)).toEqual({
+        courseName: 'Pebble Beach Golf Links - Pebble Beach',
+      })
+    })
+  })
+
+  describe('saveGolfCourse', () => {
+    const tee = (name: string): GolfCourseTee => ({
+      tee_name: name,
+      course_rating: 72.1,
+      slope_rating: 130,
+      bogey_rating: 95.0,
+      total_yards: 6400,
+      total_meters: 5852,
+      number_of_holes: 18,
+      par_total: 72,
+      front_course_rating: 36.0,
+      front_slope_rating: 128,
+      front_bogey_rating: 47.4,
+      back_course_rating: 36.1,
+      back_slope_rating: 132,
+      back_bogey_rating: 47.6,
+      holes: Array.from({ length: 18 }, (_, i) => ({ par: 4, yardage: 350 + i, handicap: i + 1 })),
+    })
+
+    const details: GolfCourseDetails = {
+      id: 12345,
+      club_name: 'Pebble Beach Golf Links',
+      course_name: 'Pebble Beach',
+      location: {
+        address: '1700 17-Mile Drive',
+        city: 'Pebble Beach',
+        state: 'California',
+        country: 'United States',
+        latitude: 36.5674,
+        longitude: -121.95,
+      },
+      tees: { male: [tee('Blue'), tee('White')], female: [tee('Red')] },
+    }
+
+    beforeEach(() => {
+      resetMocks()
+      mockPrismaCourse.upsert.mockResolvedValue({ id: 3 })
+      let nextId = 10
+      mockPrismaTeeSet.upsert.mockImplementation(async () => ({ id: nextId++ }))
+    })
+
+    it('should upsert the course on its API ID', async () => {
+      await saveGolfCourse(details)
+
+      expect(mockPrismaCourse.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { externalId: 12345 },
+        create: expect.objectContaining({ externalId: 12345, clubName: 'Pebble Beach Golf Links', city: 'Pebble Beach' }),
+      }))
+    })
+
+    it('should upsert each tee with its holes and return their IDs', async () => {
+      const result = await saveGolfCourse(details)
+
+      expect(result).toEqual({
+        courseId: 3,
+        teeSetIds: { 'male:Blue': 10, 'male:White': 11, 'female:Red': 12 },
+      })
+      expect(mockPrismaTeeSet.upsert).toHaveBeenCalledTimes(3)
+
+      const [firstCall] = mockPrismaTeeSet.upsert.mock.calls
+      expect(firstCall[0].where).toEqual({ courseId_name_gender: { courseId: 3, name: 'Blue', gender: 'MALE' } })
+      expect(firstCall[0].create.holes.create).toHaveLength(18)
+      expect(firstCall[0].create.holes.create[0]).toEqual({ holeNumber: 1, par: 4, yardage: 350, strokeIndex: 1 })
+      // Refreshing a tee replaces its holes
+      expect(firstCall[0].update.holes.deleteMany).toEqual({})
+    })
+  })
+  describe('createCustomCourse', () => {
+    beforeEach(() => {
+      resetMocks()
+      mockPrismaCourse.create.mockResolvedValue({ id: 20 })
+    })
+
+    it('should create an unverified course owned by the user with its tees and holes', async () => {
+      await createCustomCourse({
+        clubName: 'Riverside Golf Club',
+        teeSets: [{
+          name: 'White',
+          courseRating: 33.1,
+          slopeRating: 112,
+          holes: Array.from({ length: 9 }, (_, i) => ({ par: i < 2 ? 3 : 4, yardage: 300, strokeIndex: i * 2 + 1 })),
+        }],
+      }, 7)
+
+      const { data } = mockPrismaCourse.create.mock.calls[0][0]
+      expect(data).toMatchObject({
+        clubName: 'Riverside Golf Club',
+        courseName: 'Riverside Golf Club',
+        createdById: 7,
+        verified: false,
+      })
+      expect(data.teeSets.create[0]).toMatchObject({
+        name: 'White',
+        gender: null,
+        numberOfHoles: 9,
+        parTotal: 34,
+        totalYards: 2700,
+        frontCourseRating: null,
+      })
+      expect(data.teeSets.create[0].holes.create[8]).toEqual({ holeNumber: 9, par: 4, yardage: 300, strokeIndex: 17 })
+    })
+
+    it('should leave total yardage blank when a hole has none', async () => {
+      await createCustomCourse({
+        clubName: 'Riverside Golf Club',
+        teeSets: [{
+          name: 'White',
+          courseRating: 33.1,
+          slopeRating: 112,
+          holes: Array.from({ length: 9 }, (_, i) => ({ par: 4, yardage: i === 0 ? undefined : 300 })),
+        }],
+      }, 7)
+
+      expect(mockPrismaCourse.create.mock.calls[0][0].data.teeSets.create[0].totalYards).toBeNull()
+    })
+  })
+
+  describe('mergeCourses', () => {
+    beforeEach(() => {
+      resetMocks()
+      mockPrismaCourse.update.mockResolvedValue({ id: 3 })
+      mockPrismaCourseFavorite.findMany.mockResolvedValue([])
+      mockPrismaRound.findMany.mockResolvedValue([])
+      vi.mocked(recalculatePlayingConditions).mockReset()
+      vi.mocked(recalculatePlayingConditions).mockResolvedValue({ playingConditionsCalculation: 0, updatedRounds: [] })
+      vi.mocked(recalculatePlayerHandicaps).mockReset()
+    })
+
+    it('should combine matching tees, move the others and delete the duplicate', async () => {
+      mockPrismaCourse.findUnique
+        .mockResolvedValueOnce({ id: 20, externalId: null, verified: false, teeSets: [
+          { id: 30, name: 'Blue', gender: 'MALE' },
+          { id: 31, name: 'Gold', gender: 'MALE' },
+        ] })
+        .mockResolvedValueOnce({ id: 3, externalId: 12345, verified: true, teeSets: [
+          { id: 10, name: 'Blue', gender: 'MALE' },
+        ] })
+
+      await mergeCourses(20, 3)
+
+      expect(mockPrismaRound.updateMany).toHaveBeenCalledWith({ where: { teeSetId: 30 }, data: { teeSetId: 10 } })
+      expect(mockPrismaTeeSet.delete).toHaveBeenCalledWith({ where: { id: 30 } })
+      expect(mockPrismaTeeSet.update).toHaveBeenCalledWith({ where: { id: 31 }, data: { courseId: 3 } })
+      expect(mockPrismaCourse.delete).toHaveBeenCalledWith({ where: { id: 20 } })
+      expect(mockPrismaCourse.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 3 },
+        data: { externalId: 12345, verified: true },
+      }))
+    })
+
+    it('should rename moved rounds and drop cached details of both courses', async () => {
+      mockPrismaCourse.findUnique
+        .mockResolvedValueOnce({ id: 20, externalId: 777, clubName: 'Pebble', courseName: 'Pebble', verified: false, teeSets: [
+          { id: 30, name: 'Blue', gender: 'MALE' },
+          { id: 31, name: 'Gold', gender: 'MALE' },
+        ] })
+        .mockResolvedValueOnce({ ...course, teeSets: [{ id: 10, name: 'Blue', gender: 'MALE' }] })
+
+      await mergeCourses(20, 3)
+
+      expect(mockPrismaRound.updateMany).toHaveBeenCalledWith({
+        where: { teeSetId: { in: [30, 31] } },
+        data: { courseName: 'Pebble Beach Golf Links - Pebble Beach' },
+      })
+      expect(mockPrismaGolfCourseApiCache.deleteMany).toHaveBeenCalledWith({
+        where: { key: { in: ['course:777', 'course:12345'] } },
+      })
+    })
+
+    it('should re-run PCC for each day the moved rounds were played and recalculate handicaps', async () => {
+      mockPrismaCourse.findUnique
+        .mockResolvedValueOnce({ id: 20, externalId: null, verified: false, teeSets: [
+          { id: 30, name: 'Blue', gender: 'MALE' },
+          { id: 31, name: 'Gold', gender: 'MALE' },
+        ] })
+        .mockResolvedValueOnce({ ...course, teeSets: [{ id: 10, name: 'Blue', gender: 'MALE' }] })
+      mockPrismaRound.findMany.mockResolvedValue([
+        { userId: 7, teeSetId: 30, datePlayed: new Date('2026-06-01T09:00:00Z') },
+        { userId: 8, teeSetId: 31, datePlayed: new Date('2026-06-01T14:00:00Z') },
+        { userId: 7, teeSetId: 31, datePlayed: new Date('2026-06-08T10:00:00Z') },
+      ])
+      vi.mocked(recalculatePlayingConditions).mockResolvedValueOnce({
+        playingConditionsCalculation: 1,
+        updatedRounds: [{ id: 5, userId: 9 }] as any,
+      })
+
+      await mergeCourses(20, 3)
+
+      expect(mockPrismaRound.findMany).toHaveBeenCalledWith({
+        where: { teeSetId: { in: [30, 31] } },
+        select: { userId: true, teeSetId: true, datePlayed: true },
+      })
+      expect(recalculatePlayingConditions).toHaveBeenCalledTimes(2)
+      expect(recalculatePlayingConditions).toHaveBeenCalledWith({
+        courseName: 'Pebble Beach Golf Links - Pebble Beach',
+        teeSetId: 31,
+        datePlayed: new Date('2026-06-01T14:00:00Z'),
+      }, expect.anything())
+      expect(recalculatePlayingConditions).toHaveBeenCalledWith({
+        courseName: 'Pebble Beach Golf Links - Pebble Beach',
+        teeSetId: 31,
+        datePlayed: new Date('2026-06-08T10:00:00Z'),
+      }, expect.anything())
+      expect(recalculatePlayerHandicaps).toHaveBeenCalledWith([7, 8, 7, 9], expect.anything())
+    })
+
+    it("should move favorites to the target's tees without duplicating them", async () => {
+      mockPrismaCourse.findUnique
+        .mockResolvedValueOnce({ id: 20, externalId: null, verified: false, teeSets: [
+          { id: 30, name: 'Blue', gender: 'MALE' },
+          { id: 31, name: 'Gold', gender: 'MALE' },
+        ] })
+        .mockResolvedValueOnce({ id: 3, externalId: 12345, verified: true, teeSets: [
+          { id: 10, name: 'Blue', gender: 'MALE' },
+        ] })
+      mockPrismaCourseFavorite.findMany.mockResolvedValue([
+        { id: 1, userId: 7, courseId: 20, teeSetId: 30 }, // Combined tee
+        { id: 2, userId: 8, courseId: 20, teeSetId: 31 }, // Moved tee
+        { id: 3, userId: 9, courseId: 20, teeSetId: null },
+        { id: 4, userId: 10, courseId: 20, teeSetId: 30 }, // Already a favorite of the target
+        { id: 5, userId: 10, courseId: 3, teeSetId: 10 },
+      ])
+
+      await mergeCourses(20, 3)
+
+      expect(mockPrismaCourseFavorite.findMany).toHaveBeenCalledWith({ where: { courseId: { in: [20, 3] } } })
+      expect(mockPrismaCourseFavorite.update.mock.calls.map(([args]) => args)).toEqual([
+        { where: { id: 1 }, data: { courseId: 3, teeSetId: 10 } },
+        { where: { id: 2 }, data: { courseId: 3, teeSetId: 31 } },
+        { where: { id: 3 }, data: { courseId: 3, teeSetId: null } },
+      ])
+      // Favorites move before the combined tee is deleted
+      expect(mockPrismaCourseFavorite.update.mock.invocationCallOrder[0])
+        .toBeLessThan(mockPrismaTeeSet.delete.mock.invocationCallOrder[0])
+    })
+
+    it('should return null without changes when a course does not exist', async () => {
+      mockPrismaCourse.findUnique.mockResolvedValueOnce({ id: 20, teeSets: [] }).mockResolvedValueOnce(null)
+
+      expect(await mergeCourses(20, 99)).toBeNull()
+      expect(mockPrismaCourse.delete).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('visibleCourseWhere', () => {
+    it('should show admins every course', () => {
+      expect(visibleCourseWhere({ id: '1', role: 'ADMIN' })).toEqual({})
+    })
+
+    it('should hide unverified courses entered by other users', () => {
+      expect(visibleCourseWhere({ id: '7', role: 'USER' })).toEqual({
+        OR: [{ verified: true }, { createdById: null }, { createdById: 7 }],
+      })
+    })
+  })
+})
@@ -1,12 +1,18 @@
 import { describe, it, expect } from 'vitest'
 import {
   calculateGIR,
+  getFairwayHit,
+  getGIR,
   calculateUnderGIR,
   calculateUpAndDown,
   calculateRoundStats,
+  calculateScoringAverages,
   generateDefaultHoles,
   validateHoleData,
   estimateStatsFromTotals,
+  toHoleScoreRecord,
+  toHoleScoreCreateInput,
+  toHoleData,
   type HoleData,
 } from '../golf-calculator'
 
@@ -351,6 +357,244 @@ describe('Golf Calculator', () => {
 
       expect(stats.fairwaysInRegulation).toBe(1) // Only hole 2 counts
     })
+
+    it('should use the stored GIR when present', () => {
+      const holes: HoleData[] = [
+        { holeNumber: 1, par: 4, score: 4, putts: 2, greenInRegulation: false }, // Heuristic says GIR
+        { holeNumber: 2, par: 4, score: 5, putts: 2 },
+      ]
+
+      const stats = calculateRoundStats(holes)
+
+      expect(stats.greensInRegulation).toBe(0)
+      expect(stats.upAndDownAttempts).toBe(2)
+      expect(stats.upAndDowns).toBe(1)
+    })
+
+    it('should use recorded green results and count them', () => {
+      const holes: HoleData[] = [
+        { holeNumber: 1, par: 4, score: 4, putts: 2, greenResult: 'FRINGE' }, // Heuristic says GIR
+        { holeNumber: 2, par: 4, score: 3, putts: 0, greenResult: 'MISSED_LEFT' }, // Chip-in
+        { holeNumber: 3, par: 4, score: 4, putts: 2 }, // Estimated
+      ]
+
+      const stats = calculateRoundStats(holes)
+
+      expect(stats.greensInRegulation).toBe(1)
+      expect(stats.girRecorded).toBe(2)
+      expect(stats.upAndDowns).toBe(2)
+    })
+  })
+
+  describe('calculateRoundStats penalties and sand saves', () => {
+    it('should total penalty strokes and scoring on penalty holes', () => {
+      const holes: HoleData[] = [
+        { holeNumber: 1, par: 4, score: 6, putts: 2, penalties: 1, penaltyType: 'WATER' },
+        { holeNumber: 2, par: 5, score: 8, putts: 2, penalties: 2, penaltyType: 'OUT_OF_BOUNDS' },
+        { holeNumber: 3, par: 4, score: 4, putts: 2 },
+      ]
+
+      const stats = calculateRoundStats(holes)
+
+      expect(stats.penaltyStrokes).toBe(3)
+      expect(stats.penaltyHoles).toBe(2)
+      expect(stats.penaltyHoleScoreToPar).toBe(5)
+    })
+
+    it('should calculate sand saves from greenside bunker holes', () => {
+      const holes: HoleData[] = [
+        { holeNumber: 1, par: 4, score: 4, putts: 1, greensideBunker: true, sandSave: true },
+        { holeNumber: 2, par: 3, score: 4, putts: 2, greensideBunker: true, sandSave: false },
+        { holeNumber: 3, par: 4, score: 4, putts: 1, greensideBunker: true, sandSave: true },
+        { holeNumber: 4, par: 4, score: 4, putts: 2, sandSave: true }, // No bunker recorded
+      ]
+
+      const stats = calculateRoundStats(holes)
+
+      expect(stats.sandSaves).toBe(2)
+      expect(stats.sandSaveAttempts).toBe(3)
+      expect(stats.sandSavePercentage).toBe(66.7)
+    })
+  })
+
+  describe('getGIR', () => {
+    it('should prefer a recorded green result', () => {
+      // Chip-in birdie after missing the green
+      expect(getGIR({ holeNumber: 1, par: 4, score: 3, putts: 0, greenResult: 'MISSED_SHORT' })).toBe(false)
+      // Three-putt bogey after hitting the green
+      expect(getGIR({ holeNumber: 2, par: 4, score: 5, putts: 3, greenResult: 'HIT', greenInRegulation: false })).toBe(true)
+    })
+
+    it('should fall back to the stored GIR, then the estimate', () => {
+      expect(getGIR({ holeNumber: 1, par: 4, score: 4, putts: 2, greenInRegulation: false })).toBe(false)
+      expect(getGIR({ holeNumber: 1, par: 4, score: 4, putts: 2 })).toBe(true)
+    })
+  })
+
+  describe('getFairwayHit', () => {
+    it('should prefer a recorded fairway result', () => {
+      expect(getFairwayHit({ holeNumber: 1, par: 4, score: 4, putts: 2, fairwayResult: 'HIT' })).toBe(true)
+      expect(getFairwayHit({ holeNumber: 1, par: 4, score: 4, putts: 2, fairwayResult: 'LEFT', fairwayHit: true })).toBe(false)
+      expect(getFairwayHit({ holeNumber: 1, par: 4, score: 4, putts: 2, fairwayHit: false })).toBe(false)
+      expect(getFairwayHit({ holeNumber: 1, par: 4, score: 4, putts: 2 })).toBeUndefined()
+    })
+
+    it('should ignore fairways on par 3s', () => {
+      expect(getFairwayHit({ holeNumber: 1, par: 3, score: 3, putts: 2, fairwayResult: 'HIT' })).toBeUndefined()
+    })
+  })
+
+  describe('toHoleScoreRecord / toHoleData', () => {
+    it('should map an entered hole to its stored form', () => {
+      const record = toHoleScoreRecord({
+        holeNumber: 7, par: 4, score: 4, putts: 2, fairwayHit: true, yardage: 410, handicap: 3,
+      })
+
+      expect(record).toEqual({
+        holeNumber: 7,
+        par: 4,
+        yardage: 410,
+        strokeIndex: 3,
+        score: 4,
+        putts: 2,
+        firstPuttDistance: null,
+        fairwayHit: true,
+        fairwayResult: null,
+        greenResult: null,
+        greenInRegulation: true,
+        penalties: 0,
+        penaltyType: null,
+        greensideBunker: false,
+        sandSave: false,
+      })
+    })
+
+    it('should store GIR from a recorded green result', () => {
+      // Two-putt par from the fringe: the heuristic would count it as a GIR
+      const record = toHoleScoreRecord({ holeNumber: 5, par: 4, score: 4, putts: 2, greenResult: 'FRINGE' })
+
+      expect(record.greenResult).toBe('FRINGE')
+      expect(record.greenInRegulation).toBe(false)
+      expect(toHoleData(record).greenResult).toBe('FRINGE')
+    })
+
+    it('should store whether the fairway was hit from a recorded fairway result', () => {
+      const record = toHoleScoreRecord({ holeNumber: 5, par: 4, score: 6, putts: 2, fairwayResult: 'PENALTY', penalties: 1 })
+
+      expect(record.fairwayResult).toBe('PENALTY')
+      expect(record.fairwayHit).toBe(false)
+      expect(toHoleData(record).fairwayResult).toBe('PENALTY')
+    })
+
+    it('should only store a penalty type and sand save alongside penalties and a bunker', () => {
+      const record = toHoleScoreRecord({
+        holeNumber: 5, par: 4, score: 5, putts: 2, penaltyType: 'WATER', sandSave: true,
+      })
+
+      expect(record.penaltyType).toBeNull()
+      expect(record.greensideBunker).toBe(false)
+      expect(record.sandSave).toBe(false)
+    })
+
+    it('should not store a fairway result on par 3s', () => {
+      const record = toHoleScoreRecord({ holeNumber: 3, par: 3, score: 4, putts: 2, fairwayHit: false })
+
+      expect(record.fairwayHit).toBeNull()
+      expect(record.greenInRegulation).toBe(false)
+      expect(record.yardage).toBeNull()
+      expect(record.strokeIndex).toBeNull()
+    })
+
+    it('should create recorded shots in order with the hole', () => {
+      const input = toHoleScoreCreateInput({
+        holeNumber: 2, par: 3, score: 2, putts: 1,
+        shots: [
+          { lie: 'TEE', distance: 165, result: 'IN_PLAY' },
+          { lie: 'GREEN', distance: 12, result: 'HOLED' },
+        ],
+      })
+
+      expect(input.shots).toEqual({
+        create: [
+          { lie: 'TEE', distance: 165, result: 'IN_PLAY', shotNumber: 1 },
+          { lie: 'GREEN', distance: 12, result: 'HOLED', shotNumber: 2 },
+        ],
+      })
+      expect(toHoleScoreCreateInput({ holeNumber: 2, par: 3, score: 3, putts: 2 }).shots).toBeUndefined()
+    })
+
+    it('should read stored shots back in shot order', () => {
+      const record = {
+        ...toHoleScoreRecord({ holeNumber: 2, par: 3, score: 2, putts: 1 }),
+        shots: [
+          { shotNumber: 2, lie: 'GREEN' as const, distance: 12, result: 'HOLED' as const },
+          { shotNumber: 1, lie: 'TEE' as const, distance: 165, result: 'IN_PLAY' as const },
+        ],
+      }
+
+      expect(toHoleData(record).shots).toEqual([
+        { lie: 'TEE', distance: 165, result: 'IN_PLAY' },
+        { lie: 'GREEN', distance: 12, result: 'HOLED' },
+      ])
+    })
+
+    it('should round-trip through the stored form', () => {
+      const hole: HoleData = {
+        holeNumber: 12, par: 5, score: 6, putts: 2, fairwayHit: false, yardage: 530, handicap: 2, penalties: 1,
+        penaltyType: 'WATER', greensideBunker: true, sandSave: false, firstPuttDistance: 24,
+      }
+
+      expect(toHoleData(toHoleScoreRecord(hole))).toEqual({ ...hole, greenInRegulation: false })
+    })
+  })
+
+  describe('calculateScoringAverages', () => {
+    it('should average score to par for each par', () => {
+      const averages = calculateScoringAverages([
+        { par: 3, score: 3 },
+        { par: 3, score: 4 },
+        { par: 4, score: 6 },
+      ])
+
+      expect(averages.byPar).toEqual([
+        { par: 3, label: 'Par 3', holes: 2, averageScore: 3.5, averageToPar: 0.5 },
+        { par: 4, label: 'Par 4', holes: 1, averageScore: 6, averageToPar: 2 },
+        { par: 5, label: 'Par 5', holes: 0, averageScore: 0, averageToPar: 0 },
+      ])
+    })
+
+    it('should band holes by stroke index', () => {
+      const averages = calculateScoringAverages([
+        { par: 4, score: 6, strokeIndex: 1 },
+        { par: 4, score: 5, strokeIndex: 6 },
+        { par: 4, score: 4, strokeIndex: 7 },
+        { par: 4, score: 4, strokeIndex: 18 },
+        { par: 4, score: 5 },
+      ])
+
+      expect(averages.byStrokeIndex.map((band) => [band.label, band.holes, band.averageToPar])).toEqual([
+        ['Hardest (1-6)', 2, 1.5],
+        ['Middle (7-12)', 1, 0],
+        ['Easiest (13-18)', 1, 0],
+      ])
+    })
+
+    it('should bucket holes by yardage within their par', () => {
+      const averages = calculateScoringAverages([
+        { par: 4, score: 4, yardage: 349 },
+        { par: 4, score: 5, yardage: 350 },
+        { par: 4, score: 6, yardage: 400 },
+        { par: 3, score: 4, yardage: 210 },
+        { par: 4, score: 5 },
+      ])
+      const holesByBand = averages.byYardage.map((band) => [band.par, band.label, band.holes])
+
+      expect(holesByBand).toContainEqual([4, 'Under 350', 1])
+      expect(holesByBand).toContainEqual([4, '350-400', 1])
+      expect(holesByBand).toContainEqual([4, '400+', 1])
+      expect(holesByBand).toContainEqual([3, '200+', 1])
+      expect(averages.byYardage.find((band) => band.par === 4 && band.label === '400+')?.averageToPar).toBe(2)
+    })
   })
 
   describe('generateDefaultHoles', () => {
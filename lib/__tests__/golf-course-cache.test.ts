@@ -0,0 +1,342 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  COURSE_CACHE_TTL_MS,
+  getGolfCourseDetails,
+  searchGolfCourses,
+  SEARCH_CACHE_TTL_MS,
+} from '../golf-course-cache'
+import {
+  createLocalGolfCourseProvider,
+  getGolfCourseProvider,
+  GolfCourseProviderError,
+  setGolfCourseProvider,
+} from '../golf-course-provider'
+import {
+  mockPrismaCourse,
+  mockPrismaGolfCourseApiCache,
+  mockPrismaTeeSet,
+  resetMocks,
+} from '../../app/api/__tests__/mocks/prisma'
+import type { GolfCourseDetails } from '@/types/golf-course'
+
+const pebbleBeach: GolfCourseDetails = {
+  id: 12345,
+  club_name: 'Pebble Beach Golf Links',
+  course_name: 'Pebble Beach',
+  location: {
+    address: '1700 17 Mile Dr, Pebble Beach, CA 93953',
+    city: 'Pebble Beach',
+    state: 'CA',
+    country: 'United States',
+    latitude: 36.5686,
+    longitude: -121.9505,
+  },
+  tees: {
+    male: [{
+      tee_name: 'Blue',
+      course_rating: 74.9,
+      slope_rating: 144,
+      bogey_rating: 101.2,
+      total_yards: 6828,
+      total_meters: 6243,
+      number_of_holes: 18,
+      par_total: 72,
+      front_course_rating: 37.2,
+      front_slope_rating: 141,
+      front_bogey_rating: 50.1,
+      back_course_rating: 37.7,
+      back_slope_rating: 147,
+      back_bogey_rating: 51.1,
+      holes: [],
+    }],
+    female: [],
+  },
+}
+
+const now = new Date('2024-06-01T12:00:00Z')
+
+function cacheEntry(key: string, data: unknown, ageMs: number) {
+  return { key, data, fetchedAt: new Date(now.getTime() - ageMs) }
+}
+
+const catalogPebbleBeach = {
+  id: 3,
+  externalId: 12345,
+  clubName: 'Pebble Beach Golf Links',
+  courseName: 'Pebble Beach',
+  address: '1700 17 Mile Dr',
+}
+
+function unreachableProvider() {
+  const provider = createLocalGolfCourseProvider([])
+  provider.searchCourses = vi.fn().mockRejectedValue(new TypeError('fetch failed'))
+  provider.getCourse = vi.fn().mockRejectedValue(new TypeError('fetch failed'))
+  return provider
+}
+
+describe('searchGolfCourses', () => {
+  const provider = createLocalGolfCourseProvider([pebbleBeach])
+
+  beforeEach(() => {
+    resetMocks()
+    mockPrismaCourse.findMany.mockResolvedValue([])
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should list catalog matches before provider results for other courses', async () => {
+    const spyglass = { ...pebbleBeach, id: 67890, course_name: 'Spyglass Hill' }
+    mockPrismaGolfCourseApiCache.findUnique.mockResolvedValue(null)
+    mockPrismaCourse.findMany.mockResolvedValue([catalogPebbleBeach])
+
+    const result = await searchGolfCourses('pebble', {
+      provider: createLocalGolfCourseProvider([pebbleBeach, spyglass]),
+      now,
+    })
+
+    expect(result.source).toBe('provider')
+    expect(result.data).toEqual([
+      {
+        id: 12345,
+        club_name: 'Pebble Beach Golf Links',
+        course_name: 'Pebble Beach',
+        location: { address: '1700 17 Mile Dr' },
+      },
+      expect.objectContaining({ id: 67890, course_name: 'Spyglass Hill' }),
+    ])
+  })
+
+  it('should fetch from the provider and cache results on a miss', async () => {
+    mockPrismaGolfCourseApiCache.findUnique.mockResolvedValue(null)
+
+    const result = await searchGolfCourses('  Pebble ', { provider, now })
+
+    expect(result.source).toBe('provider')
+    expect(result.data).toEqual([expect.objectContaining({ id: 12345, club_name: 'Pebble Beach Golf Links' })])
+    expect(mockPrismaGolfCourseApiCache.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { key: 'search:pebble' },
+      create: expect.objectContaining({ data: result.data, fetchedAt: now }),
+    }))
+  })
+
+  it('should serve fresh cache entries without calling the provider', async () => {
+    const searchCourses = vi.spyOn(provider, 'searchCourses')
+    const cached = [{ id: 1, club_name: 'Cached Club', course_name: 'Cached', location: { address: '' } }]
+    mockPrismaGolfCourseApiCache.findUnique.mockResolvedValue(
+      cacheEntry('search:pebble', cached, SEARCH_CACHE_TTL_MS - 1000)
+    )
+
+    const result = await searchGolfCourses('pebble', { provider, now })
+
+    expect(result).toEqual({ data: cached, source: 'cache' })
+    expect(searchCourses).not.toHaveBeenCalled()
+  })
+
+  it('should serve stale cache entries and refresh them after the response', async () => {
+    const refreshes: Array<() => Promise<void>> = []
+    const cached = [{ id: 1, club_name: 'Old Club', course_name: 'Old', location: { address: '' } }]
+    mockPrismaGolfCourseApiCache.findUnique.mockResolvedValue(
+      cacheEntry('search:pebble', cached, SEARCH_CACHE_TTL_MS + 1000)
+    )
+
+    const result = await searchGolfCourses('pebble', {
+      provider,
+      now,
+      scheduleRefresh: refresh => refreshes.push(refresh),
+    })
+
+    expect(result).toEqual({ data: cached, source: 'stale' })
+    expect(mockPrismaGolfCourseApiCache.upsert).not.toHaveBeenCalled()
+
+    await refreshes[0]()
+
+    expect(mockPrismaGolfCourseApiCache.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { key: 'search:pebble' },
+      update: expect.objectContaining({ data: [expect.objectContaining({ id: 12345 })] }),
+    }))
+  })
+
+  it('should log a failed refresh and keep the stale entry', async () => {
+    const refreshes: Array<() => Promise<void>> = []
+    const cached = [{ id: 1, club_name: 'Old Club', course_name: 'Old', location: { address: '' } }]
+    mockPrismaGolfCourseApiCache.findUnique.mockResolvedValue(
+      cacheEntry('search:pebble', cached, SEARCH_CACHE_TTL_MS + 1000)
+    )
+
+    const result = await searchGolfCourses('pebble', {
+      provider: unreachableProvider(),
+      now,
+      scheduleRefresh: refresh => refreshes.push(refresh),
+    })
+    await refreshes[0]()
+
+    expect(result).toEqual({ data: cached, source: 'stale' })
+    expect(mockPrismaGolfCourseApiCache.upsert).not.toHaveBeenCalled()
+    expect(console.error).toHaveBeenCalledWith('Error refreshing golf course cache:', expect.any(TypeError))
+  })
+
+  it('should search only the catalog when the provider is unreachable', async () => {
+    mockPrismaGolfCourseApiCache.findUnique.mockResolvedValue(null)
+    mockPrismaCourse.findMany.mockResolvedValue([catalogPebbleBeach])
+
+    const result = await searchGolfCourses('pebble', { provider: unreachableProvider(), now })
+
+    expect(result.source).toBe('offline')
+    expect(result.data).toEqual([expect.objectContaining({ id: 12345, location: { address: '1700 17 Mile Dr' } })])
+    expect(mockPrismaGolfCourseApiCache.upsert).not.toHaveBeenCalled()
+  })
+
+  it('should report the provider error when the catalog has no matches', async () => {
+    mockPrismaGolfCourseApiCache.findUnique.mockResolvedValue(null)
+    mockPrismaCourse.findMany.mockResolvedValue([])
+    const limited = createLocalGolfCourseProvider([])
+    limited.searchCourses = vi.fn().mockRejectedValue(new GolfCourseProviderError(429, 'Rate limit exceeded'))
+
+    await expect(searchGolfCourses('pebble', { provider: limited, now })).rejects.toMatchObject({
+      status: 429,
+      details: 'Rate limit exceeded',
+    })
+  })
+
+  it('should search only the catalog when no provider is configured', async () => {
+    mockPrismaGolfCourseApiCache.findUnique.mockResolvedValue(null)
+
+    const result = await searchGolfCourses('pebble', { provider: null, now })
+
+    expect(result).toEqual({ data: [], source: 'offline' })
+  })
+
+  it('should ask the provider when the catalog cannot be searched', async () => {
+    mockPrismaCourse.findMany.mockRejectedValue(new Error('connection refused'))
+    mockPrismaGolfCourseApiCache.findUnique.mockResolvedValue(null)
+
+    const result = await searchGolfCourses('pebble', { provider, now })
+
+    expect(result.source).toBe('provider')
+    expect(result.data).toHaveLength(1)
+  })
+
+  it('should fetch from the provider when the cache cannot be read', async () => {
+    mockPrismaGolfCourseApiCache.findUnique.mockRejectedValue(new Error('relation does not exist'))
+
+    const result = await searchGolfCourses('pebble', { provider, now })
+
+    expect(result.source).toBe('provider')
+    expect(result.data).toHaveLength(1)
+  })
+})
+
+describe('getGolfCourseDetails', () => {
+  beforeEach(() => {
+    resetMocks()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should save fetched courses to the catalog and annotate tee set IDs', async () => {
+    const provider = createLocalGolfCourseProvider([structuredClone(pebbleBeach)])
+    mockPrismaGolfCourseApiCache.findUnique.mockResolvedValue(null)
+    mockPrismaCourse.upsert.mockResolvedValue({ id: 3 })
+    mockPrismaTeeSet.upsert.mockResolvedValue({ id: 10 })
+
+    const result = await getGolfCourseDetails(12345, { provider, now })
+
+    expect(result?.source).toBe('provider')
+    expect(result?.data.tees.male[0].tee_set_id).toBe(10)
+    expect(mockPrismaGolfCourseApiCache.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { key: 'course:12345' },
+    }))
+  })
+
+  it('should serve fresh course details from the cache', async () => {
+    const provider = createLocalGolfCourseProvider([])
+    mockPrismaGolfCourseApiCache.findUnique.mockResolvedValue(
+      cacheEntry('course:12345', pebbleBeach, COURSE_CACHE_TTL_MS - 1000)
+    )
+
+    const result = await getGolfCourseDetails(12345, { provider, now })
+
+    expect(result).toEqual({ data: pebbleBeach, source: 'cache' })
+  })
+
+  it('should answer from the catalog when the provider is unreachable', async () => {
+    mockPrismaGolfCourseApiCache.findUnique.mockResolvedValue(null)
+    mockPrismaCourse.findUnique.mockResolvedValue({
+      id: 3,
+      externalId: 12345,
+      clubName: 'Pebble Beach Golf Links',
+      courseName: 'Pebble Beach',
+      address: null,
+      city: 'Pebble Beach',
+      state: 'CA',
+      country: null,
+      latitude: null,
+      longitude: null,
+      teeSets: [{
+        id: 10,
+        name: 'Blue',
+        gender: 'MALE',
+        courseRating: 74.9,
+        slopeRating: 144,
+        bogeyRating: null,
+        totalYards: 6828,
+        totalMeters: null,
+        numberOfHoles: 18,
+        parTotal: 72,
+        frontCourseRating: null,
+        frontSlopeRating: null,
+        frontBogeyRating: null,
+        backCourseRating: null,
+        backSlopeRating: null,
+        backBogeyRating: null,
+        holes: [],
+      }],
+    })
+
+    const result = await getGolfCourseDetails(12345, { provider: unreachableProvider(), now })
+
+    expect(result?.source).toBe('offline')
+    expect(result?.data.id).toBe(12345)
+    expect(result?.data.tees.male[0]).toMatchObject({ tee_name: 'Blue', course_rating: 74.9, tee_set_id: 10 })
+    expect(mockPrismaCourse.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+      where: { externalId: 12345 },
+    }))
+  })
+
+  it('should return null when no provider is configured and the course is not in the catalog', async () => {
+    mockPrismaGolfCourseApiCache.findUnique.mockResolvedValue(null)
+    mockPrismaCourse.findUnique.mockResolvedValue(null)
+
+    const result = await getGolfCourseDetails(12345, { provider: null, now })
+
+    expect(result).toBeNull()
+  })
+})
+
+describe('getGolfCourseProvider', () => {
+  const originalKey = process.env.GOLF_COURSE_API_KEY
+
+  afterEach(() => {
+    setGolfCourseProvider(null)
+    process.env.GOLF_COURSE_API_KEY = originalKey
+  })
+
+  it('should use the provider that was set instead of the environment', () => {
+    const provider = createLocalGolfCourseProvider([pebbleBeach])
+    setGolfCourseProvider(provider)
+
+    expect(getGolfCourseProvider()).toBe(provider)
+  })
+
+  it('should return null when no API key is configured', () => {
+    delete process.env.GOLF_COURSE_API_KEY
+
+    expect(getGolfCourseProvider()).toBeNull()
+  })
+})
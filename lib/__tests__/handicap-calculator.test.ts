@@ -4,8 +4,44 @@ import {
   calculateHandicapIndex,
   calculateHandicapIndexFromRounds,
   getNumberOfDifferentialsUsed,
+  calculateCourseHandicap,
+  allocateHandicapStrokes,
+  calculateMaxHoleScore,
+  calculateAdjustedGrossScore,
+  calculateRoundAdjustedGrossScore,
+  calculateHandicapIndexDetails,
+  selectScoringRecord,
+  findLowHandicapIndex,
+  buildHandicapTimeline,
+  findRevisionOnDate,
+  applyHandicapCaps,
+  calculateExceptionalScoreReduction,
+  calculateExceptionalScoreAdjustments,
+  calculatePlayingConditions,
+  formatHandicapIndex,
+  calculatePlayingHandicap,
+  calculateTeeHandicap,
+  HANDICAP_ALLOWANCES,
+  getNineHoleRatings,
+  calculateCombinedNineHoleDifferential,
+  pairNineHoleRounds,
+  getHandicapIneligibilityReasons,
+  simulateHandicapIndex,
+  findScoreForTargetIndex,
+  SIMULATED_ROUND_ID,
+  NineHoleRound,
+  RoundWithDifferential,
 } from '../handicap-calculator'
 
+// 18 holes, par 72, stroke index 1-18 assigned in hole order
+const buildHoles = (scores: number[]) =>
+  scores.map((score, i) => ({
+    holeNumber: i + 1,
+    par: 4,
+    score,
+    handicap: i + 1,
+  }))
+
 describe('calculateHandicapDifferential', () => {
   it('should calculate differential correctly with valid inputs', () => {
     // Example: Score 85, Course Rating 72.0, Slope 113
@@ -52,6 +88,12 @@ describe('calculateHandicapDifferential', () => {
     expect(differential).toBe(-4.0)
   })
 
+  it('should subtract the playing conditions adjustment from the score', () => {
+    // Example: Score 85, Course Rating 72.0, Slope 113, PCC +2
+    const differential = calculateHandicapDifferential(85, 72.0, 113, 2)
+    expect(differential).toBe(11.0)
+  })
+
   it('should handle very low score', () => {
     const differential = calculateHandicapDifferential(60, 72.0, 113)
     expect(differential).toBe(-12.0)
@@ -116,6 +158,102 @@ describe('getNumberOfDifferentialsUsed', () => {
   })
 })
 
+describe('calculatePlayingConditions', () => {
+  // Each player shoots a differential this far above their 10.0 index
+  const field = (overIndex: number, count = 8) =>
+    Array.from({ length: count }, () => ({ handicapDifferential: 10 + overIndex, handicapIndex: 10 }))
+
+  it('should return 0 with fewer than 8 scores', () => {
+    expect(calculatePlayingConditions(field(8, 7))).toBe(0)
+  })
+
+  it('should return 0 when the field scores as expected', () => {
+    expect(calculatePlayingConditions(field(3))).toBe(0)
+  })
+
+  it('should adjust upward when the field scores worse than expected', () => {
+    expect(calculatePlayingConditions(field(5))).toBe(2)
+  })
+
+  it('should adjust downward when the field scores better than expected', () => {
+    expect(calculatePlayingConditions(field(2))).toBe(-1)
+  })
+
+  it('should clamp the adjustment between -1 and +3', () => {
+    expect(calculatePlayingConditions(field(12))).toBe(3)
+    expect(calculatePlayingConditions(field(-5))).toBe(-1)
+  })
+})
+
+describe('getNineHoleRatings', () => {
+  const tee = {
+    front_course_rating: 35.8,
+    front_slope_rating: 128,
+    back_course_rating: 36.4,
+    back_slope_rating: 134,
+  }
+
+  it('should return the ratings for the nine played', () => {
+    expect(getNineHoleRatings(tee, 'front')).toEqual({ courseRating: 35.8, slopeRating: 128 })
+    expect(getNineHoleRatings(tee, 'back')).toEqual({ courseRating: 36.4, slopeRating: 134 })
+  })
+})
+
+describe('calculateCombinedNineHoleDifferential', () => {
+  it('should combine scores and ratings and average the slope', () => {
+    // (113 / 131) × (42 + 44 − (35.8 + 36.4)) = 0.8626 × 13.8 = 11.9
+    const differential = calculateCombinedNineHoleDifferential(
+      { score: 42, courseRating: 35.8, slopeRating: 128 },
+      { score: 44, courseRating: 36.4, slopeRating: 134 }
+    )
+    expect(differential).toBe(11.9)
+  })
+})
+
+describe('pairNineHoleRounds', () => {
+  const nine = (id: number, date: string, overrides: Partial<NineHoleRound> = {}): NineHoleRound => ({
+    id,
+    holes: 9,
+    score: 45,
+    courseRating: 36.0,
+    slopeRating: 113,
+    datePlayed: new Date(date),
+    ...overrides,
+  })
+
+  it('should hold a single 9-hole round pending', () => {
+    expect(pairNineHoleRounds([nine(1, '2024-01-01')])).toEqual({
+      1: { pairedRoundId: null, handicapDifferential: null },
+    })
+  })
+
+  it('should pair rounds in date order and put the differential on the later round', () => {
+    const pairings = pairNineHoleRounds([
+      nine(3, '2024-01-03'),
+      nine(1, '2024-01-01'),
+      nine(2, '2024-01-02'),
+    ])
+
+    // 45 + 45 − 72 = 18.0
+    expect(pairings[1]).toEqual({ pairedRoundId: 2, handicapDifferential: null })
+    expect(pairings[2]).toEqual({ pairedRoundId: 1, handicapDifferential: 18.0 })
+    expect(pairings[3]).toEqual({ pairedRoundId: null, handicapDifferential: null })
+  })
+
+  it('should skip rounds without ratings and ignore 18-hole rounds', () => {
+    const pairings = pairNineHoleRounds([
+      nine(1, '2024-01-01'),
+      nine(2, '2024-01-02', { courseRating: null }),
+      nine(3, '2024-01-03', { holes: 18 }),
+      nine(4, '2024-01-04'),
+    ])
+
+    expect(pairings[1].pairedRoundId).toBe(4)
+    expect(pairings[2]).toEqual({ pairedRoundId: null, handicapDifferential: null })
+    expect(pairings[3]).toBeUndefined()
+  })
+})
+
 describe('calculateHandicapIndex', () => {
   it('should return null for empty array', () => {
     const index = calculateHandicapIndex([])
@@ -170,10 +308,15 @@ describe('calculateHandicapIndex', () => {
     expect(index).toBeCloseTo(11.6, 1)
   })
 
-  it('should not allow negative handicap index', () => {
+  it('should allow a negative (plus) handicap index', () => {
     // All negative differentials (very good player)
     const index = calculateHandicapIndex([-5.0])
-    expect(index).toBe(0)
+    expect(index).toBe(-5.0)
+  })
+
+  it('should not exceed the 54.0 maximum index', () => {
+    const index = calculateHandicapIndex([60.0, 62.5])
+    expect(index).toBe(54.0)
   })
 
   it('should round to one decimal place', () => {
@@ -254,3 +397,549 @@ describe('calculateHandicapIndexFromRounds', () => {
     expect(index).toBe(10.0)
   })
 })
+
+// One round per day starting 2024-01-01, oldest first
+const buildRounds = (differentials: Array<number | null>): RoundWithDifferential[] =>
+  differentials.map((handicapDifferential, i) => ({
+    id: i + 1,
+    score: 85,
+    courseRating: 72.0,
+    slopeRating: 113,
+    handicapDifferential,
+    datePlayed: new Date(Date.UTC(2024, 0, 1 + i)),
+  }))
+
+describe('selectScoringRecord', () => {
+  it('should keep only the 20 most recent rounds with differentials', () => {
+    const rounds = buildRounds([...Array(30).fill(10.0), null])
+    const record = selectScoringRecord(rounds)
+
+    expect(record).toHaveLength(20)
+    expect(record[0].id).toBe(30)
+    expect(record[19].id).toBe(11)
+  })
+
+  it('should break date ties by creation time', () => {
+    const sameDay = new Date('2024-05-01')
+    const rounds = [
+      { ...buildRounds([10.0])[0], id: 1, datePlayed: sameDay, createdAt: new Date('2024-05-01T18:00:00Z') },
+      { ...buildRounds([12.0])[0], id: 2, datePlayed: sameDay, createdAt: new Date('2024-05-01T09:00:00Z') },
+    ]
+
+    expect(selectScoringRecord(rounds).map(r => r.id)).toEqual([1, 2])
+  })
+
+  it('should not mutate the input order', () => {
+    const rounds = buildRounds([10.0, 11.0, 12.0])
+    selectScoringRecord(rounds)
+    expect(rounds.map(r => r.id)).toEqual([1, 2, 3])
+  })
+
+  it('should exclude rounds flagged as ineligible', () => {
+    const rounds = buildRounds([10.0, 11.0, 12.0])
+    rounds[2].ineligibleReasons = ['score-type']
+
+    expect(selectScoringRecord(rounds).map(r => r.id)).toEqual([2, 1])
+  })
+})
+
+describe('getHandicapIneligibilityReasons', () => {
+  const rated = { courseRating: 72.0, slopeRating: 113 }
+
+  it('should accept an individual home round on a rated course', () => {
+    expect(getHandicapIneligibilityReasons({ ...rated })).toEqual([])
+    expect(getHandicapIneligibilityReasons({ ...rated, scoreType: 'MATCH_PLAY', holes: 18, holesPlayed: 14 })).toEqual([])
+  })
+
+  it('should reject casual and unacceptable score types', () => {
+    expect(getHandicapIneligibilityReasons({ ...rated, scoreType: 'CASUAL' })).toEqual(['score-type'])
+    expect(getHandicapIneligibilityReasons({ ...rated, scoreType: 'UNACCEPTABLE' })).toEqual(['score-type'])
+  })
+
+  it('should require 14 of 18 or 7 of 9 holes played', () => {
+    expect(getHandicapIneligibilityReasons({ ...rated, holes: 18, holesPlayed: 13 })).toEqual(['too-few-holes'])
+    expect(getHandicapIneligibilityReasons({ ...rated, holes: 9, holesPlayed: 7 })).toEqual([])
+    expect(getHandicapIneligibilityReasons({ ...rated, holes: 9, holesPlayed: 6 })).toEqual(['too-few-holes'])
+  })
+
+  it('should reject unrated courses and team formats', () => {
+    expect(getHandicapIneligibilityReasons({ courseRating: null, slopeRating: 113 })).toEqual(['unrated-course'])
+    expect(getHandicapIneligibilityReasons({ ...rated, playFormat: 'SCRAMBLE' })).toEqual(['team-format'])
+  })
+
+  it('should return every reason that applies', () => {
+    expect(getHandicapIneligibilityReasons({
+      scoreType: 'CASUAL',
+      playFormat: 'ALTERNATE_SHOT',
+      holesPlayed: 9,
+      courseRating: null,
+      slopeRating: null,
+    })).toEqual(['score-type', 'too-few-holes', 'unrated-course', 'team-format'])
+  })
+})
+
+describe('simulateHandicapIndex', () => {
+  // Twelve old 20.0s and eight recent 10.0s: index 10.0
+  const rounds = buildRounds([...Array(12).fill(20.0), ...Array(8).fill(10.0)])
+  const tees = { courseRating: 72.0, slopeRating: 113, datePlayed: new Date(Date.UTC(2024, 1, 1)) }
+
+  it('should report the index after posting the score', () => {
+    const simulation = simulateHandicapIndex(rounds, { ...tees, score: 80 })
+
+    expect(simulation.currentHandicapIndex).toBe(10.0)
+    expect(simulation.handicapDifferential).toBe(8.0)
+    // (8.0 + 7 × 10.0) / 8
+    expect(simulation.handicapIndex).toBe(9.8)
+    expect(simulation.countsTowardIndex).toBe(true)
+  })
+
+  it('should list the counting round replaced and the round dropped from the window', () => {
+    const simulation = simulateHandicapIndex(rounds, { ...tees, score: 80 })
+
+    expect(simulation.replacedRoundIds).toEqual([13])
+    expect(simulation.droppedRoundIds).toEqual([1])
+  })
+
+  it('should not count a score worse than the counting differentials', () => {
+    const simulation = simulateHandicapIndex(rounds, { ...tees, score: 95 })
+
+    expect(simulation.handicapIndex).toBe(10.0)
+    expect(simulation.countsTowardIndex).toBe(false)
+    expect(simulation.replacedRoundIds).toEqual([])
+  })
+
+  it('should apply an Exceptional Score Reduction to the simulated score', () => {
+    const simulation = simulateHandicapIndex(rounds, { ...tees, score: 74 })
+
+    // Differential 2.0 is 8.0 below the index
+    expect(simulation.exceptionalScoreAdjustment).toBe(-1)
+  })
+
+  it('should not mutate the real rounds', () => {
+    simulateHandicapIndex(rounds, { ...tees, score: 80 })
+    expect(rounds).toHaveLength(20)
+    expect(rounds.some(r => r.id === SIMULATED_ROUND_ID)).toBe(false)
+  })
+})
+
+describe('findScoreForTargetIndex', () => {
+  const rounds = buildRounds([...Array(12).fill(20.0), ...Array(8).fill(10.0)])
+  const tees = { courseRating: 72.0, slopeRating: 113, datePlayed: new Date(Date.UTC(2024, 1, 1)) }
+
+  it('should find the highest score that reaches the target', () => {
+    const simulation = findScoreForTargetIndex(rounds, 9.5, tees)
+
+    // 78 → (6.0 + 70.0) / 8 = 9.5; 79 → 9.6
+    expect(simulation?.score).toBe(78)
+    expect(simulation?.handicapIndex).toBe(9.5)
+  })
+
+  it('should return null when no realistic score reaches the target', () => {
+    expect(findScoreForTargetIndex(rounds, 3.0, tees)).toBeNull()
+  })
+})
+
+describe('calculateHandicapIndexDetails', () => {
+  it('should return empty details when no rounds have differentials', () => {
+    const details = calculateHandicapIndexDetails(buildRounds([null, null]))
+    expect(details.handicapIndex).toBeNull()
+    expect(details.scoringRecord).toHaveLength(0)
+    expect(details.countingRoundIds).toEqual([])
+  })
+
+  it('should ignore low differentials older than the 20 most recent', () => {
+    // Ten excellent old rounds followed by 20 rounds at 15.0
+    const rounds = buildRounds([...Array(10).fill(2.0), ...Array(20).fill(15.0)])
+    const details = calculateHandicapIndexDetails(rounds)
+
+    expect(details.handicapIndex).toBe(15.0)
+    expect(details.countingRoundIds.every(id => id > 10)).toBe(true)
+  })
+
+  it('should apply caps once the scoring record is full', () => {
+    const details = calculateHandicapIndexDetails(buildRounds(Array(20).fill(18.0)), 10.0)
+
+    expect(details.uncappedHandicapIndex).toBe(18.0)
+    expect(details.handicapIndex).toBe(15.0)
+    expect(details.capApplied).toBe('hard')
+    expect(details.lowHandicapIndex).toBe(10.0)
+  })
+
+  it('should not apply caps before 20 scores', () => {
+    const details = calculateHandicapIndexDetails(buildRounds(Array(19).fill(18.0)), 10.0)
+
+    expect(details.handicapIndex).toBe(18.0)
+    expect(details.capApplied).toBeNull()
+    expect(details.lowHandicapIndex).toBeNull()
+  })
+
+  it('should lower the index by an Exceptional Score Reduction', () => {
+    const rounds = buildRounds(Array(20).fill(15.0))
+    const withoutEsr = calculateHandicapIndexDetails(rounds)
+
+    rounds[19].exceptionalScoreAdjustment = -1
+    const withEsr = calculateHandicapIndexDetails(rounds)
+
+    expect(withoutEsr.handicapIndex).toBe(15.0)
+    expect(withEsr.handicapIndex).toBe(14.0)
+    expect(Object.keys(withEsr.exceptionalScoreAdjustments)).toHaveLength(20)
+  })
+
+  it('should report the 8 lowest of the last 20 as counting', () => {
+    const differentials = Array.from({ length: 20 }, (_, i) => 10.0 + i)
+    const details = calculateHandicapIndexDetails(buildRounds(differentials))
+
+    expect(details.countingRoundIds).toHaveLength(8)
+    expect([...details.countingRoundIds].sort((a, b) => a - b)).toEqual([1, 2, 3, 4, 5, 6, 7, 8])
+    // (10 + 11 + ... + 17) / 8 = 13.5
+    expect(details.handicapIndex).toBe(13.5)
+  })
+})
+
+describe('findLowHandicapIndex', () => {
+  const asOf = new Date('2024-12-31')
+
+  it('should return the lowest index within 365 days', () => {
+    const history = [
+      { handicapIndex: 12.4, effectiveDate: new Date('2024-03-01') },
+      { handicapIndex: 10.1, effectiveDate: new Date('2024-06-15') },
+      { handicapIndex: 11.8, effectiveDate: new Date('2024-12-01') },
+    ]
+    expect(findLowHandicapIndex(history, asOf)).toBe(10.1)
+  })
+
+  it('should ignore history older than 365 days or after the date', () => {
+    const history = [
+      { handicapIndex: 6.0, effectiveDate: new Date('2023-11-01') },
+      { handicapIndex: 5.0, effectiveDate: new Date('2025-01-15') },
+      { handicapIndex: 11.8, effectiveDate: new Date('2024-12-01') },
+    ]
+    expect(findLowHandicapIndex(history, asOf)).toBe(11.8)
+  })
+
+  it('should return null without history in the window', () => {
+    expect(findLowHandicapIndex([], asOf)).toBeNull()
+  })
+})
+
+describe('buildHandicapTimeline', () => {
+  const revision = (handicapIndex: number, effectiveDate: string, createdAt: string) => ({
+    handicapIndex,
+    effectiveDate: new Date(effectiveDate),
+    createdAt: new Date(createdAt),
+  })
+
+  it('should order revisions by effective date', () => {
+    const timeline = buildHandicapTimeline([
+      revision(12.0, '2024-03-01', '2024-03-01T18:00:00Z'),
+      revision(14.0, '2024-01-01', '2024-01-01T18:00:00Z'),
+    ])
+    expect(timeline.map(r => r.handicapIndex)).toEqual([14.0, 12.0])
+  })
+
+  it('should keep the latest recorded revision for each day', () => {
+    const timeline = buildHandicapTimeline([
+      revision(12.0, '2024-03-01', '2024-03-01T18:00:00Z'),
+      revision(11.5, '2024-03-01', '2024-03-02T09:00:00Z'),
+    ])
+    expect(timeline).toHaveLength(1)
+    expect(timeline[0].handicapIndex).toBe(11.5)
+  })
+})
+
+describe('findRevisionOnDate', () => {
+  const timeline = [
+    { handicapIndex: 14.0, effectiveDate: new Date('2024-01-01T00:00:00Z') },
+    { handicapIndex: 12.0, effectiveDate: new Date('2024-03-01T00:00:00Z') },
+  ]
+
+  it('should return the revision in effect on the date', () => {
+    expect(findRevisionOnDate(timeline, new Date('2024-02-15'))?.handicapIndex).toBe(14.0)
+  })
+
+  it('should include revisions that took effect on the date itself', () => {
+    expect(findRevisionOnDate(timeline, new Date('2024-03-01'))?.handicapIndex).toBe(12.0)
+  })
+
+  it('should return null before the first revision', () => {
+    expect(findRevisionOnDate(timeline, new Date('2023-12-31'))).toBeNull()
+  })
+})
+
+describe('applyHandicapCaps', () => {
+  it('should not cap without a Low Handicap Index', () => {
+    expect(applyHandicapCaps(20.0, null)).toEqual({ handicapIndex: 20.0, capApplied: null })
+  })
+
+  it('should not cap an increase of 3.0 or less', () => {
+    expect(applyHandicapCaps(13.0, 10.0)).toEqual({ handicapIndex: 13.0, capApplied: null })
+  })
+
+  it('should halve the increase above 3.0 (soft cap)', () => {
+    // 10.0 + 3.0 + (14.0 − 13.0) / 2 = 13.5
+    expect(applyHandicapCaps(14.0, 10.0)).toEqual({ handicapIndex: 13.5, capApplied: 'soft' })
+  })
+
+  it('should limit the increase to 5.0 (hard cap)', () => {
+    // Soft cap would give 10.0 + 3.0 + 9.0 / 2 = 17.5, hard cap limits to 15.0
+    expect(applyHandicapCaps(22.0, 10.0)).toEqual({ handicapIndex: 15.0, capApplied: 'hard' })
+  })
+})
+
+describe('calculateExceptionalScoreReduction', () => {
+  it('should return 0 for a differential less than 7.0 below the index', () => {
+    expect(calculateExceptionalScoreReduction(8.1, 15.0)).toBe(0)
+  })
+
+  it('should return -1 for a differential 7.0 to 9.9 below the index', () => {
+    expect(calculateExceptionalScoreReduction(8.0, 15.0)).toBe(-1)
+    expect(calculateExceptionalScoreReduction(5.1, 15.0)).toBe(-1)
+  })
+
+  it('should return -2 for a differential 10.0 or more below the index', () => {
+    expect(calculateExceptionalScoreReduction(5.0, 15.0)).toBe(-2)
+    expect(calculateExceptionalScoreReduction(-1.0, 15.0)).toBe(-2)
+  })
+
+  it('should return 0 without an index or differential', () => {
+    expect(calculateExceptionalScoreReduction(2.0, null)).toBe(0)
+    expect(calculateExceptionalScoreReduction(null, 15.0)).toBe(0)
+  })
+})
+
+describe('calculateExceptionalScoreAdjustments', () => {
+  it('should apply the reduction to the exceptional round and the 19 before it', () => {
+    const rounds = buildRounds(Array(25).fill(15.0))
+    rounds[24].exceptionalScoreAdjustment = -1 // Newest round (id 25)
+
+    const adjustments = calculateExceptionalScoreAdjustments(rounds)
+
+    expect(Object.keys(adjustments)).toHaveLength(20)
+    expect(adjustments[25]).toBe(-1)
+    expect(adjustments[6]).toBe(-1)
+    expect(adjustments[5]).toBeUndefined()
+  })
+
+  it('should not affect rounds posted after the exceptional round', () => {
+    const rounds = buildRounds(Array(5).fill(15.0))
+    rounds[2].exceptionalScoreAdjustment = -2 // id 3
+
+    const adjustments = calculateExceptionalScoreAdjustments(rounds)
+
+    expect(adjustments[4]).toBeUndefined()
+    expect(adjustments[5]).toBeUndefined()
+    expect(adjustments[3]).toBe(-2)
+    expect(adjustments[1]).toBe(-2)
+  })
+
+  it('should accumulate overlapping reductions', () => {
+    const rounds = buildRounds(Array(3).fill(15.0))
+    rounds[1].exceptionalScoreAdjustment = -1
+    rounds[2].exceptionalScoreAdjustment = -1
+
+    const adjustments = calculateExceptionalScoreAdjustments(rounds)
+
+    expect(adjustments[1]).toBe(-2)
+    expect(adjustments[2]).toBe(-2)
+    expect(adjustments[3]).toBe(-1)
+  })
+})
+
+describe('calculateCourseHandicap', () => {
+  it('should equal the index on a neutral course', () => {
+    expect(calculateCourseHandicap(10.0, 113, 72.0, 72)).toBe(10)
+  })
+
+  it('should scale by slope and adjust for rating minus par', () => {
+    // 15.2 × (135 / 113) + (73.1 − 72) = 18.16 + 1.1 = 19.26 → 19
+    expect(calculateCourseHandicap(15.2, 135, 73.1, 72)).toBe(19)
+  })
+
+  it('should return a negative course handicap for a plus index', () => {
+    // +2.0 index on a course rated at par with slope 113
+    expect(calculateCourseHandicap(-2.0, 113, 72.0, 72)).toBe(-2)
+  })
+})
+
+describe('calculatePlayingHandicap', () => {
+  it('should apply the stroke play allowance', () => {
+    // 20 × 95% = 19
+    expect(calculatePlayingHandicap(20, HANDICAP_ALLOWANCES['stroke-play'])).toBe(19)
+  })
+
+  it('should apply the four-ball allowance', () => {
+    // 15 × 85% = 12.75 → 13
+    expect(calculatePlayingHandicap(15, HANDICAP_ALLOWANCES['four-ball-stroke-play'])).toBe(13)
+  })
+
+  it('should keep a plus course handicap negative', () => {
+    expect(calculatePlayingHandicap(-3, 95)).toBe(-3)
+  })
+})
+
+describe('calculateTeeHandicap', () => {
+  const tee = {
+    course_rating: 73.1,
+    slope_rating: 135,
+    par_total: 72,
+    holes: Array.from({ length: 18 }, (_, i) => ({ par: 4, yardage: 400, handicap: 18 - i })),
+  }
+
+  it('should return course and playing handicap for the tee', () => {
+    const result = calculateTeeHandicap(15.2, tee, 95)
+    expect(result.courseHandicap).toBe(19)
+    expect(result.playingHandicap).toBe(18)
+    expect(result.allowance).toBe(95)
+  })
+
+  it('should allocate strokes from the hole handicap values', () => {
+    // Playing handicap 19: one stroke everywhere plus a second on stroke index 1 (hole 18)
+    const result = calculateTeeHandicap(15.2, tee)
+    expect(result.strokesPerHole[17]).toBe(2)
+    expect(result.strokesPerHole.slice(0, 17).every(s => s === 1)).toBe(true)
+  })
+})
+
+describe('allocateHandicapStrokes', () => {
+  it('should give one stroke on the hardest holes', () => {
+    const strokes = allocateHandicapStrokes(buildHoles(Array(18).fill(5)), 4)
+    expect(strokes.slice(0, 4)).toEqual([1, 1, 1, 1])
+    expect(strokes.slice(4).every(s => s === 0)).toBe(true)
+  })
+
+  it('should give two strokes on the hardest holes above 18', () => {
+    const strokes = allocateHandicapStrokes(buildHoles(Array(18).fill(5)), 20)
+    expect(strokes[0]).toBe(2)
+    expect(strokes[1]).toBe(2)
+    expect(strokes[2]).toBe(1)
+    expect(strokes[17]).toBe(1)
+  })
+
+  it('should rank holes by stroke index rather than hole number', () => {
+    const holes = [
+      { holeNumber: 1, par: 4, score: 5, handicap: 9 },
+      { holeNumber: 2, par: 4, score: 5, handicap: 1 },
+      { holeNumber: 3, par: 4, score: 5, handicap: 5 },
+    ]
+    expect(allocateHandicapStrokes(holes, 1)).toEqual([0, 1, 0])
+  })
+
+  it('should give no strokes for a zero course handicap', () => {
+    expect(allocateHandicapStrokes(buildHoles([5, 5]), 0)).toEqual([0, 0])
+  })
+
+  it('should give strokes back on the easiest holes for a plus handicap', () => {
+    const strokes = allocateHandicapStrokes(buildHoles(Array(18).fill(4)), -2)
+    expect(strokes[17]).toBe(-1)
+    expect(strokes[16]).toBe(-1)
+    expect(strokes.slice(0, 16).every(s => s === 0)).toBe(true)
+  })
+})
+
+describe('formatHandicapIndex', () => {
+  it('should format a regular index to one decimal place', () => {
+    expect(formatHandicapIndex(12.4)).toBe('12.4')
+    expect(formatHandicapIndex(0)).toBe('0.0')
+  })
+
+  it('should show a plus handicap with a leading plus sign', () => {
+    expect(formatHandicapIndex(-1.4)).toBe('+1.4')
+  })
+
+  it('should return N/A without an index', () => {
+    expect(formatHandicapIndex(null)).toBe('N/A')
+  })
+})
+
+describe('calculateMaxHoleScore', () => {
+  it('should return net double bogey when strokes are known', () => {
+    expect(calculateMaxHoleScore(4, 0)).toBe(6)
+    expect(calculateMaxHoleScore(4, 1)).toBe(7)
+    expect(calculateMaxHoleScore(5, 2)).toBe(9)
+  })
+
+  it('should lower net double bogey where a plus player gives a stroke back', () => {
+    expect(calculateMaxHoleScore(4, -1)).toBe(5)
+  })
+
+  it('should return par + 5 without an established index', () => {
+    expect(calculateMaxHoleScore(4, null)).toBe(9)
+    expect(calculateMaxHoleScore(3, null)).toBe(8)
+  })
+})
+
+describe('calculateAdjustedGrossScore', () => {
+  it('should leave a round without blow-up holes unchanged', () => {
+    const holes = buildHoles(Array(18).fill(5))
+    expect(calculateAdjustedGrossScore(holes, 10)).toBe(90)
+  })
+
+  it('should cap a blow-up hole at net double bogey', () => {
+    // Hole 18 (stroke index 18) gets no stroke with course handicap 10 → max 6
+    const scores = Array(18).fill(5)
+    scores[17] = 11
+    expect(calculateAdjustedGrossScore(buildHoles(scores), 10)).toBe(85 + 6)
+  })
+
+  it('should include handicap strokes in the cap', () => {
+    // Hole 1 (stroke index 1) gets a stroke with course handicap 10 → max 7
+    const scores = Array(18).fill(5)
+    scores[0] = 10
+    expect(calculateAdjustedGrossScore(buildHoles(scores), 10)).toBe(85 + 7)
+  })
+
+  it('should cap at par + 5 without a course handicap', () => {
+    const scores = Array(18).fill(5)
+    scores[0] = 12
+    expect(calculateAdjustedGrossScore(buildHoles(scores), null)).toBe(85 + 9)
+  })
+
+  it('should ignore holes without a score', () => {
+    const scores = Array(18).fill(0)
+    scores[0] = 5
+    scores[1] = 4
+    expect(calculateAdjustedGrossScore(buildHoles(scores), 10)).toBe(9)
+  })
+})
+
+describe('calculateRoundAdjustedGrossScore', () => {
+  it('should use the gross score when there is no hole-by-hole data', () => {
+    const ags = calculateRoundAdjustedGrossScore(
+      { score: 95, holeByHoleData: null, courseRating: 72.0, slopeRating: 113 },
+      10.0
+    )
+    expect(ags).toBe(95)
+  })
+
+  it('should derive the course handicap from the index and ratings', () => {
+    const scores = Array(18).fill(5)
+    scores[17] = 12
+    const ags = calculateRoundAdjustedGrossScore(
+      { score: 97, holeByHoleData: buildHoles(scores), courseRating: 72.0, slopeRating: 113 },
+      10.0
+    )
+    // Course handicap 10 → hole 18 capped at 6
+    expect(ags).toBe(91)
+  })
+
+  it('should fall back to par + 5 without a handicap index', () => {
+    const scores = Array(18).fill(5)
+    scores[17] = 12
+    const ags = calculateRoundAdjustedGrossScore(
+      { score: 97, holeByHoleData: buildHoles(scores), courseRating: 72.0, slopeRating: 113 },
+      null
+    )
+    expect(ags).toBe(94)
+  })
+
+  it('should use half the index for a 9-hole round', () => {
+    // Index 10.0 → 9-hole course handicap 5 on stroke index 1-9; hole 9 gets no stroke
+    const scores = Array(9).fill(5)
+    scores[8] = 10
+    const ags = calculateRoundAdjustedGrossScore(
+      { score: 50, holeByHoleData: buildHoles(scores), courseRating: 36.0, slopeRating: 113 },
+      10.0
+    )
+    expect(ags).toBe(46)
+  })
+})
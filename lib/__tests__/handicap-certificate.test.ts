@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeAll } from 'vitest'
+import {
+  createCertificateToken,
+  verifyCertificateToken,
+  renderHandicapCertificatePdf,
+  HandicapCertificate,
+} from '../handicap-certificate'
+
+beforeAll(() => {
+  process.env.AUTH_SECRET = 'test-secret'
+})
+
+describe('certificate tokens', () => {
+  const now = new Date('2024-06-01T00:00:00Z')
+  const expiresAt = new Date('2024-07-01T00:00:00Z')
+  const certificate = {
+    player: { id: 42, name: 'Test Player' },
+    handicapIndex: -1.4,
+    lowHandicapIndex: -2.0,
+    capApplied: null,
+    revisionDate: '2024-05-01T00:00:00.000Z',
+    generatedAt: '2024-06-01T00:00:00.000Z',
+    scores: [],
+  }
+
+  it('should verify a token it signed with the certified figures', () => {
+    const token = createCertificateToken(certificate, expiresAt)
+
+    expect(verifyCertificateToken(token, now)).toEqual({
+      userId: 42,
+      handicapIndex: -1.4,
+      revisionDate: '2024-05-01T00:00:00.000Z',
+      expiresAt,
+    })
+  })
+
+  it('should sign a certificate without an index', () => {
+    const token = createCertificateToken({ ...certificate, handicapIndex: null, revisionDate: null }, expiresAt)
+
+    expect(verifyCertificateToken(token, now)).toMatchObject({ handicapIndex: null, revisionDate: null })
+  })
+
+  it('should reject an expired token', () => {
+    const token = createCertificateToken(certificate, expiresAt)
+
+    expect(verifyCertificateToken(token, new Date('2024-07-02T00:00:00Z'))).toBeNull()
+  })
+
+  it('should reject a token with altered figures', () => {
+    const [payload, signature] = createCertificateToken(certificate, expiresAt).split('.')
+    const figures = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))
+    const altered = (changes: object) =>
+      `${Buffer.from(JSON.stringify({ ...figures, ...changes })).toString('base64url')}.${signature}`
+
+    expect(verifyCertificateToken(altered({ userId: 43 }), now)).toBeNull()
+    expect(verifyCertificateToken(altered({ handicapIndex: -5.0 }), now)).toBeNull()
+    expect(verifyCertificateToken(altered({ expiry: figures.expiry + 1 }), now)).toBeNull()
+  })
+
+  it('should reject malformed tokens', () => {
+    expect(verifyCertificateToken('', now)).toBeNull()
+    expect(verifyCertificateToken('42', now)).toBeNull()
+    expect(verifyCertificateToken('abc.def.ghi', now)).toBeNull()
+  })
+})
+
+describe('renderHandicapCertificatePdf', () => {
+  const certificate: HandicapCertificate = {
+    player: { id: 1, name: 'Test (Player)' },
+    handicapIndex: -1.4,
+    lowHandicapIndex: -2.0,
+    capApplied: null,
+    revisionDate: '2024-05-01T00:00:00.000Z',
+    generatedAt: '2024-06-01T00:00:00.000Z',
+    scores: [
+      {
+        id: 1,
+        datePlayed: '2024-05-01T00:00:00.000Z',
+        courseName: 'Pebble Beach',
+        score: 71,
+        courseRating: 72.5,
+        slopeRating: 135,
+        handicapDifferential: -1.3,
+        exceptionalScoreAdjustment: 0,
+        counting: true,
+      },
+    ],
+  }
+
+  it('should produce a PDF with the index, scores and verification link', () => {
+    const pdf = renderHandicapCertificatePdf(
+      certificate,
+      'https://example.com/certificates/token',
+      new Date('2024-07-01T00:00:00Z')
+    ).toString('latin1')
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true)
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true)
+    expect(pdf).toContain('(+1.4)')
+    expect(pdf).toContain('(Pebble Beach)')
+    expect(pdf).toContain('(https://example.com/certificates/token)')
+  })
+
+  it('should wrap a long verification link across lines and make it clickable', () => {
+    const url = `https://example.com/certificates/${'a'.repeat(200)}`
+    const pdf = renderHandicapCertificatePdf(certificate, url, new Date('2024-07-01T00:00:00Z')).toString('latin1')
+
+    // 8pt Courier fits 106 characters in the 512pt between the margins
+    const printed = [...pdf.matchAll(/\/F3 8 Tf 50 \d+ Td \((.*)\) Tj/g)].map(m => m[1])
+    expect(printed.map(line => line.length)).toEqual([106, 106, 21])
+    expect(printed.join('')).toBe(url)
+    expect(pdf).toContain(`/Subtype /Link /Rect [50 35 562 65] /Border [0 0 0] /A << /S /URI /URI (${url}) >>`)
+    expect(pdf).toContain('/Annots [8 0 R]')
+  })
+
+  it('should escape PDF string delimiters', () => {
+    const pdf = renderHandicapCertificatePdf(certificate, 'https://example.com', new Date()).toString('latin1')
+
+    expect(pdf).toContain('(Test \\(Player\\))')
+  })
+
+  it('should point the cross-reference table at each object', () => {
+    const pdf = renderHandicapCertificatePdf(certificate, 'https://example.com', new Date()).toString('latin1')
+    const startxref = parseInt(pdf.match(/startxref\n(\d+)/)![1])
+    const offsets = [...pdf.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm)].map(m => parseInt(m[1]))
+
+    offsets.forEach((offset, i) => {
+      expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { getLowHandicapIndex, recalculatePlayerHandicap } from '../handicap-history'
+import {
+  mockPrismaHandicapRevision,
+  mockPrismaRound,
+  mockPrismaUser,
+  resetMocks,
+} from '../../app/api/__tests__/mocks/prisma'
+
+function round(id: number, datePlayed: string, handicapDifferential: number) {
+  return {
+    id,
+    score: 85,
+    courseRating: 72,
+    slopeRating: 113,
+    handicapDifferential,
+    datePlayed: new Date(datePlayed),
+    createdAt: new Date(datePlayed),
+    exceptionalScoreAdjustment: null,
+    ineligibleReasons: [],
+  }
+}
+
+describe('getLowHandicapIndex', () => {
+  beforeEach(() => {
+    resetMocks()
+  })
+
+  it('should ignore revisions replaced later the same day', async () => {
+    mockPrismaHandicapRevision.findMany.mockResolvedValue([
+      { handicapIndex: 13.0, effectiveDate: new Date('2026-04-01'), createdAt: new Date('2026-04-01T18:00:00Z') },
+      // A mistyped score, corrected the same day
+      { handicapIndex: 6.2, effectiveDate: new Date('2026-05-01'), createdAt: new Date('2026-05-01T18:00:00Z') },
+      { handicapIndex: 12.0, effectiveDate: new Date('2026-05-01'), createdAt: new Date('2026-05-01T19:00:00Z') },
+    ])
+
+    expect(await getLowHandicapIndex(1, new Date('2026-06-01'))).toBe(12.0)
+  })
+})
+
+describe('recalculatePlayerHandicap', () => {
+  beforeEach(() => {
+    resetMocks()
+    mockPrismaHandicapRevision.findMany.mockResolvedValue([])
+    mockPrismaUser.findUnique.mockResolvedValue({ handicapIndexOverride: false })
+  })
+
+  it('should drop revisions dated after the newest remaining score', async () => {
+    mockPrismaRound.findMany.mockResolvedValue([
+      round(1, '2026-05-01', 12.0),
+      round(2, '2026-05-08', 14.0),
+      round(3, '2026-05-15', 13.0),
+    ])
+
+    await recalculatePlayerHandicap(1)
+
+    expect(mockPrismaHandicapRevision.deleteMany).toHaveBeenCalledWith({
+      where: { userId: 1, effectiveDate: { gt: new Date('2026-05-15') } },
+    })
+    expect(mockPrismaHandicapRevision.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ effectiveDate: new Date('2026-05-15') }),
+    })
+  })
+
+  it('should not record a revision when the latest one matches', async () => {
+    mockPrismaRound.findMany.mockResolvedValue([
+      round(1, '2026-05-01', 12.0),
+      round(2, '2026-05-08', 14.0),
+      round(3, '2026-05-15', 13.0),
+    ])
+
+    await recalculatePlayerHandicap(1)
+    const [{ data }] = mockPrismaHandicapRevision.create.mock.calls[0]
+    mockPrismaHandicapRevision.findFirst.mockResolvedValue({ ...data, id: 1, createdAt: new Date() })
+
+    await recalculatePlayerHandicap(1)
+
+    expect(mockPrismaHandicapRevision.create).toHaveBeenCalledTimes(1)
+    expect(mockPrismaHandicapRevision.findFirst).toHaveBeenCalledWith({
+      where: { userId: 1 },
+      orderBy: [{ effectiveDate: 'desc' }, { createdAt: 'desc' }],
+    })
+  })
+
+  it('should drop every revision when no scores remain', async () => {
+    mockPrismaRound.findMany.mockResolvedValue([])
+
+    await recalculatePlayerHandicap(1)
+
+    expect(mockPrismaHandicapRevision.deleteMany).toHaveBeenCalledWith({ where: { userId: 1 } })
+    expect(mockPrismaHandicapRevision.create).not.toHaveBeenCalled()
+    expect(mockPrismaUser.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: { rounds: 0, handicapIndex: null },
+    })
+  })
+})
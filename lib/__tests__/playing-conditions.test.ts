@@ -0,0 +1,39 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { recalculatePlayingConditions } from '../playing-conditions'
+import { mockPrismaRound, mockPrismaTeeSet, resetMocks } from '../../app/api/__tests__/mocks/prisma'
+
+vi.mock('@/lib/handicap-history', () => ({
+  getHandicapIndexBefore: vi.fn().mockResolvedValue(null),
+}))
+
+describe('Playing Conditions', () => {
+  describe('recalculatePlayingConditions', () => {
+    const datePlayed = new Date('2026-06-01T15:30:00Z')
+    const day = { gte: new Date('2026-06-01T00:00:00Z'), lt: new Date('2026-06-02T00:00:00Z') }
+
+    beforeEach(() => {
+      resetMocks()
+      mockPrismaRound.findMany.mockResolvedValue([])
+    })
+
+    it("should group rounds from a catalog tee by the tee's course", async () => {
+      mockPrismaTeeSet.findUnique.mockResolvedValue({ courseId: 3 })
+
+      await recalculatePlayingConditions({ courseName: 'Pebble', teeSetId: 10, datePlayed })
+
+      expect(mockPrismaTeeSet.findUnique).toHaveBeenCalledWith({ where: { id: 10 }, select: { courseId: true } })
+      expect(mockPrismaRound.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { teeSet: { courseId: 3 }, datePlayed: day },
+      }))
+    })
+
+    it('should fall back to the course name for rounds without a tee', async () => {
+      await recalculatePlayingConditions({ courseName: 'Pebble Beach', teeSetId: null, datePlayed })
+
+      expect(mockPrismaTeeSet.findUnique).not.toHaveBeenCalled()
+      expect(mockPrismaRound.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { teeSetId: null, courseName: 'Pebble Beach', datePlayed: day },
+      }))
+    })
+  })
+})
@@ -1,5 +1,11 @@
 import { describe, it, expect } from 'vitest'
-import { getScoreClass, formatStatistic, getScoreName } from '../scorecard-utils'
+import {
+  getScoreClass,
+  formatStatistic,
+  getScoreName,
+  getScoreDistributionCategory,
+  calculateScoreDistribution,
+} from '../scorecard-utils'
 
 describe('getScoreClass', () => {
   it('should return score-eagle for eagle or better', () => {
@@ -134,3 +140,64 @@ describe('getScoreName', () => {
     expect(getScoreName(0, 4)).toBe('No Score')
   })
 })
+
+describe('getScoreDistributionCategory', () => {
+  it('should group albatrosses with eagles', () => {
+    expect(getScoreDistributionCategory(3, 5)).toBe('EAGLE')
+    expect(getScoreDistributionCategory(2, 5)).toBe('EAGLE')
+  })
+
+  it('should group triple bogeys and worse as others', () => {
+    expect(getScoreDistributionCategory(6, 4)).toBe('DOUBLE_BOGEY')
+    expect(getScoreDistributionCategory(7, 4)).toBe('OTHER')
+    expect(getScoreDistributionCategory(9, 4)).toBe('OTHER')
+  })
+
+  it('should return null for null or zero score', () => {
+    expect(getScoreDistributionCategory(null, 4)).toBeNull()
+    expect(getScoreDistributionCategory(0, 4)).toBeNull()
+  })
+})
+
+describe('calculateScoreDistribution', () => {
+  it('should count and percentage scores by category', () => {
+    const distribution = calculateScoreDistribution([
+      { par: 5, score: 3 },
+      { par: 4, score: 3 },
+      { par: 4, score: 4 },
+      { par: 4, score: 4 },
+      { par: 3, score: 4 },
+      { par: 4, score: 6 },
+      { par: 4, score: 8 },
+      { par: 4, score: 0 },
+    ])
+
+    expect(distribution.holes).toBe(7)
+    expect(distribution.counts).toEqual({ EAGLE: 1, BIRDIE: 1, PAR: 2, BOGEY: 1, DOUBLE_BOGEY: 1, OTHER: 1 })
+    expect(distribution.percentages.PAR).toBe(28.6)
+    expect(distribution.percentages.OTHER).toBe(14.3)
+    expect(distribution.bogeyAvoidance).toBe(57.1)
+  })
+
+  it('should convert birdies on greens in regulation only', () => {
+    const distribution = calculateScoreDistribution([
+      { par: 4, score: 3, greenInRegulation: true },
+      { par: 4, score: 4, greenInRegulation: true },
+      { par: 4, score: 4, greenInRegulation: true },
+      { par: 4, score: 3, greenInRegulation: false }, // Chip-in birdie
+      { par: 4, score: 5, greenInRegulation: null },
+    ])
+
+    expect(distribution.girHoles).toBe(3)
+    expect(distribution.birdieConversion).toBe(33.3)
+  })
+
+  it('should return zeros with no scored holes', () => {
+    const distribution = calculateScoreDistribution([])
+
+    expect(distribution.holes).toBe(0)
+    expect(distribution.bogeyAvoidance).toBe(0)
+    expect(distribution.birdieConversion).toBe(0)
+    expect(distribution.percentages.PAR).toBe(0)
+  })
+})
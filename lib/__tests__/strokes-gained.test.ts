@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateHoleStrokesGained,
+  calculatePuttingStats,
+  calculateStrokesGained,
+  calculateStrokesGainedPutting,
+  feetToMeters,
+  getExpectedPutts,
+  getExpectedStrokes,
+  getStrokesGainedCategory,
+  metersToFeet,
+  type ShotData,
+} from '../strokes-gained'
+
+describe('getExpectedPutts', () => {
+  it('should return baseline values at table distances', () => {
+    expect(getExpectedPutts(3)).toBe(1.04)
+    expect(getExpectedPutts(10)).toBe(1.61)
+  })
+
+  it('should interpolate between table distances', () => {
+    // Halfway between 10 ft (1.61) and 15 ft (1.78)
+    expect(getExpectedPutts(12.5)).toBeCloseTo(1.695)
+  })
+
+  it('should clamp to the shortest and longest distances', () => {
+    expect(getExpectedPutts(0.5)).toBe(1.0)
+    expect(getExpectedPutts(150)).toBe(2.4)
+  })
+})
+
+describe('calculateStrokesGainedPutting', () => {
+  it('should gain strokes for holing a long putt and lose them for three-putting', () => {
+    expect(calculateStrokesGainedPutting(20, 1)).toBeCloseTo(0.87)
+    expect(calculateStrokesGainedPutting(6, 3)).toBeCloseTo(-1.66)
+  })
+})
+
+describe('calculatePuttingStats', () => {
+  it('should total strokes gained and make percentages by distance', () => {
+    const stats = calculatePuttingStats([
+      { putts: 1, firstPuttDistance: 2 },
+      { putts: 2, firstPuttDistance: 2.5 },
+      { putts: 1, firstPuttDistance: 8 },
+      { putts: 2, firstPuttDistance: 30 },
+      { putts: 3, firstPuttDistance: 45 },
+    ])
+
+    expect(stats.holes).toBe(5)
+    expect(stats.strokesGained).toBeCloseTo(-1.38, 1)
+    expect(stats.buckets.map((bucket) => bucket.label)).toEqual(['0-3 ft', '3-6 ft', '6-10 ft', '10-20 ft', '20+ ft'])
+    expect(stats.buckets[0]).toMatchObject({ attempts: 2, made: 1, makePercentage: 50 })
+    expect(stats.buckets[2]).toMatchObject({ attempts: 1, made: 1, makePercentage: 100, strokesGained: 0.5 })
+    expect(stats.buckets[4]).toMatchObject({ attempts: 2, made: 0, makePercentage: 0 })
+  })
+
+  it('should put a putt on a bucket boundary in the longer bucket', () => {
+    const stats = calculatePuttingStats([{ putts: 1, firstPuttDistance: 3 }])
+
+    expect(stats.buckets[0].attempts).toBe(0)
+    expect(stats.buckets[1].attempts).toBe(1)
+  })
+
+  it('should skip holes without a distance and chip-ins', () => {
+    const stats = calculatePuttingStats([
+      { putts: 2 },
+      { putts: 2, firstPuttDistance: null },
+      { putts: 0, firstPuttDistance: 10 },
+    ])
+
+    expect(stats.holes).toBe(0)
+    expect(stats.strokesGained).toBe(0)
+  })
+})
+
+describe('unit conversion', () => {
+  it('should convert between meters and feet', () => {
+    expect(metersToFeet(3)).toBeCloseTo(9.84)
+    expect(feetToMeters(metersToFeet(2.5))).toBeCloseTo(2.5)
+  })
+})
+
+describe('getExpectedStrokes', () => {
+  it('should use the baseline for the lie, in feet on the green', () => {
+    expect(getExpectedStrokes('TEE', 400)).toBe(3.99)
+    expect(getExpectedStrokes('FAIRWAY', 150)).toBeCloseTo(2.945)
+    expect(getExpectedStrokes('SAND', 20)).toBe(2.53)
+    expect(getExpectedStrokes('GREEN', 20)).toBe(1.87)
+  })
+})
+
+describe('getStrokesGainedCategory', () => {
+  it('should split shots into tee, approach, around the green and putting', () => {
+    expect(getStrokesGainedCategory({ lie: 'TEE', distance: 400, result: 'IN_PLAY' }, 4)).toBe('OFF_THE_TEE')
+    expect(getStrokesGainedCategory({ lie: 'TEE', distance: 170, result: 'IN_PLAY' }, 3)).toBe('APPROACH')
+    expect(getStrokesGainedCategory({ lie: 'ROUGH', distance: 120, result: 'IN_PLAY' }, 4)).toBe('APPROACH')
+    expect(getStrokesGainedCategory({ lie: 'SAND', distance: 15, result: 'IN_PLAY' }, 4)).toBe('AROUND_THE_GREEN')
+    expect(getStrokesGainedCategory({ lie: 'GREEN', distance: 40, result: 'IN_PLAY' }, 4)).toBe('PUTTING')
+  })
+})
+
+describe('calculateHoleStrokesGained', () => {
+  const twoPuttPar: ShotData[] = [
+    { lie: 'TEE', distance: 400, result: 'IN_PLAY' },
+    { lie: 'FAIRWAY', distance: 150, result: 'IN_PLAY' },
+    { lie: 'GREEN', distance: 20, result: 'IN_PLAY' },
+    { lie: 'GREEN', distance: 3, result: 'HOLED' },
+  ]
+
+  it('should credit each category with the shots played from it', () => {
+    const strokesGained = calculateHoleStrokesGained(4, twoPuttPar)
+
+    // Tee 3.99 -> fairway 2.945 -> 20 ft 1.87 -> 3 ft 1.04 -> holed
+    expect(strokesGained?.total).toBeCloseTo(-0.01)
+    expect(strokesGained?.byCategory.OFF_THE_TEE).toBeCloseTo(0.045, 1)
+    expect(strokesGained?.byCategory.APPROACH).toBeCloseTo(0.075, 1)
+    expect(strokesGained?.byCategory.AROUND_THE_GREEN).toBe(0)
+    expect(strokesGained?.byCategory.PUTTING).toBeCloseTo(-0.13)
+  })
+
+  it('should charge a penalty stroke to the shot that caused it', () => {
+    const strokesGained = calculateHoleStrokesGained(4, [
+      { lie: 'TEE', distance: 400, result: 'PENALTY' },
+      ...twoPuttPar,
+    ])
+
+    expect(strokesGained?.byCategory.OFF_THE_TEE).toBeCloseTo(-1.95)
+    expect(strokesGained?.total).toBeCloseTo(-2.01)
+  })
+
+  it('should return null until the last shot is holed', () => {
+    expect(calculateHoleStrokesGained(4, twoPuttPar.slice(0, 3))).toBeNull()
+    expect(calculateHoleStrokesGained(4, [])).toBeNull()
+  })
+})
+
+describe('calculateStrokesGained', () => {
+  it('should total the holes with a complete shot record', () => {
+    const strokesGained = calculateStrokesGained([
+      {
+        par: 3,
+        shots: [
+          { lie: 'TEE', distance: 160, result: 'IN_PLAY' },
+          { lie: 'SAND', distance: 20, result: 'IN_PLAY' },
+          { lie: 'GREEN', distance: 8, result: 'HOLED' },
+        ],
+      },
+      { par: 4, shots: [{ lie: 'TEE', distance: 400, result: 'IN_PLAY' }] },
+      { par: 5 },
+    ])
+
+    expect(strokesGained.holes).toBe(1)
+    expect(strokesGained.byCategory.APPROACH).toBeCloseTo(-0.54)
+    expect(strokesGained.byCategory.AROUND_THE_GREEN).toBeCloseTo(0.03)
+    expect(strokesGained.byCategory.PUTTING).toBeCloseTo(0.5)
+    expect(strokesGained.total).toBeCloseTo(-0.01)
+  })
+})
@@ -8,7 +8,6 @@ describe('Validation Schemas', () => {
         email: 'test@example.com',
         name: 'Test User',
         handicapIndex: 12.5,
-        rounds: 10,
       }
 
       const result = userSchema.safeParse(validUser)
@@ -39,6 +38,33 @@ describe('Validation Schemas', () => {
       expect(result.success).toBe(true)
     })
 
+    it('should accept a plus handicap as a negative index', () => {
+      const result = userSchema.safeParse({
+        email: 'test@example.com',
+        name: 'Test User',
+        handicapIndex: -1.4,
+      })
+      expect(result.success).toBe(true)
+    })
+
+    it('should reject a handicap index above 54.0', () => {
+      const result = userSchema.safeParse({
+        email: 'test@example.com',
+        name: 'Test User',
+        handicapIndex: 54.1,
+      })
+      expect(result.success).toBe(false)
+    })
+
+    it('should reject a plus handicap better than +10.0', () => {
+      const result = userSchema.safeParse({
+        email: 'test@example.com',
+        name: 'Test User',
+        handicapIndex: -10.1,
+      })
+      expect(result.success).toBe(false)
+    })
+
     it('should reject invalid email', () => {
       const invalidUser = {
         email: 'not-an-email',
@@ -83,26 +109,17 @@ describe('Validation Schemas', () => {
       expect(result.success).toBe(false)
     })
 
-    it('should reject negative rounds', () => {
-      const invalidUser = {
+    it('should drop the round count, which is derived from rounds', () => {
+      const result = userSchema.safeParse({
         email: 'test@example.com',
         name: 'Test User',
-        rounds: -5,
-      }
+        rounds: 5,
+      })
 
-      const result = userSchema.safeParse(invalidUser)
-      expect(result.success).toBe(false)
-    })
-
-    it('should reject non-integer rounds', () => {
-      const invalidUser = {
-        email: 'test@example.com',
-        name: 'Test User',
-        rounds: 5.5,
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data).not.toHaveProperty('rounds')
       }
-
-      const result = userSchema.safeParse(invalidUser)
-      expect(result.success).toBe(false)
     })
   })
 
@@ -112,7 +129,6 @@ describe('Validation Schemas', () => {
         email: 'new@example.com',
         name: 'New Name',
         handicapIndex: 15.0,
-        rounds: 20,
       }
 
       const result = updateUserSchema.safeParse(update)
@@ -171,13 +187,13 @@ describe('Validation Schemas', () => {
       expect(result.success).toBe(false)
     })
 
-    it('should reject negative rounds in update', () => {
-      const update = {
-        rounds: -10,
-      }
+    it('should drop the round count in update', () => {
+      const result = updateUserSchema.safeParse({ rounds: 10 })
 
-      const result = updateUserSchema.safeParse(update)
-      expect(result.success).toBe(false)
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data).toEqual({})
+      }
     })
   })
 
@@ -308,7 +324,7 @@ describe('Validation Schemas', () => {
         upAndDownAttempts: 9,
         girPutts: 18,
         nonGirPutts: 14,
-        holeByHoleData: { holes: [] },
+        holeByHoleData: [],
       }
 
       const result = roundSchema.safeParse(roundWithStats)
@@ -523,6 +539,128 @@ describe('Validation Schemas', () => {
       const result = roundSchema.safeParse(roundWithNullRatings)
       expect(result.success).toBe(true)
     })
+
+    describe('holeByHoleData', () => {
+      const baseRound = {
+        userId: 1,
+        courseName: 'Test Course',
+        datePlayed: '2024-01-15T10:00:00Z',
+        score: 85,
+      }
+
+      it('should accept valid holes and drop blank optional values', () => {
+        const result = roundSchema.safeParse({
+          ...baseRound,
+          holeByHoleData: [
+            { holeNumber: 1, par: 4, score: 5, putts: 2, fairwayHit: true, yardage: 400, handicap: 7 },
+            { holeNumber: 2, par: 3, score: 3, putts: 2, fairwayHit: null, yardage: null, handicap: null },
+          ],
+        })
+
+        expect(result.success).toBe(true)
+        expect(result.data?.holeByHoleData?.[1]).toEqual({ holeNumber: 2, par: 3, score: 3, putts: 2 })
+      })
+
+      it('should require recorded shots to end holed and add up to the score', () => {
+        const shots = [
+          { lie: 'TEE', distance: 380, result: 'PENALTY' },
+          { lie: 'TEE', distance: 380, result: 'IN_PLAY' },
+          { lie: 'FAIRWAY', distance: 140, result: 'IN_PLAY' },
+          { lie: 'GREEN', distance: 15, result: 'IN_PLAY' },
+          { lie: 'GREEN', distance: 2, result: 'HOLED' },
+        ]
+        const hole = { holeNumber: 1, par: 4, score: 6, putts: 2, penalties: 1 }
+
+        expect(roundSchema.safeParse({ ...baseRound, holeByHoleData: [{ ...hole, shots }] }).success).toBe(true)
+        expect(roundSchema.safeParse({
+          ...baseRound,
+          holeByHoleData: [{ ...hole, score: 5, shots }],
+        }).success).toBe(false)
+        expect(roundSchema.safeParse({
+          ...baseRound,
+          holeByHoleData: [{ ...hole, shots: shots.map((shot) => ({ ...shot, result: 'IN_PLAY' })) }],
+        }).success).toBe(false)
+      })
+
+      it('should reject a sand save without a greenside bunker', () => {
+        const hole = { holeNumber: 1, par: 4, score: 4, putts: 1, sandSave: true }
+
+        expect(roundSchema.safeParse({ ...baseRound, holeByHoleData: [hole] }).success).toBe(false)
+        expect(roundSchema.safeParse({
+          ...baseRound,
+          holeByHoleData: [{ ...hole, greensideBunker: true, penalties: 1, penaltyType: 'UNPLAYABLE' }],
+        }).success).toBe(true)
+      })
+
+      it('should accept a recorded green result and reject unknown ones', () => {
+        const result = roundSchema.safeParse({
+          ...baseRound,
+          holeByHoleData: [
+            { holeNumber: 1, par: 4, score: 4, putts: 2, greenResult: 'FRINGE' },
+            { holeNumber: 2, par: 4, score: 4, putts: 2, greenResult: null },
+          ],
+        })
+
+        expect(result.success).toBe(true)
+        expect(result.data?.holeByHoleData?.[0].greenResult).toBe('FRINGE')
+        expect(result.data?.holeByHoleData?.[1].greenResult).toBeUndefined()
+        expect(roundSchema.safeParse({
+          ...baseRound,
+          holeByHoleData: [{ holeNumber: 1, par: 4, score: 4, putts: 2, greenResult: 'BUNKER' }],
+        }).success).toBe(false)
+      })
+
+      it('should reject holes that are not an array', () => {
+        const result = roundSchema.safeParse({ ...baseRound, holeByHoleData: { holes: [] } })
+        expect(result.success).toBe(false)
+      })
+
+      it('should reject a hole with missing fields', () => {
+        const result = roundSchema.safeParse({
+          ...baseRound,
+          holeByHoleData: [{ holeNumber: 1, par: 4, score: 5 }],
+        })
+        expect(result.success).toBe(false)
+      })
+
+      it('should reject an unscored hole', () => {
+        const result = roundSchema.safeParse({
+          ...baseRound,
+          holeByHoleData: [{ holeNumber: 1, par: 4, score: 0, putts: 0 }],
+        })
+        expect(result.success).toBe(false)
+      })
+
+      it('should reject more putts than strokes', () => {
+        const result = roundSchema.safeParse({
+          ...baseRound,
+          holeByHoleData: [{ holeNumber: 1, par: 4, score: 3, putts: 4 }],
+        })
+        expect(result.success).toBe(false)
+      })
+
+      it('should reject par outside 3-6 and stroke index outside 1-18', () => {
+        expect(roundSchema.safeParse({
+          ...baseRound,
+          holeByHoleData: [{ holeNumber: 1, par: 7, score: 7, putts: 2 }],
+        }).success).toBe(false)
+        expect(roundSchema.safeParse({
+          ...baseRound,
+          holeByHoleData: [{ holeNumber: 1, par: 4, score: 4, putts: 2, handicap: 19 }],
+        }).success).toBe(false)
+      })
+
+      it('should reject the same hole entered twice', () => {
+        const result = roundSchema.safeParse({
+          ...baseRound,
+          holeByHoleData: [
+            { holeNumber: 1, par: 4, score: 4, putts: 2 },
+            { holeNumber: 1, par: 4, score: 5, putts: 2 },
+          ],
+        })
+        expect(result.success).toBe(false)
+      })
+    })
   })
 
   describe('updateRoundSchema', () => {
@@ -0,0 +1,420 @@
+/**
+ * Local course catalog
+ * Stores courses and tees from the Golf Course API so rounds can reference a tee
+ * instead of a free-text course name and copied ratings
+ */
+
+import { Prisma, TeeGender } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import type { NineHoleSide } from '@/lib/handicap-calculator'
+import { recalculatePlayerHandicaps } from '@/lib/handicap-history'
+import { recalculatePlayingConditions } from '@/lib/playing-conditions'
+import type { CustomCourseInput, CustomTeeSetInput } from '@/lib/validation'
+import type { GolfCourseDetails, GolfCourseSearchResult, GolfCourseTee } from '@/types/golf-course'
+
+/**
+ * Tee sets with their holes, in the order they are listed
+ */
+export const COURSE_DETAIL_INCLUDE = {
+  teeSets: {
+    orderBy: [{ gender: 'asc' }, { courseRating: 'desc' }, { name: 'asc' }],
+    include: {
+      holes: {
+        orderBy: { holeNumber: 'asc' },
+      },
+    },
+  },
+} satisfies Prisma.CourseInclude
+
+export type CatalogCourse = Prisma.CourseGetPayload<{ include: typeof COURSE_DETAIL_INCLUDE }>
+
+/**
+ * Tee fields that determine what a round played from it is rated at
+ */
+export type TeeSetForRound = Prisma.TeeSetGetPayload<{ include: { course: true } }>
+
+/**
+ * Name rounds are stored under, in the "<club> - <course>" form the course search uses
+ */
+export function formatCourseName(course: { clubName: string; courseName: string }): string {
+  return course.courseName && course.courseName !== course.clubName
+    ? `${course.clubName} - ${course.courseName}`
+    : course.clubName
+}
+
+function toTeeSetData(tee: GolfCourseTee) {
+  return {
+    courseRating: tee.course_rating ?? null,
+    slopeRating: tee.slope_rating ?? null,
+    bogeyRating: tee.bogey_rating ?? null,
+    totalYards: tee.total_yards ?? null,
+    totalMeters: tee.total_meters ?? null,
+    numberOfHoles: tee.number_of_holes ?? tee.holes?.length ?? 18,
+    parTotal: tee.par_total ?? null,
+    frontCourseRating: tee.front_course_rating ?? null,
+    frontSlopeRating: tee.front_slope_rating ?? null,
+    frontBogeyRating: tee.front_bogey_rating ?? null,
+    backCourseRating: tee.back_course_rating ?? null,
+    backSlopeRating: tee.back_slope_rating ?? null,
+    backBogeyRating: tee.back_bogey_rating ?? null,
+  }
+}
+
+function toTeeHoleData(tee: GolfCourseTee) {
+  return (tee.holes ?? []).map((hole, index) => ({
+    holeNumber: index + 1,
+    par: hole.par,
+    yardage: hole.yardage ?? null,
+    strokeIndex: hole.handicap ?? null,
+  }))
+}
+
+/**
+ * Store or refresh a course from the Golf Course API in the catalog
+ * Courses are matched on their API ID and tees on name and gender, so tee IDs
+ * referenced by existing rounds stay stable across refreshes.
+ *
+ * @param details - Course as returned by the Golf Course API
+ * @returns The tee set ID for each tee, keyed by `<gender>:<tee name>`
+ */
+export async function saveGolfCourse(
+  details: GolfCourseDetails,
+  db: Prisma.TransactionClient = prisma
+): Promise<{ courseId: number; teeSetIds: Record<string, number> }> {
+  const courseData = {
+    clubName: details.club_name,
+    courseName: details.course_name || details.club_name,
+    address: details.location?.address ?? null,
+    city: details.location?.city ?? null,
+    state: details.location?.state ?? null,
+    country: details.location?.country ?? null,
+    latitude: details.location?.latitude ?? null,
+    longitude: details.location?.longitude ?? null,
+  }
+
+  const course = await db.course.upsert({
+    where: { externalId: details.id },
+    create: { externalId: details.id, verified: true, ...courseData },
+    update: courseData,
+  })
+
+  const teeSetIds: Record<string, number> = {}
+  const genders: Array<['male' | 'female', TeeGender]> = [['male', TeeGender.MALE], ['female', TeeGender.FEMALE]]
+
+  for (const [key, gender] of genders) {
+    for (const tee of details.tees?.[key] ?? []) {
+      const teeSet = await db.teeSet.upsert({
+        where: { courseId_name_gender: { courseId: course.id, name: tee.tee_name, gender } },
+        create: {
+          courseId: course.id,
+          name: tee.tee_name,
+          gender,
+          ...toTeeSetData(tee),
+          holes: { create: toTeeHoleData(tee) },
+        },
+        update: {
+          ...toTeeSetData(tee),
+          holes: { deleteMany: {}, create: toTeeHoleData(tee) },
+        },
+      })
+      teeSetIds[`${key}:${tee.tee_name}`] = teeSet.id
+    }
+  }
+
+  return { courseId: course.id, teeSetIds }
+}
+
+/**
+ * Get the course name and ratings a round played from a tee is stored with
+ * A 9-hole round on an 18-hole tee uses the ratings for the nine that was played.
+ *
+ * @param teeSet - Tee the round was played from, with its course
+ * @param holes - Holes in the round (9 or 18)
+ * @param side - Which nine was played, for 9-hole rounds
+ * @returns Values to store on the round; ratings are omitted when the tee has none
+ */
+export function getRoundValuesFromTeeSet(
+  teeSet: TeeSetForRound,
+  holes: number,
+  side: NineHoleSide = 'front'
+): { courseName: string; courseRating?: number; slopeRating?: number } {
+  const playedNine = holes === 9 && teeSet.numberOfHoles === 18
+  const ratings = playedNine
+    ? side === 'front'
+      ? { courseRating: teeSet.frontCourseRating, slopeRating: teeSet.frontSlopeRating }
+      : { courseRating: teeSet.backCourseRating, slopeRating: teeSet.backSlopeRating }
+    : { courseRating: teeSet.courseRating, slopeRating: teeSet.slopeRating }
+
+  return {
+    courseName: formatCourseName(teeSet.course),
+    ...(ratings.courseRating !== null && ratings.slopeRating !== null
+      ? { courseRating: ratings.courseRating, slopeRating: ratings.slopeRating }
+      : {}),
+  }
+}
+
+/**
+ * Courses a user can see in the catalog
+ * Courses entered by users are only listed to their creator, and to admins,
+ * until they are verified.
+ *
+ * @param user - The signed-in user
+ */
+export function visibleCourseWhere(user: { id: string; role?: string }): Prisma.CourseWhereInput {
+  if (user.role === 'ADMIN') {
+    return {}
+  }
+
+  return { OR: [{ verified: true }, { createdById: null }, { createdById: parseInt(user.id) }] }
+}
+
+function toCustomTeeSetData(tee: CustomTeeSetInput) {
+  return {
+    name: tee.name,
+    gender: tee.gender ?? null,
+    courseRating: tee.courseRating,
+    slopeRating: tee.slopeRating,
+    bogeyRating: tee.bogeyRating ?? null,
+    totalYards: tee.holes.every(hole => hole.yardage)
+      ? tee.holes.reduce((sum, hole) => sum + (hole.yardage ?? 0), 0)
+      : null,
+    numberOfHoles: tee.holes.length,
+    parTotal: tee.holes.reduce((sum, hole) => sum + hole.par, 0),
+    frontCourseRating: tee.holes.length === 18 ? tee.frontCourseRating ?? null : null,
+    frontSlopeRating: tee.holes.length === 18 ? tee.frontSlopeRating ?? null : null,
+    backCourseRating: tee.holes.length === 18 ? tee.backCourseRating ?? null : null,
+    backSlopeRating: tee.holes.length === 18 ? tee.backSlopeRating ?? null : null,
+    holes: {
+      create: tee.holes.map((hole, index) => ({
+        holeNumber: index + 1,
+        par: hole.par,
+        yardage: hole.yardage ?? null,
+        strokeIndex: hole.strokeIndex ?? null,
+      })),
+    },
+  }
+}
+
+/**
+ * Add a course entered by a user to the catalog
+ * The course is unverified until an admin reviews it.
+ *
+ * @param input - Validated course, tees and holes
+ * @param userId - User entering the course
+ */
+export async function createCustomCourse(
+  input: CustomCourseInput,
+  userId: number,
+  db: Prisma.TransactionClient = prisma
+): Promise<CatalogCourse> {
+  return db.course.create({
+    data: {
+      clubName: input.clubName,
+      courseName: input.courseName || input.clubName,
+      address: input.address || null,
+      city: input.city || null,
+      state: input.state || null,
+      country: input.country || null,
+      createdById: userId,
+      verified: false,
+      teeSets: { create: input.teeSets.map(toCustomTeeSetData) },
+    },
+    include: COURSE_DETAIL_INCLUDE,
+  })
+}
+
+/**
+ * Merge a duplicate course into another
+ * Tees with the same name and gender are combined, moving their rounds to the
+ * target's tee; other tees move to the target. Moved rounds take the target's
+ * name, favorites move unless the player already has the target as one, and
+ * cached details of either course are dropped since they carry the duplicate's
+ * IDs. The duplicate is then deleted. Moved rounds join the target's field for
+ * the Playing Conditions Calculation, so PCC is re-run for each day they were
+ * played and the handicaps of everyone affected are recalculated.
+ * Run inside a transaction so a failed merge leaves both courses unchanged.
+ *
+ * @param sourceId - The duplicate course
+ * @param targetId - Course to keep
+ * @returns The target course, or null if either course doesn't exist
+ */
+export async function mergeCourses(
+  sourceId: number,
+  targetId: number,
+  db: Prisma.TransactionClient = prisma
+): Promise<CatalogCourse | null> {
+  const [source, target] = await Promise.all([
+    db.course.findUnique({ where: { id: sourceId }, include: { teeSets: true } }),
+    db.course.findUnique({ where: { id: targetId }, include: { teeSets: true } }),
+  ])
+
+  if (!source || !target) {
+    return null
+  }
+
+  const movedRounds = await db.round.findMany({
+    where: { teeSetId: { in: source.teeSets.map(tee => tee.id) } },
+    select: { userId: true, teeSetId: true, datePlayed: true },
+  })
+
+  // Rounds show the course by name, and the stats course filter matches on it
+  await db.round.updateMany({
+    where: { teeSetId: { in: source.teeSets.map(tee => tee.id) } },
+    data: { courseName: formatCourseName(target) },
+  })
+
+  const matches = new Map(source.teeSets.map(tee => [
+    tee.id,
+    target.teeSets.find(t => t.name === tee.name && t.gender === tee.gender),
+  ]))
+
+  // Before combined tees are deleted, which would clear a favorite's preferred tee
+  const favorites = await db.courseFavorite.findMany({
+    where: { courseId: { in: [source.id, target.id] } },
+  })
+  const targetFavoriteUserIds = new Set(
+    favorites.filter(favorite => favorite.courseId === target.id).map(favorite => favorite.userId)
+  )
+  for (const favorite of favorites) {
+    // A duplicate favorite is deleted with the duplicate course
+    if (favorite.courseId !== source.id || targetFavoriteUserIds.has(favorite.userId)) continue
+
+    await db.courseFavorite.update({
+      where: { id: favorite.id },
+      data: {
+        courseId: target.id,
+        teeSetId: favorite.teeSetId === null
+          ? null
+          : matches.get(favorite.teeSetId)?.id ?? favorite.teeSetId,
+      },
+    })
+  }
+
+  for (const tee of source.teeSets) {
+    const match = matches.get(tee.id)
+
+    if (match) {
+      await db.round.updateMany({ where: { teeSetId: tee.id }, data: { teeSetId: match.id } })
+      await db.teeSet.delete({ where: { id: tee.id } })
+    } else {
+      await db.teeSet.update({ where: { id: tee.id }, data: { courseId: target.id } })
+    }
+  }
+
+  const cacheKeys = [source.externalId, target.externalId]
+    .filter((externalId): externalId is number => externalId !== null)
+    .map(externalId => `course:${externalId}`)
+  if (cacheKeys.length > 0) {
+    await db.golfCourseApiCache.deleteMany({ where: { key: { in: cacheKeys } } })
+  }
+
+  await db.course.delete({ where: { id: source.id } })
+
+  // One PCC run per day covers every moved round played on it
+  const courseName = formatCourseName(target)
+  const fieldDays = new Map(movedRounds.map(round => [
+    round.datePlayed.toISOString().slice(0, 10),
+    round,
+  ]))
+  const affectedUserIds = movedRounds.map(round => round.userId)
+  for (const round of fieldDays.values()) {
+    const teeSetId = round.teeSetId as number
+    const { updatedRounds } = await recalculatePlayingConditions({
+      courseName,
+      teeSetId: matches.get(teeSetId)?.id ?? teeSetId,
+      datePlayed: round.datePlayed,
+    }, db)
+    affectedUserIds.push(...updatedRounds.map(r => r.userId))
+  }
+  await recalculatePlayerHandicaps(affectedUserIds, db)
+
+  // Keep the API link so future lookups of the course refresh the merged one
+  return db.course.update({
+    where: { id: target.id },
+    data: {
+      externalId: target.externalId ?? source.externalId,
+      verified: target.verified || source.verified,
+    },
+    include: COURSE_DETAIL_INCLUDE,
+  })
+}
+
+/**
+ * Convert a catalog course back to the Golf Course API shape
+ * Used to answer course lookups when the API can't be reached.
+ *
+ * @param course - Catalog course with its tees and holes
+ */
+export function toGolfCourseDetails(course: CatalogCourse): GolfCourseDetails {
+  const toTee = (teeSet: CatalogCourse['teeSets'][number]): GolfCourseTee => ({
+    tee_name: teeSet.name,
+    course_rating: teeSet.courseRating ?? 0,
+    slope_rating: teeSet.slopeRating ?? 0,
+    bogey_rating: teeSet.bogeyRating ?? 0,
+    total_yards: teeSet.totalYards ?? 0,
+    total_meters: teeSet.totalMeters ?? 0,
+    number_of_holes: teeSet.numberOfHoles,
+    par_total: teeSet.parTotal ?? teeSet.holes.reduce((sum, hole) => sum + hole.par, 0),
+    front_course_rating: teeSet.frontCourseRating ?? 0,
+    front_slope_rating: teeSet.frontSlopeRating ?? 0,
+    front_bogey_rating: teeSet.frontBogeyRating ?? 0,
+    back_course_rating: teeSet.backCourseRating ?? 0,
+    back_slope_rating: teeSet.backSlopeRating ?? 0,
+    back_bogey_rating: teeSet.backBogeyRating ?? 0,
+    holes: teeSet.holes.map(hole => ({
+      par: hole.par,
+      yardage: hole.yardage ?? 0,
+      handicap: hole.strokeIndex ?? 0,
+    })),
+    tee_set_id: teeSet.id,
+  })
+
+  return {
+    id: course.externalId ?? course.id,
+    club_name: course.clubName,
+    course_name: course.courseName,
+    location: {
+      address: course.address ?? '',
+      city: course.city ?? '',
+      state: course.state ?? '',
+      country: course.country ?? '',
+      latitude: course.latitude ?? 0,
+      longitude: course.longitude ?? 0,
+    },
+    tees: {
+      male: course.teeSets.filter(t => t.gender !== TeeGender.FEMALE).map(toTee),
+      female: course.teeSets.filter(t => t.gender === TeeGender.FEMALE).map(toTee),
+    },
+    catalog_id: course.id,
+  }
+}
+
+/**
+ * Search catalog courses that came from the Golf Course API
+ * Results use API course IDs so they can be looked up like API search results.
+ *
+ * @param query - Text to match against club and course names
+ */
+export async function searchCatalogCourses(
+  query: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<GolfCourseSearchResult[]> {
+  const courses = await db.course.findMany({
+    where: {
+      externalId: { not: null },
+      OR: [
+        { clubName: { contains: query, mode: 'insensitive' } },
+        { courseName: { contains: query, mode: 'insensitive' } },
+      ],
+    },
+    orderBy: [{ clubName: 'asc' }, { courseName: 'asc' }],
+    take: 20,
+  })
+
+  return courses.map(course => ({
+    id: course.externalId as number,
+    club_name: course.clubName,
+    course_name: course.courseName,
+    location: { address: course.address ?? '' },
+  }))
+}
@@ -0,0 +1,67 @@
+/**
+ * Course favorites and recently played tees
+ * Lets the course picker offer the courses a user plays most without a search.
+ */
+
+import { Prisma, TeeGender } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { COURSE_DETAIL_INCLUDE, toGolfCourseDetails } from '@/lib/course-catalog'
+import type { CourseQuickPick, CourseQuickPicksResponse } from '@/types/golf-course'
+
+/**
+ * How many recently played tees the picker shows
+ */
+export const RECENT_TEE_LIMIT = 5
+
+function toPickGender(gender: TeeGender | null | undefined): 'male' | 'female' {
+  return gender === TeeGender.FEMALE ? 'female' : 'male'
+}
+
+/**
+ * Get a user's favorite courses and most recently played tees
+ *
+ * @param userId - The user
+ * @returns Favorites by course name, and tees by when they were last played
+ */
+export async function getCourseQuickPicks(
+  userId: number,
+  db: Prisma.TransactionClient = prisma
+): Promise<CourseQuickPicksResponse> {
+  const [favorites, recentRounds] = await Promise.all([
+    db.courseFavorite.findMany({
+      where: { userId },
+      include: {
+        course: { include: COURSE_DETAIL_INCLUDE },
+        teeSet: { select: { gender: true } },
+      },
+      orderBy: [{ course: { clubName: 'asc' } }, { course: { courseName: 'asc' } }],
+    }),
+    // Latest round from each tee
+    db.round.findMany({
+      where: { userId, teeSetId: { not: null } },
+      orderBy: { datePlayed: 'desc' },
+      distinct: ['teeSetId'],
+      take: RECENT_TEE_LIMIT,
+      select: {
+        datePlayed: true,
+        teeSet: { include: { course: { include: COURSE_DETAIL_INCLUDE } } },
+      },
+    }),
+  ])
+
+  return {
+    favorites: favorites.map((favorite): CourseQuickPick => ({
+      course: toGolfCourseDetails(favorite.course),
+      teeSetId: favorite.teeSetId,
+      gender: toPickGender(favorite.gender ?? favorite.teeSet?.gender),
+    })),
+    recent: recentRounds.flatMap((round): CourseQuickPick[] => round.teeSet
+      ? [{
+          course: toGolfCourseDetails(round.teeSet.course),
+          teeSetId: round.teeSet.id,
+          gender: toPickGender(round.teeSet.gender),
+          lastPlayed: round.datePlayed.toISOString(),
+        }]
+      : []),
+  }
+}
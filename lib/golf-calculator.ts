@@ -3,14 +3,93 @@
  * Calculates GIR, up & down, and putt statistics based on hole-by-hole data
  */
 
+import type { ShotData } from '@/lib/strokes-gained'
+
+/**
+ * Where the ball finished after the stroke that should reach the green in regulation
+ * Only HIT is a green in regulation; the fringe counts as a miss.
+ */
+export const GREEN_RESULTS = ['HIT', 'FRINGE', 'MISSED_LEFT', 'MISSED_RIGHT', 'MISSED_SHORT', 'MISSED_LONG'] as const
+
+export type GreenResult = typeof GREEN_RESULTS[number]
+
+export const GREEN_RESULT_LABELS: Record<GreenResult, string> = {
+  HIT: 'Hit',
+  FRINGE: 'Fringe',
+  MISSED_LEFT: 'Left',
+  MISSED_RIGHT: 'Right',
+  MISSED_SHORT: 'Short',
+  MISSED_LONG: 'Long',
+}
+
+/**
+ * Where the tee shot finished on a par 4 or 5
+ * PENALTY covers tee shots that cost a stroke, whichever side they went.
+ */
+export const FAIRWAY_RESULTS = ['HIT', 'LEFT', 'RIGHT', 'SHORT', 'PENALTY'] as const
+
+export type FairwayResult = typeof FAIRWAY_RESULTS[number]
+
+export const FAIRWAY_RESULT_LABELS: Record<FairwayResult, string> = {
+  HIT: 'Hit',
+  LEFT: 'Left',
+  RIGHT: 'Right',
+  SHORT: 'Short',
+  PENALTY: 'Penalty',
+}
+
+/**
+ * What a hole's penalty strokes were taken for
+ */
+export const PENALTY_TYPES = ['WATER', 'OUT_OF_BOUNDS', 'UNPLAYABLE'] as const
+
+export type PenaltyType = typeof PENALTY_TYPES[number]
+
+export const PENALTY_TYPE_LABELS: Record<PenaltyType, string> = {
+  WATER: 'Water',
+  OUT_OF_BOUNDS: 'OB',
+  UNPLAYABLE: 'Unplayable',
+}
+
 export interface HoleData {
   holeNumber: number
   par: number
   score: number
   putts: number
+  firstPuttDistance?: number // Optional: first putt distance in feet
   fairwayHit?: boolean // Optional: null for par 3s
+  fairwayResult?: FairwayResult // Optional: where a missed tee shot went; sets fairwayHit when recorded
   yardage?: number // Optional: hole yardage/distance
   handicap?: number // Optional: hole handicap/difficulty rating (1-18)
+  penalties?: number // Optional: penalty strokes taken on the hole
+  penaltyType?: PenaltyType // Optional: what the penalty strokes were for
+  greensideBunker?: boolean // Optional: played from a greenside bunker
+  sandSave?: boolean // Optional: got up and down from the greenside bunker
+  greenResult?: GreenResult // Optional: recorded green result; GIR is estimated when absent
+  greenInRegulation?: boolean // Set when read back from a stored HoleScore
+  shots?: ShotData[] // Optional: shot-by-shot record, in order
+}
+
+/**
+ * A hole as stored in the HoleScore table
+ */
+export interface HoleScoreRecord {
+  holeNumber: number
+  par: number
+  yardage: number | null
+  strokeIndex: number | null
+  score: number
+  putts: number
+  firstPuttDistance: number | null
+  fairwayHit: boolean | null
+  fairwayResult: FairwayResult | null
+  greenResult: GreenResult | null
+  greenInRegulation: boolean
+  penalties: number
+  penaltyType: PenaltyType | null
+  greensideBunker: boolean
+  sandSave: boolean
+  shots?: Array<ShotData & { shotNumber: number }> // When read back with its shots
 }
 
 export interface CalculatedStats {
@@ -25,6 +104,66 @@ export interface CalculatedStats {
   nonGirPutts: number
   scrambling: number // Percentage
   parOrBetter: number
+  girRecorded: number // Holes whose GIR comes from a recorded green result rather than an estimate
+  penaltyStrokes: number
+  penaltyHoles: number
+  penaltyHoleScoreToPar: number // Total score to par on holes with a penalty
+  sandSaves: number
+  sandSaveAttempts: number
+  sandSavePercentage: number
+}
+
+/**
+ * Stroke-index bands for scoring averages, hardest holes first
+ */
+export const STROKE_INDEX_BANDS = [
+  { label: 'Hardest (1-6)', min: 1, max: 6 },
+  { label: 'Middle (7-12)', min: 7, max: 12 },
+  { label: 'Easiest (13-18)', min: 13, max: 18 },
+] as const
+
+/**
+ * Yardage bands for scoring averages by par, from min yards up to but not including max
+ */
+export const YARDAGE_BANDS: Record<number, ReadonlyArray<{ label: string; min: number; max: number }>> = {
+  3: [
+    { label: 'Under 150', min: 0, max: 150 },
+    { label: '150-200', min: 150, max: 200 },
+    { label: '200+', min: 200, max: Infinity },
+  ],
+  4: [
+    { label: 'Under 350', min: 0, max: 350 },
+    { label: '350-400', min: 350, max: 400 },
+    { label: '400+', min: 400, max: Infinity },
+  ],
+  5: [
+    { label: 'Under 500', min: 0, max: 500 },
+    { label: '500-550', min: 500, max: 550 },
+    { label: '550+', min: 550, max: Infinity },
+  ],
+}
+
+/**
+ * A hole's score with what's known about the hole, as stored or entered
+ */
+export interface ScoringHole {
+  par: number
+  score: number
+  yardage?: number | null
+  strokeIndex?: number | null
+}
+
+export interface ScoringAverage {
+  label: string
+  holes: number
+  averageScore: number
+  averageToPar: number
+}
+
+export interface ScoringAverages {
+  byPar: Array<ScoringAverage & { par: number }>
+  byStrokeIndex: ScoringAverage[]
+  byYardage: Array<ScoringAverage & { par: number }>
 }
 
 /**
@@ -65,6 +204,35 @@ export function calculateGIR(par: number, score: number, putts: number): boolean
   return false
 }
 
+/**
+ * Whether a hole's green was hit in regulation
+ * A recorded green result is used when there is one; otherwise the GIR stored with
+ * the hole, or an estimate from score and putts.
+ */
+export function getGIR(hole: HoleData): boolean {
+  if (hole.greenResult) {
+    return hole.greenResult === 'HIT'
+  }
+
+  return hole.greenInRegulation ?? calculateGIR(hole.par, hole.score, hole.putts)
+}
+
+/**
+ * Whether a hole's fairway was hit, or undefined for par 3s and holes without a fairway entry
+ * A recorded fairway result is used when there is one.
+ */
+export function getFairwayHit(hole: HoleData): boolean | undefined {
+  if (hole.par <= 3) {
+    return undefined
+  }
+
+  if (hole.fairwayResult) {
+    return hole.fairwayResult === 'HIT'
+  }
+
+  return hole.fairwayHit ?? undefined
+}
+
 /**
  * Determine if the green was reached under regulation (putting for eagle)
  * Under GIR definition: Reaching the green in (par - 3) or fewer strokes
@@ -123,13 +291,21 @@ export function calculateRoundStats(holes: HoleData[]): CalculatedStats {
   let girPutts = 0
   let nonGirPutts = 0
   let parOrBetter = 0
+  let girRecorded = 0
+  let penaltyStrokes = 0
+  let penaltyHoles = 0
+  let penaltyHoleScoreToPar = 0
+  let sandSaves = 0
+  let sandSaveAttempts = 0
 
   for (const hole of holes) {
     totalScore += hole.score
     totalPutts += hole.putts
 
-    // Calculate GIR
-    const hitGIR = calculateGIR(hole.par, hole.score, hole.putts)
+    const hitGIR = getGIR(hole)
+    if (hole.greenResult) {
+      girRecorded++
+    }
     if (hitGIR) {
       greensInRegulation++
       girPutts += hole.putts
@@ -158,9 +334,22 @@ export function calculateRoundStats(holes: HoleData[]): CalculatedStats {
     }
 
     // Track fairways (skip par 3s)
-    if (hole.par > 3 && hole.fairwayHit !== undefined && hole.fairwayHit !== null) {
-      if (hole.fairwayHit) {
-        fairwaysInRegulation++
+    if (getFairwayHit(hole)) {
+      fairwaysInRegulation++
+    }
+
+    // Track penalties and how the hole finished after one
+    if (hole.penalties && hole.penalties > 0) {
+      penaltyStrokes += hole.penalties
+      penaltyHoles++
+      penaltyHoleScoreToPar += hole.score - hole.par
+    }
+
+    // Track sand saves from greenside bunkers
+    if (hole.greensideBunker) {
+      sandSaveAttempts++
+      if (hole.sandSave) {
+        sandSaves++
       }
     }
 
@@ -175,6 +364,10 @@ export function calculateRoundStats(holes: HoleData[]): CalculatedStats {
     ? (upAndDowns / upAndDownAttempts) * 100
     : 0
 
+  const sandSavePercentage = sandSaveAttempts > 0
+    ? (sandSaves / sandSaveAttempts) * 100
+    : 0
+
   return {
     totalScore,
     totalPutts,
@@ -187,6 +380,77 @@ export function calculateRoundStats(holes: HoleData[]): CalculatedStats {
     nonGirPutts,
     scrambling: Math.round(scrambling * 10) / 10,
     parOrBetter,
+    girRecorded,
+    penaltyStrokes,
+    penaltyHoles,
+    penaltyHoleScoreToPar,
+    sandSaves,
+    sandSaveAttempts,
+    sandSavePercentage: Math.round(sandSavePercentage * 10) / 10,
+  }
+}
+
+/**
+ * Convert an entered hole to its stored form
+ * GIR is stored from the green result, or estimated now when none was recorded.
+ */
+export function toHoleScoreRecord(hole: HoleData): HoleScoreRecord {
+  return {
+    holeNumber: hole.holeNumber,
+    par: hole.par,
+    yardage: hole.yardage ?? null,
+    strokeIndex: hole.handicap ?? null,
+    score: hole.score,
+    putts: hole.putts,
+    firstPuttDistance: hole.putts > 0 ? hole.firstPuttDistance ?? null : null,
+    fairwayHit: getFairwayHit(hole) ?? null,
+    fairwayResult: hole.par > 3 ? hole.fairwayResult ?? null : null,
+    greenResult: hole.greenResult ?? null,
+    greenInRegulation: hole.greenResult ? hole.greenResult === 'HIT' : calculateGIR(hole.par, hole.score, hole.putts),
+    penalties: hole.penalties ?? 0,
+    penaltyType: hole.penalties ? hole.penaltyType ?? null : null,
+    greensideBunker: hole.greensideBunker ?? false,
+    sandSave: hole.greensideBunker ? hole.sandSave ?? false : false,
+  }
+}
+
+/**
+ * A hole as created with its round, including any recorded shots
+ */
+export function toHoleScoreCreateInput(hole: HoleData) {
+  return {
+    ...toHoleScoreRecord(hole),
+    shots: hole.shots?.length
+      ? { create: hole.shots.map((shot, index) => ({ ...shot, shotNumber: index + 1 })) }
+      : undefined,
+  }
+}
+
+/**
+ * Convert a stored hole back to the shape used by forms and calculators
+ */
+export function toHoleData(record: HoleScoreRecord): HoleData {
+  return {
+    holeNumber: record.holeNumber,
+    par: record.par,
+    score: record.score,
+    putts: record.putts,
+    firstPuttDistance: record.firstPuttDistance ?? undefined,
+    fairwayHit: record.fairwayHit ?? undefined,
+    fairwayResult: record.fairwayResult ?? undefined,
+    yardage: record.yardage ?? undefined,
+    handicap: record.strokeIndex ?? undefined,
+    penalties: record.penalties,
+    penaltyType: record.penaltyType ?? undefined,
+    greensideBunker: record.greensideBunker,
+    sandSave: record.sandSave,
+    shots: record.shots?.length
+      ? [...record.shots]
+          .sort((a, b) => a.shotNumber - b.shotNumber)
+          .map(({ lie, distance, result }) => ({ lie, distance, result }))
+      : undefined,
+    greenResult: record.greenResult ?? undefined,
+    greenInRegulation: record.greenInRegulation,
   }
 }
 
@@ -278,3 +542,41 @@ export function estimateStatsFromTotals(
     nonGirPutts: totalPutts - Math.round(estimatedGIR * 2),
   }
 }
+
+function toScoringAverage(label: string, holes: ScoringHole[]): ScoringAverage {
+  const average = (values: number[]) => values.length > 0
+    ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 100) / 100
+    : 0
+
+  return {
+    label,
+    holes: holes.length,
+    averageScore: average(holes.map((hole) => hole.score)),
+    averageToPar: average(holes.map((hole) => hole.score - hole.par)),
+  }
+}
+
+/**
+ * Average score and score to par by par, stroke-index band and yardage band
+ * Holes without a stroke index or yardage are only counted by par.
+ */
+export function calculateScoringAverages(holes: ScoringHole[]): ScoringAverages {
+  const pars = [3, 4, 5]
+
+  return {
+    byPar: pars.map((par) => ({
+      par,
+      ...toScoringAverage(`Par ${par}`, holes.filter((hole) => hole.par === par)),
+    })),
+    byStrokeIndex: STROKE_INDEX_BANDS.map(({ label, min, max }) => toScoringAverage(
+      label,
+      holes.filter((hole) => hole.strokeIndex != null && hole.strokeIndex >= min && hole.strokeIndex <= max)
+    )),
+    byYardage: pars.flatMap((par) => YARDAGE_BANDS[par].map(({ label, min, max }) => ({
+      par,
+      ...toScoringAverage(label, holes.filter((hole) => (
+        hole.par === par && hole.yardage != null && hole.yardage >= min && hole.yardage < max
+      ))),
+    }))),
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * Cached golf course lookups
+ * Search results and course details from the provider are kept in the database.
+ * Fresh entries are served without calling the provider; stale ones are served
+ * while being refreshed after the response. Searches also include matching
+ * courses from the catalog. When the provider can't be reached, or none is
+ * configured, lookups fall back to courses already in the catalog.
+ *
+ * The cache is best-effort: if it can't be read or written, lookups go to the provider.
+ */
+
+import { after } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getGolfCourseProvider, GolfCourseProvider } from '@/lib/golf-course-provider'
+import {
+  COURSE_DETAIL_INCLUDE,
+  saveGolfCourse,
+  searchCatalogCourses,
+  toGolfCourseDetails,
+} from '@/lib/course-catalog'
+import type { GolfCourseDetails, GolfCourseSearchResult } from '@/types/golf-course'
+
+/**
+ * How long search results are served without asking the provider again
+ */
+export const SEARCH_CACHE_TTL_MS = 24 * 60 * 60 * 1000
+
+/**
+ * How long course details are served without asking the provider again
+ * Ratings rarely change, so details are kept longer than searches.
+ */
+export const COURSE_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * Where a lookup was answered from
+ * - cache: a fresh cache entry
+ * - stale: an expired cache entry, refreshed after the response
+ * - provider: the provider, now cached
+ * - offline: the course catalog, because the provider failed or isn't configured
+ */
+export type CourseDataSource = 'cache' | 'stale' | 'provider' | 'offline'
+
+/**
+ * Response header telling clients where course data came from
+ */
+export const CACHE_STATUS_HEADER = 'X-Cache'
+
+const CACHE_STATUS: Record<CourseDataSource, string> = {
+  cache: 'HIT',
+  stale: 'STALE',
+  provider: 'MISS',
+  offline: 'OFFLINE',
+}
+
+/**
+ * Get the X-Cache header value for where a lookup was answered from
+ */
+export function toCacheStatus(source: CourseDataSource): string {
+  return CACHE_STATUS[source]
+}
+
+export interface CachedLookup<T> {
+  data: T
+  source: CourseDataSource
+}
+
+interface LookupOptions {
+  provider?: GolfCourseProvider | null
+  db?: Prisma.TransactionClient
+  now?: Date
+  // Runs the refresh of a stale entry; by default once the response has been sent
+  scheduleRefresh?: (refresh: () => Promise<void>) => void
+}
+
+async function readCache(key: string, db: Prisma.TransactionClient) {
+  try {
+    return await db.golfCourseApiCache.findUnique({ where: { key } })
+  } catch (error) {
+    console.error('Error reading golf course cache:', error)
+    return null
+  }
+}
+
+async function writeCache(key: string, data: unknown, db: Prisma.TransactionClient, fetchedAt: Date) {
+  try {
+    const value = data as Prisma.InputJsonValue
+    await db.golfCourseApiCache.upsert({
+      where: { key },
+      create: { key, data: value, fetchedAt },
+      update: { data: value, fetchedAt },
+    })
+  } catch (error) {
+    console.error('Error writing golf course cache:', error)
+  }
+}
+
+async function cachedLookup<T>(
+  key: string,
+  ttlMs: number,
+  load: (() => Promise<T>) | null,
+  fallback: () => Promise<T | null>,
+  { db, now, scheduleRefresh }: Required<Omit<LookupOptions, 'provider'>>
+): Promise<CachedLookup<T> | null> {
+  const cached = await readCache(key, db)
+
+  if (cached) {
+    if (now.getTime() - cached.fetchedAt.getTime() <= ttlMs) {
+      return { data: cached.data as T, source: 'cache' }
+    }
+
+    if (load) {
+      scheduleRefresh(async () => {
+        try {
+          await writeCache(key, await load(), db, new Date())
+        } catch (error) {
+          console.error('Error refreshing golf course cache:', error)
+        }
+      })
+    }
+
+    return { data: cached.data as T, source: 'stale' }
+  }
+
+  if (!load) {
+    const data = await fallback()
+    return data === null ? null : { data, source: 'offline' }
+  }
+
+  try {
+    const data = await load()
+    await writeCache(key, data, db, now)
+    return { data, source: 'provider' }
+  } catch (error) {
+    const data = await fallback().catch(fallbackError => {
+      console.error('Error searching the course catalog:', fallbackError)
+      return null
+    })
+
+    // Without a local answer, report the provider's error
+    if (data === null) {
+      throw error
+    }
+
+    return { data, source: 'offline' }
+  }
+}
+
+/**
+ * Search for golf courses
+ * Matching catalog courses come first, followed by the provider's results for
+ * courses not already in the catalog.
+ *
+ * @param query - Text to search club and course names for
+ * @returns Matching courses and where the provider's results came from
+ */
+export async function searchGolfCourses(
+  query: string,
+  {
+    provider = getGolfCourseProvider(),
+    db = prisma,
+    now = new Date(),
+    scheduleRefresh = after,
+  }: LookupOptions = {}
+): Promise<CachedLookup<GolfCourseSearchResult[]>> {
+  // A catalog that can't be searched leaves the search to the provider
+  const courses = await searchCatalogCourses(query, db).catch(error => {
+    console.error('Error searching the course catalog:', error)
+    return []
+  })
+
+  const result = await cachedLookup(
+    `search:${query.trim().toLowerCase()}`,
+    SEARCH_CACHE_TTL_MS,
+    provider ? () => provider.searchCourses(query) : null,
+    // With no provider an empty search is still an answer
+    async () => (courses.length > 0 || !provider ? courses : null),
+    { db, now, scheduleRefresh }
+  ) as CachedLookup<GolfCourseSearchResult[]>
+
+  const catalogIds = new Set(courses.map(course => course.id))
+  return {
+    data: [...courses, ...result.data.filter(course => !catalogIds.has(course.id))],
+    source: result.source,
+  }
+}
+
+/**
+ * Get a golf course's details and tees
+ * Courses fetched from the provider are stored in the catalog, and each tee
+ * carries its catalog tee set ID so rounds can link to it.
+ *
+ * @param id - The provider's course ID
+ * @returns The course and where it came from, or null if no provider is
+ * configured and the course isn't in the catalog
+ */
+export async function getGolfCourseDetails(
+  id: number,
+  {
+    provider = getGolfCourseProvider(),
+    db = prisma,
+    now = new Date(),
+    scheduleRefresh = after,
+  }: LookupOptions = {}
+): Promise<CachedLookup<GolfCourseDetails> | null> {
+  const load = provider
+    ? async () => {
+        const details = await provider.getCourse(id)
+
+        // Course details are still returned if the catalog can't be updated
+        try {
+          const { courseId, teeSetIds } = await saveGolfCourse(details, db)
+          details.catalog_id = courseId
+          for (const gender of ['male', 'female'] as const) {
+            details.tees?.[gender]?.forEach(tee => {
+              tee.tee_set_id = teeSetIds[`${gender}:${tee.tee_name}`]
+            })
+          }
+        } catch (error) {
+          console.error('Error saving course to catalog:', error)
+        }
+
+        return details
+      }
+    : null
+
+  return cachedLookup(
+    `course:${id}`,
+    COURSE_CACHE_TTL_MS,
+    load,
+    async () => {
+      const course = await db.course.findUnique({
+        where: { externalId: id },
+        include: COURSE_DETAIL_INCLUDE,
+      })
+      return course ? toGolfCourseDetails(course) : null
+    },
+    { db, now, scheduleRefresh }
+  )
+}
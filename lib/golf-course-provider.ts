@@ -0,0 +1,120 @@
+/**
+ * Golf course data providers
+ * Course search and details come from a provider so routes don't depend on
+ * golfcourseapi.com directly; tests can swap in a local provider with fixed courses.
+ */
+
+import type { GolfCourseDetails, GolfCourseSearchResult } from '@/types/golf-course'
+
+const GOLF_COURSE_API_BASE = 'https://api.golfcourseapi.com/v1'
+
+// Requests that take longer fail, so lookups can fall back to the catalog
+const GOLF_COURSE_API_TIMEOUT_MS = 10000
+
+export interface GolfCourseProvider {
+  name: string
+  searchCourses(query: string): Promise<GolfCourseSearchResult[]>
+  getCourse(id: number): Promise<GolfCourseDetails>
+}
+
+/**
+ * Error response from a provider, passed on to API clients with its status
+ */
+export class GolfCourseProviderError extends Error {
+  constructor(public status: number, public details: string) {
+    super(`Golf course provider error ${status}: ${details}`)
+    this.name = 'GolfCourseProviderError'
+  }
+}
+
+/**
+ * Provider backed by golfcourseapi.com
+ *
+ * @param apiKey - The GOLF_COURSE_API_KEY
+ */
+export function createGolfCourseApiProvider(apiKey: string): GolfCourseProvider {
+  const request = async (path: string) => {
+    const response = await fetch(`${GOLF_COURSE_API_BASE}${path}`, {
+      headers: {
+        'Authorization': `Key ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      signal: AbortSignal.timeout(GOLF_COURSE_API_TIMEOUT_MS),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      console.error('Golf Course API error:', response.status, errorText)
+      throw new GolfCourseProviderError(response.status, errorText)
+    }
+
+    return response.json()
+  }
+
+  return {
+    name: 'golfcourseapi',
+    async searchCourses(query) {
+      const data = await request(`/search?search_query=${encodeURIComponent(query)}`)
+      return data.courses ?? []
+    },
+    async getCourse(id) {
+      const data = await request(`/courses/${id}`)
+      // The API returns { course: {...} }, so unwrap it
+      return data.course || data
+    },
+  }
+}
+
+/**
+ * Provider that answers from a fixed list of courses, for tests and offline development
+ *
+ * @param courses - Courses the provider knows about
+ */
+export function createLocalGolfCourseProvider(courses: GolfCourseDetails[]): GolfCourseProvider {
+  return {
+    name: 'local',
+    async searchCourses(query) {
+      const needle = query.trim().toLowerCase()
+      return courses
+        .filter(c => `${c.club_name} ${c.course_name}`.toLowerCase().includes(needle))
+        .map(c => ({
+          id: c.id,
+          club_name: c.club_name,
+          course_name: c.course_name,
+          location: { address: c.location?.address ?? '' },
+        }))
+    },
+    async getCourse(id) {
+      const course = courses.find(c => c.id === id)
+      if (!course) {
+        throw new GolfCourseProviderError(404, 'Course not found')
+      }
+      return course
+    },
+  }
+}
+
+let providerOverride: GolfCourseProvider | null = null
+
+/**
+ * Use a specific provider instead of the one configured from the environment
+ *
+ * @param provider - Provider to use, or null to go back to the environment's
+ */
+export function setGolfCourseProvider(provider: GolfCourseProvider | null): void {
+  providerOverride = provider
+}
+
+/**
+ * Get the provider to fetch course data from
+ *
+ * @returns The provider, or null when no API key is configured
+ */
+export function getGolfCourseProvider(): GolfCourseProvider | null {
+  if (providerOverride) {
+    return providerOverride
+  }
+
+  const apiKey = process.env.GOLF_COURSE_API_KEY
+  return apiKey ? createGolfCourseApiProvider(apiKey) : null
+}
@@ -2,6 +2,148 @@
  * Handicap calculation utilities following USGA handicap system
  */
 
+import type { HoleData } from './golf-calculator'
+import type { GolfCourseTee } from '@/types/golf-course'
+
+/**
+ * Maximum strokes over par allowed on a hole for players without an established
+ * handicap index (WHS Rule 3.1b)
+ */
+export const NO_INDEX_MAX_OVER_PAR = 5
+
+/**
+ * Number of most recent scores that make up a player's scoring record (WHS Rule 5.2)
+ */
+export const SCORING_RECORD_SIZE = 20
+
+/**
+ * Increase over the Low Handicap Index beyond which the soft cap halves the rise (WHS Rule 5.8)
+ */
+export const SOFT_CAP_THRESHOLD = 3.0
+
+/**
+ * Maximum increase over the Low Handicap Index allowed by the hard cap (WHS Rule 5.8)
+ */
+export const HARD_CAP_LIMIT = 5.0
+
+/**
+ * Number of days preceding the most recent score used to find the Low Handicap Index
+ */
+export const LOW_HANDICAP_INDEX_WINDOW_DAYS = 365
+
+/**
+ * Differential this far below the index triggers a -1 Exceptional Score Reduction (WHS Rule 5.9)
+ */
+export const EXCEPTIONAL_SCORE_THRESHOLD = 7.0
+
+/**
+ * Differential this far below the index triggers a -2 Exceptional Score Reduction
+ */
+export const EXCEPTIONAL_SCORE_MAJOR_THRESHOLD = 10.0
+
+/**
+ * Minimum number of 18-hole scores from players with an index needed to run PCC
+ */
+export const PCC_MIN_SCORES = 8
+
+/**
+ * How far above their index players are expected to score on a normal day.
+ * An index averages a player's best 8 of 20, so typical differentials sit above it.
+ */
+export const PCC_EXPECTED_OVER_INDEX = 3.0
+
+/**
+ * Bounds of the Playing Conditions Calculation adjustment (WHS Rule 5.6)
+ */
+export const PCC_MIN = -1
+export const PCC_MAX = 3
+
+/**
+ * Maximum handicap index that can be issued (WHS Rule 5.3)
+ */
+export const MAX_HANDICAP_INDEX = 54.0
+
+/**
+ * Recommended handicap allowances by format of play, as a percentage of
+ * course handicap (WHS Appendix C)
+ */
+export const HANDICAP_ALLOWANCES = {
+  'stroke-play': 95,
+  'four-ball-stroke-play': 85,
+  'match-play': 100,
+  'four-ball-match-play': 90,
+  'foursomes': 50,
+} as const
+
+export type HandicapAllowanceFormat = keyof typeof HANDICAP_ALLOWANCES
+
+/**
+ * Minimum holes that must be played, by holes in the round, for a score to be
+ * acceptable for handicap purposes (WHS Rule 2.2)
+ */
+export const MIN_HOLES_PLAYED: Record<number, number> = {
+  9: 7,
+  18: 14,
+}
+
+/**
+ * Types a score can be posted as; mirrors the ScoreType enum in the Prisma schema
+ */
+export const SCORE_TYPES = ['HOME', 'AWAY', 'COMPETITION', 'CASUAL', 'MATCH_PLAY', 'UNACCEPTABLE'] as const
+
+export type ScoreType = typeof SCORE_TYPES[number]
+
+export const SCORE_TYPE_LABELS: Record<ScoreType, string> = {
+  HOME: 'Home',
+  AWAY: 'Away',
+  COMPETITION: 'Competition',
+  CASUAL: 'Casual / Practice',
+  MATCH_PLAY: 'Match Play',
+  UNACCEPTABLE: 'Unacceptable',
+}
+
+/**
+ * Score types that are never posted for handicap purposes
+ */
+const NON_POSTING_SCORE_TYPES: readonly ScoreType[] = ['CASUAL', 'UNACCEPTABLE']
+
+/**
+ * Formats a round can be played in; mirrors the PlayFormat enum in the Prisma schema
+ */
+export const PLAY_FORMATS = ['INDIVIDUAL', 'SCRAMBLE', 'ALTERNATE_SHOT'] as const
+
+export type PlayFormat = typeof PLAY_FORMATS[number]
+
+export const PLAY_FORMAT_LABELS: Record<PlayFormat, string> = {
+  INDIVIDUAL: 'Individual',
+  SCRAMBLE: 'Scramble',
+  ALTERNATE_SHOT: 'Alternate Shot',
+}
+
+/**
+ * Team formats where the score is not the player's own (WHS Rule 2.1)
+ */
+const TEAM_PLAY_FORMATS: readonly PlayFormat[] = ['SCRAMBLE', 'ALTERNATE_SHOT']
+
+export type HandicapIneligibilityReason =
+  | 'score-type'
+  | 'too-few-holes'
+  | 'unrated-course'
+  | 'team-format'
+
+export const INELIGIBILITY_REASON_LABELS: Record<HandicapIneligibilityReason, string> = {
+  'score-type': 'Casual, practice or unacceptable score',
+  'too-few-holes': 'Not enough holes played',
+  'unrated-course': 'Course has no course or slope rating',
+  'team-format': 'Scramble or alternate-shot format',
+}
+
+export type HandicapCap = 'soft' | 'hard'
+
+export type NineHoleSide = 'front' | 'back'
+
+export type HoleForAdjustment = Pick<HoleData, 'holeNumber' | 'par' | 'score' | 'handicap'>
+
 export interface RoundWithDifferential {
   id: number
   score: number
@@ -9,34 +151,430 @@ export interface RoundWithDifferential {
   slopeRating: number | null
   handicapDifferential: number | null
   datePlayed: Date
+  createdAt?: Date
+  exceptionalScoreAdjustment?: number | null // ESR triggered by this round (-1 or -2)
+  ineligibleReasons?: string[] // Why the round cannot count; empty when acceptable
+}
+
+export interface HandicapEligibilityInput {
+  scoreType?: ScoreType | null // Defaults to a home score
+  playFormat?: PlayFormat | null // Defaults to individual play
+  holes?: number | null // Holes in the round (9 or 18)
+  holesPlayed?: number | null // Holes actually completed; null when all were played
+  courseRating: number | null
+  slopeRating: number | null
+}
+
+export interface NineHoleRound {
+  id: number
+  holes: number
+  score: number // Adjusted gross score for the nine
+  courseRating: number | null // 9-hole course rating
+  slopeRating: number | null // 9-hole slope rating
+  datePlayed: Date
+  createdAt?: Date
+}
+
+export interface NineHolePairing {
+  pairedRoundId: number | null // Null while the round is pending a partner
+  handicapDifferential: number | null // Combined 18-hole differential, held on the later round of a pair
+}
+
+export interface HypotheticalScore {
+  score: number // Adjusted gross score for 18 holes
+  courseRating: number
+  slopeRating: number
+  datePlayed: Date
+}
+
+export interface HandicapSimulation {
+  score: number
+  handicapDifferential: number
+  exceptionalScoreAdjustment: number // ESR the score would trigger (0, -1 or -2)
+  currentHandicapIndex: number | null
+  handicapIndex: number | null // Index after posting the score
+  capApplied: HandicapCap | null
+  countsTowardIndex: boolean // The new differential is among those averaged
+  replacedRoundIds: number[] // Rounds that counted before but no longer do
+  droppedRoundIds: number[] // Rounds pushed out of the 20-score window
+}
+
+export interface TeeHandicap {
+  courseHandicap: number
+  playingHandicap: number // Course handicap after the handicap allowance
+  allowance: number // Percentage of course handicap used
+  strokesPerHole: number[] // Strokes received on each hole from the playing handicap
+}
+
+export interface HandicapIndexCalculation {
+  handicapIndex: number | null
+  uncappedHandicapIndex: number | null // Index before soft/hard cap
+  lowHandicapIndex: number | null // Low Handicap Index the caps were measured against
+  capApplied: HandicapCap | null
+  scoringRecord: RoundWithDifferential[] // Most recent eligible rounds, newest first
+  countingRoundIds: number[] // Rounds whose differentials were averaged into the index
+  exceptionalScoreAdjustments: Record<number, number> // Round ID → ESR applied to its differential
+}
+
+/**
+ * Determine why a round cannot be posted for handicap purposes
+ * A round is acceptable only when it is a postable score type, played
+ * individually on a rated course with enough holes completed.
+ *
+ * @param round - Score type, format, holes and ratings of the round
+ * @returns Reasons the round is ineligible; empty when it can produce a differential
+ */
+export function getHandicapIneligibilityReasons(
+  round: HandicapEligibilityInput
+): HandicapIneligibilityReason[] {
+  const reasons: HandicapIneligibilityReason[] = []
+  const holes = round.holes ?? 18
+
+  if (NON_POSTING_SCORE_TYPES.includes(round.scoreType ?? 'HOME')) {
+    reasons.push('score-type')
+  }
+
+  if (round.holesPlayed != null && round.holesPlayed < (MIN_HOLES_PLAYED[holes] ?? holes)) {
+    reasons.push('too-few-holes')
+  }
+
+  if (!round.courseRating || !round.slopeRating) {
+    reasons.push('unrated-course')
+  }
+
+  if (TEAM_PLAY_FORMATS.includes(round.playFormat ?? 'INDIVIDUAL')) {
+    reasons.push('team-format')
+  }
+
+  return reasons
 }
 
 /**
  * Calculate handicap differential for a single round
- * Formula: (113 / Slope Rating) × (Score − Course Rating)
+ * Formula: (113 / Slope Rating) × (Score − Course Rating − PCC)
  *
  * @param score - The adjusted gross score for the round
  * @param courseRating - Course rating (e.g., 72.3)
  * @param slopeRating - Slope rating (e.g., 135)
+ * @param playingConditions - Playing Conditions Calculation for the course and day (-1 to +3)
  * @returns Handicap differential rounded to 1 decimal place, or null if ratings missing
  */
 export function calculateHandicapDifferential(
   score: number,
   courseRating: number | null,
-  slopeRating: number | null
+  slopeRating: number | null,
+  playingConditions: number = 0
 ): number | null {
   // Cannot calculate without both ratings
   if (!courseRating || !slopeRating) {
     return null
   }
 
-  // USGA formula: (113 / Slope) × (Score − Rating)
-  const differential = (113 / slopeRating) * (score - courseRating)
+  // USGA formula: (113 / Slope) × (Score − Rating − PCC)
+  const differential = (113 / slopeRating) * (score - courseRating - playingConditions)
 
   // Round to 1 decimal place
   return Math.round(differential * 10) / 10
 }
 
+/**
+ * Playing Conditions Calculation for all scores posted on a course on one day
+ * Compares how far the field scored above their indexes with what is expected
+ * on a normal day; a field scoring much worse (or better) than expected means
+ * conditions were harder (or easier) than the course rating assumes.
+ *
+ * @param scores - Unadjusted differentials paired with each player's index
+ * @returns Adjustment between -1 and +3, or 0 if there are too few scores
+ */
+export function calculatePlayingConditions(
+  scores: Array<{ handicapDifferential: number; handicapIndex: number }>
+): number {
+  if (scores.length < PCC_MIN_SCORES) {
+    return 0
+  }
+
+  const averageOverIndex = scores.reduce(
+    (sum, s) => sum + (s.handicapDifferential - s.handicapIndex),
+    0
+  ) / scores.length
+
+  const adjustment = Math.round(averageOverIndex - PCC_EXPECTED_OVER_INDEX)
+
+  // Avoid returning -0
+  return Math.min(PCC_MAX, Math.max(PCC_MIN, adjustment)) || 0
+}
+
+/**
+ * Calculate a player's course handicap for a set of tees
+ * Formula: Handicap Index × (Slope Rating / 113) + (Course Rating − Par)
+ *
+ * @param handicapIndex - The player's handicap index
+ * @param slopeRating - Slope rating of the tees played
+ * @param courseRating - Course rating of the tees played
+ * @param par - Par of the holes played
+ * @returns Course handicap rounded to the nearest whole number
+ */
+export function calculateCourseHandicap(
+  handicapIndex: number,
+  slopeRating: number,
+  courseRating: number,
+  par: number
+): number {
+  return Math.round(handicapIndex * (slopeRating / 113) + (courseRating - par))
+}
+
+/**
+ * Apply a handicap allowance to a course handicap
+ *
+ * @param courseHandicap - The player's course handicap
+ * @param allowance - Percentage of the course handicap to use (e.g. 95 for stroke play)
+ * @returns Playing handicap rounded to the nearest whole number
+ */
+export function calculatePlayingHandicap(courseHandicap: number, allowance: number): number {
+  // Avoid returning -0
+  return Math.round(courseHandicap * (allowance / 100)) || 0
+}
+
+/**
+ * Calculate a player's course handicap, playing handicap and stroke allocation for a tee
+ * Holes are numbered in the order the tee lists them.
+ *
+ * @param handicapIndex - The player's handicap index
+ * @param tee - Tee ratings, par and holes with stroke index in `handicap`
+ * @param allowance - Percentage of the course handicap to use (defaults to 100)
+ */
+export function calculateTeeHandicap(
+  handicapIndex: number,
+  tee: Pick<GolfCourseTee, 'course_rating' | 'slope_rating' | 'par_total' | 'holes'>,
+  allowance: number = 100
+): TeeHandicap {
+  const courseHandicap = calculateCourseHandicap(
+    handicapIndex,
+    tee.slope_rating,
+    tee.course_rating,
+    tee.par_total
+  )
+  const playingHandicap = calculatePlayingHandicap(courseHandicap, allowance)
+
+  const holes = (tee.holes ?? []).map((hole, i) => ({
+    holeNumber: i + 1,
+    par: hole.par,
+    score: 0,
+    handicap: hole.handicap,
+  }))
+
+  return {
+    courseHandicap,
+    playingHandicap,
+    allowance,
+    strokesPerHole: allocateHandicapStrokes(holes, playingHandicap),
+  }
+}
+
+/**
+ * Allocate handicap strokes to each hole using the hole stroke index
+ * Holes are ranked by stroke index (hardest first); every hole receives the
+ * base allocation and the hardest holes receive one extra stroke for the remainder.
+ * Plus handicaps (negative course handicap) give strokes back starting from the
+ * easiest hole. Holes without a stroke index are ranked after those with one, in hole order.
+ *
+ * @param holes - Holes played, with optional stroke index in `handicap`
+ * @param courseHandicap - The player's course handicap
+ * @returns Strokes received on each hole (negative when given back), in the same order as `holes`
+ */
+export function allocateHandicapStrokes(
+  holes: HoleForAdjustment[],
+  courseHandicap: number
+): number[] {
+  const count = holes.length
+  if (count === 0 || courseHandicap === 0) {
+    return holes.map(() => 0)
+  }
+
+  const ranking = holes
+    .map((hole, position) => ({ hole, position }))
+    .sort((a, b) => {
+      const aIndex = a.hole.handicap ?? Number.MAX_SAFE_INTEGER
+      const bIndex = b.hole.handicap ?? Number.MAX_SAFE_INTEGER
+      return aIndex - bIndex || a.hole.holeNumber - b.hole.holeNumber
+    })
+
+  const direction = courseHandicap > 0 ? 1 : -1
+  const totalStrokes = Math.abs(courseHandicap)
+  const baseStrokes = Math.floor(totalStrokes / count)
+  const remainder = totalStrokes % count
+  const strokes = holes.map(() => baseStrokes * direction)
+
+  // Plus players give strokes back on the easiest holes first
+  const order = direction > 0 ? ranking : [...ranking].reverse()
+  order.slice(0, remainder).forEach(({ position }) => {
+    strokes[position] += direction
+  })
+
+  return strokes
+}
+
+/**
+ * Maximum hole score for handicap purposes
+ * Net double bogey (par + 2 + strokes received) when the player has a course handicap,
+ * otherwise par + 5 for players without an established handicap index
+ *
+ * @param par - Par of the hole
+ * @param strokesReceived - Handicap strokes received on the hole, or null if no index
+ * @returns Maximum score that counts toward the adjusted gross score
+ */
+export function calculateMaxHoleScore(par: number, strokesReceived: number | null): number {
+  if (strokesReceived === null) {
+    return par + NO_INDEX_MAX_OVER_PAR
+  }
+
+  return par + 2 + strokesReceived
+}
+
+/**
+ * Calculate the adjusted gross score from hole-by-hole data
+ * Each hole is capped at its maximum hole score before totalling.
+ * Holes without a score (0) are ignored.
+ *
+ * @param holes - Hole-by-hole scores with par and stroke index
+ * @param courseHandicap - The player's course handicap, or null if no established index
+ * @returns Adjusted gross score
+ */
+export function calculateAdjustedGrossScore(
+  holes: HoleForAdjustment[],
+  courseHandicap: number | null
+): number {
+  const playedHoles = holes.filter(h => h.score > 0)
+  const strokes = courseHandicap !== null
+    ? allocateHandicapStrokes(playedHoles, courseHandicap)
+    : null
+
+  return playedHoles.reduce((total, hole, i) => {
+    const maxScore = calculateMaxHoleScore(hole.par, strokes ? strokes[i] : null)
+    return total + Math.min(hole.score, maxScore)
+  }, 0)
+}
+
+/**
+ * Calculate the adjusted gross score for a posted round
+ * Uses hole-by-hole data when available; rounds posted as a total only cannot be
+ * adjusted and use the gross score. The course handicap is derived from the player's
+ * handicap index and the round's ratings; without them the par + 5 rule applies.
+ *
+ * @param round - Gross score, optional hole-by-hole data and course ratings
+ * @param handicapIndex - The player's handicap index, or null if not established
+ * @returns Adjusted gross score
+ */
+export function calculateRoundAdjustedGrossScore(
+  round: {
+    score: number
+    holeByHoleData?: unknown
+    courseRating: number | null
+    slopeRating: number | null
+  },
+  handicapIndex: number | null
+): number {
+  if (!Array.isArray(round.holeByHoleData) || round.holeByHoleData.length === 0) {
+    return round.score
+  }
+
+  const holes = round.holeByHoleData as HoleForAdjustment[]
+  const playedHoles = holes.filter(h => h.score > 0)
+  const par = playedHoles.reduce((sum, h) => sum + h.par, 0)
+
+  // A 9-hole course handicap uses half the index against the 9-hole ratings
+  const index = handicapIndex !== null && playedHoles.length <= 9 ? handicapIndex / 2 : handicapIndex
+
+  const courseHandicap = index !== null && round.courseRating && round.slopeRating
+    ? calculateCourseHandicap(index, round.slopeRating, round.courseRating, par)
+    : null
+
+  // Apply the cap as a reduction so totals entered alongside hole data stay consistent
+  const grossFromHoles = playedHoles.reduce((sum, h) => sum + h.score, 0)
+  const reduction = grossFromHoles - calculateAdjustedGrossScore(playedHoles, courseHandicap)
+
+  return round.score - reduction
+}
+
+/**
+ * Get the 9-hole ratings for one side of an 18-hole tee
+ *
+ * @param tee - Tee with front and back 9 ratings
+ * @param side - Which nine was played
+ */
+export function getNineHoleRatings(
+  tee: Pick<GolfCourseTee, 'front_course_rating' | 'front_slope_rating' | 'back_course_rating' | 'back_slope_rating'>,
+  side: NineHoleSide
+): { courseRating: number; slopeRating: number } {
+  return side === 'front'
+    ? { courseRating: tee.front_course_rating, slopeRating: tee.front_slope_rating }
+    : { courseRating: tee.back_course_rating, slopeRating: tee.back_slope_rating }
+}
+
+/**
+ * Calculate the 18-hole differential for two combined 9-hole scores
+ * Formula: (113 / average Slope Rating) × (combined score − combined Course Rating)
+ *
+ * @param first - Score and 9-hole ratings of one nine
+ * @param second - Score and 9-hole ratings of the other nine
+ * @returns Combined differential rounded to 1 decimal place
+ */
+export function calculateCombinedNineHoleDifferential(
+  first: { score: number; courseRating: number; slopeRating: number },
+  second: { score: number; courseRating: number; slopeRating: number }
+): number {
+  const slopeRating = Math.round((first.slopeRating + second.slopeRating) / 2)
+  const differential = (113 / slopeRating) *
+    (first.score + second.score - (first.courseRating + second.courseRating))
+
+  return Math.round(differential * 10) / 10
+}
+
+/**
+ * Pair a player's 9-hole rounds into combined 18-hole scores
+ * Rounds with ratings are paired in the order they were played (tie-broken by
+ * creation time). The later round of each pair carries the combined differential
+ * so the 18-hole score dates from when it was completed; an odd round out stays pending.
+ *
+ * @param rounds - The player's rounds; anything other than 9-hole rounds is ignored
+ * @returns Pairing state for each 9-hole round, keyed by round ID
+ */
+export function pairNineHoleRounds(rounds: NineHoleRound[]): Record<number, NineHolePairing> {
+  const nineHoleRounds = rounds.filter(r => r.holes === 9)
+  const pairings: Record<number, NineHolePairing> = {}
+
+  nineHoleRounds.forEach(r => {
+    pairings[r.id] = { pairedRoundId: null, handicapDifferential: null }
+  })
+
+  const pairable = nineHoleRounds
+    .filter(r => r.courseRating && r.slopeRating)
+    .sort((a, b) => {
+      const byDate = new Date(a.datePlayed).getTime() - new Date(b.datePlayed).getTime()
+      if (byDate !== 0) return byDate
+
+      const aCreated = a.createdAt ? new Date(a.createdAt).getTime() : 0
+      const bCreated = b.createdAt ? new Date(b.createdAt).getTime() : 0
+      return aCreated - bCreated || a.id - b.id
+    })
+
+  for (let i = 0; i + 1 < pairable.length; i += 2) {
+    const first = pairable[i]
+    const second = pairable[i + 1]
+
+    pairings[first.id] = { pairedRoundId: second.id, handicapDifferential: null }
+    pairings[second.id] = {
+      pairedRoundId: first.id,
+      handicapDifferential: calculateCombinedNineHoleDifferential(
+        { score: first.score, courseRating: first.courseRating as number, slopeRating: first.slopeRating as number },
+        { score: second.score, courseRating: second.courseRating as number, slopeRating: second.slopeRating as number }
+      ),
+    }
+  }
+
+  return pairings
+}
+
 /**
  * Calculate handicap index from a set of round differentials
  * Following USGA rules for number of rounds
@@ -80,18 +618,395 @@ export function calculateHandicapIndex(differentials: number[]): number | null {
     index = sorted.slice(0, 8).reduce((sum, d) => sum + d, 0) / 8
   }
 
-  // Handicap index cannot be negative
-  if (index < 0) {
-    index = 0
+  // Negative results are plus handicaps; the index cannot exceed the WHS maximum
+  index = Math.min(index, MAX_HANDICAP_INDEX)
+
+  // Round to 1 decimal place (avoiding -0)
+  return Math.round(index * 10) / 10 || 0
+}
+
+/**
+ * Format a handicap index for display
+ * Plus handicaps are stored as negative numbers but shown with a leading "+"
+ *
+ * @param handicapIndex - Handicap index, or null if not established
+ * @returns Formatted index (e.g. "12.4", "+1.4"), or "N/A"
+ */
+export function formatHandicapIndex(handicapIndex: number | null | undefined): string {
+  if (handicapIndex === null || handicapIndex === undefined) {
+    return 'N/A'
   }
 
-  // Round to 1 decimal place
-  return Math.round(index * 10) / 10
+  if (handicapIndex < 0) {
+    return `+${Math.abs(handicapIndex).toFixed(1)}`
+  }
+
+  return handicapIndex.toFixed(1)
+}
+
+/**
+ * Sort acceptable rounds with a valid differential newest first
+ * Rounds played on the same date are ordered by creation time
+ */
+function sortEligibleRoundsNewestFirst(rounds: RoundWithDifferential[]): RoundWithDifferential[] {
+  return rounds
+    .filter(r => r.handicapDifferential !== null && !r.ineligibleReasons?.length)
+    .sort((a, b) => {
+      const byDate = new Date(b.datePlayed).getTime() - new Date(a.datePlayed).getTime()
+      if (byDate !== 0) return byDate
+
+      const aCreated = a.createdAt ? new Date(a.createdAt).getTime() : 0
+      const bCreated = b.createdAt ? new Date(b.createdAt).getTime() : 0
+      return bCreated - aCreated || b.id - a.id
+    })
+}
+
+/**
+ * Select the scoring record used for the handicap index
+ * Keeps rounds with a valid differential and returns the most recent
+ * SCORING_RECORD_SIZE of them by date played, tie-broken by creation time
+ *
+ * @param rounds - Array of rounds with differential data
+ * @returns Most recent eligible rounds, newest first
+ */
+export function selectScoringRecord(rounds: RoundWithDifferential[]): RoundWithDifferential[] {
+  return sortEligibleRoundsNewestFirst(rounds).slice(0, SCORING_RECORD_SIZE)
+}
+
+/**
+ * Determine the Exceptional Score Reduction triggered by a round
+ * -1 when the differential is 7.0-9.9 below the index, -2 when 10.0 or more below
+ *
+ * @param differential - Handicap differential of the round
+ * @param handicapIndex - Player's index when the round was played
+ * @returns 0, -1 or -2
+ */
+export function calculateExceptionalScoreReduction(
+  differential: number | null,
+  handicapIndex: number | null
+): number {
+  if (differential === null || handicapIndex === null) {
+    return 0
+  }
+
+  // Round to avoid floating point noise at the thresholds
+  const belowIndex = Math.round((handicapIndex - differential) * 10) / 10
+
+  if (belowIndex >= EXCEPTIONAL_SCORE_MAJOR_THRESHOLD) return -2
+  if (belowIndex >= EXCEPTIONAL_SCORE_THRESHOLD) return -1
+  return 0
+}
+
+/**
+ * Work out the Exceptional Score Reductions applied to each round
+ * A reduction triggered by a round applies to that round and the 19 scores
+ * preceding it, i.e. the scoring record at the time it was posted.
+ * Reductions are derived from the stored triggers, so editing or deleting the
+ * exceptional round undoes them on the next calculation.
+ *
+ * @param rounds - Array of rounds with differential data
+ * @returns Round ID → total reduction applied (non-zero entries only)
+ */
+export function calculateExceptionalScoreAdjustments(
+  rounds: RoundWithDifferential[]
+): Record<number, number> {
+  const sorted = sortEligibleRoundsNewestFirst(rounds)
+  const adjustments: Record<number, number> = {}
+
+  sorted.forEach((round, position) => {
+    const reduction = round.exceptionalScoreAdjustment ?? 0
+    if (reduction === 0) return
+
+    sorted.slice(position, position + SCORING_RECORD_SIZE).forEach(affected => {
+      adjustments[affected.id] = (adjustments[affected.id] ?? 0) + reduction
+    })
+  })
+
+  return adjustments
+}
+
+/**
+ * Find the Low Handicap Index: the lowest index in the 365 days up to a date
+ *
+ * @param history - Previously calculated indexes with the date they took effect
+ * @param asOf - Date of the most recent score in the scoring record
+ * @returns Lowest index in the window, or null if there is no history in it
+ */
+export function findLowHandicapIndex(
+  history: Array<{ handicapIndex: number; effectiveDate: Date }>,
+  asOf: Date
+): number | null {
+  const end = new Date(asOf).getTime()
+  const start = end - LOW_HANDICAP_INDEX_WINDOW_DAYS * 24 * 60 * 60 * 1000
+
+  const inWindow = history
+    .filter(h => {
+      const time = new Date(h.effectiveDate).getTime()
+      return time >= start && time <= end
+    })
+    .map(h => h.handicapIndex)
+
+  return inWindow.length > 0 ? Math.min(...inWindow) : null
+}
+
+/**
+ * Build a handicap index timeline from revision history
+ * Revisions are ordered by the date they took effect; when several take effect on
+ * the same day (e.g. a round was edited) only the most recently recorded one is kept.
+ *
+ * @param revisions - Recorded revisions in any order
+ * @returns One revision per effective day, oldest first
+ */
+export function buildHandicapTimeline<T extends { effectiveDate: Date; createdAt: Date }>(
+  revisions: T[]
+): T[] {
+  const byDay = new Map<string, T>()
+
+  revisions.forEach(revision => {
+    const day = new Date(revision.effectiveDate).toISOString().slice(0, 10)
+    const existing = byDay.get(day)
+    if (
+      !existing ||
+      new Date(revision.effectiveDate).getTime() > new Date(existing.effectiveDate).getTime() ||
+      (new Date(revision.effectiveDate).getTime() === new Date(existing.effectiveDate).getTime() &&
+        new Date(revision.createdAt).getTime() >= new Date(existing.createdAt).getTime())
+    ) {
+      byDay.set(day, revision)
+    }
+  })
+
+  return [...byDay.values()].sort(
+    (a, b) => new Date(a.effectiveDate).getTime() - new Date(b.effectiveDate).getTime()
+  )
+}
+
+/**
+ * Find the revision in effect on a date
+ * The index on a date includes every revision that took effect by the end of that day,
+ * which is what competitions locking the index at a cutoff date need.
+ *
+ * @param timeline - Revisions oldest first, as returned by buildHandicapTimeline
+ * @param date - Date to look up
+ * @returns Revision in effect, or null if the player had no index yet
+ */
+export function findRevisionOnDate<T extends { effectiveDate: Date }>(
+  timeline: T[],
+  date: Date
+): T | null {
+  const d = new Date(date)
+  const endOfDay = Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() + 1)
+
+  let inEffect: T | null = null
+  for (const revision of timeline) {
+    if (new Date(revision.effectiveDate).getTime() >= endOfDay) break
+    inEffect = revision
+  }
+
+  return inEffect
+}
+
+/**
+ * Apply the WHS soft and hard caps against the Low Handicap Index
+ * Soft cap: any increase above 3.0 strokes is reduced by 50%
+ * Hard cap: the index cannot rise more than 5.0 strokes above the Low Handicap Index
+ *
+ * @param handicapIndex - Calculated index before caps
+ * @param lowHandicapIndex - Low Handicap Index, or null if not established
+ * @returns Capped index rounded to 1 decimal place and which cap (if any) applied
+ */
+export function applyHandicapCaps(
+  handicapIndex: number,
+  lowHandicapIndex: number | null
+): { handicapIndex: number; capApplied: HandicapCap | null } {
+  if (lowHandicapIndex === null) {
+    return { handicapIndex, capApplied: null }
+  }
+
+  const increase = handicapIndex - lowHandicapIndex
+  if (increase <= SOFT_CAP_THRESHOLD) {
+    return { handicapIndex, capApplied: null }
+  }
+
+  const softCapped = lowHandicapIndex + SOFT_CAP_THRESHOLD + (increase - SOFT_CAP_THRESHOLD) / 2
+  const hardCapped = lowHandicapIndex + HARD_CAP_LIMIT
+
+  if (softCapped > hardCapped) {
+    return { handicapIndex: Math.round(hardCapped * 10) / 10, capApplied: 'hard' }
+  }
+
+  return { handicapIndex: Math.round(softCapped * 10) / 10, capApplied: 'soft' }
+}
+
+/**
+ * Calculate handicap index from a set of rounds, including which rounds counted
+ * Only the most recent 20 eligible scores are considered. Exceptional Score Reductions
+ * are applied to the differentials, and caps once the scoring record is full and a
+ * Low Handicap Index is supplied.
+ *
+ * @param rounds - Array of rounds with differential data
+ * @param lowHandicapIndex - Low Handicap Index from the player's index history
+ * @returns Handicap index, cap details, the scoring record and the IDs of the counting rounds
+ */
+export function calculateHandicapIndexDetails(
+  rounds: RoundWithDifferential[],
+  lowHandicapIndex: number | null = null
+): HandicapIndexCalculation {
+  const scoringRecord = selectScoringRecord(rounds)
+
+  if (scoringRecord.length === 0) {
+    return {
+      handicapIndex: null,
+      uncappedHandicapIndex: null,
+      lowHandicapIndex: null,
+      capApplied: null,
+      scoringRecord,
+      countingRoundIds: [],
+      exceptionalScoreAdjustments: {},
+    }
+  }
+
+  // Exceptional Score Reductions lower the affected differentials before averaging
+  const allAdjustments = calculateExceptionalScoreAdjustments(rounds)
+  const exceptionalScoreAdjustments: Record<number, number> = {}
+  scoringRecord.forEach(r => {
+    if (allAdjustments[r.id]) exceptionalScoreAdjustments[r.id] = allAdjustments[r.id]
+  })
+
+  const adjustedDifferential = (r: RoundWithDifferential) =>
+    (r.handicapDifferential as number) + (exceptionalScoreAdjustments[r.id] ?? 0)
+
+  const differentials = scoringRecord.map(adjustedDifferential)
+  const countingRoundIds = [...scoringRecord]
+    .sort((a, b) => adjustedDifferential(a) - adjustedDifferential(b))
+    .slice(0, getNumberOfDifferentialsUsed(scoringRecord.length))
+    .map(r => r.id)
+
+  const uncappedHandicapIndex = calculateHandicapIndex(differentials) as number
+
+  // A Low Handicap Index is only established once the scoring record is full
+  const effectiveLowIndex = scoringRecord.length >= SCORING_RECORD_SIZE ? lowHandicapIndex : null
+  const { handicapIndex, capApplied } = applyHandicapCaps(uncappedHandicapIndex, effectiveLowIndex)
+
+  return {
+    handicapIndex,
+    uncappedHandicapIndex,
+    lowHandicapIndex: effectiveLowIndex,
+    capApplied,
+    scoringRecord,
+    countingRoundIds,
+    exceptionalScoreAdjustments,
+  }
+}
+
+/**
+ * ID given to the hypothetical round in a simulation; real round IDs are positive
+ */
+export const SIMULATED_ROUND_ID = 0
+
+/**
+ * Simulate posting a score against a player's real scoring record
+ * Runs the same calculation as the stored index (ESR, scoring record window and
+ * caps) with the hypothetical score added as the newest round.
+ *
+ * @param rounds - The player's rounds
+ * @param hypothetical - Score and ratings to simulate
+ * @param lowHandicapIndex - Low Handicap Index as of the hypothetical date
+ * @returns Current and resulting index, and which rounds the score would displace
+ */
+export function simulateHandicapIndex(
+  rounds: RoundWithDifferential[],
+  hypothetical: HypotheticalScore,
+  lowHandicapIndex: number | null = null
+): HandicapSimulation {
+  const current = calculateHandicapIndexDetails(rounds, lowHandicapIndex)
+
+  const handicapDifferential = calculateHandicapDifferential(
+    hypothetical.score,
+    hypothetical.courseRating,
+    hypothetical.slopeRating
+  ) as number
+  const exceptionalScoreAdjustment =
+    calculateExceptionalScoreReduction(handicapDifferential, current.handicapIndex)
+
+  const simulated = calculateHandicapIndexDetails(
+    [
+      ...rounds,
+      {
+        id: SIMULATED_ROUND_ID,
+        score: hypothetical.score,
+        courseRating: hypothetical.courseRating,
+        slopeRating: hypothetical.slopeRating,
+        handicapDifferential,
+        datePlayed: hypothetical.datePlayed,
+        // Posted now, so it is newer than stored rounds played the same day
+        createdAt: new Date(),
+        exceptionalScoreAdjustment,
+      },
+    ],
+    lowHandicapIndex
+  )
+
+  const simulatedRecordIds = simulated.scoringRecord.map(r => r.id)
+
+  return {
+    score: hypothetical.score,
+    handicapDifferential,
+    exceptionalScoreAdjustment,
+    currentHandicapIndex: current.handicapIndex,
+    handicapIndex: simulated.handicapIndex,
+    capApplied: simulated.capApplied,
+    countsTowardIndex: simulated.countingRoundIds.includes(SIMULATED_ROUND_ID),
+    replacedRoundIds: current.countingRoundIds.filter(id => !simulated.countingRoundIds.includes(id)),
+    droppedRoundIds: current.scoringRecord
+      .map(r => r.id)
+      .filter(id => !simulatedRecordIds.includes(id)),
+  }
+}
+
+/**
+ * Find the highest score that would bring a player's index to a target
+ * Lower scores never raise the index, so the score is found by binary search.
+ *
+ * @param rounds - The player's rounds
+ * @param targetIndex - Index to reach or beat
+ * @param hypothetical - Ratings and date of the round to simulate (score is ignored)
+ * @param lowHandicapIndex - Low Handicap Index as of the hypothetical date
+ * @returns Simulation for the highest qualifying score, or null if no realistic score reaches the target
+ */
+export function findScoreForTargetIndex(
+  rounds: RoundWithDifferential[],
+  targetIndex: number,
+  hypothetical: Omit<HypotheticalScore, 'score'>,
+  lowHandicapIndex: number | null = null
+): HandicapSimulation | null {
+  const simulate = (score: number) =>
+    simulateHandicapIndex(rounds, { ...hypothetical, score }, lowHandicapIndex)
+  const reachesTarget = (simulation: HandicapSimulation) =>
+    simulation.handicapIndex !== null && simulation.handicapIndex <= targetIndex
+
+  // From well under the course rating up to the 54.0 maximum's worth of strokes
+  let low = Math.max(1, Math.floor(hypothetical.courseRating) - 20)
+  let high = Math.ceil(hypothetical.courseRating + MAX_HANDICAP_INDEX * hypothetical.slopeRating / 113)
+
+  if (!reachesTarget(simulate(low))) {
+    return null
+  }
+
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2)
+    if (reachesTarget(simulate(mid))) {
+      low = mid
+    } else {
+      high = mid - 1
+    }
+  }
+
+  return simulate(low)
 }
 
 /**
  * Calculate handicap index from a set of rounds
- * Filters rounds with valid differentials and calculates index
+ * Uses the most recent 20 rounds with valid differentials
  *
  * @param rounds - Array of rounds with differential data
  * @returns Handicap index or null if insufficient valid rounds
@@ -99,12 +1014,7 @@ export function calculateHandicapIndex(differentials: number[]): number | null {
 export function calculateHandicapIndexFromRounds(
   rounds: RoundWithDifferential[]
 ): number | null {
-  // Filter to rounds with valid differentials
-  const validDifferentials = rounds
-    .filter(r => r.handicapDifferential !== null)
-    .map(r => r.handicapDifferential as number)
-
-  return calculateHandicapIndex(validDifferentials)
+  return calculateHandicapIndexDetails(rounds).handicapIndex
 }
 
 /**
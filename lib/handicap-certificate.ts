@@ -0,0 +1,269 @@
+/**
+ * Handicap certificate
+ * Gathers a player's current handicap figures for tournament committees, renders
+ * them as a PDF and signs expiring links that let anyone verify them without an account
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { formatHandicapIndex, HandicapCap } from '@/lib/handicap-calculator'
+import { HANDICAP_ROUND_SELECT, summarizeHandicap } from '@/lib/handicap-history'
+import { renderPdf, splitMonoText, PdfText, PdfLine, PDF_PAGE_WIDTH } from '@/lib/pdf'
+
+/**
+ * How long a verification link stays valid
+ */
+export const CERTIFICATE_LINK_TTL_DAYS = 30
+
+export interface HandicapCertificate {
+  player: {
+    id: number
+    name: string
+  }
+  handicapIndex: number | null // Calculated from the scoring record; a manual override is never certified
+  lowHandicapIndex: number | null
+  capApplied: HandicapCap | null
+  revisionDate: string | null // When the current index took effect
+  generatedAt: string
+  scores: Array<{
+    id: number
+    datePlayed: string
+    courseName: string
+    score: number
+    courseRating: number | null
+    slopeRating: number | null
+    handicapDifferential: number
+    exceptionalScoreAdjustment: number
+    counting: boolean
+  }>
+}
+
+/**
+ * Build the certificate for a player from their rounds and index history
+ *
+ * @param userId - The player's user ID
+ * @returns The certificate, or null if the user does not exist
+ */
+export async function getHandicapCertificate(
+  userId: number,
+  db: Prisma.TransactionClient = prisma
+): Promise<HandicapCertificate | null> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { id: true, name: true },
+  })
+
+  if (!user) {
+    return null
+  }
+
+  const rounds = await db.round.findMany({
+    where: { userId },
+    select: { ...HANDICAP_ROUND_SELECT, courseName: true },
+  })
+
+  // Same figures as the dashboard
+  const { summary, calculation } = await summarizeHandicap(userId, rounds, db)
+
+  const latestRevision = await db.handicapRevision.findFirst({
+    where: { userId },
+    orderBy: [{ effectiveDate: 'desc' }, { createdAt: 'desc' }],
+    select: { effectiveDate: true },
+  })
+
+  return {
+    player: { id: user.id, name: user.name },
+    handicapIndex: summary.calculatedHandicapIndex,
+    lowHandicapIndex: summary.lowHandicapIndex,
+    capApplied: summary.capApplied,
+    revisionDate: latestRevision?.effectiveDate.toISOString() ?? null,
+    generatedAt: new Date().toISOString(),
+    scores: calculation.scoringRecord.map(r => {
+      const round = rounds.find(candidate => candidate.id === r.id)
+      return {
+        id: r.id,
+        datePlayed: new Date(r.datePlayed).toISOString(),
+        courseName: round?.courseName ?? '',
+        score: r.score,
+        courseRating: r.courseRating,
+        slopeRating: r.slopeRating,
+        handicapDifferential: r.handicapDifferential as number,
+        exceptionalScoreAdjustment: calculation.exceptionalScoreAdjustments[r.id] ?? 0,
+        counting: summary.countingRoundIds.includes(r.id),
+      }
+    }),
+  }
+}
+
+/**
+ * Get the secret used to sign verification links
+ */
+function getSigningSecret(): string {
+  const secret = process.env.AUTH_SECRET
+  if (!secret) {
+    throw new Error('AUTH_SECRET is not configured')
+  }
+  return secret
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', getSigningSecret())
+    .update(`handicap-certificate:${payload}`)
+    .digest('base64url')
+}
+
+/**
+ * Figures a verification link certifies, as printed on the PDF it was issued with
+ */
+export interface CertifiedFigures {
+  userId: number
+  handicapIndex: number | null
+  revisionDate: string | null
+  expiresAt: Date
+}
+
+/**
+ * Create a signed token for a certificate's verification link
+ * The certified index and revision date are signed into the token so the link
+ * verifies the figures on the PDF, not whatever the player's record shows later.
+ * Token format: `<base64url JSON payload>.<signature>`
+ *
+ * @param certificate - The certificate the link is printed on
+ * @param expiresAt - When the link stops working
+ */
+export function createCertificateToken(certificate: HandicapCertificate, expiresAt: Date): string {
+  const payload = Buffer.from(JSON.stringify({
+    userId: certificate.player.id,
+    handicapIndex: certificate.handicapIndex,
+    revisionDate: certificate.revisionDate,
+    expiry: Math.floor(expiresAt.getTime() / 1000),
+  })).toString('base64url')
+  return `${payload}.${sign(payload)}`
+}
+
+/**
+ * Check a certificate verification token
+ *
+ * @param token - Token from the verification link
+ * @param now - Time to check expiry against
+ * @returns The certified figures and link expiry, or null if the token is invalid or expired
+ */
+export function verifyCertificateToken(
+  token: string,
+  now: Date = new Date()
+): CertifiedFigures | null {
+  const [payload, signature, ...rest] = token.split('.')
+  if (!payload || !signature || rest.length > 0) {
+    return null
+  }
+
+  const expected = Buffer.from(sign(payload))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  let figures: { userId?: unknown; handicapIndex?: unknown; revisionDate?: unknown; expiry?: unknown }
+  try {
+    figures = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))
+  } catch (error) {
+    return null
+  }
+
+  const { userId, handicapIndex, revisionDate, expiry } = figures
+  if (
+    !Number.isInteger(userId) ||
+    !Number.isInteger(expiry) ||
+    (handicapIndex !== null && typeof handicapIndex !== 'number') ||
+    (revisionDate !== null && typeof revisionDate !== 'string')
+  ) {
+    return null
+  }
+
+  const expiresAt = new Date((expiry as number) * 1000)
+  if (expiresAt.getTime() <= now.getTime()) {
+    return null
+  }
+
+  return {
+    userId: userId as number,
+    handicapIndex: handicapIndex as number | null,
+    revisionDate: revisionDate as string | null,
+    expiresAt,
+  }
+}
+
+/**
+ * Render a certificate as a one-page PDF
+ *
+ * @param certificate - Figures to print
+ * @param verificationUrl - Public link a committee can use to check the figures
+ * @param expiresAt - When the link stops working
+ */
+export function renderHandicapCertificatePdf(
+  certificate: HandicapCertificate,
+  verificationUrl: string,
+  expiresAt: Date
+): Buffer {
+  const formatDate = (date: string | Date) =>
+    new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })
+
+  const texts: PdfText[] = [
+    { text: 'Handicap Index Certificate', x: 50, y: 60, size: 20, bold: true },
+    { text: certificate.player.name, x: 50, y: 90, size: 14 },
+    { text: 'Handicap Index', x: 50, y: 125, size: 9 },
+    { text: formatHandicapIndex(certificate.handicapIndex), x: 50, y: 145, size: 18, bold: true },
+    { text: 'Low Handicap Index', x: 230, y: 125, size: 9 },
+    { text: formatHandicapIndex(certificate.lowHandicapIndex), x: 230, y: 145, size: 18, bold: true },
+    { text: 'Revision Date', x: 410, y: 125, size: 9 },
+    { text: certificate.revisionDate ? formatDate(certificate.revisionDate) : 'N/A', x: 410, y: 145, size: 14, bold: true },
+  ]
+
+  if (certificate.capApplied) {
+    texts.push({ text: `A ${certificate.capApplied} cap limits this index.`, x: 50, y: 165, size: 9 })
+  }
+
+  texts.push({ text: `Scoring Record (${certificate.scores.length} most recent scores, * = counting)`, x: 50, y: 195, size: 11, bold: true })
+
+  const columns = [
+    { label: '', x: 50 },
+    { label: 'Date', x: 62 },
+    { label: 'Course', x: 140 },
+    { label: 'Score', x: 360 },
+    { label: 'Rating/Slope', x: 405 },
+    { label: 'Differential', x: 490 },
+  ]
+  columns.forEach(c => texts.push({ text: c.label, x: c.x, y: 215, size: 9, bold: true }))
+  const lines: PdfLine[] = [{ x1: 50, y1: 220, x2: 562, y2: 220 }]
+
+  certificate.scores.forEach((score, i) => {
+    const y = 235 + i * 16
+    const courseName = score.courseName.length > 40 ? `${score.courseName.slice(0, 39)}...` : score.courseName
+    const differential = (score.handicapDifferential + score.exceptionalScoreAdjustment).toFixed(1) +
+      (score.exceptionalScoreAdjustment ? ` (ESR ${score.exceptionalScoreAdjustment})` : '')
+
+    texts.push(
+      { text: score.counting ? '*' : '', x: 50, y, size: 9, bold: true },
+      { text: formatDate(score.datePlayed), x: 62, y, size: 9 },
+      { text: courseName, x: 140, y, size: 9 },
+      { text: String(score.score), x: 360, y, size: 9 },
+      { text: `${score.courseRating ?? '-'} / ${score.slopeRating ?? '-'}`, x: 405, y, size: 9 },
+      { text: differential, x: 490, y, size: 9, bold: score.counting },
+    )
+  })
+
+  if (certificate.scores.length === 0) {
+    texts.push({ text: 'No scores posted.', x: 62, y: 235, size: 9 })
+  }
+
+  texts.push({ text: `Generated ${formatDate(certificate.generatedAt)}. Verify these figures online until ${formatDate(expiresAt)}:`, x: 50, y: 720, size: 9 })
+
+  // The link is wrapped in a fixed-width font so it can be typed from a printout
+  const urlLines = splitMonoText(verificationUrl, 8, PDF_PAGE_WIDTH - 100)
+  urlLines.forEach((line, i) => texts.push({ text: line, x: 50, y: 735 + i * 10, size: 8, mono: true }))
+
+  return renderPdf(texts, lines, [
+    { x1: 50, y1: 727, x2: PDF_PAGE_WIDTH - 50, y2: 737 + (urlLines.length - 1) * 10, url: verificationUrl },
+  ])
+}
@@ -0,0 +1,297 @@
+/**
+ * Handicap index history persistence
+ * Records a HandicapRevision after each change to a player's scoring record and
+ * looks up the Low Handicap Index used for the WHS soft and hard caps
+ *
+ * Functions take an optional database client so round mutations can run them
+ * inside their transaction.
+ */
+
+import { HandicapRevision, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import {
+  buildHandicapTimeline,
+  calculateHandicapIndexDetails,
+  findLowHandicapIndex,
+  getNumberOfDifferentialsUsed,
+  selectScoringRecord,
+  HandicapCap,
+  HandicapIndexCalculation,
+  RoundWithDifferential,
+  LOW_HANDICAP_INDEX_WINDOW_DAYS,
+  SCORING_RECORD_SIZE,
+} from '@/lib/handicap-calculator'
+
+/**
+ * Round fields needed to calculate a handicap index
+ */
+export const HANDICAP_ROUND_SELECT = {
+  id: true,
+  score: true,
+  courseRating: true,
+  slopeRating: true,
+  handicapDifferential: true,
+  datePlayed: true,
+  createdAt: true,
+  exceptionalScoreAdjustment: true,
+  ineligibleReasons: true,
+} as const
+
+/**
+ * Interactive transaction limits for round mutations, which recalculate every
+ * player in the round's field and can outlast Prisma's 5 second default
+ */
+export const RECALCULATION_TRANSACTION_OPTIONS = {
+  maxWait: 10000,
+  timeout: 30000,
+} as const
+
+/**
+ * Get the lowest index a player held in the 365 days up to a date
+ * Only the latest revision of each day counts, so an index later corrected by
+ * an edit on the same day doesn't become the low.
+ *
+ * @param userId - The player's user ID
+ * @param asOf - Date of the most recent score in the scoring record
+ * @returns Low Handicap Index, or null if the player has no history in the window
+ */
+export async function getLowHandicapIndex(
+  userId: number,
+  asOf: Date,
+  db: Prisma.TransactionClient = prisma
+): Promise<number | null> {
+  const windowStart = new Date(asOf.getTime() - LOW_HANDICAP_INDEX_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+
+  const history = await db.handicapRevision.findMany({
+    where: {
+      userId,
+      effectiveDate: { gte: windowStart, lte: asOf },
+    },
+    select: {
+      handicapIndex: true,
+      effectiveDate: true,
+      createdAt: true,
+    },
+  })
+
+  return findLowHandicapIndex(buildHandicapTimeline(history), asOf)
+}
+
+/**
+ * Get the index a player held before a date
+ * Uses the latest revision that took effect strictly before the date, so a
+ * round's own revision is never used to judge that round.
+ *
+ * @param userId - The player's user ID
+ * @param date - Date to look up
+ * @returns Handicap index in effect, or null if the player had no index yet
+ */
+export async function getHandicapIndexBefore(
+  userId: number,
+  date: Date,
+  db: Prisma.TransactionClient = prisma
+): Promise<number | null> {
+  const revision = await db.handicapRevision.findFirst({
+    where: {
+      userId,
+      effectiveDate: { lt: date },
+    },
+    orderBy: [{ effectiveDate: 'desc' }, { createdAt: 'desc' }],
+    select: { handicapIndex: true },
+  })
+
+  return revision?.handicapIndex ?? null
+}
+
+/**
+ * Calculate a player's handicap index with caps from a set of their rounds
+ * The Low Handicap Index is only looked up once the scoring record is full
+ *
+ * @param userId - The player's user ID
+ * @param rounds - All of the player's rounds
+ */
+export async function calculateHandicapWithCaps(
+  userId: number,
+  rounds: RoundWithDifferential[],
+  db: Prisma.TransactionClient = prisma
+): Promise<HandicapIndexCalculation> {
+  const scoringRecord = selectScoringRecord(rounds)
+
+  const lowHandicapIndex = scoringRecord.length >= SCORING_RECORD_SIZE
+    ? await getLowHandicapIndex(userId, new Date(scoringRecord[0].datePlayed), db)
+    : null
+
+  return calculateHandicapIndexDetails(rounds, lowHandicapIndex)
+}
+
+/**
+ * Calculated handicap figures shown on the dashboard and handicap certificate
+ */
+export interface HandicapSummary {
+  calculatedHandicapIndex: number | null
+  uncappedHandicapIndex: number | null
+  lowHandicapIndex: number | null
+  capApplied: HandicapCap | null
+  numberOfDifferentialsUsed: number
+  roundsWithDifferential: number
+  scoringRecordSize: number
+  countingRoundIds: number[]
+  exceptionalScores: Array<{
+    id: number
+    courseName: string
+    datePlayed: string
+    handicapDifferential: number
+    reduction: number
+  }>
+}
+
+/**
+ * Summarize a player's handicap from their rounds
+ *
+ * @param userId - The player's user ID
+ * @param rounds - All of the player's rounds
+ * @returns The summary, and the full calculation for per-round details
+ */
+export async function summarizeHandicap(
+  userId: number,
+  rounds: Array<RoundWithDifferential & { courseName: string }>,
+  db: Prisma.TransactionClient = prisma
+): Promise<{ summary: HandicapSummary; calculation: HandicapIndexCalculation }> {
+  // Calculate handicap index from the 20 most recent eligible rounds,
+  // capped against the Low Handicap Index from the user's index history
+  const calculation = await calculateHandicapWithCaps(userId, rounds, db)
+  const { scoringRecord } = calculation
+
+  // Rounds in the scoring record that triggered an Exceptional Score Reduction
+  const exceptionalScores = rounds
+    .filter(r => r.exceptionalScoreAdjustment && scoringRecord.some(s => s.id === r.id))
+    .map(r => ({
+      id: r.id,
+      courseName: r.courseName,
+      datePlayed: new Date(r.datePlayed).toISOString(),
+      handicapDifferential: r.handicapDifferential as number,
+      reduction: r.exceptionalScoreAdjustment as number,
+    }))
+
+  return {
+    summary: {
+      calculatedHandicapIndex: calculation.handicapIndex,
+      uncappedHandicapIndex: calculation.uncappedHandicapIndex,
+      lowHandicapIndex: calculation.lowHandicapIndex,
+      capApplied: calculation.capApplied,
+      numberOfDifferentialsUsed: getNumberOfDifferentialsUsed(scoringRecord.length),
+      roundsWithDifferential: rounds.filter(r => r.handicapDifferential !== null).length,
+      scoringRecordSize: scoringRecord.length,
+      countingRoundIds: calculation.countingRoundIds,
+      exceptionalScores,
+    },
+    calculation,
+  }
+}
+
+type RevisionData = Omit<HandicapRevision, 'id' | 'createdAt'>
+
+function isSameRevision(latest: HandicapRevision, data: RevisionData): boolean {
+  const sameValues = (a: number[], b: number[]) => a.length === b.length && a.every((v, i) => v === b[i])
+
+  return latest.effectiveDate.getTime() === new Date(data.effectiveDate).getTime() &&
+    latest.handicapIndex === data.handicapIndex &&
+    latest.uncappedHandicapIndex === data.uncappedHandicapIndex &&
+    latest.lowHandicapIndex === data.lowHandicapIndex &&
+    latest.capApplied === data.capApplied &&
+    latest.scoringRecordSize === data.scoringRecordSize &&
+    sameValues(latest.countingRoundIds, data.countingRoundIds) &&
+    sameValues(latest.differentialsUsed, data.differentialsUsed)
+}
+
+/**
+ * Recalculate a player's stored handicap after a change to their rounds
+ * Drops revisions dated after the newest remaining score, which came from
+ * rounds since deleted or moved earlier, and records a revision effective on
+ * the date of the most recent score in the record unless the latest revision
+ * already matches (e.g. the player was only recalculated because the PCC was
+ * re-run for their course and day). It then updates the user's round count and handicap index so the stored values
+ * always match their rounds. A manually overridden index is left as entered.
+ *
+ * @param userId - The player's user ID
+ * @param db - Client to run against (pass the transaction client from a round mutation)
+ * @returns The recalculated index, or null if the player has no index
+ */
+export async function recalculatePlayerHandicap(
+  userId: number,
+  db: Prisma.TransactionClient = prisma
+): Promise<number | null> {
+  const rounds = await db.round.findMany({
+    where: { userId },
+    select: HANDICAP_ROUND_SELECT,
+  })
+
+  const newestScore = selectScoringRecord(rounds)[0]
+  await db.handicapRevision.deleteMany({
+    where: {
+      userId,
+      ...(newestScore ? { effectiveDate: { gt: new Date(newestScore.datePlayed) } } : {}),
+    },
+  })
+
+  const calculation = await calculateHandicapWithCaps(userId, rounds, db)
+
+  if (calculation.handicapIndex !== null && calculation.uncappedHandicapIndex !== null) {
+    const data: RevisionData = {
+      userId,
+      handicapIndex: calculation.handicapIndex,
+      uncappedHandicapIndex: calculation.uncappedHandicapIndex,
+      lowHandicapIndex: calculation.lowHandicapIndex,
+      capApplied: calculation.capApplied,
+      scoringRecordSize: calculation.scoringRecord.length,
+      countingRoundIds: calculation.countingRoundIds,
+      differentialsUsed: calculation.scoringRecord
+        .filter(r => calculation.countingRoundIds.includes(r.id))
+        .map(r => Math.round(
+          ((r.handicapDifferential as number) + (calculation.exceptionalScoreAdjustments[r.id] ?? 0)) * 10
+        ) / 10),
+      effectiveDate: calculation.scoringRecord[0].datePlayed,
+    }
+
+    const latest = await db.handicapRevision.findFirst({
+      where: { userId },
+      orderBy: [{ effectiveDate: 'desc' }, { createdAt: 'desc' }],
+    })
+
+    if (!latest || !isSameRevision(latest, data)) {
+      await db.handicapRevision.create({ data })
+    }
+  }
+
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { handicapIndexOverride: true },
+  })
+
+  await db.user.update({
+    where: { id: userId },
+    data: {
+      rounds: rounds.length,
+      ...(user?.handicapIndexOverride ? {} : { handicapIndex: calculation.handicapIndex }),
+    },
+  })
+
+  return calculation.handicapIndex
+}
+
+/**
+ * Recalculate stored handicaps for several players
+ * Used by round mutations that affect other players (PCC, ownership changes) and
+ * by bulk imports, which should call it once per batch rather than per round.
+ *
+ * @param userIds - Players to recalculate; duplicates are ignored
+ * @param db - Client to run against
+ */
+export async function recalculatePlayerHandicaps(
+  userIds: Iterable<number>,
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  for (const userId of new Set(userIds)) {
+    await recalculatePlayerHandicap(userId, db)
+  }
+}
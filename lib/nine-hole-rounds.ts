@@ -0,0 +1,85 @@
+/**
+ * 9-hole round pairing job
+ * Re-pairs a player's 9-hole rounds after a change to their scoring record and
+ * stores the combined 18-hole differentials
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import {
+  calculateExceptionalScoreReduction,
+  pairNineHoleRounds,
+} from '@/lib/handicap-calculator'
+import { getHandicapIndexBefore } from '@/lib/handicap-history'
+
+/**
+ * Recalculate 9-hole pairings for a player
+ * Pairing is redone from scratch so inserting, editing or deleting a 9-hole
+ * round shifts every later pair. Unacceptable 9-hole scores are left unpaired.
+ * Only rounds whose pairing, differential or
+ * Exceptional Score Reduction changed are updated.
+ *
+ * @param userId - The player's user ID
+ * @param db - Client to run against (pass the transaction client from a round mutation)
+ * @returns IDs of the rounds that were updated
+ */
+export async function recalculateNineHolePairs(
+  userId: number,
+  db: Prisma.TransactionClient = prisma
+): Promise<number[]> {
+  const rounds = await db.round.findMany({
+    where: { userId, holes: 9 },
+    select: {
+      id: true,
+      holes: true,
+      score: true,
+      adjustedGrossScore: true,
+      courseRating: true,
+      slopeRating: true,
+      datePlayed: true,
+      createdAt: true,
+      pairedRoundId: true,
+      handicapDifferential: true,
+      exceptionalScoreAdjustment: true,
+      ineligibleReasons: true,
+    },
+  })
+
+  const pairings = pairNineHoleRounds(
+    rounds
+      .filter(r => r.ineligibleReasons.length === 0)
+      .map(r => ({ ...r, score: r.adjustedGrossScore ?? r.score }))
+  )
+
+  const updatedRoundIds: number[] = []
+
+  for (const round of rounds) {
+    const { pairedRoundId, handicapDifferential } =
+      pairings[round.id] ?? { pairedRoundId: null, handicapDifferential: null }
+
+    // The combined score is judged against the index held before it was completed
+    const exceptionalScoreAdjustment = handicapDifferential !== null
+      ? calculateExceptionalScoreReduction(
+          handicapDifferential,
+          await getHandicapIndexBefore(userId, round.datePlayed, db)
+        ) || null
+      : null
+
+    if (
+      round.pairedRoundId === pairedRoundId &&
+      round.handicapDifferential === handicapDifferential &&
+      round.exceptionalScoreAdjustment === exceptionalScoreAdjustment
+    ) {
+      continue
+    }
+
+    await db.round.update({
+      where: { id: round.id },
+      data: { pairedRoundId, handicapDifferential, exceptionalScoreAdjustment },
+    })
+
+    updatedRoundIds.push(round.id)
+  }
+
+  return updatedRoundIds
+}
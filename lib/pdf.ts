@@ -0,0 +1,112 @@
+/**
+ * Minimal single-page PDF writer
+ * Renders positioned lines of text in the standard Helvetica and Courier fonts,
+ * which every PDF reader provides, so documents need no embedded fonts or extra
+ * dependencies.
+ */
+
+export interface PdfText {
+  text: string
+  x: number // Points from the left edge
+  y: number // Points from the top edge
+  size?: number
+  bold?: boolean
+  mono?: boolean // Courier, e.g. for text a reader may need to type
+}
+
+export interface PdfLine {
+  x1: number
+  y1: number
+  x2: number
+  y2: number
+}
+
+/**
+ * Clickable area opening a URL, in the same top-left coordinates as lines
+ */
+export interface PdfLink extends PdfLine {
+  url: string
+}
+
+export const PDF_PAGE_WIDTH = 612 // US Letter
+export const PDF_PAGE_HEIGHT = 792
+
+// Every Courier glyph is 0.6 em wide
+const MONO_CHAR_WIDTH = 0.6
+
+/**
+ * Split text into Courier lines that fit a width
+ *
+ * @param text - Text to split, e.g. a URL
+ * @param size - Font size in points
+ * @param maxWidth - Width available in points
+ */
+export function splitMonoText(text: string, size: number, maxWidth: number): string[] {
+  const perLine = Math.max(1, Math.floor(maxWidth / (size * MONO_CHAR_WIDTH)))
+  const lines: string[] = []
+  for (let i = 0; i < text.length; i += perLine) {
+    lines.push(text.slice(i, i + perLine))
+  }
+  return lines
+}
+
+/**
+ * Escape text for a PDF string literal
+ * Characters outside printable ASCII are replaced as the standard fonts can't show them
+ */
+function escapePdfText(text: string): string {
+  return text
+    .replace(/[^\x20-\x7e]/g, '?')
+    .replace(/([\\()])/g, '\\$1')
+}
+
+/**
+ * Render a single-page PDF
+ *
+ * @param texts - Text to draw
+ * @param lines - Rules to draw, e.g. under table headers
+ * @param links - Areas that open a URL when clicked
+ * @returns The PDF file contents
+ */
+export function renderPdf(texts: PdfText[], lines: PdfLine[] = [], links: PdfLink[] = []): Buffer {
+  const content = [
+    ...lines.map(l =>
+      `${l.x1} ${PDF_PAGE_HEIGHT - l.y1} m ${l.x2} ${PDF_PAGE_HEIGHT - l.y2} l S`
+    ),
+    ...texts.map(t =>
+      `BT /${t.mono ? 'F3' : t.bold ? 'F2' : 'F1'} ${t.size ?? 10} Tf ${t.x} ${PDF_PAGE_HEIGHT - t.y} Td (${escapePdfText(t.text)}) Tj ET`
+    ),
+  ].join('\n')
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+      '/Resources << /Font << /F1 4 0 R /F2 5 0 R /F3 7 0 R >> >> /Contents 6 0 R' +
+      (links.length > 0 ? ` /Annots [${links.map((_, i) => `${i + 8} 0 R`).join(' ')}]` : '') +
+      ' >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>',
+    ...links.map(l =>
+      `<< /Type /Annot /Subtype /Link /Rect [${l.x1} ${PDF_PAGE_HEIGHT - l.y2} ${l.x2} ${PDF_PAGE_HEIGHT - l.y1}] ` +
+        `/Border [0 0 0] /A << /S /URI /URI (${escapePdfText(l.url)}) >> >>`
+    ),
+  ]
+
+  let pdf = '%PDF-1.4\n'
+  const offsets: number[] = []
+
+  objects.forEach((object, i) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'))
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`
+  })
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1')
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+  return Buffer.from(pdf, 'latin1')
+}
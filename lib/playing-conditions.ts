@@ -0,0 +1,157 @@
+/**
+ * Playing Conditions Calculation (PCC) job
+ * Re-runs the PCC for every round posted on a course on one day and folds the
+ * adjustment into each round's handicap differential
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import {
+  calculateHandicapDifferential,
+  calculateExceptionalScoreReduction,
+  calculatePlayingConditions,
+} from '@/lib/handicap-calculator'
+import { getHandicapIndexBefore } from '@/lib/handicap-history'
+
+export interface PlayingConditionsResult {
+  playingConditionsCalculation: number
+  updatedRounds: Array<{
+    id: number
+    userId: number
+    playingConditionsCalculation: number
+    handicapDifferential: number | null
+    exceptionalScoreAdjustment: number | null
+  }>
+}
+
+/**
+ * Where a round was played: its catalog tee when it has one, otherwise the
+ * free-text course name
+ */
+export interface PlayingConditionsLocation {
+  courseName: string
+  teeSetId: number | null
+  datePlayed: Date
+}
+
+/**
+ * Get the UTC day containing a date
+ */
+function getDayRange(date: Date): { start: Date; end: Date } {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+  const end = new Date(start.getTime() + 24 * 60 * 60 * 1000)
+  return { start, end }
+}
+
+/**
+ * Recalculate PCC for all rounds on a course on the day of a date
+ * Rounds from a catalog tee are grouped by the tee's course, so differently
+ * typed names of one course share a PCC; rounds without a tee fall back to
+ * matching on course name. Only acceptable 18-hole scores from players with an index feed the calculation,
+ * and the result is applied to every acceptable 18-hole round played that day
+ * (9-hole rounds get their differential from pairing instead). Rounds whose
+ * PCC or differential changed are updated and returned so callers can refresh
+ * the affected players' handicap indexes.
+ *
+ * @param location - Course and day of a round whose field should be recalculated
+ * @param db - Client to run against (pass the transaction client from a round mutation)
+ */
+export async function recalculatePlayingConditions(
+  location: PlayingConditionsLocation,
+  db: Prisma.TransactionClient = prisma
+): Promise<PlayingConditionsResult> {
+  const { start, end } = getDayRange(location.datePlayed)
+
+  const teeSet = location.teeSetId === null
+    ? null
+    : await db.teeSet.findUnique({ where: { id: location.teeSetId }, select: { courseId: true } })
+
+  const rounds = await db.round.findMany({
+    where: {
+      ...(teeSet
+        ? { teeSet: { courseId: teeSet.courseId } }
+        : { teeSetId: null, courseName: location.courseName }),
+      datePlayed: { gte: start, lt: end },
+    },
+    select: {
+      id: true,
+      userId: true,
+      score: true,
+      holes: true,
+      adjustedGrossScore: true,
+      courseRating: true,
+      slopeRating: true,
+      handicapDifferential: true,
+      playingConditionsCalculation: true,
+      exceptionalScoreAdjustment: true,
+      ineligibleReasons: true,
+    },
+  })
+
+  // Differentials without PCC, paired with each player's index going into the day
+  const entries = await Promise.all(rounds.map(async round => ({
+    round,
+    baseDifferential: calculateHandicapDifferential(
+      round.adjustedGrossScore ?? round.score,
+      round.courseRating,
+      round.slopeRating
+    ),
+    handicapIndex: await getHandicapIndexBefore(round.userId, start, db),
+  })))
+
+  const isPostable = (round: typeof rounds[number]) =>
+    round.holes === 18 && round.ineligibleReasons.length === 0
+
+  const playingConditionsCalculation = calculatePlayingConditions(
+    entries
+      .filter(e => isPostable(e.round) && e.baseDifferential !== null && e.handicapIndex !== null)
+      .map(e => ({
+        handicapDifferential: e.baseDifferential as number,
+        handicapIndex: e.handicapIndex as number,
+      }))
+  )
+
+  const updatedRounds: PlayingConditionsResult['updatedRounds'] = []
+
+  for (const { round, handicapIndex } of entries) {
+    if (!isPostable(round)) {
+      continue
+    }
+
+    const handicapDifferential = calculateHandicapDifferential(
+      round.adjustedGrossScore ?? round.score,
+      round.courseRating,
+      round.slopeRating,
+      playingConditionsCalculation
+    )
+    const exceptionalScoreAdjustment =
+      calculateExceptionalScoreReduction(handicapDifferential, handicapIndex) || null
+
+    if (
+      round.playingConditionsCalculation === playingConditionsCalculation &&
+      round.handicapDifferential === handicapDifferential &&
+      round.exceptionalScoreAdjustment === exceptionalScoreAdjustment
+    ) {
+      continue
+    }
+
+    await db.round.update({
+      where: { id: round.id },
+      data: {
+        playingConditionsCalculation,
+        handicapDifferential,
+        exceptionalScoreAdjustment,
+      },
+    })
+
+    updatedRounds.push({
+      id: round.id,
+      userId: round.userId,
+      playingConditionsCalculation,
+      handicapDifferential,
+      exceptionalScoreAdjustment,
+    })
+  }
+
+  return { playingConditionsCalculation, updatedRounds }
+}
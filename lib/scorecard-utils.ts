@@ -48,3 +48,97 @@ export function getScoreName(score: number | null, par: number): string {
   if (diff === 3) return 'Triple Bogey'
   return `+${diff}`
 }
+
+/**
+ * Score distribution categories, from getScoreName
+ * Albatrosses count as eagles; triple bogeys and worse are grouped as others.
+ */
+export const SCORE_DISTRIBUTION_CATEGORIES = ['EAGLE', 'BIRDIE', 'PAR', 'BOGEY', 'DOUBLE_BOGEY', 'OTHER'] as const
+
+export type ScoreDistributionCategory = typeof SCORE_DISTRIBUTION_CATEGORIES[number]
+
+export const SCORE_DISTRIBUTION_LABELS: Record<ScoreDistributionCategory, string> = {
+  EAGLE: 'Eagles',
+  BIRDIE: 'Birdies',
+  PAR: 'Pars',
+  BOGEY: 'Bogeys',
+  DOUBLE_BOGEY: 'Doubles',
+  OTHER: 'Others',
+}
+
+const SCORE_NAME_CATEGORIES: Record<string, ScoreDistributionCategory> = {
+  Albatross: 'EAGLE',
+  Eagle: 'EAGLE',
+  Birdie: 'BIRDIE',
+  Par: 'PAR',
+  Bogey: 'BOGEY',
+  'Double Bogey': 'DOUBLE_BOGEY',
+}
+
+export interface ScoreDistributionHole {
+  par: number
+  score: number | null
+  greenInRegulation?: boolean | null
+}
+
+export interface ScoreDistribution {
+  holes: number // Holes with a score
+  counts: Record<ScoreDistributionCategory, number>
+  percentages: Record<ScoreDistributionCategory, number>
+  bogeyAvoidance: number // Percentage of holes at par or better
+  girHoles: number
+  birdieConversion: number // Percentage of greens in regulation turned into birdie or better
+}
+
+/**
+ * Get the score distribution category for a hole
+ * @param score - The score on the hole
+ * @param par - The par for the hole
+ * @returns The category, or null when the hole has no score
+ */
+export function getScoreDistributionCategory(score: number | null, par: number): ScoreDistributionCategory | null {
+  const name = getScoreName(score, par)
+  if (name === 'No Score') return null
+  return SCORE_NAME_CATEGORIES[name] ?? 'OTHER'
+}
+
+/**
+ * Count scores by category, with bogey avoidance and birdie conversion
+ * @param holes - Holes to include; holes without a score are left out
+ * @returns Counts and percentages to one decimal place
+ */
+export function calculateScoreDistribution(holes: ScoreDistributionHole[]): ScoreDistribution {
+  const counts = Object.fromEntries(
+    SCORE_DISTRIBUTION_CATEGORIES.map((category) => [category, 0])
+  ) as Record<ScoreDistributionCategory, number>
+  let scoredHoles = 0
+  let girHoles = 0
+  let girBirdies = 0
+
+  for (const hole of holes) {
+    const category = getScoreDistributionCategory(hole.score, hole.par)
+    if (!category) continue
+
+    scoredHoles++
+    counts[category]++
+    if (hole.greenInRegulation) {
+      girHoles++
+      if (category === 'EAGLE' || category === 'BIRDIE') {
+        girBirdies++
+      }
+    }
+  }
+
+  const percentage = (count: number, total: number) => total > 0 ? Math.round((count / total) * 1000) / 10 : 0
+
+  return {
+    holes: scoredHoles,
+    counts,
+    percentages: Object.fromEntries(
+      SCORE_DISTRIBUTION_CATEGORIES.map((category) => [category, percentage(counts[category], scoredHoles)])
+    ) as Record<ScoreDistributionCategory, number>,
+    bogeyAvoidance: percentage(counts.EAGLE + counts.BIRDIE + counts.PAR, scoredHoles),
+    girHoles,
+    birdieConversion: percentage(girBirdies, girHoles),
+  }
+}
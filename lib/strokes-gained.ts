@@ -0,0 +1,317 @@
+/**
+ * Strokes gained
+ * Compares strokes taken with the strokes a tour player is expected to need from the
+ * same lie and distance. The baselines are kept here so the calculation works offline.
+ */
+
+export const FEET_PER_METER = 3.28084
+
+export type PuttUnit = 'ft' | 'm'
+
+/**
+ * Where a shot was played from
+ * RECOVERY is a lie that needs a punch-out or layup, such as behind trees.
+ */
+export const SHOT_LIES = ['TEE', 'FAIRWAY', 'ROUGH', 'SAND', 'RECOVERY', 'GREEN'] as const
+
+export type ShotLie = typeof SHOT_LIES[number]
+
+export const SHOT_LIE_LABELS: Record<ShotLie, string> = {
+  TEE: 'Tee',
+  FAIRWAY: 'Fairway',
+  ROUGH: 'Rough',
+  SAND: 'Sand',
+  RECOVERY: 'Recovery',
+  GREEN: 'Green',
+}
+
+/**
+ * How a shot ended; where it finished in play is the next shot's lie
+ * A PENALTY shot costs one penalty stroke before the next shot.
+ */
+export const SHOT_RESULTS = ['IN_PLAY', 'HOLED', 'PENALTY'] as const
+
+export type ShotResult = typeof SHOT_RESULTS[number]
+
+export const SHOT_RESULT_LABELS: Record<ShotResult, string> = {
+  IN_PLAY: 'In play',
+  HOLED: 'Holed',
+  PENALTY: 'Penalty',
+}
+
+export const STROKES_GAINED_CATEGORIES = ['OFF_THE_TEE', 'APPROACH', 'AROUND_THE_GREEN', 'PUTTING'] as const
+
+export type StrokesGainedCategory = typeof STROKES_GAINED_CATEGORIES[number]
+
+export const STROKES_GAINED_CATEGORY_LABELS: Record<StrokesGainedCategory, string> = {
+  OFF_THE_TEE: 'Off the Tee',
+  APPROACH: 'Approach',
+  AROUND_THE_GREEN: 'Around the Green',
+  PUTTING: 'Putting',
+}
+
+/**
+ * Shots from within this many yards of the hole, off the green, are around the green
+ */
+export const AROUND_THE_GREEN_YARDS = 30
+
+export interface ShotData {
+  lie: ShotLie
+  distance: number // Yards to the hole, or feet on the green
+  result: ShotResult
+}
+
+export interface StrokesGained {
+  total: number
+  byCategory: Record<StrokesGainedCategory, number>
+}
+
+/**
+ * Expected putts to hole out by first-putt distance in feet (PGA Tour averages)
+ * Distances between entries are interpolated; shorter or longer putts use the nearest entry.
+ */
+export const PUTTING_BASELINE: ReadonlyArray<readonly [feet: number, expectedPutts: number]> = [
+  [1, 1.0],
+  [2, 1.01],
+  [3, 1.04],
+  [4, 1.13],
+  [5, 1.23],
+  [6, 1.34],
+  [7, 1.42],
+  [8, 1.5],
+  [9, 1.56],
+  [10, 1.61],
+  [15, 1.78],
+  [20, 1.87],
+  [30, 1.98],
+  [40, 2.06],
+  [50, 2.14],
+  [60, 2.21],
+  [90, 2.4],
+]
+
+type Baseline = ReadonlyArray<readonly [distance: number, expectedStrokes: number]>
+
+/**
+ * Expected strokes to hole out by lie and distance in yards (PGA Tour averages)
+ */
+export const SHOT_BASELINES: Record<Exclude<ShotLie, 'GREEN'>, Baseline> = {
+  TEE: [
+    [100, 2.92], [120, 2.99], [140, 2.97], [160, 2.99], [180, 3.05], [200, 3.12],
+    [220, 3.17], [240, 3.25], [260, 3.45], [280, 3.65], [300, 3.71], [320, 3.79],
+    [340, 3.86], [360, 3.92], [380, 3.96], [400, 3.99], [420, 4.02], [440, 4.08],
+    [460, 4.17], [480, 4.28], [500, 4.41], [520, 4.54], [540, 4.65], [560, 4.74],
+    [580, 4.79], [600, 4.82],
+  ],
+  FAIRWAY: [
+    [10, 2.18], [20, 2.4], [40, 2.6], [60, 2.7], [80, 2.75], [100, 2.8], [120, 2.85],
+    [140, 2.91], [160, 2.98], [180, 3.08], [200, 3.19], [220, 3.32], [240, 3.45],
+    [260, 3.58], [280, 3.69], [300, 3.78],
+  ],
+  ROUGH: [
+    [10, 2.34], [20, 2.59], [40, 2.78], [60, 2.91], [80, 2.96], [100, 3.02], [120, 3.08],
+    [140, 3.15], [160, 3.23], [180, 3.31], [200, 3.42], [220, 3.53], [240, 3.64],
+    [260, 3.74], [280, 3.83], [300, 3.9],
+  ],
+  SAND: [
+    [10, 2.43], [20, 2.53], [40, 2.82], [60, 3.15], [80, 3.24], [100, 3.23], [120, 3.21],
+    [140, 3.22], [160, 3.28], [180, 3.4], [200, 3.55], [220, 3.7], [240, 3.84],
+    [260, 3.93], [280, 4.0], [300, 4.04],
+  ],
+  RECOVERY: [
+    [100, 3.8], [120, 3.78], [140, 3.8], [160, 3.81], [180, 3.82], [200, 3.87],
+    [220, 3.92], [240, 3.97], [260, 4.03], [280, 4.1], [300, 4.2],
+  ],
+}
+
+/**
+ * First-putt distance buckets for make percentages, from minFeet up to but not including maxFeet
+ */
+export const PUTT_DISTANCE_BUCKETS = [
+  { label: '0-3 ft', minFeet: 0, maxFeet: 3 },
+  { label: '3-6 ft', minFeet: 3, maxFeet: 6 },
+  { label: '6-10 ft', minFeet: 6, maxFeet: 10 },
+  { label: '10-20 ft', minFeet: 10, maxFeet: 20 },
+  { label: '20+ ft', minFeet: 20, maxFeet: Infinity },
+] as const
+
+export interface PuttingHole {
+  putts: number
+  firstPuttDistance?: number | null // Feet
+}
+
+export interface PuttingBucketStats {
+  label: string
+  attempts: number
+  made: number
+  makePercentage: number
+  strokesGained: number
+}
+
+export interface PuttingStats {
+  holes: number // Holes with a first-putt distance
+  strokesGained: number
+  buckets: PuttingBucketStats[]
+}
+
+export function metersToFeet(meters: number): number {
+  return meters * FEET_PER_METER
+}
+
+export function feetToMeters(feet: number): number {
+  return feet / FEET_PER_METER
+}
+
+function interpolate(baseline: Baseline, distance: number): number {
+  const first = baseline[0]
+  const last = baseline[baseline.length - 1]
+
+  if (distance <= first[0]) return first[1]
+  if (distance >= last[0]) return last[1]
+
+  const upper = baseline.findIndex(([d]) => d >= distance)
+  const [lowDistance, lowStrokes] = baseline[upper - 1]
+  const [highDistance, highStrokes] = baseline[upper]
+
+  return lowStrokes + ((distance - lowDistance) / (highDistance - lowDistance)) * (highStrokes - lowStrokes)
+}
+
+/**
+ * Expected putts to hole out from a first-putt distance in feet
+ */
+export function getExpectedPutts(distanceFeet: number): number {
+  return interpolate(PUTTING_BASELINE, distanceFeet)
+}
+
+/**
+ * Expected strokes to hole out from a lie, in yards, or feet on the green
+ */
+export function getExpectedStrokes(lie: ShotLie, distance: number): number {
+  return lie === 'GREEN' ? getExpectedPutts(distance) : interpolate(SHOT_BASELINES[lie], distance)
+}
+
+/**
+ * The strokes-gained category of a shot
+ * Tee shots on par 3s are approaches.
+ */
+export function getStrokesGainedCategory(shot: ShotData, par: number): StrokesGainedCategory {
+  if (shot.lie === 'GREEN') return 'PUTTING'
+  if (shot.lie === 'TEE' && par > 3) return 'OFF_THE_TEE'
+  return shot.distance <= AROUND_THE_GREEN_YARDS ? 'AROUND_THE_GREEN' : 'APPROACH'
+}
+
+function emptyByCategory(): Record<StrokesGainedCategory, number> {
+  return { OFF_THE_TEE: 0, APPROACH: 0, AROUND_THE_GREEN: 0, PUTTING: 0 }
+}
+
+function roundStrokesGained({ total, byCategory }: StrokesGained): StrokesGained {
+  const round = (value: number) => Math.round(value * 100) / 100
+  return {
+    total: round(total),
+    byCategory: Object.fromEntries(
+      STROKES_GAINED_CATEGORIES.map((category) => [category, round(byCategory[category])])
+    ) as Record<StrokesGainedCategory, number>,
+  }
+}
+
+// Each shot gains the drop in expected strokes less the stroke taken, and any penalty stroke
+function sumHoleStrokesGained(par: number, shots: ShotData[]): StrokesGained | null {
+  if (shots.length === 0 || shots[shots.length - 1].result !== 'HOLED') {
+    return null
+  }
+
+  const byCategory = emptyByCategory()
+  let total = 0
+
+  shots.forEach((shot, index) => {
+    const next = shots[index + 1]
+    const expectedAfter = next ? getExpectedStrokes(next.lie, next.distance) : 0
+    const strokesGained = getExpectedStrokes(shot.lie, shot.distance) - expectedAfter - 1 - (shot.result === 'PENALTY' ? 1 : 0)
+
+    byCategory[getStrokesGainedCategory(shot, par)] += strokesGained
+    total += strokesGained
+  })
+
+  return { total, byCategory }
+}
+
+/**
+ * Strokes gained on a hole's shots, or null unless the last shot was holed
+ */
+export function calculateHoleStrokesGained(par: number, shots: ShotData[]): StrokesGained | null {
+  const strokesGained = sumHoleStrokesGained(par, shots)
+  return strokesGained && roundStrokesGained(strokesGained)
+}
+
+/**
+ * Strokes gained over the holes with a complete shot record
+ */
+export function calculateStrokesGained(holes: Array<{ par: number; shots?: ShotData[] | null }>): StrokesGained & { holes: number } {
+  const byCategory = emptyByCategory()
+  let total = 0
+  let trackedHoles = 0
+
+  for (const hole of holes) {
+    const holeStrokesGained = hole.shots ? sumHoleStrokesGained(hole.par, hole.shots) : null
+    if (!holeStrokesGained) continue
+
+    trackedHoles++
+    total += holeStrokesGained.total
+    for (const category of STROKES_GAINED_CATEGORIES) {
+      byCategory[category] += holeStrokesGained.byCategory[category]
+    }
+  }
+
+  return { holes: trackedHoles, ...roundStrokesGained({ total, byCategory }) }
+}
+
+/**
+ * Strokes gained on one hole's putts: positive when fewer putts were needed than expected
+ */
+export function calculateStrokesGainedPutting(distanceFeet: number, putts: number): number {
+  return getExpectedPutts(distanceFeet) - putts
+}
+
+/**
+ * Strokes gained and make percentages by distance for holes with a first-putt distance
+ * Holes without a distance, or holed from off the green, are left out.
+ */
+export function calculatePuttingStats(holes: PuttingHole[]): PuttingStats {
+  const buckets = PUTT_DISTANCE_BUCKETS.map((bucket) => ({
+    label: bucket.label,
+    attempts: 0,
+    made: 0,
+    makePercentage: 0,
+    strokesGained: 0,
+  }))
+  let puttingHoles = 0
+  let strokesGained = 0
+
+  for (const hole of holes) {
+    const distance = hole.firstPuttDistance
+    if (distance == null || hole.putts === 0) continue
+
+    const holeStrokesGained = calculateStrokesGainedPutting(distance, hole.putts)
+    puttingHoles++
+    strokesGained += holeStrokesGained
+
+    const bucket = buckets[PUTT_DISTANCE_BUCKETS.findIndex(
+      ({ minFeet, maxFeet }) => distance >= minFeet && distance < maxFeet
+    )]
+    bucket.attempts++
+    bucket.strokesGained += holeStrokesGained
+    if (hole.putts === 1) {
+      bucket.made++
+    }
+  }
+
+  return {
+    holes: puttingHoles,
+    strokesGained: Math.round(strokesGained * 100) / 100,
+    buckets: buckets.map((bucket) => ({
+      ...bucket,
+      makePercentage: bucket.attempts > 0 ? Math.round((bucket.made / bucket.attempts) * 1000) / 10 : 0,
+      strokesGained: Math.round(bucket.strokesGained * 100) / 100,
+    })),
+  }
+}
@@ -1,10 +1,15 @@
 import { z } from 'zod'
+import { SCORE_TYPES, PLAY_FORMATS } from '@/lib/handicap-calculator'
+import { FAIRWAY_RESULTS, GREEN_RESULTS, PENALTY_TYPES } from '@/lib/golf-calculator'
+import { SHOT_LIES, SHOT_RESULTS } from '@/lib/strokes-gained'
 
 export const userSchema = z.object({
   email: z.string().email('Invalid email address'),
   name: z.string().min(1, 'Name is required'),
-  handicapIndex: z.number().optional().nullable(),
-  rounds: z.number().int().nonnegative().optional(),
+  // Plus handicaps are stored as negative values
+  handicapIndex: z.number().min(-10, 'Handicap index cannot be better than +10.0').max(54, 'Handicap index cannot exceed 54.0').optional().nullable(),
+  handicapIndexOverride: z.boolean().optional(), // Keep a hand-entered index instead of recalculating it
+  // No round count: it is always derived from the user's rounds
 })
 
 export const updateUserSchema = userSchema.partial()
@@ -12,9 +17,49 @@ export const updateUserSchema = userSchema.partial()
 export type UserInput = z.infer<typeof userSchema>
 export type UpdateUserInput = z.infer<typeof updateUserSchema>
 
+// Matches HoleData in lib/golf-calculator.ts
+export const shotSchema = z.object({
+  lie: z.enum(SHOT_LIES),
+  distance: z.number().positive('Distance must be greater than 0').max(700), // Yards, or feet on the green
+  result: z.enum(SHOT_RESULTS),
+})
+
+export const holeDataSchema = z.object({
+  holeNumber: z.number().int().min(1).max(18),
+  par: z.number().int().min(3, 'Par must be between 3 and 6').max(6, 'Par must be between 3 and 6'),
+  score: z.number().int().min(1, 'Score must be at least 1'),
+  putts: z.number().int().min(0, 'Putts cannot be negative'),
+  // Blank values may arrive as null; HoleData leaves them undefined
+  firstPuttDistance: z.number().positive().max(300).nullish().transform((value) => value ?? undefined), // Feet
+  fairwayHit: z.boolean().nullish().transform((value) => value ?? undefined), // Not tracked on par 3s
+  fairwayResult: z.enum(FAIRWAY_RESULTS).nullish().transform((value) => value ?? undefined), // Takes precedence over fairwayHit
+  yardage: z.number().int().positive().nullish().transform((value) => value ?? undefined),
+  handicap: z.number().int().min(1).max(18).nullish().transform((value) => value ?? undefined), // Stroke index
+  penalties: z.number().int().min(0).optional(),
+  penaltyType: z.enum(PENALTY_TYPES).nullish().transform((value) => value ?? undefined),
+  greensideBunker: z.boolean().optional(),
+  sandSave: z.boolean().optional(),
+  greenResult: z.enum(GREEN_RESULTS).nullish().transform((value) => value ?? undefined), // GIR is estimated when not recorded
+  shots: z.array(shotSchema).optional(),
+}).refine((hole) => hole.putts <= hole.score, {
+  message: 'Putts cannot exceed score',
+  path: ['putts'],
+}).refine((hole) => !hole.sandSave || hole.greensideBunker, {
+  message: 'A sand save needs a greenside bunker',
+  path: ['sandSave'],
+}).refine((hole) => !hole.shots?.length || (
+  hole.shots.findIndex((shot) => shot.result === 'HOLED') === hole.shots.length - 1 &&
+  hole.shots.length + hole.shots.filter((shot) => shot.result === 'PENALTY').length === hole.score
+), {
+  message: 'Shots must end with the ball holed and add up to the score, counting penalty strokes',
+  path: ['shots'],
+})
+
 export const roundSchema = z.object({
   userId: z.number().int().positive('User ID is required'),
   courseName: z.string().min(1, 'Course name is required'),
+  teeSetId: z.number().int().positive().optional().nullable(), // Catalog tee; its name and ratings replace the ones sent
+  nineHoleSide: z.enum(['front', 'back']).optional(), // Nine played on an 18-hole tee; not stored
   datePlayed: z.string().datetime('Invalid date format').or(z.date()),
   score: z.number().int().positive('Score must be a positive number'),
   holes: z.number().int().refine((val) => val === 9 || val === 18, {
@@ -23,6 +68,9 @@ export const roundSchema = z.object({
   courseRating: z.number().positive().optional().nullable(),
   slopeRating: z.number().int().positive().optional().nullable(),
   notes: z.string().optional().nullable(),
+  scoreType: z.enum(SCORE_TYPES).optional(),
+  playFormat: z.enum(PLAY_FORMATS).optional(),
+  holesPlayed: z.number().int().min(1).max(18).optional().nullable(), // Omit when every hole was played
   // Golf statistics
   greensInRegulation: z.number().int().min(0).max(18).optional().nullable(),
   fairwaysInRegulation: z.number().int().min(0).max(14).optional().nullable(),
@@ -32,11 +80,112 @@ export const roundSchema = z.object({
   girPutts: z.number().int().min(0).optional().nullable(),
   nonGirPutts: z.number().int().min(0).optional().nullable(),
   underGIR: z.number().int().min(0).max(18).optional().nullable(),
-  holeByHoleData: z.any().optional().nullable(), // JSON data
+  holeByHoleData: z.array(holeDataSchema).max(18).refine(
+    (holes) => new Set(holes.map((hole) => hole.holeNumber)).size === holes.length,
+    { message: 'Each hole can only be entered once' }
+  ).optional().nullable(), // Stored as HoleScore rows
+  adjustedGrossScore: z.number().int().positive().optional().nullable(), // Calculated automatically
   handicapDifferential: z.number().optional().nullable(), // Calculated automatically
 })
 
 export const updateRoundSchema = roundSchema.partial()
 
+export type HoleDataInput = z.infer<typeof holeDataSchema>
 export type RoundInput = z.infer<typeof roundSchema>
 export type UpdateRoundInput = z.infer<typeof updateRoundSchema>
+
+export const courseHandicapQuerySchema = z.object({
+  courseRating: z.coerce.number().positive('Course rating is required'),
+  slopeRating: z.coerce.number().int().min(55).max(155),
+  par: z.coerce.number().int().positive('Par is required'),
+  format: z.enum(['stroke-play', 'four-ball-stroke-play', 'match-play', 'four-ball-match-play', 'foursomes']).optional(),
+  allowance: z.coerce.number().min(0).max(100).optional(), // Overrides the format's allowance
+  handicapIndex: z.coerce.number().min(-10).max(54).optional(), // Defaults to the user's index
+  userId: z.coerce.number().int().positive().optional(), // Defaults to the current user
+})
+
+export type CourseHandicapQuery = z.infer<typeof courseHandicapQuerySchema>
+
+export const handicapHistoryQuerySchema = z.object({
+  asOf: z.coerce.date().optional(), // Also return the index in effect on this date
+})
+
+export const handicapSimulationQuerySchema = z.object({
+  courseRating: z.coerce.number().positive('Course rating is required'),
+  slopeRating: z.coerce.number().int().min(55).max(155),
+  score: z.coerce.number().int().positive().optional(), // Score to simulate
+  targetIndex: z.coerce.number().max(54).optional(), // Or find the score needed to reach this index
+  datePlayed: z.coerce.date().optional(), // Defaults to today
+  userId: z.coerce.number().int().positive().optional(), // Defaults to the current user
+}).refine((query) => (query.score === undefined) !== (query.targetIndex === undefined), {
+  message: 'Provide either a score or a target index',
+  path: ['score'],
+})
+
+export type HandicapSimulationQuery = z.infer<typeof handicapSimulationQuerySchema>
+
+export const courseListQuerySchema = z.object({
+  query: z.string().trim().min(1).optional(), // Matches club or course name
+  played: z.enum(['true', 'false']).transform((value) => value === 'true').optional(), // Only courses the user has rounds at
+  status: z.enum(['verified', 'pending']).optional(), // Pending courses are user-entered and not yet reviewed
+  custom: z.enum(['true', 'false']).transform((value) => value === 'true').optional(), // Only courses not from golfcourseapi.com
+})
+
+export type CourseListQuery = z.infer<typeof courseListQuerySchema>
+
+export const teeHoleSchema = z.object({
+  par: z.number().int().min(3, 'Par must be between 3 and 6').max(6, 'Par must be between 3 and 6'),
+  yardage: z.number().int().positive().nullish().transform((value) => value ?? undefined),
+  strokeIndex: z.number().int().min(1).max(18).nullish().transform((value) => value ?? undefined),
+})
+
+// Front and back nine ratings only apply to 18-hole tees
+export const customTeeSetSchema = z.object({
+  name: z.string().trim().min(1, 'Tee name is required'),
+  gender: z.enum(['MALE', 'FEMALE']).nullish().transform((value) => value ?? undefined),
+  courseRating: z.number().positive('Course rating is required'),
+  slopeRating: z.number().int().min(55).max(155),
+  bogeyRating: z.number().positive().nullish().transform((value) => value ?? undefined),
+  frontCourseRating: z.number().positive().nullish().transform((value) => value ?? undefined),
+  frontSlopeRating: z.number().int().min(55).max(155).nullish().transform((value) => value ?? undefined),
+  backCourseRating: z.number().positive().nullish().transform((value) => value ?? undefined),
+  backSlopeRating: z.number().int().min(55).max(155).nullish().transform((value) => value ?? undefined),
+  holes: z.array(teeHoleSchema)
+    .refine((holes) => holes.length === 9 || holes.length === 18, 'A tee must have 9 or 18 holes')
+    .refine((holes) => {
+      const indexes = holes.flatMap((hole) => hole.strokeIndex ?? [])
+      return new Set(indexes).size === indexes.length
+    }, 'Stroke indexes must be unique'),
+})
+
+export const customCourseSchema = z.object({
+  clubName: z.string().trim().min(1, 'Club name is required'),
+  courseName: z.string().trim().optional(), // Defaults to the club name
+  address: z.string().trim().optional(),
+  city: z.string().trim().optional(),
+  state: z.string().trim().optional(),
+  country: z.string().trim().optional(),
+  teeSets: z.array(customTeeSetSchema).min(1, 'At least one tee is required')
+    .refine((tees) => {
+      const keys = tees.map((tee) => `${tee.gender ?? ''}:${tee.name.toLowerCase()}`)
+      return new Set(keys).size === keys.length
+    }, 'Tee names must be unique for each gender'),
+})
+
+export const courseReviewSchema = z.object({
+  verified: z.boolean(),
+})
+
+export const courseMergeSchema = z.object({
+  targetCourseId: z.number().int().positive('Target course is required'), // Course the duplicate is merged into
+})
+
+export const courseFavoriteSchema = z.object({
+  teeSetId: z.number().int().positive().nullish().transform((value) => value ?? null), // Preferred tee at the course
+  gender: z.enum(['MALE', 'FEMALE']).nullish().transform((value) => value ?? null),
+})
+
+export type TeeHoleInput = z.infer<typeof teeHoleSchema>
+export type CustomTeeSetInput = z.infer<typeof customTeeSetSchema>
+export type CustomCourseInput = z.infer<typeof customCourseSchema>
+export type CourseFavoriteInput = z.infer<typeof courseFavoriteSchema>
@@ -24,8 +24,11 @@ export default auth((req) => {
   // Check if it's a test/diagnostic route (public for debugging)
   const isTestRoute = pathname.startsWith('/api/test-')
 
-  // Allow access to public routes, auth routes, and test routes
-  if (isPublicRoute || isAuthRoute || isTestRoute) {
+  // Handicap certificate verification links are opened by committees without an account
+  const isCertificateRoute = pathname.startsWith('/certificates/') || pathname.startsWith('/api/certificates/')
+
+  // Allow access to public routes, auth routes, test routes and certificate links
+  if (isPublicRoute || isAuthRoute || isTestRoute || isCertificateRoute) {
     return NextResponse.next()
   }
 
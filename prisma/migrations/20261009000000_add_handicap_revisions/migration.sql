@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "HandicapRevision" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "handicapIndex" DOUBLE PRECISION NOT NULL,
+    "uncappedHandicapIndex" DOUBLE PRECISION NOT NULL,
+    "lowHandicapIndex" DOUBLE PRECISION,
+    "capApplied" TEXT,
+    "effectiveDate" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "HandicapRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "HandicapRevision_userId_effectiveDate_idx" ON "HandicapRevision"("userId", "effectiveDate");
+
+-- AddForeignKey
+ALTER TABLE "HandicapRevision" ADD CONSTRAINT "HandicapRevision_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
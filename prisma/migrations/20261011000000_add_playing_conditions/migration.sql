@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Round" ADD COLUMN "playingConditionsCalculation" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "Round_courseName_datePlayed_idx" ON "Round"("courseName", "datePlayed");
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "HandicapRevision" ADD COLUMN "scoringRecordSize" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "countingRoundIds" INTEGER[],
+ADD COLUMN "differentialsUsed" DOUBLE PRECISION[];
@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "ScoreType" AS ENUM ('HOME', 'AWAY', 'COMPETITION', 'CASUAL', 'MATCH_PLAY', 'UNACCEPTABLE');
+
+-- CreateEnum
+CREATE TYPE "PlayFormat" AS ENUM ('INDIVIDUAL', 'SCRAMBLE', 'ALTERNATE_SHOT');
+
+-- AlterTable
+ALTER TABLE "Round" ADD COLUMN "scoreType" "ScoreType" NOT NULL DEFAULT 'HOME',
+ADD COLUMN "playFormat" "PlayFormat" NOT NULL DEFAULT 'INDIVIDUAL',
+ADD COLUMN "holesPlayed" INTEGER,
+ADD COLUMN "ineligibleReasons" TEXT[] DEFAULT ARRAY[]::TEXT[];
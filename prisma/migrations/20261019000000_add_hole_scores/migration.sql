@@ -0,0 +1,71 @@
+-- CreateTable
+CREATE TABLE "HoleScore" (
+    "id" SERIAL NOT NULL,
+    "roundId" INTEGER NOT NULL,
+    "holeNumber" INTEGER NOT NULL,
+    "par" INTEGER NOT NULL,
+    "yardage" INTEGER,
+    "strokeIndex" INTEGER,
+    "score" INTEGER NOT NULL,
+    "putts" INTEGER NOT NULL,
+    "fairwayHit" BOOLEAN,
+    "greenInRegulation" BOOLEAN NOT NULL,
+    "penalties" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "HoleScore_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "HoleScore_roundId_holeNumber_key" ON "HoleScore"("roundId", "holeNumber");
+
+-- AddForeignKey
+ALTER TABLE "HoleScore" ADD CONSTRAINT "HoleScore_roundId_fkey" FOREIGN KEY ("roundId") REFERENCES "Round"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill from the hole-by-hole JSON. Holes that were never scored are skipped, and
+-- GIR uses the same heuristic as calculateGIR() in lib/golf-calculator.ts.
+-- Databases that never had the JSON column have nothing to backfill
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'Round' AND column_name = 'holeByHoleData'
+    ) THEN
+        INSERT INTO "HoleScore" ("roundId", "holeNumber", "par", "yardage", "strokeIndex", "score", "putts", "fairwayHit", "greenInRegulation", "penalties")
+        SELECT
+            h."roundId",
+            h."holeNumber",
+            h."par",
+            h."yardage",
+            h."strokeIndex",
+            h."score",
+            h."putts",
+            h."fairwayHit",
+            (h."score" - h."putts" <= h."par" - 2)
+                OR (h."score" = h."par" AND h."putts" >= 2)
+                OR (h."score" < h."par"),
+            h."penalties"
+        FROM (
+            SELECT
+                r."id" AS "roundId",
+                (hole->>'holeNumber')::numeric::int AS "holeNumber",
+                (hole->>'par')::numeric::int AS "par",
+                (hole->>'yardage')::numeric::int AS "yardage",
+                (hole->>'handicap')::numeric::int AS "strokeIndex",
+                (hole->>'score')::numeric::int AS "score",
+                COALESCE((hole->>'putts')::numeric::int, 0) AS "putts",
+                CASE WHEN jsonb_typeof(hole->'fairwayHit') = 'boolean' THEN (hole->>'fairwayHit')::boolean END AS "fairwayHit",
+                COALESCE((hole->>'penalties')::numeric::int, 0) AS "penalties"
+            FROM "Round" r
+            CROSS JOIN LATERAL jsonb_array_elements(
+                CASE WHEN jsonb_typeof(r."holeByHoleData") = 'array' THEN r."holeByHoleData" ELSE '[]'::jsonb END
+            ) AS hole
+        ) h
+        WHERE h."holeNumber" IS NOT NULL
+          AND h."par" IS NOT NULL
+          AND h."score" > 0
+        ON CONFLICT ("roundId", "holeNumber") DO NOTHING;
+    END IF;
+END $$;
+
+-- AlterTable
+ALTER TABLE "Round" DROP COLUMN IF EXISTS "holeByHoleData";
@@ -0,0 +1,187 @@
+-- CreateEnum
+CREATE TYPE "TeeGender" AS ENUM ('MALE', 'FEMALE');
+
+-- AlterTable
+ALTER TABLE "Round" ADD COLUMN "teeSetId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "Course" (
+    "id" SERIAL NOT NULL,
+    "externalId" INTEGER,
+    "clubName" TEXT NOT NULL,
+    "courseName" TEXT NOT NULL,
+    "address" TEXT,
+    "city" TEXT,
+    "state" TEXT,
+    "country" TEXT,
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Course_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TeeSet" (
+    "id" SERIAL NOT NULL,
+    "courseId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "gender" "TeeGender",
+    "courseRating" DOUBLE PRECISION,
+    "slopeRating" INTEGER,
+    "bogeyRating" DOUBLE PRECISION,
+    "totalYards" INTEGER,
+    "totalMeters" INTEGER,
+    "numberOfHoles" INTEGER NOT NULL DEFAULT 18,
+    "parTotal" INTEGER,
+    "frontCourseRating" DOUBLE PRECISION,
+    "frontSlopeRating" INTEGER,
+    "frontBogeyRating" DOUBLE PRECISION,
+    "backCourseRating" DOUBLE PRECISION,
+    "backSlopeRating" INTEGER,
+    "backBogeyRating" DOUBLE PRECISION,
+
+    CONSTRAINT "TeeSet_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TeeHole" (
+    "id" SERIAL NOT NULL,
+    "teeSetId" INTEGER NOT NULL,
+    "holeNumber" INTEGER NOT NULL,
+    "par" INTEGER NOT NULL,
+    "yardage" INTEGER,
+    "strokeIndex" INTEGER,
+
+    CONSTRAINT "TeeHole_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Round_teeSetId_idx" ON "Round"("teeSetId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Course_externalId_key" ON "Course"("externalId");
+
+-- CreateIndex
+CREATE INDEX "Course_clubName_idx" ON "Course"("clubName");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TeeSet_courseId_name_gender_key" ON "TeeSet"("courseId", "name", "gender");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TeeHole_teeSetId_holeNumber_key" ON "TeeHole"("teeSetId", "holeNumber");
+
+-- AddForeignKey
+ALTER TABLE "Round" ADD CONSTRAINT "Round_teeSetId_fkey" FOREIGN KEY ("teeSetId") REFERENCES "TeeSet"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TeeSet" ADD CONSTRAINT "TeeSet_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "Course"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TeeHole" ADD CONSTRAINT "TeeHole_teeSetId_fkey" FOREIGN KEY ("teeSetId") REFERENCES "TeeSet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill the catalog from existing rounds. Free-text course names are matched on a
+-- normalized key, so "Pebble Beach" and "Pebble Beach Golf Links - Pebble Beach" (the
+-- "<club> - <course>" form GolfCourseSearch writes) become one course.
+
+-- Lowercase, drop punctuation and generic words like "Golf Club", collapse spaces
+CREATE FUNCTION pg_temp.normalize_course_name(name TEXT) RETURNS TEXT AS $$
+    SELECT btrim(regexp_replace(
+        regexp_replace(
+            regexp_replace(lower(replace(name, '&', ' and ')), '[^a-z0-9 ]', ' ', 'g'),
+            '\m(the|golf|links|club|country|course|resort|gc|cc|and)\M', ' ', 'g'
+        ),
+        '\s+', ' ', 'g'
+    ))
+$$ LANGUAGE SQL IMMUTABLE;
+
+-- The course part of "<club> - <course>" is only kept when it names a different
+-- layout than the club, e.g. "Pinehurst Resort - No. 2"
+CREATE FUNCTION pg_temp.course_match_key(name TEXT) RETURNS TEXT AS $$
+    SELECT CASE
+        WHEN club = '' THEN lower(btrim(name))
+        WHEN layout = '' OR position(layout IN club) > 0 OR position(club IN layout) > 0 THEN club
+        ELSE club || ' ' || layout
+    END
+    FROM (
+        SELECT
+            pg_temp.normalize_course_name(split_part(name, ' - ', 1)) AS club,
+            pg_temp.normalize_course_name(substr(name, length(split_part(name, ' - ', 1)) + 1)) AS layout
+    ) parts
+$$ LANGUAGE SQL IMMUTABLE;
+
+CREATE TEMP TABLE "RoundCourseKey" AS
+SELECT
+    r."id" AS "roundId",
+    r."courseName",
+    pg_temp.course_match_key(r."courseName") AS "courseKey",
+    r."holes",
+    r."courseRating",
+    r."slopeRating"
+FROM "Round" r;
+
+-- One course per key, named after its most used spelling (the longest on a tie)
+CREATE TEMP TABLE "CourseKey" AS
+SELECT
+    "courseKey",
+    nextval(pg_get_serial_sequence('"Course"', 'id'))::INTEGER AS "courseId",
+    "courseName"
+FROM (
+    SELECT DISTINCT ON ("courseKey") "courseKey", "courseName"
+    FROM "RoundCourseKey"
+    GROUP BY "courseKey", "courseName"
+    ORDER BY "courseKey", count(*) DESC, length("courseName") DESC
+) names;
+
+INSERT INTO "Course" ("id", "clubName", "courseName", "updatedAt")
+SELECT
+    "courseId",
+    btrim(split_part("courseName", ' - ', 1)),
+    COALESCE(
+        NULLIF(btrim(substr("courseName", length(split_part("courseName", ' - ', 1)) + 4)), ''),
+        btrim(split_part("courseName", ' - ', 1))
+    ),
+    CURRENT_TIMESTAMP
+FROM "CourseKey";
+
+-- One tee per distinct set of ratings played at the course; unrated rounds share an "Unrated" tee
+CREATE TEMP TABLE "TeeKey" AS
+SELECT
+    nextval(pg_get_serial_sequence('"TeeSet"', 'id'))::INTEGER AS "teeSetId",
+    tees.*
+FROM (
+    SELECT DISTINCT c."courseId", rck."holes", rck."courseRating", rck."slopeRating"
+    FROM "RoundCourseKey" rck
+    JOIN "CourseKey" c ON c."courseKey" = rck."courseKey"
+) tees;
+
+INSERT INTO "TeeSet" ("id", "courseId", "name", "courseRating", "slopeRating", "numberOfHoles")
+SELECT
+    "teeSetId",
+    "courseId",
+    CASE
+        WHEN "courseRating" IS NULL OR "slopeRating" IS NULL THEN 'Unrated'
+        ELSE 'Rating ' || "courseRating" || ' / Slope ' || "slopeRating"
+    END || CASE WHEN "holes" = 9 THEN ' (9 holes)' ELSE '' END
+        || CASE
+            -- Keep names unique when a rating or slope is missing on only some rounds
+            WHEN ("courseRating" IS NULL) <> ("slopeRating" IS NULL)
+                THEN ' #' || "teeSetId"
+            ELSE ''
+        END,
+    "courseRating",
+    "slopeRating",
+    "holes"
+FROM "TeeKey";
+
+UPDATE "Round" r
+SET "teeSetId" = t."teeSetId"
+FROM "RoundCourseKey" rck
+JOIN "CourseKey" c ON c."courseKey" = rck."courseKey"
+JOIN "TeeKey" t
+    ON t."courseId" = c."courseId"
+    AND t."holes" = rck."holes"
+    AND t."courseRating" IS NOT DISTINCT FROM rck."courseRating"
+    AND t."slopeRating" IS NOT DISTINCT FROM rck."slopeRating"
+WHERE r."id" = rck."roundId";
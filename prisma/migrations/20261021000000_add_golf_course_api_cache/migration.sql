@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "GolfCourseApiCache" (
+    "key" TEXT NOT NULL,
+    "data" JSONB NOT NULL,
+    "fetchedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GolfCourseApiCache_pkey" PRIMARY KEY ("key")
+);
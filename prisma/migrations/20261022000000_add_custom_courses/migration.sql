@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Course" ADD COLUMN "createdById" INTEGER,
+ADD COLUMN "verified" BOOLEAN NOT NULL DEFAULT false;
+
+-- Courses imported from golfcourseapi.com are verified
+UPDATE "Course" SET "verified" = true WHERE "externalId" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Course_createdById_idx" ON "Course"("createdById");
+
+-- AddForeignKey
+ALTER TABLE "Course" ADD CONSTRAINT "Course_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "GreenResult" AS ENUM ('HIT', 'FRINGE', 'MISSED_LEFT', 'MISSED_RIGHT', 'MISSED_SHORT', 'MISSED_LONG');
+
+-- AlterTable
+ALTER TABLE "HoleScore" ADD COLUMN "greenResult" "GreenResult";
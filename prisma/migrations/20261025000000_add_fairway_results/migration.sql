@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "FairwayResult" AS ENUM ('HIT', 'LEFT', 'RIGHT', 'SHORT', 'PENALTY');
+
+-- AlterTable
+ALTER TABLE "HoleScore" ADD COLUMN "fairwayResult" "FairwayResult";
@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "PenaltyType" AS ENUM ('WATER', 'OUT_OF_BOUNDS', 'UNPLAYABLE');
+
+-- AlterTable
+ALTER TABLE "HoleScore" ADD COLUMN "penaltyType" "PenaltyType",
+ADD COLUMN "greensideBunker" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "sandSave" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "HoleScore" ADD COLUMN "firstPuttDistance" DOUBLE PRECISION;
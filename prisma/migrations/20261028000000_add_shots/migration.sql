@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "ShotLie" AS ENUM ('TEE', 'FAIRWAY', 'ROUGH', 'SAND', 'RECOVERY', 'GREEN');
+
+-- CreateEnum
+CREATE TYPE "ShotResult" AS ENUM ('IN_PLAY', 'HOLED', 'PENALTY');
+
+-- CreateTable
+CREATE TABLE "Shot" (
+    "id" SERIAL NOT NULL,
+    "holeScoreId" INTEGER NOT NULL,
+    "shotNumber" INTEGER NOT NULL,
+    "lie" "ShotLie" NOT NULL,
+    "distance" DOUBLE PRECISION NOT NULL,
+    "result" "ShotResult" NOT NULL,
+
+    CONSTRAINT "Shot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Shot_holeScoreId_shotNumber_key" ON "Shot"("holeScoreId", "shotNumber");
+
+-- AddForeignKey
+ALTER TABLE "Shot" ADD CONSTRAINT "Shot_holeScoreId_fkey" FOREIGN KEY ("holeScoreId") REFERENCES "HoleScore"("id") ON DELETE CASCADE ON UPDATE CASCADE;
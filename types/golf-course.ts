@@ -10,6 +10,8 @@ export interface GolfCourseSearchResult {
   location: {
     address: string
   }
+  custom?: boolean // Entered by a user; id is the catalog course ID
+  verified?: boolean // Set for custom courses
 }
 
 export interface GolfCourseLocation {
@@ -43,6 +45,7 @@ export interface GolfCourseTee {
   back_slope_rating: number
   back_bogey_rating: number
   holes: GolfCourseHole[]
+  tee_set_id?: number // Local catalog tee, added once the course is stored
 }
 
 export interface GolfCourseDetails {
@@ -54,8 +57,24 @@ export interface GolfCourseDetails {
     female: GolfCourseTee[]
     male: GolfCourseTee[]
   }
+  catalog_id?: number // Local catalog course, added once the course is stored
 }
 
 export interface GolfCourseSearchResponse {
   courses: GolfCourseSearchResult[]
 }
+
+/**
+ * A course and tee the user can pick without searching: a favorite or a recently played tee
+ */
+export interface CourseQuickPick {
+  course: GolfCourseDetails
+  teeSetId: number | null // Preferred or last played tee
+  gender: 'male' | 'female'
+  lastPlayed?: string // Recently played tees only
+}
+
+export interface CourseQuickPicksResponse {
+  favorites: CourseQuickPick[]
+  recent: CourseQuickPick[]
+}